@@ -7,6 +7,8 @@ import { DevicesPage } from '@/pages/DevicesPage'
 import { MembersPage } from '@/pages/MembersPage'
 import { SessionsPage } from '@/pages/SessionsPage'
 import { TransactionsPage } from '@/pages/TransactionsPage'
+import { ReportsPage } from '@/pages/ReportsPage'
+import { ShiftsPage } from '@/pages/ShiftsPage'
 import { SettingsPage } from '@/pages/SettingsPage'
 import { LoginPage } from '@/pages/LoginPage'
 import { KioskPage } from '@/pages/KioskPage'
@@ -71,6 +73,8 @@ function App() {
             <Route path="/members" element={<MembersPage />} />
             <Route path="/sessions" element={<SessionsPage />} />
             <Route path="/transactions" element={<TransactionsPage />} />
+            <Route path="/reports" element={<ReportsPage />} />
+            <Route path="/shifts" element={<ShiftsPage />} />
             <Route path="/kiosk" element={<KioskPage />} />
             <Route path="/settings" element={<SettingsPage />} />
           </Route>
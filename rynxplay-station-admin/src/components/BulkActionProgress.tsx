@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { useAppStore } from '@/stores/appStore'
+import { getBatchCommands, subscribeToBatchCommands, unsubscribe } from '@/lib/supabase'
+import { getCommandStatus, getStatusBadge } from '@/lib/utils'
+import type { Device, DeviceCommand } from '@/types'
+
+interface BulkActionProgressProps {
+  batchId: string
+  title: string
+  devices: Device[]
+  onClose: () => void
+}
+
+export function BulkActionProgress({ batchId, title, devices, onClose }: BulkActionProgressProps) {
+  const { devices: allDevices } = useAppStore()
+  const [commands, setCommands] = useState<DeviceCommand[]>([])
+  // Re-render now and then so unclaimed commands show as expired
+  const [, setTick] = useState(0)
+
+  useEffect(() => {
+    getBatchCommands(batchId).then(setCommands)
+
+    const channel = subscribeToBatchCommands(batchId, (command) => {
+      setCommands(prev => {
+        const exists = prev.some(c => c.id === command.id)
+        return exists
+          ? prev.map(c => c.id === command.id ? command : c)
+          : [...prev, command]
+      })
+    })
+
+    const interval = setInterval(() => setTick(t => t + 1), 10000)
+
+    return () => {
+      unsubscribe(channel)
+      clearInterval(interval)
+    }
+  }, [batchId])
+
+  // Wake commands run on another PC; show the one being woken
+  const rows = commands.map(command => {
+    const targetId = command.command_type === 'wake_device'
+      ? String(command.payload.target_device_id || command.device_id)
+      : command.device_id
+    return {
+      command,
+      targetId,
+      device: devices.find(d => d.id === targetId),
+      relay: targetId !== command.device_id ? allDevices.find(d => d.id === command.device_id) : undefined,
+      status: getCommandStatus(command.status, command.expires_at)
+    }
+  })
+
+  const count = (status: string) => rows.filter(row => row.status === status).length
+  const waiting = count('pending') + count('sent')
+
+  return (
+    <div className="fixed bottom-6 right-6 w-96 card p-4 shadow-xl z-40 animate-scale-in">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h4 className="font-semibold text-slate-100">{title}</h4>
+          <p className="text-xs text-slate-500">
+            {waiting > 0 ? `Waiting on ${waiting} of ${rows.length} PCs` : `Finished on ${rows.length} PCs`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-center text-sm">
+        <div className="p-2 bg-slate-800/30 rounded-lg">
+          <p className="text-emerald-400 font-semibold">{count('executed')}</p>
+          <p className="text-xs text-slate-500">Acknowledged</p>
+        </div>
+        <div className="p-2 bg-slate-800/30 rounded-lg">
+          <p className="text-red-400 font-semibold">{count('failed') + count('expired')}</p>
+          <p className="text-xs text-slate-500">Failed</p>
+        </div>
+        <div className="p-2 bg-slate-800/30 rounded-lg">
+          <p className="text-amber-400 font-semibold">{waiting}</p>
+          <p className="text-xs text-slate-500">Waiting</p>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {rows.map(({ command, targetId, device, relay, status }) => (
+          <div key={command.id} className="flex items-center justify-between gap-3 px-3 py-2 bg-slate-800/30 rounded-lg text-sm">
+            <div className="min-w-0">
+              <p className="text-slate-200 truncate">{device?.name || targetId}</p>
+              {relay && (
+                <p className="text-xs text-slate-500 truncate">via {relay.name}</p>
+              )}
+              {command.error_message && (
+                <p className="text-xs text-red-400 truncate">{command.error_message}</p>
+              )}
+              {status === 'expired' && (
+                <p className="text-xs text-slate-500">PC didn't pick it up in time</p>
+              )}
+            </div>
+            <span className={`badge ${getStatusBadge(status)} shrink-0`}>{status}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
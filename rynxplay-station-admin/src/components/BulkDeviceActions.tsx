@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react'
+import { Lock, MessageSquare, RefreshCw, Power, Tag, GitBranch, X, Zap } from 'lucide-react'
+import { Modal } from './Modal'
+import { BulkActionProgress } from './BulkActionProgress'
+import { useAppStore } from '@/stores/appStore'
+import { dispatchBulkDeviceAction, getRates, wakeDevices } from '@/lib/supabase'
+import { hasPermission } from '@/lib/permissions'
+import type { BulkDeviceAction, BulkDeviceActionError, Device, Rate } from '@/types'
+
+interface BulkDeviceActionsProps {
+  devices: Device[]
+  onClear: () => void
+}
+
+interface BulkBatch {
+  id: string
+  title: string
+  devices: Device[]
+}
+
+const actionLabels: Record<BulkDeviceAction, string> = {
+  lock: 'Lock',
+  message: 'Message',
+  restart: 'Restart',
+  shutdown: 'Shutdown',
+  assign_rate: 'Assign rate',
+  move_branch: 'Move branch',
+  wake: 'Wake'
+}
+
+const errorMessages: Record<BulkDeviceActionError, string> = {
+  not_authorized: 'Only admins can do this',
+  device_not_found: 'Some of the selected devices no longer exist',
+  rate_not_in_branch: 'The rate must belong to the branch of every selected PC',
+  branch_not_found: 'Branch not found',
+  device_in_use: 'PCs with a running session can\'t be moved',
+  failed: 'Failed to send the action'
+}
+
+export function BulkDeviceActions({ devices, onClear }: BulkDeviceActionsProps) {
+  const { staff, branches, activeSessions, addToast, fetchDevices } = useAppStore()
+  const [action, setAction] = useState<BulkDeviceAction | null>(null)
+  const [message, setMessage] = useState('')
+  const [targetBranch, setTargetBranch] = useState('')
+  const [targetRate, setTargetRate] = useState('')
+  const [rates, setRates] = useState<Rate[]>([])
+  const [batch, setBatch] = useState<BulkBatch | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const branchIds = [...new Set(devices.map(d => d.branch_id))]
+  // A rate belongs to one branch, so it can only be assigned within one
+  const sharedBranchId = branchIds.length === 1 ? branchIds[0] : null
+  const rateBranchId = action === 'move_branch' ? targetBranch : sharedBranchId
+
+  useEffect(() => {
+    setTargetRate('')
+    setRates([])
+    if (!rateBranchId || (action !== 'assign_rate' && action !== 'move_branch')) return
+
+    getRates(rateBranchId).then(branchRates => {
+      setRates(branchRates)
+      const defaultRate = branchRates.find(r => r.is_default) || branchRates[0]
+      if (defaultRate) setTargetRate(defaultRate.id)
+    })
+  }, [rateBranchId, action])
+
+  const openAction = (next: BulkDeviceAction) => {
+    setMessage('')
+    setTargetBranch('')
+    setAction(next)
+  }
+
+  const closeAction = () => {
+    setAction(null)
+  }
+
+  const handleDispatch = async () => {
+    if (!action) return
+
+    const payload: Record<string, unknown> =
+      action === 'message' ? { message: message.trim() } :
+      action === 'assign_rate' ? { rate_id: targetRate } :
+      action === 'move_branch' ? { branch_id: targetBranch, rate_id: targetRate } :
+      {}
+
+    setIsLoading(true)
+    const deviceIds = devices.map(d => d.id)
+    const result = action === 'wake'
+      ? await wakeDevices(deviceIds, staff?.id)
+      : await dispatchBulkDeviceAction(deviceIds, action, payload, staff?.id)
+
+    if (result.success && result.batchId) {
+      setBatch({
+        id: result.batchId,
+        title: `${actionLabels[action]} • ${devices.length} PC${devices.length > 1 ? 's' : ''}`,
+        devices
+      })
+      if (action === 'assign_rate' || action === 'move_branch') fetchDevices()
+      setAction(null)
+      onClear()
+    } else {
+      addToast('error', errorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+
+  const canShutdown = hasPermission(staff, 'devices.shutdown')
+  const canManageRates = hasPermission(staff, 'rates.manage')
+  const canMoveBranch = hasPermission(staff, 'settings.manage')
+  // PCs running or holding a paused session can't change branch
+  const inUseCount = devices.filter(d => activeSessions.some(s => s.device_id === d.id)).length
+
+  const canSubmit =
+    action === 'message' ? !!message.trim() :
+    action === 'assign_rate' ? !!targetRate :
+    action === 'move_branch' ? !!targetBranch && !!targetRate && inUseCount === 0 :
+    true
+
+  return (
+    <>
+      {devices.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-rynx-500/10 border border-rynx-500/20 rounded-xl">
+          <span className="text-sm font-medium text-rynx-400 mr-2">
+            {devices.length} selected
+          </span>
+          <button onClick={() => openAction('wake')} className="btn-secondary btn-sm">
+            <Zap className="w-4 h-4" />
+            Wake
+          </button>
+          <button onClick={() => openAction('lock')} className="btn-secondary btn-sm">
+            <Lock className="w-4 h-4" />
+            Lock
+          </button>
+          <button onClick={() => openAction('message')} className="btn-secondary btn-sm">
+            <MessageSquare className="w-4 h-4" />
+            Message
+          </button>
+          <button onClick={() => openAction('restart')} className="btn-secondary btn-sm">
+            <RefreshCw className="w-4 h-4" />
+            Restart
+          </button>
+          {canShutdown && (
+            <button onClick={() => openAction('shutdown')} className="btn-danger btn-sm">
+              <Power className="w-4 h-4" />
+              Shutdown
+            </button>
+          )}
+          {canManageRates && (
+            <button
+              onClick={() => openAction('assign_rate')}
+              disabled={!sharedBranchId}
+              title={sharedBranchId ? undefined : 'Select PCs from a single branch'}
+              className="btn-secondary btn-sm"
+            >
+              <Tag className="w-4 h-4" />
+              Assign Rate
+            </button>
+          )}
+          {canMoveBranch && (
+            <button onClick={() => openAction('move_branch')} className="btn-secondary btn-sm">
+              <GitBranch className="w-4 h-4" />
+              Move Branch
+            </button>
+          )}
+          <button onClick={onClear} className="btn-ghost btn-sm ml-auto">
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!action}
+        onClose={closeAction}
+        title={action ? `${actionLabels[action]} ${devices.length} PC${devices.length > 1 ? 's' : ''}` : ''}
+        size="sm"
+      >
+        <div className="space-y-4">
+          {action === 'wake' && (
+            <p className="text-sm text-slate-400">
+              PCs that are off will be woken by another online PC on their branch.
+              This needs Wake-on-LAN enabled in each PC's BIOS.
+            </p>
+          )}
+
+          {(action === 'lock' || action === 'restart' || action === 'shutdown') && (
+            <p className="text-sm text-slate-400">
+              {inUseCount > 0
+                ? `${inUseCount} of the selected PCs have a running session. `
+                : ''}
+              {action === 'lock' && 'Selected PCs will return to the lock screen.'}
+              {action === 'restart' && 'Selected PCs will restart.'}
+              {action === 'shutdown' && 'Selected PCs will shut down.'}
+            </p>
+          )}
+
+          {action === 'message' && (
+            <div>
+              <label className="label">Message</label>
+              <textarea
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                placeholder="Enter your message..."
+                rows={4}
+                className="input resize-none"
+              />
+            </div>
+          )}
+
+          {action === 'move_branch' && (
+            <div>
+              <label className="label">Branch</label>
+              <select
+                value={targetBranch}
+                onChange={e => setTargetBranch(e.target.value)}
+                className="select"
+              >
+                <option value="">Select a branch</option>
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+              {inUseCount > 0 && (
+                <p className="text-xs text-amber-400 mt-1">
+                  End the sessions on {inUseCount} PC{inUseCount > 1 ? 's' : ''} before moving them
+                </p>
+              )}
+            </div>
+          )}
+
+          {(action === 'assign_rate' || (action === 'move_branch' && targetBranch)) && (
+            <div>
+              <label className="label">Rate</label>
+              <select
+                value={targetRate}
+                onChange={e => setTargetRate(e.target.value)}
+                className="select"
+              >
+                <option value="">Select a rate</option>
+                {rates.map(rate => (
+                  <option key={rate.id} value={rate.id}>
+                    {rate.name} - ₱{rate.price_per_unit}/{rate.unit_minutes}min
+                    {rate.is_default ? ' (Default)' : ''}
+                  </option>
+                ))}
+              </select>
+              {action === 'assign_rate' && (
+                <p className="text-xs text-slate-500 mt-1">Running sessions keep the rate they started with</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-800">
+            <button onClick={closeAction} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleDispatch}
+              disabled={!canSubmit || isLoading}
+              className={action === 'shutdown' ? 'btn-danger' : 'btn-primary'}
+            >
+              {isLoading ? 'Sending...' : action ? actionLabels[action] : ''}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {batch && (
+        <BulkActionProgress
+          key={batch.id}
+          batchId={batch.id}
+          title={batch.title}
+          devices={batch.devices}
+          onClose={() => setBatch(null)}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Modal } from './Modal'
+import { useAppStore } from '@/stores/appStore'
+import { getDeviceConfig, saveDeviceConfig } from '@/lib/supabase'
+import {
+  DEFAULT_CLIENT_CONFIG,
+  NUMERIC_CLIENT_CONFIG_FIELDS,
+  resolveClientConfig,
+  validateClientConfig
+} from '@/lib/clientConfig'
+import type { Branch, Device, ClientConfig } from '@/types'
+
+interface ClientConfigModalProps {
+  // Edit a branch's document, or one device's overrides on top of it
+  branch?: Branch | null
+  device?: Device | null
+  onClose: () => void
+}
+
+// Every field is optional; an empty field inherits
+interface ClientConfigForm {
+  blockedShortcuts: string
+  disableTaskManager: '' | 'on' | 'off'
+  numbers: Record<string, string>
+}
+
+const emptyForm: ClientConfigForm = { blockedShortcuts: '', disableTaskManager: '', numbers: {} }
+
+function toForm(config: Partial<ClientConfig>): ClientConfigForm {
+  return {
+    blockedShortcuts: config.blockedShortcuts?.join('\n') || '',
+    disableTaskManager: config.disableTaskManager === undefined ? '' : config.disableTaskManager ? 'on' : 'off',
+    numbers: Object.fromEntries(
+      NUMERIC_CLIENT_CONFIG_FIELDS
+        .filter(field => config[field.key] !== undefined)
+        .map(field => [field.key, String(config[field.key])])
+    )
+  }
+}
+
+function fromForm(form: ClientConfigForm): Partial<ClientConfig> {
+  const config: Partial<ClientConfig> = {}
+
+  const shortcuts = form.blockedShortcuts.split('\n').map(s => s.trim()).filter(Boolean)
+  if (shortcuts.length > 0) config.blockedShortcuts = shortcuts
+
+  if (form.disableTaskManager) config.disableTaskManager = form.disableTaskManager === 'on'
+
+  for (const field of NUMERIC_CLIENT_CONFIG_FIELDS) {
+    const value = form.numbers[field.key]?.trim()
+    if (value) config[field.key] = Number(value)
+  }
+
+  return config
+}
+
+export function ClientConfigModal({ branch, device, onClose }: ClientConfigModalProps) {
+  const { staff, addToast } = useAppStore()
+  const [form, setForm] = useState<ClientConfigForm>(emptyForm)
+  const [inherited, setInherited] = useState<ClientConfig>(DEFAULT_CLIENT_CONFIG)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const isOpen = !!(branch || device)
+  const branchId = device ? device.branch_id : branch?.id
+
+  useEffect(() => {
+    setForm(emptyForm)
+    setInherited(DEFAULT_CLIENT_CONFIG)
+    if (!branchId) return
+
+    // A device inherits from its branch; a branch from the built-in defaults
+    Promise.all([
+      getDeviceConfig({ branchId }),
+      device ? getDeviceConfig({ deviceId: device.id }) : Promise.resolve(null)
+    ]).then(([branchConfig, deviceConfig]) => {
+      if (device) {
+        setInherited(resolveClientConfig(branchConfig?.config || {}))
+        setForm(toForm(deviceConfig?.config || {}))
+      } else {
+        setForm(toForm(branchConfig?.config || {}))
+      }
+    })
+  }, [branchId, device?.id])
+
+  const handleSave = async () => {
+    if (!branchId) return
+
+    const config = fromForm(form)
+    const error = validateClientConfig(config, inherited)
+    if (error) {
+      addToast('error', error)
+      return
+    }
+
+    setIsLoading(true)
+    const success = await saveDeviceConfig(
+      device ? { deviceId: device.id } : { branchId },
+      config,
+      staff?.id
+    )
+
+    if (success) {
+      addToast('success', `Configuration saved. ${device ? device.name : 'PCs in this branch'} will update shortly.`)
+      onClose()
+    } else {
+      addToast('error', 'Failed to save configuration')
+    }
+    setIsLoading(false)
+  }
+
+  const inheritLabel = device ? 'branch' : 'default'
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Client Configuration - ${device?.name || branch?.name || ''}`}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-slate-400">
+          Leave a field empty to use the {inheritLabel} value.
+          {device && ' Settings here override the branch configuration for this PC only.'}
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          {NUMERIC_CLIENT_CONFIG_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="label">{field.label}</label>
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={form.numbers[field.key] || ''}
+                onChange={e => setForm({ ...form, numbers: { ...form.numbers, [field.key]: e.target.value } })}
+                placeholder={`${inherited[field.key]} (${inheritLabel})`}
+                className="input"
+              />
+            </div>
+          ))}
+
+          <div>
+            <label className="label">Disable Task Manager while locked</label>
+            <select
+              value={form.disableTaskManager}
+              onChange={e => setForm({ ...form, disableTaskManager: e.target.value as ClientConfigForm['disableTaskManager'] })}
+              className="select"
+            >
+              <option value="">{inherited.disableTaskManager ? 'Yes' : 'No'} ({inheritLabel})</option>
+              <option value="on">Yes</option>
+              <option value="off">No</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="label">Blocked shortcuts while locked</label>
+            {!form.blockedShortcuts && (
+              <button
+                onClick={() => setForm({ ...form, blockedShortcuts: inherited.blockedShortcuts.join('\n') })}
+                className="text-xs text-rynx-400 hover:text-rynx-300"
+              >
+                Customize
+              </button>
+            )}
+            {form.blockedShortcuts && (
+              <button
+                onClick={() => setForm({ ...form, blockedShortcuts: '' })}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Use {inheritLabel}
+              </button>
+            )}
+          </div>
+          <textarea
+            value={form.blockedShortcuts}
+            onChange={e => setForm({ ...form, blockedShortcuts: e.target.value })}
+            placeholder={inherited.blockedShortcuts.join('\n')}
+            rows={6}
+            className="input font-mono text-sm"
+          />
+          <p className="text-xs text-slate-500 mt-1">One per line, e.g. Alt+Tab or Ctrl+Shift+Escape</p>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-slate-800">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Saving...' : 'Save Configuration'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -1,54 +1,32 @@
-import { Monitor, Smartphone, MoreVertical, Power, RefreshCw, MessageSquare, Lock, Unlock, Info, Clock, Wifi, WifiOff } from 'lucide-react'
+import { Monitor, Smartphone, MoreVertical, Power, RefreshCw, MessageSquare, Lock, Unlock, Info, Clock, Pause, Play, Plus, Wifi, WifiOff, Zap } from 'lucide-react'
 import { useState, useEffect } from 'react'
 import type { Device, Session } from '@/types'
 import { formatRelativeTime, getStatusBadge, formatBytes } from '@/lib/utils'
 import { useAppStore } from '@/stores/appStore'
-
-// Heartbeat timeout - device is considered offline if no heartbeat for this duration
-const HEARTBEAT_TIMEOUT_MS = 45000 // 45 seconds
+import { hasPermission } from '@/lib/permissions'
 
 interface DeviceCardProps {
   device: Device
   activeSession?: Session | null
-  onCommand: (command: 'shutdown' | 'restart' | 'lock' | 'message' | 'admin_unlock') => void
+  onCommand: (command: 'shutdown' | 'restart' | 'lock' | 'message' | 'admin_unlock' | 'pause' | 'resume' | 'add_time' | 'wake') => void
   onViewDetails: () => void
+  selected?: boolean
+  onToggleSelect?: () => void
 }
 
-export function DeviceCard({ device, activeSession, onCommand, onViewDetails }: DeviceCardProps) {
+export function DeviceCard({ device, activeSession, onCommand, onViewDetails, selected, onToggleSelect }: DeviceCardProps) {
+  const { staff, devicePresence, getDeviceEffectiveStatus } = useAppStore()
   const [showMenu, setShowMenu] = useState(false)
-  const [effectiveStatus, setEffectiveStatus] = useState<Device['status']>(device.status)
-  const [isHeartbeatStale, setIsHeartbeatStale] = useState(false)
+  // Re-render now and then so a stale heartbeat shows as offline
+  const [, setTick] = useState(0)
   
-  // Check heartbeat status periodically
   useEffect(() => {
-    const checkHeartbeat = () => {
-      if (!device.last_heartbeat) {
-        setEffectiveStatus('offline')
-        setIsHeartbeatStale(true)
-        return
-      }
-      
-      const lastHeartbeat = new Date(device.last_heartbeat).getTime()
-      const now = Date.now()
-      const timeSinceHeartbeat = now - lastHeartbeat
-      
-      if (timeSinceHeartbeat > HEARTBEAT_TIMEOUT_MS) {
-        setEffectiveStatus('offline')
-        setIsHeartbeatStale(true)
-      } else {
-        setEffectiveStatus(device.status)
-        setIsHeartbeatStale(false)
-      }
-    }
-    
-    // Check immediately
-    checkHeartbeat()
-    
-    // Check every 5 seconds
-    const interval = setInterval(checkHeartbeat, 5000)
-    
+    const interval = setInterval(() => setTick(t => t + 1), 5000)
     return () => clearInterval(interval)
-  }, [device.status, device.last_heartbeat])
+  }, [])
+  
+  const effectiveStatus = getDeviceEffectiveStatus(device)
+  const presence = device.branch_id ? devicePresence[device.branch_id]?.[device.id] : undefined
   
   const Icon = device.device_type === 'pc' ? Monitor : Smartphone
   
@@ -76,11 +54,20 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
   }
   
   return (
-    <div className="card-hover p-5 group relative">
+    <div className={`card-hover p-5 group relative ${selected ? 'ring-2 ring-rynx-500' : ''}`}>
+      {onToggleSelect && (
+        <input
+          type="checkbox"
+          checked={!!selected}
+          onChange={onToggleSelect}
+          className={`absolute top-2 left-2 w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500 cursor-pointer transition-opacity ${selected ? '' : 'opacity-0 group-hover:opacity-100'}`}
+        />
+      )}
+      
       {/* Status indicator with heartbeat pulse */}
       <div className="absolute top-4 right-4 flex items-center gap-2">
-        {isHeartbeatStale && (
-          <WifiOff className="w-4 h-4 text-red-400" title="No heartbeat" />
+        {effectiveStatus === 'offline' && (
+          <WifiOff className="w-4 h-4 text-red-400" title="Not connected" />
         )}
         <div className={`status-dot ${effectiveStatus} ${effectiveStatus === 'in_use' ? 'animate-pulse' : ''}`} />
       </div>
@@ -125,6 +112,15 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
                   <Info className="w-4 h-4" />
                   View Details
                 </button>
+                {effectiveStatus === 'offline' && (
+                  <button
+                    onClick={() => { onCommand('wake'); setShowMenu(false) }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-emerald-400 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <Zap className="w-4 h-4" />
+                    Wake PC
+                  </button>
+                )}
                 <button
                   onClick={() => { onCommand('message'); setShowMenu(false) }}
                   className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-slate-300 hover:bg-slate-700/50 transition-colors"
@@ -146,6 +142,33 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
                   <Unlock className="w-4 h-4" />
                   Admin Unlock
                 </button>
+                {activeSession?.status === 'active' && activeSession.session_type === 'guest' && (
+                  <button
+                    onClick={() => { onCommand('add_time'); setShowMenu(false) }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-emerald-400 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Time
+                  </button>
+                )}
+                {activeSession?.status === 'active' && (
+                  <button
+                    onClick={() => { onCommand('pause'); setShowMenu(false) }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-slate-300 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <Pause className="w-4 h-4" />
+                    Pause Session
+                  </button>
+                )}
+                {activeSession?.status === 'paused' && (
+                  <button
+                    onClick={() => { onCommand('resume'); setShowMenu(false) }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-slate-300 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    Resume Session
+                  </button>
+                )}
                 <div className="border-t border-slate-700 my-1" />
                 <button
                   onClick={() => { onCommand('restart'); setShowMenu(false) }}
@@ -154,13 +177,15 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
                   <RefreshCw className="w-4 h-4" />
                   Restart
                 </button>
-                <button
-                  onClick={() => { onCommand('shutdown'); setShowMenu(false) }}
-                  className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-red-400 hover:bg-slate-700/50 transition-colors"
-                >
-                  <Power className="w-4 h-4" />
-                  Shutdown
-                </button>
+                {hasPermission(staff, 'devices.shutdown') && (
+                  <button
+                    onClick={() => { onCommand('shutdown'); setShowMenu(false) }}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-red-400 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <Power className="w-4 h-4" />
+                    Shutdown
+                  </button>
+                )}
               </div>
             </>
           )}
@@ -180,7 +205,7 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
       </div>
       
       {/* Active Session Display */}
-      {activeSession && effectiveStatus === 'in_use' && (
+      {activeSession && (effectiveStatus === 'in_use' || activeSession.status === 'paused') && (
         <div className="mb-4 p-3 bg-rynx-500/10 border border-rynx-500/20 rounded-xl">
           <div className="flex items-center justify-between mb-2">
             <div className="flex items-center gap-2">
@@ -189,6 +214,9 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
                 {activeSession.session_type === 'guest' ? 'Guest Session' : 'Member Session'}
               </span>
             </div>
+            {activeSession.status === 'paused' && (
+              <span className="badge badge-warning text-xs">Paused</span>
+            )}
           </div>
           
           {/* Live Timer */}
@@ -226,8 +254,8 @@ export function DeviceCard({ device, activeSession, onCommand, onViewDetails }:
           </div>
           <div className="flex items-center justify-between text-slate-400">
             <span>Last seen</span>
-            <span className={`${isHeartbeatStale ? 'text-red-400' : 'text-slate-300'}`}>
-              {device.last_heartbeat ? formatRelativeTime(device.last_heartbeat) : 'Never'}
+            <span className={`${effectiveStatus === 'offline' ? 'text-red-400' : 'text-slate-300'}`}>
+              {presence ? 'Now' : device.last_heartbeat ? formatRelativeTime(device.last_heartbeat) : 'Never'}
             </span>
           </div>
         </div>
@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { useAppStore } from '@/stores/appStore'
+import { getDeviceCommands, sendDeviceCommand, subscribeToDeviceCommands, unsubscribe } from '@/lib/supabase'
+import { formatRelativeTime, getCommandStatus, getStatusBadge } from '@/lib/utils'
+import type { CommandType, DeviceCommand } from '@/types'
+
+interface DeviceCommandHistoryProps {
+  deviceId: string
+}
+
+const commandLabels: Record<CommandType, string> = {
+  shutdown: 'Shutdown',
+  restart: 'Restart',
+  lock: 'Lock',
+  unlock: 'Unlock',
+  message: 'Message',
+  pause: 'Pause',
+  resume: 'Resume',
+  add_time: 'Add time',
+  admin_unlock: 'Admin unlock',
+  reload_device: 'Reload settings',
+  wake_device: 'Wake another PC'
+}
+
+// Commands that still make sense to send again as they were
+const retryableCommands: CommandType[] = ['shutdown', 'restart', 'lock', 'message']
+
+export function DeviceCommandHistory({ deviceId }: DeviceCommandHistoryProps) {
+  const { staff, addToast } = useAppStore()
+  const [commands, setCommands] = useState<DeviceCommand[]>([])
+
+  useEffect(() => {
+    getDeviceCommands(deviceId).then(setCommands)
+
+    const channel = subscribeToDeviceCommands(deviceId, (command) => {
+      setCommands(prev => {
+        const exists = prev.some(c => c.id === command.id)
+        return exists
+          ? prev.map(c => c.id === command.id ? command : c)
+          : [command, ...prev].slice(0, 20)
+      })
+    })
+
+    return () => unsubscribe(channel)
+  }, [deviceId])
+
+  const handleRetry = async (command: DeviceCommand) => {
+    const result = await sendDeviceCommand(deviceId, command.command_type, command.payload, staff?.id)
+    if (result) {
+      addToast('success', `${commandLabels[command.command_type]} command sent again`)
+    } else {
+      addToast('error', 'Failed to send command')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-slate-300">Command History</h4>
+      {commands.length > 0 ? (
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {commands.map((command) => {
+            const status = getCommandStatus(command.status, command.expires_at)
+            return (
+              <div key={command.id} className="flex items-center justify-between gap-3 p-3 bg-slate-800/30 rounded-lg text-sm">
+                <div className="min-w-0">
+                  <p className="text-slate-200">
+                    {commandLabels[command.command_type] || command.command_type}
+                    {command.attempts > 1 && (
+                      <span className="text-slate-500"> • {command.attempts} attempts</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatRelativeTime(command.created_at)}
+                    {command.executed_at && ` • finished ${formatRelativeTime(command.executed_at)}`}
+                  </p>
+                  {command.error_message && (
+                    <p className="text-xs text-red-400 truncate">{command.error_message}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className={`badge ${getStatusBadge(status)}`}>{status}</span>
+                  {(status === 'failed' || status === 'expired') && retryableCommands.includes(command.command_type) && (
+                    <button
+                      onClick={() => handleRetry(command)}
+                      title="Send again"
+                      className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No commands sent to this PC yet</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Key, Plus, RefreshCw, Trash2, Copy, Smartphone, LogOut } from 'lucide-react'
+import { Modal } from './Modal'
+import { EmptyState } from './EmptyState'
+import { useAppStore } from '@/stores/appStore'
+import { getExitCodes, createExitCode, revokeExitCode, getAdminExitEvents } from '@/lib/supabase'
+import {
+  EXIT_CODE_ITERATIONS,
+  generateExitCode,
+  generateSalt,
+  hashExitCode,
+  generateTotpSecret,
+  getTotpUri
+} from '@/lib/exitCodes'
+import { formatDateTime } from '@/lib/utils'
+import { hasPermission } from '@/lib/permissions'
+import type { AdminExitCode, AdminExitCodeType, AdminExitEvent, AdminExitSource } from '@/types'
+
+const codeTypeLabels: Record<AdminExitCodeType, string> = {
+  static: 'Static code',
+  totp: 'Authenticator'
+}
+
+const sourceLabels: Record<AdminExitSource, string> = {
+  terminal: 'Debug terminal',
+  tray: 'Tray menu',
+  console: 'Console',
+  command_line: 'Command line'
+}
+
+const expiryOptions = [
+  { days: 0, label: 'Never' },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+]
+
+// What was just created; the plain code is only ever shown here
+interface RevealedCode {
+  label: string
+  code_type: AdminExitCodeType
+  value: string
+}
+
+export function ExitCodesPanel() {
+  const { organization, devices, staff, fetchDevices, addToast } = useAppStore()
+  const [exitCodes, setExitCodes] = useState<AdminExitCode[]>([])
+  const [exitEvents, setExitEvents] = useState<AdminExitEvent[]>([])
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [revealed, setRevealed] = useState<RevealedCode | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const canManageSettings = hasPermission(staff, 'settings.manage')
+  const [form, setForm] = useState({
+    label: '',
+    code_type: 'static' as AdminExitCodeType,
+    device_id: '',
+    expires_in_days: 30
+  })
+
+  const fetchExitCodes = useCallback(async () => {
+    if (!organization || !canManageSettings) return
+    const [codes, events] = await Promise.all([
+      getExitCodes(organization.id),
+      getAdminExitEvents(organization.id)
+    ])
+    setExitCodes(codes)
+    setExitEvents(events)
+  }, [organization, canManageSettings])
+
+  useEffect(() => {
+    fetchExitCodes()
+    fetchDevices()
+  }, [fetchExitCodes, fetchDevices])
+
+  const approvedDevices = devices.filter(d => d.branch_id)
+
+  // Creates the code and returns what to show the admin once
+  const issueCode = async (
+    label: string,
+    codeType: AdminExitCodeType,
+    deviceId: string | null,
+    expiresAt: string | null
+  ): Promise<RevealedCode | null> => {
+    if (!organization) return null
+
+    if (codeType === 'totp') {
+      const secret = generateTotpSecret()
+      const created = await createExitCode({
+        org_id: organization.id,
+        device_id: deviceId,
+        label,
+        code_type: 'totp',
+        totp_secret: secret,
+        expires_at: expiresAt,
+        created_by: staff?.id
+      })
+      return created ? { label, code_type: 'totp', value: secret } : null
+    }
+
+    const code = generateExitCode()
+    const salt = generateSalt()
+    const created = await createExitCode({
+      org_id: organization.id,
+      device_id: deviceId,
+      label,
+      code_type: 'static',
+      code_salt: salt,
+      code_hash: await hashExitCode(code, salt),
+      code_iterations: EXIT_CODE_ITERATIONS,
+      expires_at: expiresAt,
+      created_by: staff?.id
+    })
+    return created ? { label, code_type: 'static', value: code } : null
+  }
+
+  const handleCreate = async () => {
+    if (!form.label.trim()) {
+      addToast('error', 'Please enter a label')
+      return
+    }
+
+    setIsLoading(true)
+    const expiresAt = form.expires_in_days > 0
+      ? new Date(Date.now() + form.expires_in_days * 86400000).toISOString()
+      : null
+    const issued = await issueCode(form.label.trim(), form.code_type, form.device_id || null, expiresAt)
+
+    if (issued) {
+      setShowCreateModal(false)
+      setRevealed(issued)
+      fetchExitCodes()
+    } else {
+      addToast('error', 'Failed to create exit code')
+    }
+    setIsLoading(false)
+  }
+
+  // A new code with the same label, scope and lifetime replaces the old one
+  const handleRotate = async (exitCode: AdminExitCode) => {
+    setIsLoading(true)
+    const lifetime = exitCode.expires_at
+      ? new Date(exitCode.expires_at).getTime() - new Date(exitCode.created_at).getTime()
+      : null
+    const expiresAt = lifetime ? new Date(Date.now() + lifetime).toISOString() : null
+    const issued = await issueCode(exitCode.label, exitCode.code_type, exitCode.device_id, expiresAt)
+
+    if (issued && await revokeExitCode(exitCode.id)) {
+      setRevealed(issued)
+    } else {
+      addToast('error', 'Failed to rotate exit code')
+    }
+    fetchExitCodes()
+    setIsLoading(false)
+  }
+
+  const handleRevoke = async (exitCode: AdminExitCode) => {
+    if (!confirm(`Revoke "${exitCode.label}"? PCs stop accepting it once they refresh their codes.`)) return
+
+    const success = await revokeExitCode(exitCode.id)
+    if (success) {
+      addToast('success', 'Exit code revoked')
+      fetchExitCodes()
+    } else {
+      addToast('error', 'Failed to revoke exit code')
+    }
+  }
+
+  const openCreateModal = () => {
+    setForm({ label: '', code_type: 'static', device_id: '', expires_in_days: 30 })
+    setShowCreateModal(true)
+  }
+
+  const copyToClipboard = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value)
+      addToast('success', 'Copied to clipboard')
+    } catch {
+      addToast('error', 'Failed to copy')
+    }
+  }
+
+  const isExpired = (exitCode: AdminExitCode) =>
+    !!exitCode.expires_at && new Date(exitCode.expires_at).getTime() <= Date.now()
+
+  if (!canManageSettings) {
+    return (
+      <EmptyState
+        icon={Key}
+        title="Admin exit codes"
+        description="Only owners and admins can manage exit codes"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Admin Exit Codes</h3>
+          <p className="text-sm text-slate-400">Codes that close the client on a locked PC. PCs check them offline.</p>
+        </div>
+        <button onClick={openCreateModal} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          <span>New Code</span>
+        </button>
+      </div>
+
+      {exitCodes.length > 0 ? (
+        <div className="card overflow-hidden">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Label</th>
+                <th>Type</th>
+                <th>Applies To</th>
+                <th>Expires</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {exitCodes.map((exitCode) => (
+                <tr key={exitCode.id} className="hover:bg-slate-800/50">
+                  <td>
+                    <p className="font-medium text-white">{exitCode.label}</p>
+                    <p className="text-xs text-slate-500">Created {formatDateTime(exitCode.created_at)}</p>
+                  </td>
+                  <td>
+                    <span className="flex items-center gap-2 text-slate-300">
+                      {exitCode.code_type === 'totp'
+                        ? <Smartphone className="w-4 h-4 text-slate-500" />
+                        : <Key className="w-4 h-4 text-slate-500" />}
+                      {codeTypeLabels[exitCode.code_type]}
+                    </span>
+                  </td>
+                  <td className="text-slate-300">
+                    {exitCode.device_id
+                      ? exitCode.devices?.name || devices.find(d => d.id === exitCode.device_id)?.name || 'One PC'
+                      : 'All PCs'}
+                  </td>
+                  <td>
+                    {!exitCode.expires_at ? (
+                      <span className="text-slate-400">Never</span>
+                    ) : isExpired(exitCode) ? (
+                      <span className="badge bg-red-500/20 text-red-400 border-red-500/30">Expired</span>
+                    ) : (
+                      <span className="text-slate-300">{formatDateTime(exitCode.expires_at)}</span>
+                    )}
+                  </td>
+                  <td>
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        onClick={() => handleRotate(exitCode)}
+                        disabled={isLoading}
+                        title="Rotate"
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(exitCode)}
+                        title="Revoke"
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <EmptyState
+          icon={Key}
+          title="No exit codes"
+          description="Create a code so staff can close the client on a locked PC"
+          action={{ label: 'New Code', onClick: openCreateModal }}
+        />
+      )}
+
+      {/* Recent exits */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <LogOut className="w-5 h-5 text-rynx-400" />
+          <h3 className="text-lg font-semibold text-white">Recent Exits</h3>
+        </div>
+        {exitEvents.length > 0 ? (
+          <div className="card overflow-hidden">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>PC</th>
+                  <th>Code</th>
+                  <th>From</th>
+                  <th>When</th>
+                </tr>
+              </thead>
+              <tbody>
+                {exitEvents.map((event) => (
+                  <tr key={event.id} className="hover:bg-slate-800/50">
+                    <td className="font-medium text-white">{event.devices?.name || 'Unknown PC'}</td>
+                    <td className="text-slate-300">{event.admin_exit_codes?.label || 'Deleted code'}</td>
+                    <td className="text-slate-300">{sourceLabels[event.source] || event.source}</td>
+                    <td className="text-slate-400">{formatDateTime(event.used_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="card p-6 text-center">
+            <p className="text-slate-400">No PC has been closed with an exit code yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Create Modal */}
+      <Modal isOpen={showCreateModal} onClose={() => setShowCreateModal(false)} title="New Exit Code" size="md">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Label <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="e.g., Technician, Night shift"
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Type</label>
+            <div className="grid grid-cols-2 gap-3">
+              {(['static', 'totp'] as AdminExitCodeType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setForm({ ...form, code_type: type })}
+                  className={`${form.code_type === type ? 'btn-primary' : 'btn-secondary'} justify-center`}
+                >
+                  {type === 'totp' ? <Smartphone className="w-4 h-4" /> : <Key className="w-4 h-4" />}
+                  <span>{codeTypeLabels[type]}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              {form.code_type === 'totp'
+                ? 'A new 6-digit code every 30 seconds from an authenticator app.'
+                : 'A generated code, shown once. Only its hash is kept.'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Applies To</label>
+            <select
+              value={form.device_id}
+              onChange={(e) => setForm({ ...form, device_id: e.target.value })}
+              className="input"
+            >
+              <option value="">All PCs</option>
+              {approvedDevices.map((device) => (
+                <option key={device.id} value={device.id}>{device.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Expires After</label>
+            <select
+              value={form.expires_in_days}
+              onChange={(e) => setForm({ ...form, expires_in_days: parseInt(e.target.value) })}
+              className="input"
+            >
+              {expiryOptions.map((option) => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowCreateModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleCreate} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Creating...' : 'Create Code'}
+          </button>
+        </div>
+      </Modal>
+
+      {/* Reveal Modal */}
+      <Modal isOpen={!!revealed} onClose={() => setRevealed(null)} title={revealed?.label || 'Exit Code'} size="md">
+        {revealed && (
+          <div className="space-y-4">
+            {revealed.code_type === 'static' ? (
+              <>
+                <p className="text-sm text-slate-400">
+                  Type this on a locked PC to close the client. It won't be shown again.
+                </p>
+                <div className="p-4 bg-slate-800/50 rounded-xl flex items-center justify-between gap-3">
+                  <code className="text-2xl font-mono font-bold text-rynx-400 tracking-widest">{revealed.value}</code>
+                  <button onClick={() => copyToClipboard(revealed.value)} className="btn-ghost btn-sm">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-slate-400">
+                  Add this secret to an authenticator app, then type its current 6-digit code on a locked PC.
+                </p>
+                <div className="p-4 bg-slate-800/50 rounded-xl flex items-center justify-between gap-3">
+                  <code className="text-sm font-mono text-rynx-400 break-all">{revealed.value}</code>
+                  <button onClick={() => copyToClipboard(revealed.value)} className="btn-ghost btn-sm">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+                <button
+                  onClick={() => copyToClipboard(getTotpUri(revealed.value, revealed.label, organization?.name || 'RYNXPLAY'))}
+                  className="btn-secondary w-full justify-center"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copy otpauth:// Link</span>
+                </button>
+              </>
+            )}
+            <p className="text-xs text-slate-500">
+              PCs pick up new codes within a few minutes while they're online.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button onClick={() => setRevealed(null)} className="btn-primary">
+            Done
+          </button>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react'
+import { Coins, Banknote, RotateCcw, Timer } from 'lucide-react'
+import { Modal } from './Modal'
+import { useAppStore } from '@/stores/appStore'
+import { extendSession, getRates, getRateSchedules } from '@/lib/supabase'
+import { calculatePurchasedSeconds, createBillingSchedule } from '@shared/billing'
+import { formatCurrency, formatDuration, cn, COIN_DENOMINATIONS } from '@/lib/utils'
+import type { Session, Rate, RateSchedule, ExtendSessionError } from '@/types'
+
+interface ExtendSessionModalProps {
+  session: Session | null
+  onClose: () => void
+  onExtended?: () => void
+}
+
+const errorMessages: Record<ExtendSessionError, string> = {
+  invalid_amount: 'Enter an amount that buys at least a second of time',
+  session_not_active: 'This session is no longer running',
+  not_guest_session: 'Member sessions are paid from the member balance',
+  failed: 'Failed to add time'
+}
+
+export function ExtendSessionModal({ session, onClose, onExtended }: ExtendSessionModalProps) {
+  const { devices, branches, addToast } = useAppStore()
+  const [paymentMethod, setPaymentMethod] = useState<'coin' | 'cash'>('coin')
+  const [amount, setAmount] = useState(0)
+  const [cashAmount, setCashAmount] = useState('')
+  const [branchRates, setBranchRates] = useState<Rate[]>([])
+  const [rateSchedules, setRateSchedules] = useState<RateSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const branchId = session?.devices?.branch_id || devices.find(d => d.id === session?.device_id)?.branch_id
+  const branchTimezone = branches.find(b => b.id === branchId)?.timezone ?? 'UTC'
+
+  useEffect(() => {
+    setPaymentMethod('coin')
+    setAmount(0)
+    setCashAmount('')
+
+    if (branchId) {
+      Promise.all([getRates(branchId), getRateSchedules(branchId)]).then(([rates, schedules]) => {
+        setBranchRates(rates)
+        setRateSchedules(schedules)
+      })
+    }
+  }, [session?.id, branchId])
+
+  const rate = session?.rates || branchRates.find(r => r.id === session?.rate_id) || null
+  const paidAmount = paymentMethod === 'coin' ? amount : parseFloat(cashAmount) || 0
+  const timeRemaining = session?.time_remaining_seconds || 0
+
+  // Added time is priced from when the current time runs out
+  const addedSeconds = rate && paidAmount > 0
+    ? calculatePurchasedSeconds(
+        rate,
+        paidAmount,
+        createBillingSchedule(rate, rateSchedules, branchRates, new Date(Date.now() + timeRemaining * 1000), branchTimezone)
+      )
+    : 0
+
+  const handleExtend = async () => {
+    if (!session) return
+    if (addedSeconds <= 0) {
+      addToast('error', errorMessages.invalid_amount)
+      return
+    }
+
+    setIsLoading(true)
+    const result = await extendSession(session.id, paidAmount, addedSeconds, paymentMethod)
+
+    if (result.success) {
+      addToast('success', `Added ${Math.floor(addedSeconds / 60)} minutes for ${formatCurrency(paidAmount)}`)
+      onExtended?.()
+      onClose()
+    } else {
+      addToast('error', errorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+
+  return (
+    <Modal isOpen={!!session} onClose={onClose} title="Add Time" size="sm">
+      {session && (
+        <div className="space-y-4">
+          {/* Payment method */}
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setPaymentMethod('coin')}
+              className={cn(paymentMethod === 'coin' ? 'btn-primary' : 'btn-secondary', 'justify-center')}
+            >
+              <Coins className="w-4 h-4" />
+              <span>Coins</span>
+            </button>
+            <button
+              onClick={() => setPaymentMethod('cash')}
+              className={cn(paymentMethod === 'cash' ? 'btn-primary' : 'btn-secondary', 'justify-center')}
+            >
+              <Banknote className="w-4 h-4" />
+              <span>Cash</span>
+            </button>
+          </div>
+
+          {paymentMethod === 'coin' ? (
+            <div>
+              <div className="grid grid-cols-4 gap-3 mb-3">
+                {COIN_DENOMINATIONS.map(coin => (
+                  <button
+                    key={coin.value}
+                    onClick={() => setAmount(prev => prev + coin.value)}
+                    disabled={isLoading}
+                    className={cn(
+                      'aspect-square rounded-full bg-gradient-to-br flex items-center justify-center',
+                      'shadow-lg transition-transform hover:scale-105 active:scale-95 disabled:opacity-50',
+                      'border-4 border-amber-300/50',
+                      coin.color
+                    )}
+                  >
+                    <span className="font-bold text-amber-900">{coin.label}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-400">Inserted: <span className="text-slate-100 font-medium">{formatCurrency(amount)}</span></span>
+                <button onClick={() => setAmount(0)} disabled={amount === 0} className="btn-ghost btn-sm">
+                  <RotateCcw className="w-3 h-3" />
+                  <span>Reset</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Amount Received</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={cashAmount}
+                onChange={(e) => setCashAmount(e.target.value)}
+                placeholder="0.00"
+                className="input"
+              />
+            </div>
+          )}
+
+          {/* Time summary */}
+          <div className="p-4 bg-slate-800/50 rounded-xl space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Time Remaining</span>
+              <span className="font-mono text-slate-300">{formatDuration(timeRemaining)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Adds</span>
+              <span className="font-mono text-emerald-400">+{formatDuration(addedSeconds)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-slate-700">
+              <span className="text-slate-300 flex items-center gap-1.5">
+                <Timer className="w-4 h-4" />
+                New Time
+              </span>
+              <span className="font-mono font-semibold text-slate-100">{formatDuration(timeRemaining + addedSeconds)}</span>
+            </div>
+          </div>
+
+          {!rate && (
+            <p className="text-sm text-amber-400">This session has no rate, so time can't be priced.</p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleExtend} disabled={isLoading || addedSeconds <= 0} className="btn-primary">
+              {isLoading ? 'Adding...' : `Add Time${paidAmount > 0 ? ` (${formatCurrency(paidAmount)})` : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
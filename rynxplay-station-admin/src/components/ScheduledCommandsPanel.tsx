@@ -0,0 +1,436 @@
+import { useState, useEffect, useCallback } from 'react'
+import { CalendarClock, Plus, Edit2, Trash2, History } from 'lucide-react'
+import { Modal } from './Modal'
+import { EmptyState } from './EmptyState'
+import { useAppStore } from '@/stores/appStore'
+import {
+  getScheduledCommands,
+  createScheduledCommand,
+  updateScheduledCommand,
+  deleteScheduledCommand,
+  getScheduledCommandRuns
+} from '@/lib/supabase'
+import { formatDateTime } from '@/lib/utils'
+import { hasPermission } from '@/lib/permissions'
+import type { ScheduledCommand, ScheduledCommandRun, ScheduledCommandRunStatus, ScheduledCommandType } from '@/types'
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const commandTypeLabels: Record<ScheduledCommandType, string> = {
+  shutdown: 'Shutdown',
+  restart: 'Restart',
+  lock: 'Lock',
+  message: 'Message'
+}
+
+const runStatusBadges: Record<ScheduledCommandRunStatus, { label: string; className: string }> = {
+  dispatched: { label: 'Sent', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  no_devices: { label: 'No PCs', className: 'bg-slate-500/20 text-slate-400 border-slate-500/30' },
+  missed: { label: 'Missed', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+}
+
+const emptyForm = {
+  branch_id: '',
+  name: '',
+  command_type: 'shutdown' as ScheduledCommandType,
+  message: '',
+  recurring: true,
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  time_of_day: '02:00',
+  run_at: ''
+}
+
+// datetime-local value for a stored timestamp, in this browser's time
+function toLocalInput(timestamp: string): string {
+  const date = new Date(timestamp)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export function ScheduledCommandsPanel() {
+  const { organization, branches, staff, addToast } = useAppStore()
+  const [commands, setCommands] = useState<ScheduledCommand[]>([])
+  const [runs, setRuns] = useState<ScheduledCommandRun[]>([])
+  const [showModal, setShowModal] = useState(false)
+  const [editing, setEditing] = useState<ScheduledCommand | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [isLoading, setIsLoading] = useState(false)
+  const canManageSettings = hasPermission(staff, 'settings.manage')
+
+  const fetchSchedules = useCallback(async () => {
+    if (!organization) return
+    const [scheduled, recentRuns] = await Promise.all([
+      getScheduledCommands(organization.id),
+      getScheduledCommandRuns(organization.id)
+    ])
+    setCommands(scheduled)
+    setRuns(recentRuns)
+  }, [organization])
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [fetchSchedules])
+
+  const openCreateModal = () => {
+    setEditing(null)
+    setForm({ ...emptyForm, branch_id: branches[0]?.id || '' })
+    setShowModal(true)
+  }
+
+  const openEditModal = (command: ScheduledCommand) => {
+    setEditing(command)
+    setForm({
+      branch_id: command.branch_id,
+      name: command.name,
+      command_type: command.command_type,
+      message: String(command.payload.message || ''),
+      recurring: !command.run_at,
+      days_of_week: command.days_of_week || emptyForm.days_of_week,
+      time_of_day: command.time_of_day?.slice(0, 5) || emptyForm.time_of_day,
+      run_at: command.run_at ? toLocalInput(command.run_at) : ''
+    })
+    setShowModal(true)
+  }
+
+  const toggleDay = (day: number) => {
+    const days = form.days_of_week.includes(day)
+      ? form.days_of_week.filter(d => d !== day)
+      : [...form.days_of_week, day].sort()
+    setForm({ ...form, days_of_week: days })
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.branch_id) {
+      addToast('error', 'Please enter a name and choose a branch')
+      return
+    }
+    if (form.command_type === 'message' && !form.message.trim()) {
+      addToast('error', 'Please enter the message to show')
+      return
+    }
+    if (form.recurring ? form.days_of_week.length === 0 || !form.time_of_day : !form.run_at) {
+      addToast('error', 'Please choose when to run it')
+      return
+    }
+    if (!form.recurring && new Date(form.run_at).getTime() <= Date.now()) {
+      addToast('error', 'The run time must be in the future')
+      return
+    }
+
+    const command: Partial<ScheduledCommand> = {
+      branch_id: form.branch_id,
+      name: form.name.trim(),
+      command_type: form.command_type,
+      payload: form.command_type === 'message' ? { message: form.message.trim() } : {},
+      run_at: form.recurring ? null : new Date(form.run_at).toISOString(),
+      days_of_week: form.recurring ? form.days_of_week : null,
+      time_of_day: form.recurring ? form.time_of_day : null,
+      is_active: true
+    }
+
+    setIsLoading(true)
+    const success = editing
+      ? await updateScheduledCommand(editing.id, command)
+      : !!(await createScheduledCommand({ ...command, created_by: staff?.id }))
+
+    if (success) {
+      addToast('success', editing ? 'Schedule updated' : 'Schedule created')
+      setShowModal(false)
+      fetchSchedules()
+    } else {
+      addToast('error', 'Failed to save schedule')
+    }
+    setIsLoading(false)
+  }
+
+  const handleToggleActive = async (command: ScheduledCommand) => {
+    if (await updateScheduledCommand(command.id, { is_active: !command.is_active })) {
+      fetchSchedules()
+    } else {
+      addToast('error', 'Failed to update schedule')
+    }
+  }
+
+  const handleDelete = async (command: ScheduledCommand) => {
+    if (!confirm(`Delete "${command.name}"? Its run log will be removed too.`)) return
+
+    if (await deleteScheduledCommand(command.id)) {
+      addToast('success', 'Schedule deleted')
+      fetchSchedules()
+    } else {
+      addToast('error', 'Failed to delete schedule')
+    }
+  }
+
+  const formatWhen = (command: ScheduledCommand) => {
+    if (command.run_at) return `Once, ${formatDateTime(command.run_at)}`
+    const days = command.days_of_week || []
+    const dayText = days.length === 7 ? 'Every day' : days.map(d => weekdayLabels[d]).join(', ')
+    return `${dayText} at ${command.time_of_day?.slice(0, 5)}`
+  }
+
+  if (!canManageSettings) {
+    return (
+      <EmptyState
+        icon={CalendarClock}
+        title="Scheduled commands"
+        description="Only owners and admins can schedule device commands"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Scheduled Commands</h3>
+          <p className="text-sm text-slate-400">Commands sent to every PC in a branch at a set time, in the branch's timezone.</p>
+        </div>
+        <button onClick={openCreateModal} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          <span>New Schedule</span>
+        </button>
+      </div>
+
+      {commands.length > 0 ? (
+        <div className="card overflow-hidden">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Branch</th>
+                <th>When</th>
+                <th>Next Run</th>
+                <th className="text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {commands.map((command) => (
+                <tr key={command.id} className="hover:bg-slate-800/50">
+                  <td>
+                    <p className="font-medium text-white">{command.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {commandTypeLabels[command.command_type]}
+                      {command.command_type === 'message' && `: "${command.payload.message}"`}
+                    </p>
+                  </td>
+                  <td className="text-slate-300">{command.branches?.name || '-'}</td>
+                  <td className="text-slate-300">{formatWhen(command)}</td>
+                  <td>
+                    {command.is_active && command.next_run_at ? (
+                      <span className="text-slate-300">{formatDateTime(command.next_run_at)}</span>
+                    ) : (
+                      <span className="badge bg-slate-500/20 text-slate-400 border-slate-500/30">
+                        {command.run_at && command.last_run_at ? 'Done' : 'Paused'}
+                      </span>
+                    )}
+                  </td>
+                  <td>
+                    <div className="flex items-center justify-end gap-1">
+                      {!(command.run_at && command.last_run_at) && (
+                        <button
+                          onClick={() => handleToggleActive(command)}
+                          className="btn-ghost btn-sm"
+                        >
+                          {command.is_active ? 'Pause' : 'Resume'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openEditModal(command)}
+                        title="Edit"
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(command)}
+                        title="Delete"
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <EmptyState
+          icon={CalendarClock}
+          title="No scheduled commands"
+          description="Shut down or lock every PC at closing time, or warn players before it"
+          action={{ label: 'New Schedule', onClick: openCreateModal }}
+        />
+      )}
+
+      {/* Run log */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <History className="w-5 h-5 text-rynx-400" />
+          <h3 className="text-lg font-semibold text-white">Recent Runs</h3>
+        </div>
+        {runs.length > 0 ? (
+          <div className="card overflow-hidden">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Schedule</th>
+                  <th>Scheduled For</th>
+                  <th>Result</th>
+                  <th>PCs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="hover:bg-slate-800/50">
+                    <td className="font-medium text-white">{run.scheduled_commands?.name || 'Deleted schedule'}</td>
+                    <td className="text-slate-400">{formatDateTime(run.scheduled_for)}</td>
+                    <td>
+                      <span className={`badge ${runStatusBadges[run.status].className}`}>
+                        {runStatusBadges[run.status].label}
+                      </span>
+                    </td>
+                    <td className="text-slate-300">{run.device_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="card p-6 text-center">
+            <p className="text-slate-400">No scheduled command has run yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={editing ? 'Edit Schedule' : 'New Schedule'}
+        size="md"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Name <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g., Closing shutdown"
+              className="input"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Branch</label>
+              <select
+                value={form.branch_id}
+                onChange={(e) => setForm({ ...form, branch_id: e.target.value })}
+                className="input"
+              >
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Command</label>
+              <select
+                value={form.command_type}
+                onChange={(e) => setForm({ ...form, command_type: e.target.value as ScheduledCommandType })}
+                className="input"
+              >
+                {(Object.keys(commandTypeLabels) as ScheduledCommandType[]).map((type) => (
+                  <option key={type} value={type}>{commandTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {form.command_type === 'message' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Message</label>
+              <input
+                type="text"
+                value={form.message}
+                onChange={(e) => setForm({ ...form, message: e.target.value })}
+                placeholder="e.g., Closing in 15 minutes"
+                className="input"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {[true, false].map((recurring) => (
+              <button
+                key={String(recurring)}
+                onClick={() => setForm({ ...form, recurring })}
+                className={`${form.recurring === recurring ? 'btn-primary' : 'btn-secondary'} justify-center`}
+              >
+                {recurring ? 'Repeats' : 'Once'}
+              </button>
+            ))}
+          </div>
+
+          {form.recurring ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {weekdayLabels.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      form.days_of_week.includes(day)
+                        ? 'bg-rynx-500 text-white'
+                        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Time</label>
+                <input
+                  type="time"
+                  value={form.time_of_day}
+                  onChange={(e) => setForm({ ...form, time_of_day: e.target.value })}
+                  className="input"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  In the branch timezone ({branches.find(b => b.id === form.branch_id)?.timezone || '-'})
+                </p>
+              </div>
+            </>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Run At</label>
+              <input
+                type="datetime-local"
+                value={form.run_at}
+                onChange={(e) => setForm({ ...form, run_at: e.target.value })}
+                className="input"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Saving...' : editing ? 'Save Changes' : 'Create Schedule'}
+          </button>
+        </div>
+      </Modal>
+    </div>
+  )
+}
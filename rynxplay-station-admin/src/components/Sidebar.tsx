@@ -12,7 +12,9 @@ import {
   ChevronLeft,
   Bell,
   Play,
-  Coins
+  Coins,
+  Wallet,
+  BarChart3
 } from 'lucide-react'
 
 const navItems = [
@@ -21,6 +23,8 @@ const navItems = [
   { path: '/members', icon: Users, label: 'Members' },
   { path: '/sessions', icon: Timer, label: 'Sessions' },
   { path: '/transactions', icon: Receipt, label: 'Transactions' },
+  { path: '/reports', icon: BarChart3, label: 'Reports' },
+  { path: '/shifts', icon: Wallet, label: 'Shifts' },
   { path: '/kiosk', icon: Coins, label: 'Kiosk Sim' },
   { path: '/settings', icon: Settings, label: 'Settings' },
 ]
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Modal } from './Modal'
+import { useAppStore } from '@/stores/appStore'
+import { voidTransaction } from '@/lib/supabase'
+import { formatCurrency, formatDateTime } from '@/lib/utils'
+import type { Transaction, RefundError } from '@/types'
+
+interface VoidTopupModalProps {
+  transaction: Transaction | null
+  onClose: () => void
+  onVoided?: (reversal: Transaction) => void
+}
+
+const errorMessages: Record<RefundError, string> = {
+  not_allowed: 'Only owners and admins can void top-ups',
+  not_refundable: 'Only member top-ups can be voided',
+  already_voided: 'This top-up has already been voided',
+  exceeds_refundable: 'Amount exceeds what can be voided',
+  insufficient_credits: 'The member has already spent part of this top-up',
+  failed: 'Failed to void top-up'
+}
+
+export function VoidTopupModal({ transaction, onClose, onVoided }: VoidTopupModalProps) {
+  const { addToast } = useAppStore()
+  const [reason, setReason] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setReason('')
+  }, [transaction?.id])
+
+  const handleVoid = async () => {
+    if (!transaction) return
+    if (!reason.trim()) {
+      addToast('error', 'Please enter a reason')
+      return
+    }
+
+    setIsLoading(true)
+    const result = await voidTransaction(transaction.id, reason.trim())
+
+    if (result.success && result.transaction) {
+      addToast('success', `Voided ${formatCurrency(Math.abs(transaction.amount))} top-up`)
+      onVoided?.(result.transaction)
+      onClose()
+    } else {
+      addToast('error', errorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+
+  return (
+    <Modal isOpen={!!transaction} onClose={onClose} title="Void Top-Up" size="sm">
+      {transaction && (
+        <div className="space-y-4">
+          <div className="flex items-start gap-3 p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
+            <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-slate-300">
+              This takes {formatCurrency(Math.abs(transaction.amount))} back from the member's balance.
+              The original top-up from {formatDateTime(transaction.created_at)} is kept and marked as voided.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Reason <span className="text-red-400">*</span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this top-up being voided?"
+              rows={3}
+              className="input"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleVoid} disabled={isLoading} className="btn-danger">
+              {isLoading ? 'Voiding...' : 'Void Top-Up'}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
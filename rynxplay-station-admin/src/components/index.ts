@@ -6,3 +6,11 @@ export { StatCard } from './StatCard'
 export { DeviceCard } from './DeviceCard'
 export { EmptyState } from './EmptyState'
 export { LoadingSpinner, LoadingScreen } from './LoadingSpinner'
+export { VoidTopupModal } from './VoidTopupModal'
+export { ExtendSessionModal } from './ExtendSessionModal'
+export { ExitCodesPanel } from './ExitCodesPanel'
+export { ClientConfigModal } from './ClientConfigModal'
+export { DeviceCommandHistory } from './DeviceCommandHistory'
+export { BulkActionProgress } from './BulkActionProgress'
+export { BulkDeviceActions } from './BulkDeviceActions'
+export { ScheduledCommandsPanel } from './ScheduledCommandsPanel'
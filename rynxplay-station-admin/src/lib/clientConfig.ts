@@ -0,0 +1,81 @@
+import type { ClientConfig } from '@/types'
+
+// Built into the client; a branch or device document only stores what it
+// changes. Keep in sync with DEFAULT_CLIENT_CONFIG in the client's main
+// process, which validates everything again before applying it.
+export const DEFAULT_CLIENT_CONFIG: ClientConfig = {
+  blockedShortcuts: [
+    'Alt+Tab',
+    'Alt+F4',
+    'Alt+Escape',
+    'Ctrl+Escape',
+    'Ctrl+Shift+Escape',
+    'Super',
+    'Super+D',
+    'Super+E',
+    'Super+R',
+    'Super+Tab',
+    'Super+L',
+    'Super+M',
+    'Super+S',
+    'Super+I',
+    'Super+A',
+    'Super+X',
+    'F11'
+  ],
+  disableTaskManager: true,
+  timerWarningSeconds: 300,
+  timerDangerSeconds: 60,
+  heartbeatIntervalSeconds: 60,
+  commandPollIntervalSeconds: 3,
+  sessionPollIntervalSeconds: 5
+}
+
+export type NumericClientConfigKey =
+  | 'timerWarningSeconds'
+  | 'timerDangerSeconds'
+  | 'heartbeatIntervalSeconds'
+  | 'commandPollIntervalSeconds'
+  | 'sessionPollIntervalSeconds'
+
+export const NUMERIC_CLIENT_CONFIG_FIELDS: { key: NumericClientConfigKey; label: string; min: number; max: number }[] = [
+  { key: 'timerWarningSeconds', label: 'Timer warning (seconds left)', min: 0, max: 3600 },
+  { key: 'timerDangerSeconds', label: 'Timer danger (seconds left)', min: 0, max: 3600 },
+  // At most 90 so a PC that misses one heartbeat still counts as online
+  // within the 3 minute windows (HEARTBEAT_TIMEOUT_MS, wake relays)
+  { key: 'heartbeatIntervalSeconds', label: 'Heartbeat interval (seconds)', min: 5, max: 90 },
+  { key: 'commandPollIntervalSeconds', label: 'Command polling interval (seconds)', min: 1, max: 60 },
+  { key: 'sessionPollIntervalSeconds', label: 'Session polling interval (seconds)', min: 1, max: 60 }
+]
+
+// Electron accelerator, e.g. "Alt+Tab" or "Ctrl+Shift+Escape"
+const SHORTCUT_PATTERN = /^([A-Za-z]+\+)*[A-Za-z0-9]+$/
+
+// The settings a document changes, on top of what it inherits
+export function resolveClientConfig(...layers: Partial<ClientConfig>[]): ClientConfig {
+  return Object.assign({}, DEFAULT_CLIENT_CONFIG, ...layers)
+}
+
+// First problem with a document, or null if the client will accept it
+export function validateClientConfig(config: Partial<ClientConfig>, inherited: ClientConfig): string | null {
+  for (const field of NUMERIC_CLIENT_CONFIG_FIELDS) {
+    const value = config[field.key]
+    if (value === undefined) continue
+
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+      return `${field.label} must be a whole number from ${field.min} to ${field.max}`
+    }
+  }
+
+  const invalidShortcut = config.blockedShortcuts?.find(shortcut => !SHORTCUT_PATTERN.test(shortcut))
+  if (invalidShortcut !== undefined) {
+    return `"${invalidShortcut}" is not a valid shortcut`
+  }
+
+  const resolved = resolveClientConfig(inherited, config)
+  if (resolved.timerDangerSeconds > resolved.timerWarningSeconds) {
+    return 'The danger threshold must not be above the warning threshold'
+  }
+
+  return null
+}
@@ -0,0 +1,71 @@
+// Admin exit codes are generated here and only their hash is stored. The
+// client PC checks codes against the same PBKDF2 parameters, so the
+// normalization and hashing below have to match its main process.
+
+export const EXIT_CODE_ITERATIONS = 100000
+
+// No 0/O or 1/I, so codes can be read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length))
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fromHex(hex: string) {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)))
+}
+
+// Dashes, spaces and case don't matter when typing a code
+export function normalizeExitCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase()
+}
+
+// Twelve characters in groups of four, e.g. K7QM-2XRD-H9WP
+export function generateExitCode(): string {
+  const chars = Array.from(randomBytes(12), b => CODE_ALPHABET[b % CODE_ALPHABET.length])
+  return [0, 4, 8].map(i => chars.slice(i, i + 4).join('')).join('-')
+}
+
+export function generateSalt(): string {
+  return toHex(randomBytes(16))
+}
+
+export async function hashExitCode(code: string, salt: string, iterations = EXIT_CODE_ITERATIONS): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(normalizeExitCode(code)),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations },
+    key,
+    256
+  )
+  return toHex(new Uint8Array(bits))
+}
+
+// 160-bit secret, base32 encoded for authenticator apps
+export function generateTotpSecret(): string {
+  const bytes = randomBytes(20)
+  let bits = ''
+  bytes.forEach(b => { bits += b.toString(2).padStart(8, '0') })
+
+  let secret = ''
+  for (let i = 0; i + 5 <= bits.length; i += 5) {
+    secret += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5), 2)]
+  }
+  return secret
+}
+
+// otpauth:// link most authenticator apps accept when the secret is typed in
+// or pasted
+export function getTotpUri(secret: string, label: string, issuer: string): string {
+  return `otpauth://totp/${encodeURIComponent(`${issuer}:${label}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=6&period=30`
+}
@@ -0,0 +1,497 @@
+import { jsPDF } from 'jspdf'
+import { autoTable, type FontStyle, type RowInput, type UserOptions } from 'jspdf-autotable'
+import type {
+  ExportResult,
+  HistoryCursor,
+  HistoryPage,
+  Member,
+  MemberFilters,
+  RevenueReport,
+  Session,
+  SessionFilters,
+  TopMember,
+  DeviceUtilization,
+  Transaction,
+  TransactionFilters,
+  TransactionType
+} from '@/types'
+import { searchMembers, searchSessions, searchTransactions } from './supabase'
+import { getShiftCashTotal } from './shifts'
+import { getUtilizationPercent } from './reports'
+import { formatCurrency, formatDate, formatDateTime, formatDuration } from './utils'
+
+// Rows fetched per round trip while exporting
+const EXPORT_PAGE_SIZE = 500
+
+const transactionTypeLabels: Record<TransactionType, string> = {
+  topup: 'Top Up',
+  usage: 'Usage',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer'
+}
+
+type CsvValue = string | number | null | undefined
+
+// Quotes where needed. Text a spreadsheet would run as a formula gets a
+// leading apostrophe; numbers are left alone so they stay numbers.
+function toCsvRow(values: CsvValue[]): string {
+  return values.map(value => {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'number') return String(value)
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }).join(',') + '\r\n'
+}
+
+// Local time, sorts as text in a spreadsheet
+function formatCsvDate(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  const pad = (v: number) => v.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+export function downloadFile(parts: BlobPart[], filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob(parts, { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+interface CsvWriter {
+  write: (chunk: string) => Promise<void>
+  close: () => Promise<void>
+  abort: () => Promise<void>
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string
+  types: { description: string; accept: Record<string, string[]> }[]
+}) => Promise<{
+  createWritable: () => Promise<{
+    write: (data: string) => Promise<void>
+    close: () => Promise<void>
+    abort: () => Promise<void>
+  }>
+}>
+
+// Writes straight to disk where the browser can pick a file, so a large
+// export never sits in memory. Elsewhere the chunks are downloaded at the end.
+// Nothing is saved until close(); abort() leaves no file behind.
+// Resolves null when the save dialog is cancelled.
+async function openCsvWriter(filename: string): Promise<CsvWriter | null> {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+
+  if (showSaveFilePicker) {
+    try {
+      const handle = await showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: 'CSV file', accept: { 'text/csv': ['.csv'] } }]
+      })
+      const stream = await handle.createWritable()
+      return {
+        write: chunk => stream.write(chunk),
+        close: () => stream.close(),
+        abort: () => stream.abort()
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      console.error('Error opening export file:', error)
+    }
+  }
+
+  let chunks: string[] = []
+  return {
+    write: async chunk => { chunks.push(chunk) },
+    close: async () => downloadFile(chunks, filename, 'text/csv;charset=utf-8'),
+    abort: async () => { chunks = [] }
+  }
+}
+
+// Every page of a history query, one page at a time. Throws when a page
+// fails, so an export never ends early as if there were no more rows.
+async function* iterateHistory<T>(
+  fetchPage: (cursor: HistoryCursor | null) => Promise<HistoryPage<T>>
+): AsyncGenerator<T[]> {
+  let cursor: HistoryCursor | null = null
+  do {
+    const page: HistoryPage<T> = await fetchPage(cursor)
+    if (page.error) throw new Error(page.error)
+    if (page.rows.length > 0) yield page.rows
+    cursor = page.nextCursor
+  } while (cursor)
+}
+
+// Streams a history query to a CSV file with the number of rows written.
+// If a page can't be fetched or written the file is dropped, not saved short.
+async function exportCsv<T>(
+  filename: string,
+  header: string[],
+  fetchPage: (cursor: HistoryCursor | null) => Promise<HistoryPage<T>>,
+  toRow: (row: T) => CsvValue[],
+  onProgress?: (rows: number) => void
+): Promise<ExportResult> {
+  const writer = await openCsvWriter(filename)
+  if (!writer) return { success: false, error: 'cancelled' }
+
+  let count = 0
+  try {
+    // Byte order mark so spreadsheets read the file as UTF-8
+    await writer.write('\uFEFF' + toCsvRow(header))
+    for await (const rows of iterateHistory(fetchPage)) {
+      await writer.write(rows.map(row => toCsvRow(toRow(row))).join(''))
+      count += rows.length
+      onProgress?.(count)
+    }
+    await writer.close()
+  } catch (error) {
+    console.error('Error exporting CSV:', error)
+    await writer.abort().catch(() => {})
+    return { success: false, error: 'failed' }
+  }
+
+  return { success: true, rows: count }
+}
+
+// e.g. "transactions_2026-10-01_2026-10-31.csv"
+function getExportFilename(name: string, from?: string, to?: string, extension = 'csv'): string {
+  const range = [from, to].filter(Boolean).join('_')
+  return `${name}${range ? `_${range}` : ''}.${extension}`
+}
+
+export function exportTransactionsCsv(
+  orgId: string,
+  filters: TransactionFilters,
+  onProgress?: (rows: number) => void
+): Promise<ExportResult> {
+  return exportCsv(
+    getExportFilename('transactions', filters.from, filters.to),
+    ['Date', 'Type', 'Member', 'Amount', 'Balance Before', 'Balance After', 'Payment Method', 'Branch', 'Reference', 'Notes', 'Voided At', 'Transaction ID'],
+    cursor => searchTransactions(orgId, filters, cursor, EXPORT_PAGE_SIZE),
+    (tx: Transaction) => [
+      formatCsvDate(tx.created_at),
+      transactionTypeLabels[tx.type] || tx.type,
+      tx.member_id ? tx.members?.username || tx.member_id : 'Guest',
+      Number(tx.amount),
+      tx.balance_before !== null ? Number(tx.balance_before) : null,
+      tx.balance_after !== null ? Number(tx.balance_after) : null,
+      tx.payment_method,
+      tx.branches?.name,
+      tx.reference,
+      tx.notes,
+      formatCsvDate(tx.voided_at),
+      tx.id
+    ],
+    onProgress
+  )
+}
+
+export function exportSessionsCsv(
+  orgId: string,
+  filters: SessionFilters,
+  onProgress?: (rows: number) => void
+): Promise<ExportResult> {
+  return exportCsv(
+    getExportFilename('sessions', filters.from, filters.to),
+    ['Started', 'Ended', 'PC', 'Branch', 'Member', 'Type', 'Status', 'Rate', 'Package', 'Duration', 'Seconds Used', 'Amount', 'Session ID'],
+    cursor => searchSessions(orgId, filters, cursor, EXPORT_PAGE_SIZE),
+    (session: Session) => [
+      formatCsvDate(session.started_at),
+      formatCsvDate(session.ended_at),
+      session.devices?.name,
+      session.devices?.branches?.name,
+      session.member_id ? session.members?.username || session.member_id : 'Guest',
+      session.session_type,
+      session.status,
+      session.rates?.name,
+      session.time_packages?.name,
+      formatDuration(session.total_seconds_used),
+      session.total_seconds_used,
+      Number(session.total_amount),
+      session.id
+    ],
+    onProgress
+  )
+}
+
+export function exportMembersCsv(
+  orgId: string,
+  filters: MemberFilters,
+  onProgress?: (rows: number) => void
+): Promise<ExportResult> {
+  return exportCsv(
+    getExportFilename('members'),
+    ['Username', 'Full Name', 'Email', 'Phone', 'Credits', 'Status', 'Joined', 'Member ID'],
+    cursor => searchMembers(orgId, filters, cursor, EXPORT_PAGE_SIZE),
+    (member: Member) => [
+      member.username,
+      member.full_name,
+      member.email,
+      member.phone,
+      Number(member.credits),
+      member.is_active ? 'Active' : 'Inactive',
+      formatCsvDate(member.created_at),
+      member.id
+    ],
+    onProgress
+  )
+}
+
+interface ReportExport {
+  from: string
+  to: string
+  revenue: RevenueReport
+  topMembers: TopMember[]
+  utilization: DeviceUtilization[]
+}
+
+// The Reports page as one CSV, a section per table
+export function exportReportCsv({ from, to, revenue, topMembers, utilization }: ReportExport) {
+  const section = (title: string, header: string[], rows: CsvValue[][]) =>
+    toCsvRow([title]) + toCsvRow(header) + rows.map(toCsvRow).join('') + '\r\n'
+  const revenueRows = (key: keyof RevenueReport, label: (bucket: RevenueReport['day'][number]) => string) =>
+    revenue[key].map(b => [label(b), b.amount, b.count])
+
+  downloadFile([
+    '\uFEFF',
+    section('Revenue by day', ['Day', 'Revenue', 'Transactions'], revenueRows('day', b => b.bucket)),
+    section('Revenue by hour', ['Hour', 'Revenue', 'Transactions'], revenueRows('hour', b => `${b.bucket.padStart(2, '0')}:00`)),
+    section('Revenue by branch', ['Branch', 'Revenue', 'Transactions'], revenueRows('branch', b => b.label || b.bucket)),
+    section('Revenue by payment method', ['Payment Method', 'Revenue', 'Transactions'], revenueRows('payment_method', b => b.bucket)),
+    section('Revenue by session type', ['Session Type', 'Revenue', 'Transactions'], revenueRows('session_type', b => b.bucket)),
+    section('Revenue by package', ['Package', 'Revenue', 'Transactions'], revenueRows('package', b => b.label || b.bucket)),
+    section('Top members', ['Member', 'Full Name', 'Sessions', 'Seconds Played', 'Spend'], topMembers.map(m => [
+      m.username, m.fullName, m.sessionCount, Math.round(m.totalSeconds), m.spend
+    ])),
+    section('PC utilization', ['PC', 'Branch', 'Seconds Used', 'Seconds Available', 'Utilization %'], utilization.map(d => [
+      d.deviceName, d.branchName, Math.round(d.usedSeconds), Math.round(d.availableSeconds), getUtilizationPercent(d)
+    ]))
+  ], getExportFilename('report', from, to), 'text/csv;charset=utf-8')
+}
+
+// All transactions matching the filters, newest first, or null if any page
+// failed to load
+export async function getAllTransactions(orgId: string, filters: TransactionFilters): Promise<Transaction[] | null> {
+  const transactions: Transaction[] = []
+  try {
+    for await (const rows of iterateHistory(cursor => searchTransactions(orgId, filters, cursor, EXPORT_PAGE_SIZE))) {
+      transactions.push(...rows)
+    }
+  } catch (error) {
+    console.error('Error loading statement transactions:', error)
+    return null
+  }
+  return transactions
+}
+
+
+type StatementDocument = jsPDF & { lastAutoTable?: { finalY: number } }
+
+const STATEMENT_MARGIN = 40
+
+// The built-in PDF fonts have no peso sign
+function formatStatementAmount(amount: number): string {
+  return formatCurrency(amount).replace('₱', 'PHP ')
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+function formatPeriod(from?: string, to?: string): string {
+  if (!from && !to) return 'All time'
+  const format = (day: string) => formatDate(`${day}T00:00:00`)
+  if (!from) return `Up to ${format(to!)}`
+  if (!to) return `From ${format(from)}`
+  return `${format(from)} - ${format(to)}`
+}
+
+function createStatement(organizationName: string | undefined, branchName: string, title: string, from?: string, to?: string): StatementDocument {
+  const doc: StatementDocument = new jsPDF({ unit: 'pt', format: 'a4' })
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.text(organizationName || 'Statement', STATEMENT_MARGIN, 50)
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.setTextColor(68)
+  doc.text([
+    branchName,
+    `${title} - ${formatPeriod(from, to)}`,
+    `Generated ${formatDateTime(new Date().toISOString())}`
+  ], STATEMENT_MARGIN, 68, { lineHeightFactor: 1.4 })
+  doc.setTextColor(0)
+
+  return doc
+}
+
+// A heading and its table below whatever was drawn last
+function addStatementSection(doc: StatementDocument, title: string, options: UserOptions) {
+  let y = doc.lastAutoTable ? doc.lastAutoTable.finalY + 28 : 120
+  if (y > doc.internal.pageSize.getHeight() - 80) {
+    doc.addPage()
+    y = 50
+  }
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(12)
+  doc.text(title, STATEMENT_MARGIN, y)
+
+  autoTable(doc, {
+    startY: y + 8,
+    margin: { left: STATEMENT_MARGIN, right: STATEMENT_MARGIN },
+    theme: 'striped',
+    styles: { font: 'helvetica', fontSize: 9 },
+    headStyles: { fillColor: [30, 41, 59] },
+    ...options
+  })
+}
+
+// Label and value rows, the last one in bold
+function summaryRows(rows: [string, string][]): RowInput[] {
+  return rows.map(([label, value], index) => {
+    const fontStyle: FontStyle = index === rows.length - 1 ? 'bold' : 'normal'
+    return [
+      { content: label, styles: { fontStyle } },
+      { content: value, styles: { fontStyle, halign: 'right' } }
+    ]
+  })
+}
+
+interface TransactionStatement {
+  organizationName?: string
+  branchName: string
+  from?: string
+  to?: string
+  transactions: Transaction[]
+}
+
+// Transactions for the current filters with totals and a subtotal per
+// payment method, saved as a PDF. Top-up and usage totals leave voided rows
+// out, like the Transactions page; cash and payment method totals net them
+// against their reversals, like a shift does.
+export function exportTransactionStatementPdf(statement: TransactionStatement) {
+  const rows = [...statement.transactions].reverse()
+  const counted = rows.filter(tx => !tx.voided_at)
+  const sum = (txs: Transaction[]) => txs.reduce((total, tx) => total + Math.round(Number(tx.amount) * 100), 0) / 100
+
+  const methods = [...new Set(rows.map(tx => tx.payment_method || 'credits'))].sort()
+  const byMethod = methods.map(method => {
+    const txs = rows.filter(tx => (tx.payment_method || 'credits') === method)
+    return { method, count: txs.length, total: sum(txs) }
+  })
+
+  const income = counted.filter(tx => tx.type === 'topup').reduce((total, tx) => total + Math.abs(Number(tx.amount)), 0)
+  const usage = counted.filter(tx => tx.type === 'usage').reduce((total, tx) => total + Math.abs(Number(tx.amount)), 0)
+
+  const doc = createStatement(statement.organizationName, statement.branchName, 'Transaction Statement', statement.from, statement.to)
+
+  addStatementSection(doc, 'Totals', {
+    theme: 'plain',
+    body: summaryRows([
+      ['Transactions', String(rows.length)],
+      ['Top-ups', formatStatementAmount(income)],
+      ['Usage', formatStatementAmount(usage)],
+      ['Cash taken in', formatStatementAmount(getShiftCashTotal(rows))]
+    ])
+  })
+
+  addStatementSection(doc, 'By payment method', {
+    head: [['Payment method', 'Transactions', 'Net']],
+    body: byMethod.map(m => [capitalize(m.method), String(m.count), formatStatementAmount(m.total)]),
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+  })
+
+  addStatementSection(doc, 'Transactions', {
+    head: [['Date', 'Type', 'Member', 'Payment', 'Reference', 'Amount']],
+    body: rows.length > 0
+      ? rows.map(tx => [
+          formatDateTime(tx.created_at),
+          `${transactionTypeLabels[tx.type] || tx.type}${tx.voided_at ? ' (voided)' : ''}`,
+          tx.member_id ? tx.members?.username || '-' : 'Guest',
+          capitalize(tx.payment_method || 'credits'),
+          tx.reference || '',
+          formatStatementAmount(Number(tx.amount))
+        ])
+      : [[{ content: 'No transactions in this period', colSpan: 6 }]],
+    columnStyles: { 5: { halign: 'right' } },
+    didParseCell: data => {
+      if (data.section === 'body' && rows[data.row.index]?.voided_at) {
+        data.cell.styles.textColor = 136
+      }
+    }
+  })
+
+  doc.save(getExportFilename('transaction-statement', statement.from, statement.to, 'pdf'))
+}
+
+interface MemberStatement {
+  organizationName?: string
+  branchName: string
+  member: Member
+  from?: string
+  to?: string
+  transactions: Transaction[]
+}
+
+// A member's credit activity with the balance after each line, saved as a
+// PDF. Rows from before the ledger have no balance of their own, so when the
+// first line has none the opening balance is shown as unknown rather than
+// guessed, and lines only show a balance once one has been recorded.
+export function exportMemberStatementPdf(statement: MemberStatement) {
+  const rows = [...statement.transactions].reverse()
+  const opening = rows.length > 0 && rows[0].balance_before !== null
+    ? Number(rows[0].balance_before)
+    : null
+
+  let balance = opening
+  const lines = rows.map(tx => {
+    if (tx.balance_after !== null) {
+      balance = Number(tx.balance_after)
+    } else if (balance !== null) {
+      balance += Number(tx.amount)
+    }
+    return { tx, balance }
+  })
+
+  const credited = rows.filter(tx => Number(tx.amount) > 0).reduce((total, tx) => total + Number(tx.amount), 0)
+  const debited = rows.filter(tx => Number(tx.amount) < 0).reduce((total, tx) => total + Number(tx.amount), 0)
+  const formatBalance = (value: number | null) => value !== null ? formatStatementAmount(value) : 'Unknown'
+
+  const doc = createStatement(statement.organizationName, statement.branchName, 'Member Statement', statement.from, statement.to)
+
+  const memberRows: [string, string][] = [['Username', statement.member.username]]
+  if (statement.member.full_name) memberRows.push(['Name', statement.member.full_name])
+  if (rows.length > 0) {
+    memberRows.push(
+      ['Opening balance', opening !== null ? formatStatementAmount(opening) : 'Unknown (no balance recorded)'],
+      ['Credits in', formatStatementAmount(credited)],
+      ['Credits out', formatStatementAmount(Math.abs(debited))],
+      ['Closing balance', formatBalance(lines[lines.length - 1].balance)]
+    )
+  } else {
+    // Without activity in the period only today's balance is known
+    memberRows.push(['Current balance', formatStatementAmount(Number(statement.member.credits))])
+  }
+
+  addStatementSection(doc, 'Member', { theme: 'plain', body: summaryRows(memberRows) })
+
+  addStatementSection(doc, 'Activity', {
+    head: [['Date', 'Type', 'Details', 'Amount', 'Balance']],
+    body: lines.length > 0
+      ? lines.map(({ tx, balance }) => [
+          formatDateTime(tx.created_at),
+          `${transactionTypeLabels[tx.type] || tx.type}${tx.voided_at ? ' (voided)' : ''}`,
+          tx.notes || tx.reference || '',
+          formatStatementAmount(Number(tx.amount)),
+          balance !== null ? formatStatementAmount(balance) : '-'
+        ])
+      : [[{ content: 'No activity in this period', colSpan: 5 }]],
+    columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' } }
+  })
+
+  doc.save(getExportFilename(`member-statement_${statement.member.username}`, statement.from, statement.to, 'pdf'))
+}
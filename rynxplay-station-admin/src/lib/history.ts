@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import type { HistoryCursor, HistoryPage } from '@/types'
+
+// Filters kept in the query string, so they survive a reload and the link
+// can be shared with other staff. Filters at their default stay out of it.
+export function useUrlFilters<T extends Record<string, string>>(
+  defaults: T
+): [T, (updates: Partial<T>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = Object.fromEntries(
+    Object.entries(defaults).map(([key, value]) => [key, searchParams.get(key) ?? value])
+  ) as T
+
+  const setFilters = (updates: Partial<T>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value && value !== defaults[key]) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      return next
+    }, { replace: true })
+  }
+
+  return [filters, setFilters]
+}
+
+// Pages through a server query with cursors. Going back re-runs the query
+// from where that page started; a new key (the filters) starts over. A
+// failed query leaves no rows and sets error, so it isn't shown as empty.
+export function useHistoryPages<T>(
+  fetchPage: (cursor: HistoryCursor | null) => Promise<HistoryPage<T>>,
+  key: string
+) {
+  const [rows, setRows] = useState<T[]>([])
+  const [cursors, setCursors] = useState<(HistoryCursor | null)[]>([null])
+  const [nextCursor, setNextCursor] = useState<HistoryCursor | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fetchPageRef = useRef(fetchPage)
+  const requestRef = useRef(0)
+
+  fetchPageRef.current = fetchPage
+
+  const load = useCallback(async (cursor: HistoryCursor | null) => {
+    const request = ++requestRef.current
+    setIsLoading(true)
+
+    const page = await fetchPageRef.current(cursor)
+
+    // Filters changed while this was loading
+    if (request !== requestRef.current) return
+
+    setRows(page.rows)
+    setNextCursor(page.nextCursor)
+    setError(page.error ?? null)
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    setCursors([null])
+    load(null)
+  }, [key, load])
+
+  const next = () => {
+    if (!nextCursor) return
+    setCursors(prev => [...prev, nextCursor])
+    load(nextCursor)
+  }
+
+  const previous = () => {
+    if (cursors.length < 2) return
+    const remaining = cursors.slice(0, -1)
+    setCursors(remaining)
+    load(remaining[remaining.length - 1])
+  }
+
+  const reload = () => load(cursors[cursors.length - 1])
+
+  return {
+    rows,
+    page: cursors.length,
+    hasPrevious: cursors.length > 1,
+    hasNext: !!nextCursor,
+    isLoading,
+    error,
+    next,
+    previous,
+    reload
+  }
+}
@@ -0,0 +1,49 @@
+import type { TimePackage } from '@/types'
+import { parseTimeOfDay } from '@shared/billing'
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+// Seconds since local midnight
+function getTimeOfDay(at: Date): number {
+  return at.getHours() * 3600 + at.getMinutes() * 60 + at.getSeconds()
+}
+
+// Whether a package can be sold at a moment. Until-time packages with a
+// start_time are only on sale inside their window (22:00 - 08:00 wraps past
+// midnight); everything else is on sale whenever it is active.
+export function isPackageAvailable(pkg: TimePackage, at: Date): boolean {
+  if (!pkg.is_active) return false
+  if (pkg.package_type !== 'until_time' || !pkg.start_time || !pkg.end_time) return true
+
+  const start = parseTimeOfDay(pkg.start_time)
+  const end = parseTimeOfDay(pkg.end_time)
+  const now = getTimeOfDay(at)
+
+  if (start < end) return now >= start && now < end
+  return now >= start || now < end
+}
+
+// Seconds of play a package grants when bought at a moment
+export function getPackageSeconds(pkg: TimePackage, at: Date): number {
+  if (pkg.package_type === 'until_time') {
+    if (!pkg.end_time) return 0
+
+    const seconds = parseTimeOfDay(pkg.end_time) - getTimeOfDay(at)
+    return seconds > 0 ? seconds : seconds + SECONDS_PER_DAY
+  }
+
+  return Math.max(0, (pkg.duration_minutes || 0) * 60)
+}
+
+// Short description of what a package buys, e.g. "3h", "1h 30m", "Until 08:00"
+export function formatPackageLength(pkg: TimePackage): string {
+  if (pkg.package_type === 'until_time') {
+    return pkg.end_time ? `Until ${pkg.end_time.slice(0, 5)}` : '-'
+  }
+
+  const minutes = pkg.duration_minutes || 0
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+
+  return [hours > 0 && `${hours}h`, rest > 0 && `${rest}m`].filter(Boolean).join(' ') || '0m'
+}
@@ -0,0 +1,39 @@
+import type { StaffUser, StaffRole } from '@/types'
+
+// Actions that are not open to every role. The database enforces the same
+// rules (see the staff management migration); these only hide the controls.
+export type Permission =
+  | 'devices.delete'
+  | 'devices.shutdown'
+  | 'rates.manage'
+  | 'staff.manage'
+  | 'settings.manage'
+  | 'transactions.refund'
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ['devices.delete', 'devices.shutdown', 'rates.manage', 'staff.manage', 'settings.manage', 'transactions.refund'],
+  admin: ['devices.delete', 'devices.shutdown', 'rates.manage', 'staff.manage', 'settings.manage', 'transactions.refund'],
+  staff: []
+}
+
+export function hasPermission(staff: StaffUser | null, permission: Permission): boolean {
+  if (!staff || !staff.is_active) return false
+  return ROLE_PERMISSIONS[staff.role]?.includes(permission) ?? false
+}
+
+// Roles a staff member may hand out; only owners can create other owners
+export function getAssignableRoles(staff: StaffUser | null): StaffRole[] {
+  if (!hasPermission(staff, 'staff.manage')) return []
+  return staff?.role === 'owner' ? ['owner', 'admin', 'staff'] : ['admin', 'staff']
+}
+
+// Whether a staff member's account can be edited by another
+export function canManageStaffUser(staff: StaffUser | null, target: StaffUser): boolean {
+  if (!hasPermission(staff, 'staff.manage') || staff?.id === target.id) return false
+  return target.role !== 'owner' || staff?.role === 'owner'
+}
+
+// Branch-scoped staff only see their own branch; branch_id NULL sees all
+export function isInStaffBranch(staff: StaffUser | null, branchId: string | null | undefined): boolean {
+  return !staff?.branch_id || branchId === staff.branch_id
+}
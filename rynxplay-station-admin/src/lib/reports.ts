@@ -0,0 +1,52 @@
+import type { DeviceUtilization, RevenueBucket } from '@/types'
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Local calendar day as a date input value, e.g. "2026-10-19"
+export function toDateInputValue(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(v => v.toString().padStart(2, '0'))
+    .join('-')
+}
+
+// The last `days` days, today included
+export function getRecentRange(days: number): { from: string; to: string } {
+  const from = new Date()
+  from.setDate(from.getDate() - (days - 1))
+  return { from: toDateInputValue(from), to: toDateInputValue(new Date()) }
+}
+
+// One bucket per day of the range, days without revenue at zero
+export function fillDailyBuckets(buckets: RevenueBucket[], from: string, to: string): RevenueBucket[] {
+  const byDay = new Map(buckets.map(b => [b.bucket, b]))
+  const days: RevenueBucket[] = []
+  const day = new Date(`${from}T00:00:00`)
+  const end = new Date(`${to}T00:00:00`)
+  if (isNaN(day.getTime()) || isNaN(end.getTime())) return buckets
+
+  while (day <= end) {
+    const key = toDateInputValue(day)
+    days.push(byDay.get(key) || { bucket: key, label: null, amount: 0, count: 0 })
+    day.setDate(day.getDate() + 1)
+  }
+
+  return days
+}
+
+// One bucket per hour of the day, 0 to 23
+export function fillHourlyBuckets(buckets: RevenueBucket[]): RevenueBucket[] {
+  const byHour = new Map(buckets.map(b => [Number(b.bucket), b]))
+  return Array.from({ length: 24 }, (_, hour) =>
+    byHour.get(hour) || { bucket: String(hour), label: null, amount: 0, count: 0 }
+  )
+}
+
+// e.g. "12a", "3p"
+export function formatHour(hour: number): string {
+  return `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`
+}
+
+export function getUtilizationPercent(device: Pick<DeviceUtilization, 'usedSeconds' | 'availableSeconds'>): number {
+  if (device.availableSeconds <= 0) return 0
+  return Math.min(100, Math.round(device.usedSeconds / device.availableSeconds * 100))
+}
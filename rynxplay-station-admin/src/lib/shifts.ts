@@ -0,0 +1,87 @@
+import type { CashShift, Transaction } from '@/types'
+import { escapeHtml, formatCurrency, formatDateTime } from '@/lib/utils'
+
+// Payment methods that end up in the cash drawer
+export const CASH_PAYMENT_METHODS = ['cash', 'coin']
+
+export function isCashTransaction(tx: Transaction): boolean {
+  return !!tx.payment_method && CASH_PAYMENT_METHODS.includes(tx.payment_method)
+}
+
+// Net cash taken in by a shift's transactions
+export function getShiftCashTotal(transactions: Transaction[]): number {
+  const cents = transactions
+    .filter(isCashTransaction)
+    .reduce((sum, tx) => sum + Math.round(Number(tx.amount) * 100), 0)
+  return cents / 100
+}
+
+// Expected drawer contents: the starting float plus cash taken in
+export function getExpectedCash(shift: CashShift, transactions: Transaction[]): number {
+  if (shift.expected_cash !== null) return Number(shift.expected_cash)
+  return (Math.round(Number(shift.opening_float) * 100) + Math.round(getShiftCashTotal(transactions) * 100)) / 100
+}
+
+// Open the end-of-shift report in a new window and print it
+export function printShiftReport(shift: CashShift, transactions: Transaction[], organizationName?: string): boolean {
+  const reportWindow = window.open('', '_blank', 'width=480,height=720')
+  if (!reportWindow) return false
+
+  const cashTransactions = transactions.filter(isCashTransaction)
+  const byMethod = CASH_PAYMENT_METHODS.map(method => ({
+    method,
+    total: getShiftCashTotal(cashTransactions.filter(tx => tx.payment_method === method)),
+    count: cashTransactions.filter(tx => tx.payment_method === method).length
+  }))
+
+  const row = (label: string, value: string, strong = false) =>
+    `<tr${strong ? ' class="strong"' : ''}><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`
+
+  const variance = shift.variance !== null ? Number(shift.variance) : null
+
+  reportWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Shift Report</title>
+  <style>
+    body { font-family: monospace; font-size: 13px; margin: 24px; color: #000; }
+    h1 { font-size: 16px; text-align: center; margin: 0 0 4px; }
+    p.sub { text-align: center; margin: 0 0 16px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    td { padding: 3px 0; }
+    td.num { text-align: right; }
+    tr.strong td { font-weight: bold; border-top: 1px dashed #000; }
+    h2 { font-size: 13px; border-bottom: 1px dashed #000; padding-bottom: 4px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(organizationName || 'End of Shift Report')}</h1>
+  <p class="sub">${escapeHtml(shift.branches?.name || '')}</p>
+  <table>
+    ${row('Staff', shift.staff_users?.name || '-')}
+    ${row('Opened', formatDateTime(shift.opened_at))}
+    ${row('Closed', shift.closed_at ? formatDateTime(shift.closed_at) : 'Still open')}
+  </table>
+  <h2>Cash</h2>
+  <table>
+    ${byMethod.map(m => row(`${m.method} (${m.count})`, formatCurrency(m.total))).join('')}
+    ${row('Opening float', formatCurrency(Number(shift.opening_float)))}
+    ${row('Expected in drawer', formatCurrency(getExpectedCash(shift, transactions)), true)}
+    ${shift.counted_cash !== null ? row('Counted', formatCurrency(Number(shift.counted_cash))) : ''}
+    ${variance !== null ? row(variance < 0 ? 'Short' : variance > 0 ? 'Over' : 'Variance', formatCurrency(variance), true) : ''}
+  </table>
+  <h2>Transactions (${cashTransactions.length})</h2>
+  <table>
+    ${cashTransactions.map(tx => row(
+      `${new Date(tx.created_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })} ${tx.members?.username || 'Guest'} ${tx.type}`,
+      formatCurrency(Number(tx.amount))
+    )).join('')}
+  </table>
+  ${shift.notes ? `<h2>Notes</h2><p>${escapeHtml(shift.notes)}</p>` : ''}
+</body>
+</html>`)
+  reportWindow.document.close()
+  reportWindow.focus()
+  reportWindow.print()
+  return true
+}
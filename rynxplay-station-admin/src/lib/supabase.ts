@@ -4,20 +4,68 @@ import type {
   Session, 
   Member, 
   DeviceCommand, 
+  DevicePresenceState,
   Rate, 
+  RateSchedule,
+  TimePackage,
   Branch, 
   Transaction,
   Organization,
   StaffUser,
   DashboardStats,
-  CommandType
+  CommandType,
+  TransactionType,
+  CreditLedgerError,
+  CreditLedgerResult,
+  StaffRole,
+  StaffInviteError,
+  StaffInviteResult,
+  CashShift,
+  RefundError,
+  RefundResult,
+  ExtendSessionError,
+  ExtendSessionResult,
+  MoveSessionError,
+  MoveSessionResult,
+  ApproveDeviceError,
+  ApproveDeviceResult,
+  ClientSyncEvent,
+  AdminExitCode,
+  AdminExitCodeType,
+  AdminExitEvent,
+  ClientConfig,
+  DeviceConfig,
+  TransferError,
+  TransferResult,
+  BulkDeviceAction,
+  BulkDeviceActionError,
+  BulkDeviceActionResult,
+  ScheduledCommand,
+  ScheduledCommandRun,
+  HistoryCursor,
+  HistoryPage,
+  SessionFilters,
+  SessionTotals,
+  TransactionFilters,
+  TransactionTotals,
+  MemberFilters,
+  ReportFilters,
+  RevenueDimension,
+  RevenueReport,
+  SessionTypeReport,
+  TopMember,
+  TopMemberOrder,
+  DeviceUtilization,
+  OccupancyCell
 } from '@/types'
+import { CASH_PAYMENT_METHODS } from './shifts'
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-// Heartbeat timeout - device is considered offline if no heartbeat for this duration
-const HEARTBEAT_TIMEOUT_MS = 45000 // 45 seconds
+// Heartbeat timeout - only used while branch presence isn't available.
+// PCs heartbeat every 60 seconds by default and at least every 90.
+const HEARTBEAT_TIMEOUT_MS = 180000 // 3 minutes
 
 let supabaseClient: SupabaseClient | null = null
 
@@ -87,6 +135,87 @@ export async function getStaffUser(authUserId: string): Promise<StaffUser | null
   return data
 }
 
+// Link a pending invite for the signed-in user's email to their account
+export async function claimStaffInvite(): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('claim_staff_invite')
+  
+  if (error) {
+    console.error('Error claiming staff invite:', error)
+    return false
+  }
+  
+  return !!data?.id
+}
+
+// Staff operations
+export async function getStaffUsers(orgId: string): Promise<StaffUser[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('staff_users')
+    .select('*, branches(*)')
+    .eq('org_id', orgId)
+    .order('created_at')
+  
+  if (error) {
+    console.error('Error getting staff users:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function inviteStaffUser(invite: {
+  email: string
+  name: string
+  role: StaffRole
+  branchId: string | null
+}): Promise<StaffInviteResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('invite_staff_user', {
+    p_email: invite.email,
+    p_name: invite.name,
+    p_role: invite.role,
+    p_branch_id: invite.branchId
+  })
+  
+  if (error || !data) {
+    console.error('Error inviting staff user:', error)
+    return { success: false, error: getStaffInviteError(error?.message) }
+  }
+  
+  return { success: true, staff: data as StaffUser }
+}
+
+function getStaffInviteError(message?: string): StaffInviteError {
+  if (message?.includes('already_invited')) return 'already_invited'
+  if (message?.includes('not_allowed')) return 'not_allowed'
+  if (message?.includes('invalid_branch')) return 'invalid_branch'
+  return 'failed'
+}
+
+export async function updateStaffUser(id: string, updates: Partial<StaffUser>): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('staff_users')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error updating staff user:', error)
+    return false
+  }
+  
+  return true
+}
+
 // Organization operations
 export async function getOrganization(orgId: string): Promise<Organization | null> {
   const supabase = getSupabase()
@@ -105,6 +234,24 @@ export async function getOrganization(orgId: string): Promise<Organization | nul
   return data
 }
 
+// Owners and admins change the transfer limits through an RPC; the rest of
+// the organization row is read-only
+export async function updateTransferLimits(dailyLimit: number, dailyCount: number): Promise<Organization | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('update_transfer_limits', {
+    p_daily_limit: dailyLimit,
+    p_daily_count: dailyCount
+  })
+  
+  if (error) {
+    console.error('Error updating transfer limits:', error)
+    return null
+  }
+  
+  return data
+}
+
 // Branch operations
 export async function getBranches(orgId: string): Promise<Branch[]> {
   const supabase = getSupabase()
@@ -180,8 +327,19 @@ export async function getDevices(orgId: string): Promise<Device[]> {
   return devicesWithStatus
 }
 
-// Helper to determine effective device status based on heartbeat
-export function getEffectiveDeviceStatus(device: Device): Device['status'] {
+// Helper to determine effective device status. With the branch presence
+// (keyed by device id) a PC is online exactly while it is in it; without,
+// fall back to the heartbeat.
+export function getEffectiveDeviceStatus(
+  device: Pick<Device, 'id' | 'status' | 'last_heartbeat'>,
+  presence?: Record<string, DevicePresenceState> | null
+): Device['status'] {
+  if (presence) {
+    const state = presence[device.id]
+    if (!state) return 'offline'
+    return state.in_session ? 'in_use' : 'online'
+  }
+  
   if (!device.last_heartbeat) {
     return 'offline'
   }
@@ -234,31 +392,36 @@ export async function getDeviceByCode(deviceCode: string): Promise<Device | null
   return data
 }
 
+// Approving also issues the device its own secret, which the PC claims with
+// the registration key it generated; it signs its writes with it from then on
 export async function approveDevice(
   deviceId: string, 
   branchId: string, 
   rateId: string,
-  name?: string
-): Promise<boolean> {
+  name?: string,
+  approvedBy?: string
+): Promise<ApproveDeviceResult> {
   const supabase = getSupabase()
   
-  const { error } = await supabase
-    .from('devices')
-    .update({
-      branch_id: branchId,
-      rate_id: rateId,
-      status: 'offline',
-      name: name,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', deviceId)
+  const { error } = await supabase.rpc('approve_device', {
+    p_device_id: deviceId,
+    p_branch_id: branchId,
+    p_rate_id: rateId,
+    p_name: name || null,
+    p_approved_by: approvedBy || null
+  })
   
   if (error) {
     console.error('Error approving device:', error)
-    return false
+    return { success: false, error: getApproveDeviceError(error.message) }
   }
   
-  return true
+  return { success: true }
+}
+
+function getApproveDeviceError(message?: string): ApproveDeviceError {
+  if (message?.includes('device_not_registered')) return 'device_not_registered'
+  return 'failed'
 }
 
 export async function updateDevice(id: string, updates: Partial<Device>): Promise<boolean> {
@@ -323,6 +486,93 @@ export async function sendDeviceCommand(
   return data
 }
 
+// Newest first, for the device's command history
+export async function getDeviceCommands(deviceId: string, limit = 20): Promise<DeviceCommand[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('device_commands')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  
+  if (error) {
+    console.error('Error getting device commands:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// Queues one command per device under a shared batch id. Rate and branch
+// changes are applied by the RPC; the PCs are then told to reload.
+export async function dispatchBulkDeviceAction(
+  deviceIds: string[],
+  action: BulkDeviceAction,
+  payload: Record<string, unknown> = {},
+  createdBy?: string
+): Promise<BulkDeviceActionResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('dispatch_bulk_device_action', {
+    p_device_ids: deviceIds,
+    p_action: action,
+    p_payload: payload,
+    p_created_by: createdBy || null
+  })
+  
+  if (error || !data) {
+    console.error('Error dispatching bulk action:', error)
+    return { success: false, error: getBulkDeviceActionError(error?.message) }
+  }
+  
+  return { success: true, batchId: data as string }
+}
+
+function getBulkDeviceActionError(message?: string): BulkDeviceActionError {
+  if (message?.includes('not_authorized')) return 'not_authorized'
+  if (message?.includes('device_not_found')) return 'device_not_found'
+  if (message?.includes('rate_not_in_branch')) return 'rate_not_in_branch'
+  if (message?.includes('branch_not_found')) return 'branch_not_found'
+  if (message?.includes('device_in_use')) return 'device_in_use'
+  return 'failed'
+}
+
+// Each PC is woken through another online PC of its branch; PCs that can't
+// be woken get a failed command in the batch saying why
+export async function wakeDevices(deviceIds: string[], createdBy?: string): Promise<BulkDeviceActionResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('wake_devices', {
+    p_device_ids: deviceIds,
+    p_created_by: createdBy || null
+  })
+  
+  if (error || !data) {
+    console.error('Error waking devices:', error)
+    return { success: false, error: getBulkDeviceActionError(error?.message) }
+  }
+  
+  return { success: true, batchId: data as string }
+}
+
+export async function getBatchCommands(batchId: string): Promise<DeviceCommand[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('device_commands')
+    .select('*')
+    .eq('batch_id', batchId)
+  
+  if (error) {
+    console.error('Error getting batch commands:', error)
+    return []
+  }
+  
+  return data || []
+}
+
 // Rate operations
 export async function getRates(branchId: string): Promise<Rate[]> {
   const supabase = getSupabase()
@@ -391,46 +641,63 @@ export async function updateRate(id: string, updates: Partial<Rate>): Promise<bo
   return true
 }
 
-// Member operations
-export async function getMembers(orgId: string): Promise<Member[]> {
+// Rate schedule operations
+export async function getRateSchedules(branchId: string): Promise<RateSchedule[]> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('members')
-    .select('*')
-    .eq('org_id', orgId)
-    .order('created_at', { ascending: false })
+    .from('rate_schedules')
+    .select('*, rates(*)')
+    .eq('branch_id', branchId)
+    .order('priority', { ascending: false })
   
   if (error) {
-    console.error('Error getting members:', error)
+    console.error('Error getting rate schedules:', error)
     return []
   }
   
   return data || []
 }
 
-export async function createMember(member: Partial<Member>): Promise<Member | null> {
+export async function getAllRateSchedules(orgId: string): Promise<RateSchedule[]> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('members')
-    .insert(member)
+    .from('rate_schedules')
+    .select('*, rates(*), branches!inner(*)')
+    .eq('branches.org_id', orgId)
+    .order('priority', { ascending: false })
+  
+  if (error) {
+    console.error('Error getting rate schedules:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function createRateSchedule(schedule: Partial<RateSchedule>): Promise<RateSchedule | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('rate_schedules')
+    .insert(schedule)
     .select()
     .single()
   
   if (error) {
-    console.error('Error creating member:', error)
+    console.error('Error creating rate schedule:', error)
     return null
   }
   
   return data
 }
 
-export async function updateMember(id: string, updates: Partial<Member>): Promise<boolean> {
+export async function updateRateSchedule(id: string, updates: Partial<RateSchedule>): Promise<boolean> {
   const supabase = getSupabase()
   
   const { error } = await supabase
-    .from('members')
+    .from('rate_schedules')
     .update({
       ...updates,
       updated_at: new Date().toISOString()
@@ -438,206 +705,1100 @@ export async function updateMember(id: string, updates: Partial<Member>): Promis
     .eq('id', id)
   
   if (error) {
-    console.error('Error updating member:', error)
+    console.error('Error updating rate schedule:', error)
     return false
   }
   
   return true
 }
 
-export async function addMemberCredits(
-  memberId: string,
-  amount: number,
-  branchId: string,
-  paymentMethod: string,
-  createdBy?: string
-): Promise<boolean> {
+export async function deleteRateSchedule(id: string): Promise<boolean> {
   const supabase = getSupabase()
   
-  const { data: member, error: memberError } = await supabase
-    .from('members')
-    .select('credits')
-    .eq('id', memberId)
-    .single()
-  
-  if (memberError || !member) {
-    console.error('Error getting member:', memberError)
-    return false
-  }
-  
-  const newBalance = member.credits + amount
-  
-  const { error: updateError } = await supabase
-    .from('members')
-    .update({ credits: newBalance })
-    .eq('id', memberId)
+  const { error } = await supabase
+    .from('rate_schedules')
+    .delete()
+    .eq('id', id)
   
-  if (updateError) {
-    console.error('Error updating credits:', updateError)
+  if (error) {
+    console.error('Error deleting rate schedule:', error)
     return false
   }
   
-  const { error: txError } = await supabase
-    .from('transactions')
-    .insert({
-      member_id: memberId,
-      branch_id: branchId,
-      type: 'topup',
-      amount: amount,
-      balance_before: member.credits,
-      balance_after: newBalance,
-      payment_method: paymentMethod,
-      created_by: createdBy
-    })
-  
-  if (txError) {
-    console.error('Error creating transaction:', txError)
-  }
-  
   return true
 }
 
-// Session operations
-export async function getSessions(orgId: string, limit = 100): Promise<Session[]> {
+// Time package operations
+export async function getTimePackages(branchId: string): Promise<TimePackage[]> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('sessions')
-    .select('*, members(*), devices!inner(*, branches!inner(*)), rates(*)')
-    .eq('devices.branches.org_id', orgId)
-    .order('created_at', { ascending: false })
-    .limit(limit)
+    .from('time_packages')
+    .select('*')
+    .eq('branch_id', branchId)
+    .order('sort_order')
   
   if (error) {
-    console.error('Error getting sessions:', error)
+    console.error('Error getting time packages:', error)
     return []
   }
   
   return data || []
 }
 
-export async function getActiveSessions(orgId: string): Promise<Session[]> {
+export async function getAllTimePackages(orgId: string): Promise<TimePackage[]> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('sessions')
-    .select('*, members(*), devices!inner(*, branches!inner(*)), rates(*)')
-    .eq('devices.branches.org_id', orgId)
-    .eq('status', 'active')
-    .order('started_at', { ascending: false })
+    .from('time_packages')
+    .select('*, branches!inner(*)')
+    .eq('branches.org_id', orgId)
+    .order('sort_order')
   
   if (error) {
-    console.error('Error getting active sessions:', error)
+    console.error('Error getting time packages:', error)
     return []
   }
   
   return data || []
 }
 
-export async function getSessionById(sessionId: string): Promise<Session | null> {
+export async function createTimePackage(pkg: Partial<TimePackage>): Promise<TimePackage | null> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('sessions')
-    .select('*, members(*), devices(*), rates(*)')
-    .eq('id', sessionId)
+    .from('time_packages')
+    .insert(pkg)
+    .select()
     .single()
   
   if (error) {
-    console.error('Error getting session:', error)
+    console.error('Error creating time package:', error)
     return null
   }
   
   return data
 }
 
-export async function endSession(sessionId: string): Promise<boolean> {
+export async function updateTimePackage(id: string, updates: Partial<TimePackage>): Promise<boolean> {
   const supabase = getSupabase()
   
   const { error } = await supabase
-    .from('sessions')
+    .from('time_packages')
     .update({
-      status: 'terminated',
-      ended_at: new Date().toISOString()
+      ...updates,
+      updated_at: new Date().toISOString()
     })
-    .eq('id', sessionId)
+    .eq('id', id)
   
   if (error) {
-    console.error('Error ending session:', error)
+    console.error('Error updating time package:', error)
     return false
   }
   
   return true
 }
 
-// Transaction operations
-export async function getTransactions(orgId: string, limit = 100): Promise<Transaction[]> {
+export async function deleteTimePackage(id: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('time_packages')
+    .delete()
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error deleting time package:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Member operations
+export async function getMembers(orgId: string): Promise<Member[]> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('transactions')
-    .select('*, members(*), branches!inner(*)')
-    .eq('branches.org_id', orgId)
+    .from('members')
+    .select('*')
+    .eq('org_id', orgId)
     .order('created_at', { ascending: false })
-    .limit(limit)
   
   if (error) {
-    console.error('Error getting transactions:', error)
+    console.error('Error getting members:', error)
     return []
   }
   
   return data || []
 }
 
-// Dashboard stats
-export async function getDashboardStats(orgId: string): Promise<DashboardStats> {
+export async function createMember(member: Partial<Member>): Promise<Member | null> {
   const supabase = getSupabase()
   
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
+  const { data, error } = await supabase
+    .from('members')
+    .insert(member)
+    .select()
+    .single()
   
-  try {
-    const { data: devices } = await supabase
-      .from('devices')
-      .select('status, last_heartbeat, branches!inner(org_id)')
-      .eq('branches.org_id', orgId)
-    
-    const { data: pendingDevices } = await supabase
-      .from('devices')
-      .select('id')
-      .is('branch_id', null)
-    
-    const { data: members } = await supabase
-      .from('members')
-      .select('is_active')
-      .eq('org_id', orgId)
-    
-    const { data: sessions } = await supabase
-      .from('sessions')
-      .select('status, devices!inner(branches!inner(org_id))')
-      .eq('devices.branches.org_id', orgId)
-    
-    const { data: todayTransactions } = await supabase
-      .from('transactions')
-      .select('amount, type, branches!inner(org_id)')
-      .eq('branches.org_id', orgId)
-      .eq('type', 'topup')
-      .gte('created_at', today.toISOString())
+  if (error) {
+    console.error('Error creating member:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function updateMember(id: string, updates: Partial<Member>): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('members')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error updating member:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Every balance change goes through the apply_member_credit RPC, which locks
+// the member row, rejects overdrafts and writes the transaction atomically.
+// Amounts are signed: positive credits the member, negative debits. The
+// signed-in staff member is recorded as the creator.
+export async function applyMemberCredit(
+  memberId: string,
+  amount: number,
+  type: TransactionType,
+  options: {
+    branchId?: string | null
+    sessionId?: string | null
+    paymentMethod?: string | null
+    notes?: string | null
+  } = {}
+): Promise<CreditLedgerResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('apply_member_credit', {
+    p_member_id: memberId,
+    p_amount: amount,
+    p_type: type,
+    p_branch_id: options.branchId ?? null,
+    p_session_id: options.sessionId ?? null,
+    p_payment_method: options.paymentMethod ?? null,
+    p_notes: options.notes ?? null
+  })
+  
+  if (error || !data) {
+    console.error('Error applying member credit:', error)
+    return { success: false, error: getCreditLedgerError(error?.message) }
+  }
+  
+  const transaction = data as Transaction
+  return { success: true, transaction, newBalance: transaction.balance_after ?? undefined }
+}
+
+function getCreditLedgerError(message?: string): CreditLedgerError {
+  if (message?.includes('insufficient_credits')) return 'insufficient_credits'
+  if (message?.includes('member_not_found')) return 'member_not_found'
+  if (message?.includes('invalid_amount')) return 'invalid_amount'
+  return 'failed'
+}
+
+export async function addMemberCredits(
+  memberId: string,
+  amount: number,
+  branchId: string | null,
+  paymentMethod: string,
+  notes?: string
+): Promise<boolean> {
+  const result = await applyMemberCredit(memberId, amount, 'topup', {
+    branchId,
+    paymentMethod,
+    notes
+  })
+  
+  return result.success
+}
+
+// Moves credits between two members of the org in one database transaction.
+// Daily limits come from the organization's settings; see lib/transfers.
+export async function transferMemberCredits(params: {
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+  branchId?: string | null
+  notes?: string | null
+}): Promise<TransferResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('transfer_member_credits', {
+    p_from_member_id: params.fromMemberId,
+    p_to_member_id: params.toMemberId,
+    p_amount: params.amount,
+    p_branch_id: params.branchId ?? null,
+    p_notes: params.notes ?? null
+  })
+  
+  if (error || !data) {
+    console.error('Error transferring member credits:', error)
+    return { success: false, error: getTransferError(error?.message) }
+  }
+  
+  const [outgoing, incoming] = data as Transaction[]
+  return { success: true, outgoing, incoming }
+}
+
+function getTransferError(message?: string): TransferError {
+  if (message?.includes('insufficient_credits')) return 'insufficient_credits'
+  if (message?.includes('member_not_found')) return 'member_not_found'
+  if (message?.includes('member_inactive')) return 'member_inactive'
+  if (message?.includes('same_member')) return 'same_member'
+  if (message?.includes('invalid_amount')) return 'invalid_amount'
+  if (message?.includes('invalid_pin')) return 'invalid_pin'
+  if (message?.includes('pin_locked')) return 'pin_locked'
+  if (message?.includes('daily_limit_exceeded')) return 'daily_limit_exceeded'
+  if (message?.includes('daily_count_exceeded')) return 'daily_count_exceeded'
+  return 'failed'
+}
+
+// Session operations
+export async function getActiveSessions(orgId: string): Promise<Session[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('*, members(*), devices!inner(*, branches!inner(*)), rates(*), time_packages(*)')
+    .eq('devices.branches.org_id', orgId)
+    .in('status', ['active', 'paused'])
+    .order('started_at', { ascending: false })
+  
+  if (error) {
+    console.error('Error getting active sessions:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function getSessionById(sessionId: string): Promise<Session | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('*, members(*), devices(*, branches(*)), rates(*), time_packages(*)')
+    .eq('id', sessionId)
+    .single()
+  
+  if (error) {
+    console.error('Error getting session:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function endSession(sessionId: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('sessions')
+    .update({
+      status: 'terminated',
+      ended_at: new Date().toISOString()
+    })
+    .eq('id', sessionId)
+  
+  if (error) {
+    console.error('Error ending session:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Pausing or resuming from here is for a PC that is off and can't take the
+// command; the session keeps the time the PC last synced
+export async function pauseSession(sessionId: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase.rpc('pause_session', { p_session_id: sessionId })
+  
+  if (error) {
+    console.error('Error pausing session:', error)
+    return false
+  }
+  
+  return true
+}
+
+export async function resumeSession(sessionId: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase.rpc('resume_session', { p_session_id: sessionId })
+  
+  if (error) {
+    console.error('Error resuming session:', error)
+    return false
+  }
+  
+  return true
+}
+
+// History queries: paged on the server, newest first
+const HISTORY_PAGE_SIZE = 25
+
+// Local calendar days to the instants around them; `to` includes its day
+function getDateBounds(from?: string, to?: string): { from: string | null; to: string | null } {
+  const start = from ? new Date(`${from}T00:00:00`) : null
+  const end = to ? new Date(`${to}T00:00:00`) : null
+  if (end) end.setDate(end.getDate() + 1)
+  
+  return {
+    from: start && !isNaN(start.getTime()) ? start.toISOString() : null,
+    to: end && !isNaN(end.getTime()) ? end.toISOString() : null
+  }
+}
+
+// Every word as a prefix, like member_search_query() in the database
+function getMemberSearchQuery(search?: string): string | null {
+  const words = (search || '').trim().toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return null
+  
+  return words
+    .map(word => `'${word.replace(/\\/g, '').replace(/'/g, "''")}':*`)
+    .join(' & ')
+}
+
+// Rows after the cursor in (created_at, id) order
+function getCursorFilter(cursor: HistoryCursor): string {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+}
+
+// Queries ask for one row more than a page to know if there is a next one
+function toHistoryPage<T extends { id: string; created_at: string }>(rows: T[], limit: number): HistoryPage<T> {
+  const pageRows = rows.slice(0, limit)
+  const last = pageRows[pageRows.length - 1]
+  
+  return {
+    rows: pageRows,
+    nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null
+  }
+}
+
+export async function searchSessions(
+  orgId: string,
+  filters: SessionFilters,
+  cursor: HistoryCursor | null = null,
+  limit = HISTORY_PAGE_SIZE
+): Promise<HistoryPage<Session>> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  const search = getMemberSearchQuery(filters.search)
+  
+  let query = supabase
+    .from('sessions')
+    .select(`*, members${search ? '!inner' : ''}(*), devices!inner(*, branches!inner(*)), rates(*), time_packages(*)`)
+    .eq('devices.branches.org_id', orgId)
+  
+  if (from) query = query.gte('created_at', from)
+  if (to) query = query.lt('created_at', to)
+  if (filters.branchId) query = query.eq('branch_id', filters.branchId)
+  if (filters.deviceId) query = query.eq('device_id', filters.deviceId)
+  if (filters.memberId) query = query.eq('member_id', filters.memberId)
+  if (filters.status) query = query.eq('status', filters.status)
+  if (filters.sessionType) query = query.eq('session_type', filters.sessionType)
+  if (search) query = query.textSearch('members.search_vector', search, { config: 'simple' })
+  if (cursor) query = query.or(getCursorFilter(cursor))
+  
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+  
+  if (error) {
+    console.error('Error searching sessions:', error)
+    return { rows: [], nextCursor: null, error: error.message }
+  }
+  
+  return toHistoryPage(data || [], limit)
+}
+
+export async function getSessionTotals(filters: SessionFilters): Promise<SessionTotals> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_session_totals', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null,
+    p_device_id: filters.deviceId || null,
+    p_member_id: filters.memberId || null,
+    p_status: filters.status || null,
+    p_session_type: filters.sessionType || null,
+    p_search: filters.search || null
+  })
+  
+  if (error) {
+    console.error('Error getting session totals:', error)
+    return { count: 0, revenue: 0, averageSeconds: 0 }
+  }
+  
+  const totals = data?.[0]
+  return {
+    count: Number(totals?.session_count) || 0,
+    revenue: Number(totals?.revenue) || 0,
+    averageSeconds: Number(totals?.average_seconds) || 0
+  }
+}
+
+export async function searchTransactions(
+  orgId: string,
+  filters: TransactionFilters,
+  cursor: HistoryCursor | null = null,
+  limit = HISTORY_PAGE_SIZE
+): Promise<HistoryPage<Transaction>> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  const search = getMemberSearchQuery(filters.search)
+  
+  let query = supabase
+    .from('transactions')
+    .select(`*, members${search ? '!inner' : ''}(*), branches!inner(*)`)
+    .eq('branches.org_id', orgId)
+  
+  if (from) query = query.gte('created_at', from)
+  if (to) query = query.lt('created_at', to)
+  if (filters.branchId) query = query.eq('branch_id', filters.branchId)
+  if (filters.memberId) query = query.eq('member_id', filters.memberId)
+  if (filters.type) query = query.eq('type', filters.type)
+  if (filters.paymentMethod) query = query.eq('payment_method', filters.paymentMethod)
+  if (search) query = query.textSearch('members.search_vector', search, { config: 'simple' })
+  if (cursor) query = query.or(getCursorFilter(cursor))
+  
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+  
+  if (error) {
+    console.error('Error searching transactions:', error)
+    return { rows: [], nextCursor: null, error: error.message }
+  }
+  
+  return toHistoryPage(data || [], limit)
+}
+
+export async function getTransactionTotals(filters: TransactionFilters): Promise<TransactionTotals> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_transaction_totals', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null,
+    p_member_id: filters.memberId || null,
+    p_type: filters.type || null,
+    p_payment_method: filters.paymentMethod || null,
+    p_search: filters.search || null
+  })
+  
+  if (error) {
+    console.error('Error getting transaction totals:', error)
+    return { count: 0, income: 0, usage: 0 }
+  }
+  
+  const totals = data?.[0]
+  return {
+    count: Number(totals?.transaction_count) || 0,
+    income: Number(totals?.income) || 0,
+    usage: Number(totals?.usage) || 0
+  }
+}
+
+export async function searchMembers(
+  orgId: string,
+  filters: MemberFilters,
+  cursor: HistoryCursor | null = null,
+  limit = HISTORY_PAGE_SIZE
+): Promise<HistoryPage<Member>> {
+  const supabase = getSupabase()
+  const search = getMemberSearchQuery(filters.search)
+  
+  let query = supabase
+    .from('members')
+    .select('*')
+    .eq('org_id', orgId)
+  
+  if (filters.status) query = query.eq('is_active', filters.status === 'active')
+  if (search) query = query.textSearch('search_vector', search, { config: 'simple' })
+  if (cursor) query = query.or(getCursorFilter(cursor))
+  
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+  
+  if (error) {
+    console.error('Error searching members:', error)
+    return { rows: [], nextCursor: null, error: error.message }
+  }
+  
+  return toHistoryPage(data || [], limit)
+}
+
+// Transaction operations
+export async function getMemberTransactions(memberId: string, limit = 20): Promise<Transaction[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*')
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  
+  if (error) {
+    console.error('Error getting member transactions:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// A transaction and every refund/void that points back to it
+export async function getTransactionChain(rootId: string): Promise<Transaction[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*, members(*)')
+    .or(`id.eq.${rootId},original_transaction_id.eq.${rootId}`)
+    .order('created_at')
+  
+  if (error) {
+    console.error('Error getting transaction chain:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// Refund and void operations (owner/admin only, enforced by the RPCs, and
+// recorded as the signed-in staff member)
+export async function voidTransaction(transactionId: string, reason: string): Promise<RefundResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('void_transaction', {
+    p_transaction_id: transactionId,
+    p_reason: reason
+  })
+  
+  if (error || !data) {
+    console.error('Error voiding transaction:', error)
+    return { success: false, error: getRefundError(error?.message) }
+  }
+  
+  return { success: true, transaction: data as Transaction }
+}
+
+// Guests get back the unused time the database works out; members get back
+// the amount given, up to what the session charged
+export async function refundSession(
+  sessionId: string,
+  reason: string,
+  amount?: number
+): Promise<RefundResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('refund_session', {
+    p_session_id: sessionId,
+    p_reason: reason,
+    p_amount: amount ?? null
+  })
+  
+  if (error || !data) {
+    console.error('Error refunding session:', error)
+    return { success: false, error: getRefundError(error?.message) }
+  }
+  
+  return { success: true, transaction: data as Transaction }
+}
+
+function getRefundError(message?: string): RefundError {
+  if (message?.includes('not_allowed')) return 'not_allowed'
+  if (message?.includes('not_refundable')) return 'not_refundable'
+  if (message?.includes('already_voided')) return 'already_voided'
+  if (message?.includes('exceeds_refundable')) return 'exceeds_refundable'
+  if (message?.includes('insufficient_credits')) return 'insufficient_credits'
+  return 'failed'
+}
+
+// Adds paid time to a running guest session; the RPC also queues the
+// add_time command that tells the PC
+export async function extendSession(
+  sessionId: string,
+  amount: number,
+  seconds: number,
+  paymentMethod: 'cash' | 'coin'
+): Promise<ExtendSessionResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('extend_session', {
+    p_session_id: sessionId,
+    p_amount: amount,
+    p_seconds: seconds,
+    p_payment_method: paymentMethod
+  })
+  
+  if (error || !data) {
+    console.error('Error extending session:', error)
+    return { success: false, error: getExtendSessionError(error?.message) }
+  }
+  
+  return { success: true, transaction: data as Transaction }
+}
+
+function getExtendSessionError(message?: string): ExtendSessionError {
+  if (message?.includes('invalid_amount')) return 'invalid_amount'
+  if (message?.includes('session_not_active')) return 'session_not_active'
+  if (message?.includes('not_guest_session')) return 'not_guest_session'
+  return 'failed'
+}
+
+// Moves a running session to another device; the RPC keeps both devices
+// rows consistent and queues the lock/unlock commands for the two PCs
+export async function moveSession(sessionId: string, targetDeviceId: string, createdBy?: string): Promise<MoveSessionResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('move_session', {
+    p_session_id: sessionId,
+    p_target_device_id: targetDeviceId,
+    p_created_by: createdBy || null
+  })
+  
+  if (error || !data) {
+    console.error('Error moving session:', error)
+    return { success: false, error: getMoveSessionError(error?.message) }
+  }
+  
+  return { success: true, session: data as Session }
+}
+
+function getMoveSessionError(message?: string): MoveSessionError {
+  if (message?.includes('session_not_active')) return 'session_not_active'
+  if (message?.includes('same_device')) return 'same_device'
+  if (message?.includes('device_busy')) return 'device_busy'
+  return 'failed'
+}
+
+// Offline replay conflicts from client PCs that staff haven't reviewed yet
+export async function getSyncConflicts(orgId: string): Promise<ClientSyncEvent[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('client_sync_events')
+    .select('*, devices!inner(*, branches!inner(*)), sessions(*, members(*))')
+    .eq('devices.branches.org_id', orgId)
+    .eq('status', 'conflict')
+    .is('resolved_at', null)
+    .order('applied_at', { ascending: false })
+  
+  if (error) {
+    console.error('Error getting sync conflicts:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function resolveSyncConflict(id: string, staffId?: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('client_sync_events')
+    .update({
+      resolved_at: new Date().toISOString(),
+      resolved_by: staffId || null
+    })
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error resolving sync conflict:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Admin exit codes. Static codes arrive here already hashed (see
+// lib/exitCodes.ts); PCs fetch the verifiers that apply to them and check
+// codes offline.
+export async function getExitCodes(orgId: string): Promise<AdminExitCode[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('admin_exit_codes')
+    .select('*, devices(*)')
+    .eq('org_id', orgId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+  
+  if (error) {
+    console.error('Error getting exit codes:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function createExitCode(code: {
+  org_id: string
+  device_id: string | null
+  label: string
+  code_type: AdminExitCodeType
+  code_salt?: string
+  code_hash?: string
+  code_iterations?: number
+  totp_secret?: string
+  expires_at: string | null
+  created_by?: string
+}): Promise<AdminExitCode | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('admin_exit_codes')
+    .insert(code)
+    .select('*, devices(*)')
+    .single()
+  
+  if (error) {
+    console.error('Error creating exit code:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function revokeExitCode(id: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('admin_exit_codes')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error revoking exit code:', error)
+    return false
+  }
+  
+  return true
+}
+
+export async function getAdminExitEvents(orgId: string, limit = 50): Promise<AdminExitEvent[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('admin_exit_events')
+    .select('*, devices!inner(*, branches!inner(*)), admin_exit_codes(*)')
+    .eq('devices.branches.org_id', orgId)
+    .order('used_at', { ascending: false })
+    .limit(limit)
+  
+  if (error) {
+    console.error('Error getting admin exit events:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// Client config operations
+// The document for one branch, or one device's overrides
+export async function getDeviceConfig(scope: { branchId?: string; deviceId?: string }): Promise<DeviceConfig | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('device_configs')
+    .select('*')
+    .eq(scope.deviceId ? 'device_id' : 'branch_id', scope.deviceId || scope.branchId)
+    .maybeSingle()
+  
+  if (error) {
+    console.error('Error getting device config:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function saveDeviceConfig(
+  scope: { branchId?: string; deviceId?: string },
+  config: Partial<ClientConfig>,
+  updatedBy?: string
+): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase.rpc('save_device_config', {
+    p_branch_id: scope.branchId || null,
+    p_device_id: scope.deviceId || null,
+    p_config: config,
+    p_updated_by: updatedBy || null
+  })
+  
+  if (error) {
+    console.error('Error saving device config:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Scheduled command operations
+export async function getScheduledCommands(orgId: string): Promise<ScheduledCommand[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('scheduled_commands')
+    .select('*, branches!inner(*)')
+    .eq('branches.org_id', orgId)
+    .order('next_run_at', { ascending: true, nullsFirst: false })
+  
+  if (error) {
+    console.error('Error getting scheduled commands:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function createScheduledCommand(command: Partial<ScheduledCommand>): Promise<ScheduledCommand | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('scheduled_commands')
+    .insert(command)
+    .select()
+    .single()
+  
+  if (error) {
+    console.error('Error creating scheduled command:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function updateScheduledCommand(id: string, updates: Partial<ScheduledCommand>): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('scheduled_commands')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error updating scheduled command:', error)
+    return false
+  }
+  
+  return true
+}
+
+export async function deleteScheduledCommand(id: string): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase
+    .from('scheduled_commands')
+    .delete()
+    .eq('id', id)
+  
+  if (error) {
+    console.error('Error deleting scheduled command:', error)
+    return false
+  }
+  
+  return true
+}
+
+// Newest first, for the run log
+export async function getScheduledCommandRuns(orgId: string, limit = 50): Promise<ScheduledCommandRun[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('scheduled_command_runs')
+    .select('*, scheduled_commands(*), branches!inner(org_id)')
+    .eq('branches.org_id', orgId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  
+  if (error) {
+    console.error('Error getting scheduled command runs:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// Cash shift operations
+export async function getCashShifts(orgId: string, limit = 100): Promise<CashShift[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select('*, staff_users!staff_id(*), branches!inner(*)')
+    .eq('branches.org_id', orgId)
+    .order('opened_at', { ascending: false })
+    .limit(limit)
+  
+  if (error) {
+    console.error('Error getting cash shifts:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+export async function getOpenCashShift(staffId: string): Promise<CashShift | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select('*, branches(*)')
+    .eq('staff_id', staffId)
+    .eq('status', 'open')
+    .maybeSingle()
+  
+  if (error) {
+    console.error('Error getting open cash shift:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function openCashShift(branchId: string, staffId: string, openingFloat: number): Promise<CashShift | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .insert({
+      branch_id: branchId,
+      staff_id: staffId,
+      opening_float: openingFloat,
+      status: 'open'
+    })
+    .select('*, branches(*)')
+    .single()
+  
+  if (error) {
+    console.error('Error opening cash shift:', error)
+    return null
+  }
+  
+  return data
+}
+
+// Reconcile and close a shift as the signed-in staff member; expected cash
+// and variance are computed by the database from the shift's transactions
+export async function closeCashShift(
+  shiftId: string,
+  countedCash: number,
+  notes?: string
+): Promise<CashShift | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('close_cash_shift', {
+    p_shift_id: shiftId,
+    p_counted_cash: countedCash,
+    p_notes: notes || null
+  })
+  
+  if (error) {
+    console.error('Error closing cash shift:', error)
+    return null
+  }
+  
+  return data
+}
+
+export async function getShiftTransactions(shiftId: string): Promise<Transaction[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('*, members(*)')
+    .eq('shift_id', shiftId)
+    .order('created_at')
+  
+  if (error) {
+    console.error('Error getting shift transactions:', error)
+    return []
+  }
+  
+  return data || []
+}
+
+// Dashboard stats
+export async function getDashboardStats(orgId: string): Promise<DashboardStats> {
+  const supabase = getSupabase()
+  
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  
+  try {
+    const { data: devices } = await supabase
+      .from('devices')
+      .select('id, status, last_heartbeat, branches!inner(org_id)')
+      .eq('branches.org_id', orgId)
+    
+    const { data: pendingDevices } = await supabase
+      .from('devices')
+      .select('id')
+      .is('branch_id', null)
+    
+    const { data: members } = await supabase
+      .from('members')
+      .select('is_active')
+      .eq('org_id', orgId)
+    
+    const { data: sessions } = await supabase
+      .from('sessions')
+      .select('status, devices!inner(branches!inner(org_id))')
+      .eq('devices.branches.org_id', orgId)
+    
+    const { data: todayTransactions } = await supabase
+      .from('transactions')
+      .select('amount, branches!inner(org_id)')
+      .eq('branches.org_id', orgId)
+      .in('payment_method', CASH_PAYMENT_METHODS)
+      .gte('created_at', today.toISOString())
     
     const totalDevices = devices?.length || 0
     
-    // Count active devices based on heartbeat
+    // Heartbeat only; the store counts from presence where it can
     const activeDevices = devices?.filter(d => {
-      if (!d.last_heartbeat) return false
-      const timeSinceHeartbeat = Date.now() - new Date(d.last_heartbeat).getTime()
-      return timeSinceHeartbeat <= HEARTBEAT_TIMEOUT_MS && (d.status === 'in_use' || d.status === 'online')
+      const status = getEffectiveDeviceStatus(d)
+      return status === 'in_use' || status === 'online'
     }).length || 0
     
     const totalMembers = members?.length || 0
     const activeMembers = members?.filter(m => m.is_active).length || 0
     const totalSessions = sessions?.length || 0
     const activeSessions = sessions?.filter(s => s.status === 'active').length || 0
-    const todayRevenue = todayTransactions?.reduce((sum, t) => sum + t.amount, 0) || 0
+    // Cash taken in, less cash refunds and voids
+    const todayRevenue = todayTransactions?.reduce((sum, t) => sum + Number(t.amount), 0) || 0
     const pendingCount = pendingDevices?.length || 0
     
     return {
@@ -665,55 +1826,226 @@ export async function getDashboardStats(orgId: string): Promise<DashboardStats>
   }
 }
 
+// Reports: aggregated in the database, see the reports migration
+export async function getRevenueReport(filters: ReportFilters): Promise<RevenueReport> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  const report: RevenueReport = {
+    day: [],
+    hour: [],
+    branch: [],
+    payment_method: [],
+    session_type: [],
+    package: []
+  }
+  
+  const { data, error } = await supabase.rpc('get_revenue_report', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null
+  })
+  
+  if (error) {
+    console.error('Error getting revenue report:', error)
+    return report
+  }
+  
+  const rows: { dimension: RevenueDimension; bucket: string; label: string | null; amount: number; transaction_count: number }[] = data || []
+  rows.forEach(row => {
+    report[row.dimension]?.push({
+      bucket: row.bucket,
+      label: row.label,
+      amount: Number(row.amount) || 0,
+      count: Number(row.transaction_count) || 0
+    })
+  })
+  
+  return report
+}
+
+export async function getSessionReport(filters: ReportFilters): Promise<SessionTypeReport[]> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_session_report', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null
+  })
+  
+  if (error) {
+    console.error('Error getting session report:', error)
+    return []
+  }
+  
+  return (data || []).map((row: { session_type: SessionTypeReport['sessionType']; session_count: number; total_seconds: number; average_seconds: number; amount: number }) => ({
+    sessionType: row.session_type,
+    count: Number(row.session_count) || 0,
+    totalSeconds: Number(row.total_seconds) || 0,
+    averageSeconds: Number(row.average_seconds) || 0,
+    amount: Number(row.amount) || 0
+  }))
+}
+
+export async function getTopMembers(filters: ReportFilters, orderBy: TopMemberOrder = 'spend', limit = 10): Promise<TopMember[]> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_top_members', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null,
+    p_order_by: orderBy,
+    p_limit: limit
+  })
+  
+  if (error) {
+    console.error('Error getting top members:', error)
+    return []
+  }
+  
+  return (data || []).map((row: { member_id: string; username: string; full_name: string | null; spend: number; total_seconds: number; session_count: number }) => ({
+    memberId: row.member_id,
+    username: row.username,
+    fullName: row.full_name,
+    spend: Number(row.spend) || 0,
+    totalSeconds: Number(row.total_seconds) || 0,
+    sessionCount: Number(row.session_count) || 0
+  }))
+}
+
+export async function getDeviceUtilization(filters: ReportFilters): Promise<DeviceUtilization[]> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_device_utilization', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null
+  })
+  
+  if (error) {
+    console.error('Error getting device utilization:', error)
+    return []
+  }
+  
+  return (data || []).map((row: { device_id: string; device_name: string; branch_id: string; branch_name: string; used_seconds: number; available_seconds: number }) => ({
+    deviceId: row.device_id,
+    deviceName: row.device_name,
+    branchId: row.branch_id,
+    branchName: row.branch_name,
+    usedSeconds: Number(row.used_seconds) || 0,
+    availableSeconds: Number(row.available_seconds) || 0
+  }))
+}
+
+export async function getOccupancyHeatmap(filters: ReportFilters): Promise<OccupancyCell[]> {
+  const supabase = getSupabase()
+  const { from, to } = getDateBounds(filters.from, filters.to)
+  
+  const { data, error } = await supabase.rpc('get_occupancy_heatmap', {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters.branchId || null
+  })
+  
+  if (error) {
+    console.error('Error getting occupancy heatmap:', error)
+    return []
+  }
+  
+  return (data || []).map((row: { weekday: number; hour: number; occupancy: number }) => ({
+    weekday: Number(row.weekday),
+    hour: Number(row.hour),
+    occupancy: Number(row.occupancy) || 0
+  }))
+}
+
 // ============================================
 // REALTIME SUBSCRIPTIONS
 // ============================================
 
+// Devices of one branch. Channel status goes to onStatus so the caller can
+// resync after a dropped connection.
 export function subscribeToDevices(
-  callback: (payload: { eventType: string; new: Device; old: Device }) => void
+  branchId: string,
+  callback: (payload: { eventType: string; new: Device; old: Partial<Device> }) => void,
+  onStatus?: (status: string) => void
+): RealtimeChannel {
+  const supabase = getSupabase()
+  
+  return supabase
+    .channel(`devices-${branchId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'devices',
+        filter: `branch_id=eq.${branchId}`
+      },
+      (payload) => {
+        callback(payload as unknown as { eventType: string; new: Device; old: Partial<Device> })
+      }
+    )
+    .subscribe((status) => {
+      console.log(`Devices subscription status (${branchId}):`, status)
+      onStatus?.(status)
+    })
+}
+
+// Devices waiting for approval don't belong to a branch yet
+export function subscribeToPendingDevices(
+  callback: (payload: { eventType: string; new: Device; old: Partial<Device> }) => void,
+  onStatus?: (status: string) => void
 ): RealtimeChannel {
   const supabase = getSupabase()
   
   return supabase
-    .channel('devices-changes')
+    .channel('devices-pending')
     .on(
       'postgres_changes',
       {
         event: '*',
         schema: 'public',
-        table: 'devices'
+        table: 'devices',
+        filter: 'status=eq.pending'
       },
       (payload) => {
-        console.log('📡 Device realtime update:', payload.eventType)
-        callback(payload as unknown as { eventType: string; new: Device; old: Device })
+        callback(payload as unknown as { eventType: string; new: Device; old: Partial<Device> })
       }
     )
     .subscribe((status) => {
-      console.log('Devices subscription status:', status)
+      console.log('Pending devices subscription status:', status)
+      onStatus?.(status)
     })
 }
 
+// Sessions of one branch
 export function subscribeToSessions(
-  callback: (payload: { eventType: string; new: Session; old: Session }) => void
+  branchId: string,
+  callback: (payload: { eventType: string; new: Session; old: Partial<Session> }) => void,
+  onStatus?: (status: string) => void
 ): RealtimeChannel {
   const supabase = getSupabase()
   
   return supabase
-    .channel('sessions-changes')
+    .channel(`sessions-${branchId}`)
     .on(
       'postgres_changes',
       {
         event: '*',
         schema: 'public',
-        table: 'sessions'
+        table: 'sessions',
+        filter: `branch_id=eq.${branchId}`
       },
       (payload) => {
-        console.log('📡 Session realtime update:', payload.eventType, (payload.new as Session)?.status)
-        callback(payload as unknown as { eventType: string; new: Session; old: Session })
+        callback(payload as unknown as { eventType: string; new: Session; old: Partial<Session> })
       }
     )
     .subscribe((status) => {
-      console.log('Sessions subscription status:', status)
+      console.log(`Sessions subscription status (${branchId}):`, status)
+      onStatus?.(status)
     })
 }
 
@@ -743,13 +2075,91 @@ export function subscribeToSessionTime(
     .subscribe()
 }
 
+// Live status of one device's commands
+export function subscribeToDeviceCommands(
+  deviceId: string,
+  callback: (command: DeviceCommand) => void
+): RealtimeChannel {
+  const supabase = getSupabase()
+  
+  return supabase
+    .channel(`device-commands-${deviceId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'device_commands',
+        filter: `device_id=eq.${deviceId}`
+      },
+      (payload) => {
+        callback(payload.new as DeviceCommand)
+      }
+    )
+    .subscribe()
+}
+
+// Live status of every command in a bulk action
+export function subscribeToBatchCommands(
+  batchId: string,
+  callback: (command: DeviceCommand) => void
+): RealtimeChannel {
+  const supabase = getSupabase()
+  
+  return supabase
+    .channel(`batch-commands-${batchId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'device_commands',
+        filter: `batch_id=eq.${batchId}`
+      },
+      (payload) => {
+        callback(payload.new as DeviceCommand)
+      }
+    )
+    .subscribe()
+}
+
+// PCs of one branch announce themselves here; onSync gets everyone present,
+// keyed by device id, after every join or leave. Private, so only staff of
+// the branch's org can listen.
+export function subscribeToBranchPresence(
+  branchId: string,
+  onSync: (presence: Record<string, DevicePresenceState>) => void,
+  onStatus?: (status: string) => void
+): RealtimeChannel {
+  const supabase = getSupabase()
+  
+  const channel = supabase.channel(`presence-${branchId}`, {
+    config: { private: true }
+  })
+  
+  return channel
+    .on('presence', { event: 'sync' }, () => {
+      const presence: Record<string, DevicePresenceState> = {}
+      Object.values(channel.presenceState<DevicePresenceState>()).forEach(states => {
+        // A PC that reconnected can briefly be in twice; the last one counts
+        const state = states[states.length - 1]
+        if (state?.device_id) presence[state.device_id] = state
+      })
+      onSync(presence)
+    })
+    .subscribe((status) => {
+      console.log(`Presence subscription status (${branchId}):`, status)
+      onStatus?.(status)
+    })
+}
+
 export function unsubscribe(channel: RealtimeChannel): void {
   const supabase = getSupabase()
   supabase.removeChannel(channel)
 }
 
 // ============================================
-// DEVICE STATUS POLLING (for heartbeat checking)
+// DEVICE STATUS POLLING (fallback while realtime is down)
 // ============================================
 
 let deviceStatusInterval: ReturnType<typeof setInterval> | null = null
@@ -783,7 +2193,7 @@ export function stopDeviceStatusPolling(): void {
 }
 
 // ============================================
-// ACTIVE SESSIONS POLLING (for time updates)
+// ACTIVE SESSIONS POLLING (fallback while realtime is down)
 // ============================================
 
 let activeSessionsInterval: ReturnType<typeof setInterval> | null = null
@@ -0,0 +1,21 @@
+import type { Organization } from '@/types'
+
+// Defaults used by transfer_member_credits when the org hasn't set its own
+export const DEFAULT_TRANSFER_DAILY_LIMIT = 500
+export const DEFAULT_TRANSFER_DAILY_COUNT = 5
+
+export interface TransferLimits {
+  dailyLimit: number
+  dailyCount: number
+}
+
+export function getTransferLimits(organization: Organization | null): TransferLimits {
+  const settings = organization?.settings || {}
+  const dailyLimit = Number(settings.transfer_daily_limit)
+  const dailyCount = Number(settings.transfer_daily_count)
+
+  return {
+    dailyLimit: settings.transfer_daily_limit != null && !isNaN(dailyLimit) ? dailyLimit : DEFAULT_TRANSFER_DAILY_LIMIT,
+    dailyCount: settings.transfer_daily_count != null && !isNaN(dailyCount) ? dailyCount : DEFAULT_TRANSFER_DAILY_COUNT
+  }
+}
@@ -12,6 +12,14 @@ export function formatCurrency(amount: number): string {
   }).format(amount)
 }
 
+// Coin denominations (Philippine Peso)
+export const COIN_DENOMINATIONS = [
+  { value: 1, label: '₱1', color: 'from-amber-600 to-amber-700' },
+  { value: 5, label: '₱5', color: 'from-yellow-500 to-yellow-600' },
+  { value: 10, label: '₱10', color: 'from-slate-400 to-slate-500' },
+  { value: 20, label: '₱20', color: 'from-amber-400 to-amber-500' },
+]
+
 // Format bytes to human readable
 export function formatBytes(bytes: number, decimals = 2): string {
   if (bytes === 0) return '0 Bytes'
@@ -129,17 +137,38 @@ export function getStatusBadge(status: string): string {
     active: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
     completed: 'bg-slate-500/20 text-slate-400 border-slate-500/30',
     terminated: 'bg-red-500/20 text-red-400 border-red-500/30',
-    paused: 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+    paused: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    sent: 'bg-rynx-500/20 text-rynx-400 border-rynx-500/30',
+    executed: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+    failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+    expired: 'bg-slate-500/20 text-slate-400 border-slate-500/30'
   }
   return badges[status] || 'bg-slate-500/20 text-slate-400 border-slate-500/30'
 }
 
+// A pending device command past its expiry is only marked expired once the PC sees it
+export function getCommandStatus(status: string, expiresAt: string | null): string {
+  if (status === 'pending' && expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+    return 'expired'
+  }
+  return status
+}
+
 // Truncate text
 export function truncate(str: string, length: number): string {
   if (str.length <= length) return str
   return str.slice(0, length) + '...'
 }
 
+// Escape text for printed HTML reports
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
 // Generate random ID
 export function generateId(): string {
   return Math.random().toString(36).substring(2, 15)
@@ -156,14 +185,3 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
     timeoutId = setTimeout(() => fn(...args), delay)
   }
 }
-
-// Check if device is online (heartbeat within last 2 minutes)
-export function isDeviceOnline(lastHeartbeat: string | null): boolean {
-  if (!lastHeartbeat) return false
-  
-  const heartbeatTime = new Date(lastHeartbeat).getTime()
-  const now = Date.now()
-  const twoMinutes = 2 * 60 * 1000
-  
-  return (now - heartbeatTime) < twoMinutes
-}
@@ -16,7 +16,7 @@ import { useAppStore } from '@/stores/appStore'
 import { formatCurrency, formatRelativeTime, formatDuration, getStatusBadge } from '@/lib/utils'
 
 export function DashboardPage() {
-  const { stats, devices, activeSessions, pendingDevices, fetchStats, fetchActiveSessions } = useAppStore()
+  const { stats, devices, activeSessions, pendingDevices, fetchStats, fetchActiveSessions, getDeviceEffectiveStatus } = useAppStore()
   
   useEffect(() => {
     fetchStats()
@@ -41,7 +41,7 @@ export function DashboardPage() {
           <StatCard
             title="Total Devices"
             value={stats?.totalDevices || 0}
-            subtitle={`${stats?.activeDevices || 0} active`}
+            subtitle={`${devices.filter(d => getDeviceEffectiveStatus(d) !== 'offline').length} active`}
             icon={Monitor}
             color="rynx"
           />
@@ -190,21 +190,21 @@ export function DashboardPage() {
             <div className="p-4 bg-slate-800/30 rounded-xl text-center">
               <div className="w-3 h-3 rounded-full bg-emerald-500 mx-auto mb-2" />
               <p className="text-2xl font-bold text-slate-100">
-                {devices.filter(d => d.status === 'online').length}
+                {devices.filter(d => getDeviceEffectiveStatus(d) === 'online').length}
               </p>
               <p className="text-sm text-slate-500">Online</p>
             </div>
             <div className="p-4 bg-slate-800/30 rounded-xl text-center">
               <div className="w-3 h-3 rounded-full bg-rynx-400 mx-auto mb-2 animate-pulse" />
               <p className="text-2xl font-bold text-slate-100">
-                {devices.filter(d => d.status === 'in_use').length}
+                {devices.filter(d => getDeviceEffectiveStatus(d) === 'in_use').length}
               </p>
               <p className="text-sm text-slate-500">In Use</p>
             </div>
             <div className="p-4 bg-slate-800/30 rounded-xl text-center">
               <div className="w-3 h-3 rounded-full bg-slate-500 mx-auto mb-2" />
               <p className="text-2xl font-bold text-slate-100">
-                {devices.filter(d => d.status === 'offline').length}
+                {devices.filter(d => getDeviceEffectiveStatus(d) === 'offline').length}
               </p>
               <p className="text-sm text-slate-500">Offline</p>
             </div>
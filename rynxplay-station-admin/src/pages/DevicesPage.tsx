@@ -8,13 +8,16 @@ import {
   List,
   CheckCircle,
   X,
-  Smartphone
+  Smartphone,
+  Trash2,
+  SlidersHorizontal
 } from 'lucide-react'
-import { Header, DeviceCard, Modal, EmptyState } from '@/components'
+import { Header, DeviceCard, Modal, EmptyState, ExtendSessionModal, ClientConfigModal, DeviceCommandHistory, BulkDeviceActions, BulkActionProgress } from '@/components'
 import { useAppStore } from '@/stores/appStore'
-import { sendDeviceCommand, approveDevice, getRates } from '@/lib/supabase'
+import { sendDeviceCommand, approveDevice, deleteDevice, getRates, wakeDevices } from '@/lib/supabase'
+import { hasPermission } from '@/lib/permissions'
 import { formatBytes, getStatusBadge, formatRelativeTime } from '@/lib/utils'
-import type { Device, Rate } from '@/types'
+import type { Device, Rate, Session } from '@/types'
 
 export function DevicesPage() {
   const { 
@@ -23,14 +26,17 @@ export function DevicesPage() {
     branches, 
     staff,
     activeSessions,
+    devicePresence,
+    getDeviceEffectiveStatus,
     fetchDevices, 
     fetchPendingDevices,
+    fetchActiveSessions,
     addToast 
   } = useAppStore()
   
   // Helper to find active session for a device
   const getActiveSessionForDevice = (deviceId: string) => {
-    return activeSessions.find(s => s.device_id === deviceId && s.status === 'active')
+    return activeSessions.find(s => s.device_id === deviceId && (s.status === 'active' || s.status === 'paused'))
   }
   
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
@@ -41,6 +47,8 @@ export function DevicesPage() {
   const [showDetailsModal, setShowDetailsModal] = useState(false)
   const [showAdminUnlockModal, setShowAdminUnlockModal] = useState(false)
   const [selectedDevice, setSelectedDevice] = useState<Device | null>(null)
+  const [configuringDevice, setConfiguringDevice] = useState<Device | null>(null)
+  const [extendingSession, setExtendingSession] = useState<Session | null>(null)
   const [selectedBranch, setSelectedBranch] = useState('')
   const [selectedRate, setSelectedRate] = useState('')
   const [branchRates, setBranchRates] = useState<Rate[]>([])
@@ -48,6 +56,8 @@ export function DevicesPage() {
   const [message, setMessage] = useState('')
   const [unlockDuration, setUnlockDuration] = useState('0') // 0 = unlimited
   const [isLoading, setIsLoading] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [wakeBatch, setWakeBatch] = useState<{ id: string; device: Device } | null>(null)
   
   useEffect(() => {
     fetchDevices()
@@ -72,11 +82,56 @@ export function DevicesPage() {
   const filteredDevices = devices.filter(device => {
     const matchesSearch = device.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       device.device_code.toLowerCase().includes(searchQuery.toLowerCase())
-    const matchesStatus = statusFilter === 'all' || device.status === statusFilter
+    const matchesStatus = statusFilter === 'all' || getDeviceEffectiveStatus(device) === statusFilter
     return matchesSearch && matchesStatus
   })
   
-  const handleCommand = async (device: Device, command: 'shutdown' | 'restart' | 'lock' | 'message' | 'admin_unlock') => {
+  const selectedDevices = devices.filter(d => selectedIds.includes(d.id))
+  const allVisibleSelected = filteredDevices.length > 0 && filteredDevices.every(d => selectedIds.includes(d.id))
+  
+  // Rates in use, for "select by rate"
+  const deviceRates = devices
+    .filter((d, i) => d.rates && devices.findIndex(other => other.rate_id === d.rate_id) === i)
+    .map(d => ({ id: d.rate_id!, name: `${d.rates!.name} (${d.branches?.name || '-'})` }))
+  
+  const toggleSelected = (deviceId: string) => {
+    setSelectedIds(prev => prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId])
+  }
+  
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? [] : filteredDevices.map(d => d.id))
+  }
+  
+  // Quick selection among the devices shown
+  const handleQuickSelect = (value: string) => {
+    const [kind, id] = value.split(':')
+    const matches = filteredDevices.filter(device => {
+      const status = getDeviceEffectiveStatus(device)
+      if (kind === 'idle') return status === 'online'
+      if (kind === 'online') return status === 'online' || status === 'in_use'
+      if (kind === 'branch') return device.branch_id === id
+      if (kind === 'rate') return device.rate_id === id
+      return false
+    })
+    setSelectedIds(matches.map(d => d.id))
+  }
+  
+  const handleCommand = async (device: Device, command: 'shutdown' | 'restart' | 'lock' | 'message' | 'admin_unlock' | 'pause' | 'resume' | 'add_time' | 'wake') => {
+    if (command === 'wake') {
+      const result = await wakeDevices([device.id], staff?.id)
+      if (result.success && result.batchId) {
+        setWakeBatch({ id: result.batchId, device })
+      } else {
+        addToast('error', 'Failed to send wake request')
+      }
+      return
+    }
+    
+    if (command === 'add_time') {
+      setExtendingSession(getActiveSessionForDevice(device.id) || null)
+      return
+    }
+    
     if (command === 'message') {
       setSelectedDevice(device)
       setShowMessageModal(true)
@@ -90,7 +145,15 @@ export function DevicesPage() {
       return
     }
     
-    const result = await sendDeviceCommand(device.id, command, {}, staff?.id)
+    if (command === 'shutdown' && !hasPermission(staff, 'devices.shutdown')) {
+      addToast('error', 'Only admins can shut down devices')
+      return
+    }
+    
+    const session = getActiveSessionForDevice(device.id)
+    const payload = (command === 'pause' || command === 'resume') && session ? { session_id: session.id } : {}
+    
+    const result = await sendDeviceCommand(device.id, command, payload, staff?.id)
     if (result) {
       addToast('success', `${command.charAt(0).toUpperCase() + command.slice(1)} command sent`)
     } else {
@@ -152,14 +215,15 @@ export function DevicesPage() {
     if (!selectedDevice || !selectedBranch || !selectedRate) return
     
     setIsLoading(true)
-    const success = await approveDevice(
+    const result = await approveDevice(
       selectedDevice.id,
       selectedBranch,
       selectedRate,
-      deviceName || selectedDevice.name
+      deviceName || selectedDevice.name,
+      staff?.id
     )
     
-    if (success) {
+    if (result.success) {
       addToast('success', 'Device approved successfully')
       setShowApproveModal(false)
       setSelectedDevice(null)
@@ -168,12 +232,31 @@ export function DevicesPage() {
       setDeviceName('')
       fetchDevices()
       fetchPendingDevices()
+    } else if (result.error === 'device_not_registered') {
+      addToast('error', 'Start the client on this PC first so it can register')
     } else {
       addToast('error', 'Failed to approve device')
     }
     setIsLoading(false)
   }
   
+  const handleDeleteDevice = async () => {
+    if (!selectedDevice || !hasPermission(staff, 'devices.delete')) return
+    
+    setIsLoading(true)
+    const success = await deleteDevice(selectedDevice.id)
+    
+    if (success) {
+      addToast('success', `${selectedDevice.name} removed`)
+      setShowDetailsModal(false)
+      setSelectedDevice(null)
+      fetchDevices()
+    } else {
+      addToast('error', 'Failed to remove device')
+    }
+    setIsLoading(false)
+  }
+  
   const openApproveModal = (device: Device) => {
     setSelectedDevice(device)
     setDeviceName(device.name)
@@ -265,6 +348,31 @@ export function DevicesPage() {
           </div>
           
           <div className="flex items-center gap-2">
+            <select
+              value=""
+              onChange={e => handleQuickSelect(e.target.value)}
+              className="select input-sm w-44"
+            >
+              <option value="" disabled>Select...</option>
+              <option value="idle">All idle</option>
+              <option value="online">All online</option>
+              {branches.length > 1 && (
+                <optgroup label="By branch">
+                  {branches.map(branch => (
+                    <option key={branch.id} value={`branch:${branch.id}`}>{branch.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {deviceRates.length > 0 && (
+                <optgroup label="By rate">
+                  {deviceRates.map(rate => (
+                    <option key={rate.id} value={`rate:${rate.id}`}>{rate.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              <option value="none">None</option>
+            </select>
+            
             <div className="flex items-center bg-slate-800/50 rounded-lg p-1">
               <button
                 onClick={() => setViewMode('grid')}
@@ -282,6 +390,8 @@ export function DevicesPage() {
           </div>
         </div>
         
+        <BulkDeviceActions devices={selectedDevices} onClear={() => setSelectedIds([])} />
+        
         {/* Device Grid/List */}
         {filteredDevices.length > 0 ? (
           viewMode === 'grid' ? (
@@ -293,6 +403,8 @@ export function DevicesPage() {
                   activeSession={getActiveSessionForDevice(device.id)}
                   onCommand={(cmd) => handleCommand(device, cmd)}
                   onViewDetails={() => openDetailsModal(device)}
+                  selected={selectedIds.includes(device.id)}
+                  onToggleSelect={() => toggleSelected(device.id)}
                 />
               ))}
             </div>
@@ -301,6 +413,14 @@ export function DevicesPage() {
               <table className="table">
                 <thead>
                   <tr>
+                    <th className="w-10">
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllVisible}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+                      />
+                    </th>
                     <th>Device</th>
                     <th>Status</th>
                     <th>Branch</th>
@@ -312,12 +432,20 @@ export function DevicesPage() {
                 <tbody>
                   {filteredDevices.map(device => (
                     <tr key={device.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(device.id)}
+                          onChange={() => toggleSelected(device.id)}
+                          className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+                        />
+                      </td>
                       <td>
                         <div className="flex items-center gap-3">
                           <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                            device.status === 'in_use' 
+                            getDeviceEffectiveStatus(device) === 'in_use' 
                               ? 'bg-rynx-500/20 text-rynx-400' 
-                              : device.status === 'online'
+                              : getDeviceEffectiveStatus(device) === 'online'
                               ? 'bg-emerald-500/20 text-emerald-400'
                               : 'bg-slate-800 text-slate-500'
                           }`}>
@@ -330,8 +458,8 @@ export function DevicesPage() {
                         </div>
                       </td>
                       <td>
-                        <span className={`badge ${getStatusBadge(device.status)}`}>
-                          {device.status}
+                        <span className={`badge ${getStatusBadge(getDeviceEffectiveStatus(device))}`}>
+                          {getDeviceEffectiveStatus(device)}
                         </span>
                       </td>
                       <td className="text-slate-400">{device.branches?.name || '-'}</td>
@@ -517,9 +645,9 @@ export function DevicesPage() {
           <div className="space-y-6">
             <div className="flex items-center gap-4">
               <div className={`w-16 h-16 rounded-2xl flex items-center justify-center ${
-                selectedDevice.status === 'in_use' 
+                getDeviceEffectiveStatus(selectedDevice) === 'in_use' 
                   ? 'bg-rynx-500/20 text-rynx-400' 
-                  : selectedDevice.status === 'online'
+                  : getDeviceEffectiveStatus(selectedDevice) === 'online'
                   ? 'bg-emerald-500/20 text-emerald-400'
                   : 'bg-slate-800 text-slate-500'
               }`}>
@@ -528,8 +656,8 @@ export function DevicesPage() {
               <div>
                 <h3 className="text-xl font-semibold text-slate-100">{selectedDevice.name}</h3>
                 <p className="text-slate-500 font-mono">{selectedDevice.device_code}</p>
-                <span className={`badge ${getStatusBadge(selectedDevice.status)} mt-2`}>
-                  {selectedDevice.status}
+                <span className={`badge ${getStatusBadge(getDeviceEffectiveStatus(selectedDevice))} mt-2`}>
+                  {getDeviceEffectiveStatus(selectedDevice)}
                 </span>
               </div>
             </div>
@@ -551,6 +679,12 @@ export function DevicesPage() {
                       <span className="text-slate-500">Hostname</span>
                       <span className="text-slate-200">{selectedDevice.specs.os.hostname}</span>
                     </div>
+                    {selectedDevice.branch_id && devicePresence[selectedDevice.branch_id]?.[selectedDevice.id] && (
+                      <div className="flex justify-between">
+                        <span className="text-slate-500">Client Version</span>
+                        <span className="text-slate-200">{devicePresence[selectedDevice.branch_id][selectedDevice.id].app_version || '-'}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -604,7 +738,42 @@ export function DevicesPage() {
               </div>
             )}
             
+            <DeviceCommandHistory deviceId={selectedDevice.id} />
+            
+            <div className="flex items-center justify-between p-4 bg-slate-800/30 rounded-xl">
+              <div>
+                <h4 className="font-semibold text-slate-300">Client Configuration</h4>
+                <p className="text-sm text-slate-500">
+                  {selectedDevice.config_version_applied == null
+                    ? 'Not reported yet'
+                    : `Version ${selectedDevice.config_version_applied} applied ${selectedDevice.config_applied_at ? formatRelativeTime(selectedDevice.config_applied_at) : ''}`}
+                  {selectedDevice.config_version > (selectedDevice.config_version_applied ?? 0) && (
+                    <span className="text-amber-400"> • version {selectedDevice.config_version} pending</span>
+                  )}
+                </p>
+              </div>
+              {hasPermission(staff, 'settings.manage') && selectedDevice.branch_id && (
+                <button
+                  onClick={() => { setConfiguringDevice(selectedDevice); setShowDetailsModal(false) }}
+                  className="btn-secondary"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  Configure
+                </button>
+              )}
+            </div>
+            
             <div className="flex justify-end gap-3 pt-4 border-t border-slate-800">
+              {hasPermission(staff, 'devices.delete') && (
+                <button
+                  onClick={handleDeleteDevice}
+                  disabled={isLoading || selectedDevice.status === 'in_use'}
+                  className="btn-danger mr-auto"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove Device
+                </button>
+              )}
               <button
                 onClick={() => setShowDetailsModal(false)}
                 className="btn-secondary"
@@ -681,6 +850,24 @@ export function DevicesPage() {
           </div>
         </div>
       </Modal>
+      
+      <ExtendSessionModal
+        session={extendingSession}
+        onClose={() => setExtendingSession(null)}
+        onExtended={fetchActiveSessions}
+      />
+      
+      <ClientConfigModal device={configuringDevice} onClose={() => setConfiguringDevice(null)} />
+      
+      {wakeBatch && (
+        <BulkActionProgress
+          key={wakeBatch.id}
+          batchId={wakeBatch.id}
+          title={`Wake ${wakeBatch.device.name}`}
+          devices={[wakeBatch.device]}
+          onClose={() => setWakeBatch(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
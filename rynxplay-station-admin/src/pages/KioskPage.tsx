@@ -9,21 +9,17 @@ import {
   Zap,
   User,
   Users,
-  ChevronDown
+  ChevronDown,
+  Package
 } from 'lucide-react'
 import { Header, Modal } from '@/components'
 import { useAppStore } from '@/stores/appStore'
-import { formatCurrency, formatDuration, cn } from '@/lib/utils'
-import type { Device, Member, Rate } from '@/types'
-import { getSupabase, getRates } from '@/lib/supabase'
-
-// Coin denominations (Philippine Peso)
-const COIN_DENOMINATIONS = [
-  { value: 1, label: '₱1', color: 'from-amber-600 to-amber-700' },
-  { value: 5, label: '₱5', color: 'from-yellow-500 to-yellow-600' },
-  { value: 10, label: '₱10', color: 'from-slate-400 to-slate-500' },
-  { value: 20, label: '₱20', color: 'from-amber-400 to-amber-500' },
-]
+import { formatCurrency, formatDuration, cn, COIN_DENOMINATIONS } from '@/lib/utils'
+import type { Device, Member, Rate, RateSchedule, TimePackage } from '@/types'
+import { getSupabase, getRates, getRateSchedules, getTimePackages, addMemberCredits } from '@/lib/supabase'
+import { calculatePurchasedSeconds, createBillingSchedule, resolveRate } from '@shared/billing'
+import { isPackageAvailable, getPackageSeconds, formatPackageLength } from '@/lib/packages'
+import { isBranchOpen, formatOpeningHours } from '@shared/openingHours'
 
 // Coin animation component
 function CoinAnimation({ value, onComplete }: { value: number; onComplete: () => void }) {
@@ -82,6 +78,10 @@ export function KioskPage() {
   const [isProcessing, setIsProcessing] = useState(false)
   const [sessionMode, setSessionMode] = useState<'guest' | 'member'>('guest')
   const [deviceRate, setDeviceRate] = useState<Rate | null>(null)
+  const [branchRates, setBranchRates] = useState<Rate[]>([])
+  const [rateSchedules, setRateSchedules] = useState<RateSchedule[]>([])
+  const [timePackages, setTimePackages] = useState<TimePackage[]>([])
+  const [selectedPackage, setSelectedPackage] = useState<TimePackage | null>(null)
   const [showDeviceDropdown, setShowDeviceDropdown] = useState(false)
   const [showMemberDropdown, setShowMemberDropdown] = useState(false)
   const [showSuccessModal, setShowSuccessModal] = useState(false)
@@ -98,29 +98,79 @@ export function KioskPage() {
     d.status === 'online' || d.status === 'offline'
   )
 
-  // Load device rate when device is selected
+  // Load device rate, branch schedules and packages when device is selected
   useEffect(() => {
+    setSelectedPackage(null)
+    
     if (selectedDevice?.rate_id && selectedDevice.branch_id) {
-      getRates(selectedDevice.branch_id).then(rates => {
+      Promise.all([
+        getRates(selectedDevice.branch_id),
+        getRateSchedules(selectedDevice.branch_id),
+        getTimePackages(selectedDevice.branch_id)
+      ]).then(([rates, schedules, packages]) => {
         const rate = rates.find(r => r.id === selectedDevice.rate_id)
+        setBranchRates(rates)
+        setRateSchedules(schedules)
+        setTimePackages(packages)
         setDeviceRate(rate || null)
       })
     } else {
       setDeviceRate(null)
+      setBranchRates([])
+      setRateSchedules([])
+      setTimePackages([])
     }
   }, [selectedDevice])
 
+  // Schedules are read in the branch's own time
+  const branchTimezone = selectedDevice?.branches?.timezone ?? 'UTC'
+
+  // Rate in effect right now (happy hour, night pass, ...)
+  const activeRate = deviceRate ? resolveRate(deviceRate, rateSchedules, branchRates, new Date(), branchTimezone) : null
+  
+  // Packages on sale right now
+  const availablePackages = timePackages.filter(pkg => isPackageAvailable(pkg, new Date()))
+
   // Fetch data on mount
   useEffect(() => {
     fetchDevices()
     fetchMembers()
   }, [])
 
-  // Calculate time from amount based on rate
+  // Calculate time from amount based on rate, following any schedule
+  // windows the session will run into
   const calculateTime = useCallback((amount: number): number => {
-    if (!deviceRate || deviceRate.price_per_unit <= 0) return 0
-    return Math.floor((amount / deviceRate.price_per_unit) * deviceRate.unit_minutes * 60) // returns seconds
-  }, [deviceRate])
+    if (!deviceRate) return 0
+    const schedule = createBillingSchedule(deviceRate, rateSchedules, branchRates, new Date(), branchTimezone)
+    return calculatePurchasedSeconds(deviceRate, amount, schedule) // returns seconds
+  }, [deviceRate, rateSchedules, branchRates, branchTimezone])
+  
+  // Session time for the inserted amount. With a package, coins beyond its
+  // price buy extra time at the regular rate once the package runs out.
+  const calculateSessionTime = useCallback((amount: number): number => {
+    if (!selectedPackage) return calculateTime(amount)
+    if (!deviceRate || amount < selectedPackage.price) return 0
+    
+    const now = new Date()
+    const packageSeconds = getPackageSeconds(selectedPackage, now)
+    const extraAmount = amount - selectedPackage.price
+    if (extraAmount <= 0) return packageSeconds
+    
+    const schedule = createBillingSchedule(
+      deviceRate,
+      rateSchedules,
+      branchRates,
+      new Date(now.getTime() + packageSeconds * 1000),
+      branchTimezone
+    )
+    return packageSeconds + calculatePurchasedSeconds(deviceRate, extraAmount, schedule)
+  }, [selectedPackage, deviceRate, rateSchedules, branchRates, branchTimezone, calculateTime])
+  
+  // Coins still needed to cover the selected package
+  const packageAmountDue = selectedPackage ? Math.max(0, selectedPackage.price - totalAmount) : 0
+  
+  // Guest sessions only start during the branch's opening hours
+  const branchClosed = selectedDevice?.branches ? !isBranchOpen(selectedDevice.branches, new Date()) : false
 
   // Handle coin insertion
   const handleInsertCoin = (value: number) => {
@@ -148,6 +198,7 @@ export function KioskPage() {
     setTotalAmount(0)
     setSelectedDevice(null)
     setSelectedMember(null)
+    setSelectedPackage(null)
     setSessionMode('guest')
   }
 
@@ -158,11 +209,21 @@ export function KioskPage() {
       return
     }
 
+    if (packageAmountDue > 0) {
+      addToast('error', `Insert ${formatCurrency(packageAmountDue)} more for the ${selectedPackage?.name} package`)
+      return
+    }
+
+    if (branchClosed) {
+      addToast('error', 'The branch is closed. Guest sessions can start during opening hours.')
+      return
+    }
+
     setIsProcessing(true)
     
     try {
       const supabase = getSupabase()
-      const timeSeconds = calculateTime(totalAmount)
+      const timeSeconds = calculateSessionTime(totalAmount)
       
       // Create session
       const { data: session, error: sessionError } = await supabase
@@ -170,6 +231,7 @@ export function KioskPage() {
         .insert({
           device_id: selectedDevice.id,
           rate_id: deviceRate.id,
+          package_id: selectedPackage?.id || null,
           session_type: 'guest',
           time_remaining_seconds: timeSeconds,
           total_amount: totalAmount,
@@ -203,7 +265,9 @@ export function KioskPage() {
           type: 'topup',
           amount: totalAmount,
           payment_method: 'coin',
-          notes: `Kiosk - Guest session on ${selectedDevice.name}`,
+          notes: selectedPackage
+            ? `Kiosk - ${selectedPackage.name} package on ${selectedDevice.name}`
+            : `Kiosk - Guest session on ${selectedDevice.name}`,
           created_by: staff?.id
         })
 
@@ -233,12 +297,15 @@ export function KioskPage() {
       setInsertedCoins([])
       setTotalAmount(0)
       setSelectedDevice(null)
+      setSelectedPackage(null)
       fetchDevices()
       
       addToast('success', `Session started on ${selectedDevice.name}`)
     } catch (error) {
       console.error('Error starting session:', error)
-      addToast('error', 'Failed to start session')
+      addToast('error', (error as { message?: string })?.message?.includes('branch_closed')
+        ? 'The branch is closed. Guest sessions can start during opening hours.'
+        : 'Failed to start session')
     } finally {
       setIsProcessing(false)
     }
@@ -255,18 +322,6 @@ export function KioskPage() {
 
     try {
       const supabase = getSupabase()
-      const newBalance = selectedMember.credits + totalAmount
-
-      // Update member credits
-      const { error: memberError } = await supabase
-        .from('members')
-        .update({ 
-          credits: newBalance,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedMember.id)
-
-      if (memberError) throw memberError
 
       // Get a branch for the transaction (use first branch or staff's branch)
       const branchId = staff?.branch_id || (await supabase
@@ -276,22 +331,15 @@ export function KioskPage() {
         .limit(1)
         .single()).data?.id
 
-      // Create transaction record
-      if (branchId) {
-        await supabase
-          .from('transactions')
-          .insert({
-            member_id: selectedMember.id,
-            branch_id: branchId,
-            type: 'topup',
-            amount: totalAmount,
-            balance_before: selectedMember.credits,
-            balance_after: newBalance,
-            payment_method: 'coin',
-            notes: 'Kiosk - Coin top-up',
-            created_by: staff?.id
-          })
-      }
+      const success = await addMemberCredits(
+        selectedMember.id,
+        totalAmount,
+        branchId || null,
+        'coin',
+        'Kiosk - Coin top-up'
+      )
+
+      if (!success) throw new Error('Credit ledger rejected top-up')
 
       setLastTransaction({
         type: 'topup',
@@ -480,11 +528,55 @@ export function KioskPage() {
                     </div>
 
                     {/* Rate Info */}
-                    {deviceRate && (
+                    {activeRate && (
                       <div className="mt-4 p-3 bg-slate-800/30 rounded-lg border border-slate-700/50">
                         <p className="text-sm text-slate-400">
-                          Rate: <span className="text-rynx-400 font-medium">{formatCurrency(deviceRate.price_per_unit)}</span> per {deviceRate.unit_minutes} min
+                          Rate: <span className="text-rynx-400 font-medium">{formatCurrency(activeRate.price_per_unit)}</span> per {activeRate.unit_minutes} min
                         </p>
+                        {activeRate.id !== deviceRate?.id && (
+                          <p className="text-xs text-amber-400 mt-1">{activeRate.name} pricing is active</p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Time Packages */}
+                    {deviceRate && availablePackages.length > 0 && (
+                      <div className="mt-4">
+                        <p className="text-sm text-slate-400 mb-2 flex items-center gap-2">
+                          <Package className="w-4 h-4 text-rynx-400" />
+                          Packages
+                        </p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <button
+                            onClick={() => setSelectedPackage(null)}
+                            className={cn(
+                              'p-3 rounded-lg border text-left transition-colors',
+                              !selectedPackage
+                                ? 'border-rynx-500 bg-rynx-500/10'
+                                : 'border-slate-700 hover:border-slate-600 bg-slate-800/30'
+                            )}
+                          >
+                            <p className="font-medium text-slate-200">Pay as you go</p>
+                            <p className="text-xs text-slate-500">Time by amount inserted</p>
+                          </button>
+                          {availablePackages.map(pkg => (
+                            <button
+                              key={pkg.id}
+                              onClick={() => setSelectedPackage(pkg)}
+                              className={cn(
+                                'p-3 rounded-lg border text-left transition-colors',
+                                selectedPackage?.id === pkg.id
+                                  ? 'border-rynx-500 bg-rynx-500/10'
+                                  : 'border-slate-700 hover:border-slate-600 bg-slate-800/30'
+                              )}
+                            >
+                              <p className="font-medium text-slate-200">{pkg.name}</p>
+                              <p className="text-xs text-slate-500">
+                                <span className="text-rynx-400">{formatCurrency(pkg.price)}</span> · {formatPackageLength(pkg)}
+                              </p>
+                            </button>
+                          ))}
+                        </div>
                       </div>
                     )}
                   </>
@@ -605,15 +697,35 @@ export function KioskPage() {
                     {formatCurrency(totalAmount)}
                   </p>
                   
-                  {sessionMode === 'guest' && deviceRate && totalAmount > 0 && (
+                  {sessionMode === 'guest' && branchClosed && selectedDevice?.branches && (
+                    <div className="mt-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
+                      <p className="text-sm font-medium text-amber-400">Branch closed</p>
+                      <p className="text-xs text-amber-400/70">
+                        Open {formatOpeningHours(selectedDevice.branches)}
+                      </p>
+                    </div>
+                  )}
+                  
+                  {sessionMode === 'guest' && selectedPackage && packageAmountDue > 0 && (
+                    <div className="mt-4 p-4 bg-slate-800/50 rounded-xl">
+                      <p className="text-sm text-slate-500">{selectedPackage.name} package</p>
+                      <p className="text-2xl font-semibold text-amber-400">
+                        {formatCurrency(packageAmountDue)} more
+                      </p>
+                    </div>
+                  )}
+
+                  {sessionMode === 'guest' && deviceRate && totalAmount > 0 && packageAmountDue === 0 && (
                     <div className="mt-4 p-4 bg-slate-800/50 rounded-xl">
                       <div className="flex items-center justify-center gap-2 text-emerald-400">
                         <Timer className="w-5 h-5" />
                         <span className="text-2xl font-mono font-semibold">
-                          {formatDuration(calculateTime(totalAmount))}
+                          {formatDuration(calculateSessionTime(totalAmount))}
                         </span>
                       </div>
-                      <p className="text-sm text-slate-500 mt-1">Session time</p>
+                      <p className="text-sm text-slate-500 mt-1">
+                        {selectedPackage ? `${selectedPackage.name} package` : 'Session time'}
+                      </p>
                     </div>
                   )}
 
@@ -633,7 +745,7 @@ export function KioskPage() {
                 {sessionMode === 'guest' ? (
                   <button
                     onClick={handleStartGuestSession}
-                    disabled={!selectedDevice || totalAmount <= 0 || !deviceRate || isProcessing}
+                    disabled={!selectedDevice || totalAmount <= 0 || !deviceRate || packageAmountDue > 0 || branchClosed || isProcessing}
                     className={cn(
                       'w-full btn-primary py-4 text-lg flex items-center justify-center gap-2',
                       'disabled:opacity-50 disabled:cursor-not-allowed'
@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Eye, EyeOff, LogIn, AlertCircle, Loader2 } from 'lucide-react'
-import { signIn } from '@/lib/supabase'
+import { Eye, EyeOff, LogIn, AlertCircle, Loader2, UserPlus } from 'lucide-react'
+import { signIn, signUp } from '@/lib/supabase'
 import { useAppStore } from '@/stores/appStore'
 
 export function LoginPage() {
@@ -13,6 +13,7 @@ export function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin')
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -26,17 +27,41 @@ export function LoginPage() {
     setError(null)
     
     try {
-      const { error } = await signIn(email, password)
-      
-      if (error) {
-        setError(error.message || 'Failed to sign in')
-        setIsLoading(false)
-        return
+      // Invited staff create their account with the email they were invited with
+      if (mode === 'signup') {
+        const { data, error } = await signUp(email, password)
+        
+        if (error) {
+          setError(error.message || 'Failed to create account')
+          setIsLoading(false)
+          return
+        }
+        
+        if (!data.session) {
+          addToast('success', 'Check your email to confirm your account, then sign in')
+          setMode('signin')
+          setIsLoading(false)
+          return
+        }
+      } else {
+        const { error } = await signIn(email, password)
+        
+        if (error) {
+          setError(error.message || 'Failed to sign in')
+          setIsLoading(false)
+          return
+        }
       }
       
       // Re-initialize the app after successful login
       await initialize()
       
+      if (!useAppStore.getState().isAuthenticated) {
+        setError('This account has no active staff access')
+        setIsLoading(false)
+        return
+      }
+      
       addToast({
         type: 'success',
         message: 'Welcome back!'
@@ -72,7 +97,7 @@ export function LoginPage() {
         {/* Login Card */}
         <div className="card p-8">
           <h2 className="text-xl font-semibold text-white mb-6 text-center">
-            Sign in to your account
+            {mode === 'signin' ? 'Sign in to your account' : 'Accept your staff invite'}
           </h2>
           
           <form onSubmit={handleSubmit} className="space-y-5">
@@ -152,13 +177,20 @@ export function LoginPage() {
               {isLoading ? (
                 <>
                   <Loader2 className="w-5 h-5 animate-spin" />
-                  <span>Signing in...</span>
+                  <span>{mode === 'signin' ? 'Signing in...' : 'Creating account...'}</span>
                 </>
               ) : (
-                <>
-                  <LogIn className="w-5 h-5" />
-                  <span>Sign In</span>
-                </>
+                mode === 'signin' ? (
+                  <>
+                    <LogIn className="w-5 h-5" />
+                    <span>Sign In</span>
+                  </>
+                ) : (
+                  <>
+                    <UserPlus className="w-5 h-5" />
+                    <span>Create Account</span>
+                  </>
+                )
               )}
             </button>
           </form>
@@ -181,6 +213,17 @@ export function LoginPage() {
           >
             Use Demo Credentials
           </button>
+          
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'signin' ? 'signup' : 'signin')
+              setError(null)
+            }}
+            className="w-full text-sm text-rynx-400 hover:text-rynx-300 transition-colors mt-4"
+          >
+            {mode === 'signin' ? 'Invited as staff? Create your account' : 'Already have an account? Sign in'}
+          </button>
         </div>
         
         {/* Footer */}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { 
   Users, 
   Search, 
@@ -15,19 +16,45 @@ import {
   UserX,
   RefreshCw,
   Filter,
-  Download
+  Download,
+  Ban,
+  ArrowLeftRight,
+  ChevronLeft,
+  ChevronRight,
+  History,
+  Receipt,
+  FileDown,
+  AlertCircle
 } from 'lucide-react'
-import { Header, Modal, EmptyState } from '@/components'
+import { Header, Modal, EmptyState, VoidTopupModal } from '@/components'
 import { useAppStore } from '@/stores/appStore'
-import { createMember, updateMember, addMemberCredits } from '@/lib/supabase'
+import { createMember, updateMember, addMemberCredits, getMemberTransactions, transferMemberCredits, searchMembers } from '@/lib/supabase'
+import { useHistoryPages, useUrlFilters } from '@/lib/history'
+import { exportMembersCsv, getAllTransactions, exportMemberStatementPdf } from '@/lib/exports'
+import { toDateInputValue } from '@/lib/reports'
+import { hasPermission } from '@/lib/permissions'
+import { getTransferLimits } from '@/lib/transfers'
 import { formatCurrency, formatRelativeTime, formatDateTime } from '@/lib/utils'
-import type { Member } from '@/types'
+import type { Member, MemberFilters, Transaction, TransferError } from '@/types'
+
+const transferErrorMessages: Record<TransferError, string> = {
+  insufficient_credits: 'Sender does not have enough credits',
+  member_not_found: 'Member not found',
+  member_inactive: 'Both members must be active',
+  same_member: 'Choose a different recipient',
+  invalid_amount: 'Please enter a valid amount',
+  invalid_pin: 'Invalid PIN',
+  pin_locked: 'Transfers are locked after too many wrong PINs',
+  daily_limit_exceeded: 'This would go over the sender\'s daily transfer limit',
+  daily_count_exceeded: 'The sender has reached the number of transfers allowed today',
+  failed: 'Failed to transfer credits'
+}
 
 export function MembersPage() {
-  const { members, organization, fetchMembers, addToast } = useAppStore()
+  const { members, organization, staff, branches, currentBranch, fetchMembers, addToast } = useAppStore()
   
-  const [searchQuery, setSearchQuery] = useState('')
-  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('all')
+  const [filters, setFilters] = useUrlFilters({ q: '', status: '' })
+  const [searchInput, setSearchInput] = useState(filters.q)
   const [isLoading, setIsLoading] = useState(false)
   const [selectedMember, setSelectedMember] = useState<Member | null>(null)
   
@@ -36,6 +63,16 @@ export function MembersPage() {
   const [showEditModal, setShowEditModal] = useState(false)
   const [showTopupModal, setShowTopupModal] = useState(false)
   const [showDetailsModal, setShowDetailsModal] = useState(false)
+  const [showTransferModal, setShowTransferModal] = useState(false)
+  const [transferForm, setTransferForm] = useState({ to_member_id: '', amount: '', notes: '' })
+  const [memberTopups, setMemberTopups] = useState<Transaction[]>([])
+  const [voidTarget, setVoidTarget] = useState<Transaction | null>(null)
+  const [showStatementModal, setShowStatementModal] = useState(false)
+  const [statementRange, setStatementRange] = useState({ from: '', to: '' })
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  
+  const canRefund = hasPermission(staff, 'transactions.refund')
+  const transferLimits = getTransferLimits(organization)
   
   // Form state
   const [formData, setFormData] = useState({
@@ -51,20 +88,33 @@ export function MembersPage() {
     fetchMembers()
   }, [fetchMembers])
   
-  // Filtered members
-  const filteredMembers = members.filter(member => {
-    const matchesSearch = 
-      member.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      member.full_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      member.email?.toLowerCase().includes(searchQuery.toLowerCase())
-    
-    const matchesStatus = 
-      statusFilter === 'all' || 
-      (statusFilter === 'active' && member.is_active) ||
-      (statusFilter === 'inactive' && !member.is_active)
-    
-    return matchesSearch && matchesStatus
-  })
+  const memberFilters: MemberFilters = {
+    status: (filters.status || undefined) as MemberFilters['status'],
+    search: filters.q || undefined
+  }
+  
+  const pages = useHistoryPages(
+    cursor => organization
+      ? searchMembers(organization.id, memberFilters, cursor)
+      : Promise.resolve({ rows: [], nextCursor: null }),
+    `${organization?.id}:${JSON.stringify(memberFilters)}`
+  )
+  
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== filters.q) setFilters({ q: searchInput.trim() })
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+  
+  const hasFilters = Object.values(filters).some(Boolean)
+  
+  // The store keeps every member for pickers and stats; the table is paged
+  const reloadMembers = () => {
+    pages.reload()
+    return fetchMembers()
+  }
   
   // Stats
   const totalCredits = members.reduce((sum, m) => sum + m.credits, 0)
@@ -72,7 +122,7 @@ export function MembersPage() {
   
   const handleRefresh = async () => {
     setIsLoading(true)
-    await fetchMembers()
+    await reloadMembers()
     setIsLoading(false)
   }
   
@@ -105,7 +155,7 @@ export function MembersPage() {
       addToast({ type: 'success', message: `Member ${formData.username} created successfully` })
       setShowAddModal(false)
       resetForm()
-      fetchMembers()
+      reloadMembers()
     } else {
       addToast({ type: 'error', message: 'Failed to create member' })
     }
@@ -127,7 +177,7 @@ export function MembersPage() {
       setShowEditModal(false)
       setSelectedMember(null)
       resetForm()
-      fetchMembers()
+      reloadMembers()
     } else {
       addToast({ type: 'error', message: 'Failed to update member' })
     }
@@ -144,14 +194,15 @@ export function MembersPage() {
     }
     
     setIsLoading(true)
-    const success = await addMemberCredits(selectedMember.id, amount)
+    const branchId = staff?.branch_id || currentBranch?.id || branches[0]?.id || null
+    const success = await addMemberCredits(selectedMember.id, amount, branchId, 'cash')
     
     if (success) {
       addToast({ type: 'success', message: `Added ${formatCurrency(amount)} credits to ${selectedMember.username}` })
       setShowTopupModal(false)
       setSelectedMember(null)
       setTopupAmount('')
-      fetchMembers()
+      reloadMembers()
     } else {
       addToast({ type: 'error', message: 'Failed to add credits' })
     }
@@ -176,9 +227,113 @@ export function MembersPage() {
     setShowTopupModal(true)
   }
   
+  const loadMemberTopups = async (memberId: string) => {
+    const transactions = await getMemberTransactions(memberId)
+    setMemberTopups(transactions.filter(tx => tx.type === 'topup'))
+  }
+  
+  const openTransferModal = (member: Member) => {
+    setSelectedMember(member)
+    setTransferForm({ to_member_id: '', amount: '', notes: '' })
+    setShowTransferModal(true)
+  }
+  
+  const handleTransfer = async () => {
+    if (!selectedMember) return
+    
+    const amount = parseFloat(transferForm.amount)
+    if (!transferForm.to_member_id) {
+      addToast('error', 'Please choose a recipient')
+      return
+    }
+    if (isNaN(amount) || amount <= 0) {
+      addToast('error', 'Please enter a valid amount')
+      return
+    }
+    
+    setIsLoading(true)
+    const result = await transferMemberCredits({
+      fromMemberId: selectedMember.id,
+      toMemberId: transferForm.to_member_id,
+      amount,
+      branchId: staff?.branch_id || currentBranch?.id || branches[0]?.id || null,
+      notes: transferForm.notes || null
+    })
+    
+    if (result.success) {
+      const recipient = members.find(m => m.id === transferForm.to_member_id)
+      addToast('success', `Transferred ${formatCurrency(amount)} from ${selectedMember.username} to ${recipient?.username || 'member'}`)
+      setShowTransferModal(false)
+      setSelectedMember(null)
+      reloadMembers()
+    } else {
+      addToast('error', transferErrorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+  
+  const handleExportCsv = async () => {
+    if (!organization) return
+    
+    setExportProgress(0)
+    const result = await exportMembersCsv(organization.id, memberFilters, setExportProgress)
+    setExportProgress(null)
+    if (result.success) {
+      addToast('success', `Exported ${result.rows} members`)
+    } else if (result.error === 'failed') {
+      addToast('error', 'Export failed, nothing was saved. Please try again.')
+    }
+  }
+  
+  const openStatementModal = () => {
+    const monthStart = new Date()
+    monthStart.setDate(1)
+    setStatementRange({ from: toDateInputValue(monthStart), to: toDateInputValue(new Date()) })
+    setShowDetailsModal(false)
+    setShowStatementModal(true)
+  }
+  
+  const handleExportStatement = async () => {
+    if (!selectedMember || !organization) return
+    
+    setIsLoading(true)
+    const statementTransactions = await getAllTransactions(organization.id, {
+      memberId: selectedMember.id,
+      from: statementRange.from || undefined,
+      to: statementRange.to || undefined
+    })
+    setIsLoading(false)
+    if (!statementTransactions) {
+      addToast('error', 'Failed to load transactions for the statement')
+      return
+    }
+    setShowStatementModal(false)
+    
+    // Credits are shared across branches, so the statement covers all of them
+    exportMemberStatementPdf({
+      organizationName: organization.name,
+      branchName: 'All branches',
+      member: selectedMember,
+      from: statementRange.from || undefined,
+      to: statementRange.to || undefined,
+      transactions: statementTransactions
+    })
+  }
+  
   const openDetailsModal = (member: Member) => {
     setSelectedMember(member)
+    setMemberTopups([])
     setShowDetailsModal(true)
+    loadMemberTopups(member.id)
+  }
+  
+  const handleVoided = async (reversal: Transaction) => {
+    if (!selectedMember) return
+    if (reversal.balance_after !== null) {
+      setSelectedMember({ ...selectedMember, credits: reversal.balance_after })
+    }
+    loadMemberTopups(selectedMember.id)
+    reloadMembers()
   }
   
   return (
@@ -264,134 +419,178 @@ export function MembersPage() {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
           <input
             type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by username, name, or email..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by username, name, email or phone..."
             className="input pl-10"
           />
         </div>
         
         <select
-          value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value as 'all' | 'active' | 'inactive')}
+          value={filters.status}
+          onChange={(e) => setFilters({ status: e.target.value })}
           className="select min-w-[150px]"
         >
-          <option value="all">All Status</option>
+          <option value="">All Status</option>
           <option value="active">Active</option>
           <option value="inactive">Inactive</option>
         </select>
         
-        <button className="btn-secondary">
+        <button onClick={handleExportCsv} disabled={exportProgress !== null} className="btn-secondary">
           <Download className="w-4 h-4" />
-          <span>Export</span>
+          <span>{exportProgress !== null ? `Exporting ${exportProgress}...` : 'Export CSV'}</span>
         </button>
       </div>
       
       {/* Members Table */}
-      {filteredMembers.length > 0 ? (
-        <div className="card overflow-hidden">
-          <div className="overflow-x-auto">
-            <table className="table">
-              <thead>
-                <tr>
-                  <th>Member</th>
-                  <th>Contact</th>
-                  <th>Credits</th>
-                  <th>Status</th>
-                  <th>Joined</th>
-                  <th className="text-right">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredMembers.map((member) => (
-                  <tr key={member.id} className="hover:bg-slate-800/50">
-                    <td>
-                      <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-rynx-500/20 to-blue-500/20 flex items-center justify-center">
-                          <span className="text-rynx-400 font-semibold text-sm">
-                            {member.username.slice(0, 2).toUpperCase()}
-                          </span>
+      {pages.error ? (
+        <EmptyState
+          icon={AlertCircle}
+          title="Couldn't load members"
+          description={`Check your connection and try again. (${pages.error})`}
+          action={{ label: 'Try again', onClick: pages.reload }}
+        />
+      ) : pages.rows.length > 0 ? (
+        <>
+          <div className="card overflow-hidden mb-4">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Member</th>
+                    <th>Contact</th>
+                    <th>Credits</th>
+                    <th>Status</th>
+                    <th>Joined</th>
+                    <th className="text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pages.rows.map((member) => (
+                    <tr key={member.id} className="hover:bg-slate-800/50">
+                      <td>
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-rynx-500/20 to-blue-500/20 flex items-center justify-center">
+                            <span className="text-rynx-400 font-semibold text-sm">
+                              {member.username.slice(0, 2).toUpperCase()}
+                            </span>
+                          </div>
+                          <div>
+                            <p className="font-medium text-white">{member.username}</p>
+                            {member.full_name && (
+                              <p className="text-sm text-slate-400">{member.full_name}</p>
+                            )}
+                          </div>
                         </div>
-                        <div>
-                          <p className="font-medium text-white">{member.username}</p>
-                          {member.full_name && (
-                            <p className="text-sm text-slate-400">{member.full_name}</p>
+                      </td>
+                      <td>
+                        <div className="space-y-1">
+                          {member.email && (
+                            <div className="flex items-center gap-2 text-sm text-slate-400">
+                              <Mail className="w-3.5 h-3.5" />
+                              <span>{member.email}</span>
+                            </div>
+                          )}
+                          {member.phone && (
+                            <div className="flex items-center gap-2 text-sm text-slate-400">
+                              <Phone className="w-3.5 h-3.5" />
+                              <span>{member.phone}</span>
+                            </div>
+                          )}
+                          {!member.email && !member.phone && (
+                            <span className="text-sm text-slate-500">No contact info</span>
                           )}
                         </div>
-                      </div>
-                    </td>
-                    <td>
-                      <div className="space-y-1">
-                        {member.email && (
-                          <div className="flex items-center gap-2 text-sm text-slate-400">
-                            <Mail className="w-3.5 h-3.5" />
-                            <span>{member.email}</span>
-                          </div>
-                        )}
-                        {member.phone && (
-                          <div className="flex items-center gap-2 text-sm text-slate-400">
-                            <Phone className="w-3.5 h-3.5" />
-                            <span>{member.phone}</span>
-                          </div>
-                        )}
-                        {!member.email && !member.phone && (
-                          <span className="text-sm text-slate-500">No contact info</span>
-                        )}
-                      </div>
-                    </td>
-                    <td>
-                      <span className={`font-semibold ${member.credits > 0 ? 'text-emerald-400' : 'text-slate-400'}`}>
-                        {formatCurrency(member.credits)}
-                      </span>
-                    </td>
-                    <td>
-                      <span className={`badge ${member.is_active ? 'badge-success' : 'badge-default'}`}>
-                        {member.is_active ? 'Active' : 'Inactive'}
-                      </span>
-                    </td>
-                    <td>
-                      <span className="text-sm text-slate-400">
-                        {formatRelativeTime(member.created_at)}
-                      </span>
-                    </td>
-                    <td>
-                      <div className="flex items-center justify-end gap-2">
-                        <button
-                          onClick={() => openTopupModal(member)}
-                          className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
-                          title="Add Credits"
-                        >
-                          <DollarSign className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => openEditModal(member)}
-                          className="p-2 text-slate-400 hover:text-rynx-400 hover:bg-rynx-500/10 rounded-lg transition-colors"
-                          title="Edit"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => openDetailsModal(member)}
-                          className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
-                          title="View Details"
-                        >
-                          <MoreVertical className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+                      </td>
+                      <td>
+                        <span className={`font-semibold ${member.credits > 0 ? 'text-emerald-400' : 'text-slate-400'}`}>
+                          {formatCurrency(member.credits)}
+                        </span>
+                      </td>
+                      <td>
+                        <span className={`badge ${member.is_active ? 'badge-success' : 'badge-default'}`}>
+                          {member.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td>
+                        <span className="text-sm text-slate-400">
+                          {formatRelativeTime(member.created_at)}
+                        </span>
+                      </td>
+                      <td>
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => openTopupModal(member)}
+                            className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
+                            title="Add Credits"
+                          >
+                            <DollarSign className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openTransferModal(member)}
+                            className="p-2 text-slate-400 hover:text-purple-400 hover:bg-purple-500/10 rounded-lg transition-colors"
+                            title="Transfer Credits"
+                          >
+                            <ArrowLeftRight className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openEditModal(member)}
+                            className="p-2 text-slate-400 hover:text-rynx-400 hover:bg-rynx-500/10 rounded-lg transition-colors"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openDetailsModal(member)}
+                            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                            title="View Details"
+                          >
+                            <MoreVertical className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
-        </div>
+          
+          {/* Pagination */}
+          {(pages.hasPrevious || pages.hasNext) && (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-slate-400">
+                Showing {pages.rows.length} members
+              </p>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={pages.previous}
+                  disabled={!pages.hasPrevious || pages.isLoading}
+                  className="btn-secondary p-2 disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="text-sm text-slate-400">
+                  Page {pages.page}
+                </span>
+                <button
+                  onClick={pages.next}
+                  disabled={!pages.hasNext || pages.isLoading}
+                  className="btn-secondary p-2 disabled:opacity-50"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </>
       ) : (
         <EmptyState
           icon={Users}
           title="No members found"
-          description={searchQuery ? 'Try adjusting your search or filters' : 'Add your first member to get started'}
+          description={hasFilters ? 'Try adjusting your search or filters' : 'Add your first member to get started'}
           action={
-            !searchQuery && (
+            !hasFilters && (
               <button onClick={() => { resetForm(); setShowAddModal(true) }} className="btn-primary">
                 <Plus className="w-4 h-4" />
                 <span>Add Member</span>
@@ -583,6 +782,127 @@ export function MembersPage() {
         </div>
       </Modal>
       
+      {/* Transfer Modal */}
+      <Modal isOpen={showTransferModal} onClose={() => setShowTransferModal(false)} title="Transfer Credits" size="sm">
+        {selectedMember && (
+          <div className="space-y-4">
+            <div className="text-center p-4 bg-slate-800/50 rounded-xl">
+              <p className="text-sm text-slate-400 mb-1">Transferring from</p>
+              <p className="text-lg font-semibold text-white">{selectedMember.username}</p>
+              <p className="text-sm text-slate-400 mt-2">
+                Current balance: <span className="text-emerald-400 font-medium">{formatCurrency(selectedMember.credits)}</span>
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Recipient <span className="text-red-400">*</span>
+              </label>
+              <select
+                value={transferForm.to_member_id}
+                onChange={(e) => setTransferForm({ ...transferForm, to_member_id: e.target.value })}
+                className="select"
+              >
+                <option value="">Select a member</option>
+                {members
+                  .filter(m => m.id !== selectedMember.id && m.is_active)
+                  .map(m => (
+                    <option key={m.id} value={m.id}>
+                      {m.username}{m.full_name ? ` (${m.full_name})` : ''}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Amount (PHP) <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                value={transferForm.amount}
+                onChange={(e) => setTransferForm({ ...transferForm, amount: e.target.value })}
+                placeholder="0.00"
+                min="0"
+                step="0.01"
+                className="input text-lg"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Daily limit: {formatCurrency(transferLimits.dailyLimit)} across {transferLimits.dailyCount} transfers
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Notes</label>
+              <input
+                type="text"
+                value={transferForm.notes}
+                onChange={(e) => setTransferForm({ ...transferForm, notes: e.target.value })}
+                placeholder="Optional"
+                className="input"
+              />
+            </div>
+          </div>
+        )}
+        
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowTransferModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button 
+            onClick={handleTransfer} 
+            disabled={isLoading || !transferForm.amount || !transferForm.to_member_id} 
+            className="btn-primary"
+          >
+            {isLoading ? 'Processing...' : 'Transfer'}
+          </button>
+        </div>
+      </Modal>
+      
+      {/* Statement Modal */}
+      <Modal isOpen={showStatementModal} onClose={() => setShowStatementModal(false)} title="Member Statement" size="sm">
+        {selectedMember && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-400">
+              Credit activity for <span className="text-white font-medium">{selectedMember.username}</span> with the balance after each transaction.
+            </p>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">From</label>
+                <input
+                  type="date"
+                  value={statementRange.from}
+                  max={statementRange.to || undefined}
+                  onChange={(e) => setStatementRange({ ...statementRange, from: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">To</label>
+                <input
+                  type="date"
+                  value={statementRange.to}
+                  min={statementRange.from || undefined}
+                  onChange={(e) => setStatementRange({ ...statementRange, to: e.target.value })}
+                  className="input"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+        
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowStatementModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleExportStatement} disabled={isLoading} className="btn-primary">
+            <FileDown className="w-4 h-4" />
+            <span>{isLoading ? 'Preparing...' : 'PDF Statement'}</span>
+          </button>
+        </div>
+      </Modal>
+      
       {/* Details Modal */}
       <Modal isOpen={showDetailsModal} onClose={() => setShowDetailsModal(false)} title="Member Details" size="md">
         {selectedMember && (
@@ -646,6 +966,39 @@ export function MembersPage() {
               </div>
             </div>
             
+            {/* Recent Top-Ups */}
+            {memberTopups.length > 0 && (
+              <div>
+                <p className="text-xs text-slate-500 mb-2">Recent Top-Ups</p>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {memberTopups.map(tx => (
+                    <div key={tx.id} className="flex items-center justify-between p-3 bg-slate-800/30 rounded-lg">
+                      <div>
+                        <p className={`text-sm font-medium ${tx.voided_at ? 'text-slate-500 line-through' : 'text-emerald-400'}`}>
+                          +{formatCurrency(tx.amount)}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {formatRelativeTime(tx.created_at)}
+                          {tx.payment_method && <span className="capitalize"> · {tx.payment_method}</span>}
+                        </p>
+                      </div>
+                      {tx.voided_at ? (
+                        <span className="badge badge-danger">Voided</span>
+                      ) : canRefund && (
+                        <button
+                          onClick={() => setVoidTarget(tx)}
+                          className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                          title="Void Top-Up"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {/* Actions */}
             <div className="flex gap-3">
               <button 
@@ -663,9 +1016,31 @@ export function MembersPage() {
                 <span>Edit</span>
               </button>
             </div>
+            
+            {/* History */}
+            <div className="flex justify-center gap-2">
+              <Link to={`/sessions?member=${selectedMember.id}`} className="btn-ghost btn-sm">
+                <History className="w-4 h-4" />
+                <span>Session History</span>
+              </Link>
+              <Link to={`/transactions?member=${selectedMember.id}`} className="btn-ghost btn-sm">
+                <Receipt className="w-4 h-4" />
+                <span>Transactions</span>
+              </Link>
+              <button onClick={openStatementModal} className="btn-ghost btn-sm">
+                <FileDown className="w-4 h-4" />
+                <span>Statement</span>
+              </button>
+            </div>
           </div>
         )}
       </Modal>
+      
+      <VoidTopupModal
+        transaction={voidTarget}
+        onClose={() => setVoidTarget(null)}
+        onVoided={handleVoided}
+      />
     </div>
   )
 }
@@ -0,0 +1,533 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+  BarChart3,
+  RefreshCw,
+  DollarSign,
+  Timer,
+  Clock,
+  Monitor,
+  Calendar,
+  Users,
+  Grid3x3,
+  Download
+} from 'lucide-react'
+import { Header, StatCard } from '@/components'
+import { useAppStore } from '@/stores/appStore'
+import {
+  getRevenueReport,
+  getSessionReport,
+  getTopMembers,
+  getDeviceUtilization,
+  getOccupancyHeatmap
+} from '@/lib/supabase'
+import { useUrlFilters } from '@/lib/history'
+import {
+  WEEKDAY_LABELS,
+  getRecentRange,
+  fillDailyBuckets,
+  fillHourlyBuckets,
+  formatHour,
+  getUtilizationPercent
+} from '@/lib/reports'
+import { exportReportCsv } from '@/lib/exports'
+import { formatCurrency, formatDate, formatDuration } from '@/lib/utils'
+import type {
+  ReportFilters,
+  RevenueBucket,
+  RevenueReport,
+  SessionTypeReport,
+  TopMember,
+  TopMemberOrder,
+  DeviceUtilization,
+  OccupancyCell
+} from '@/types'
+
+const emptyRevenue: RevenueReport = {
+  day: [],
+  hour: [],
+  branch: [],
+  payment_method: [],
+  session_type: [],
+  package: []
+}
+
+const rangePresets = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 }
+]
+
+// Vertical bars, one per bucket
+function ColumnChart({ buckets, getLabel }: { buckets: RevenueBucket[]; getLabel: (bucket: RevenueBucket) => string }) {
+  const max = Math.max(...buckets.map(b => b.amount), 0)
+  // Thin out the axis labels on long ranges
+  const labelEvery = Math.ceil(buckets.length / 12)
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-40">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.bucket}
+            className="flex-1 h-full flex items-end group relative"
+            title={`${getLabel(bucket)}: ${formatCurrency(bucket.amount)} (${bucket.count})`}
+          >
+            <div
+              className="w-full rounded-t bg-rynx-500/60 group-hover:bg-rynx-400 transition-colors"
+              style={{ height: `${max > 0 ? Math.max(bucket.amount, 0) / max * 100 : 0}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-2">
+        {buckets.map((bucket, index) => (
+          <span key={bucket.bucket} className="flex-1 text-center text-[10px] text-slate-500 truncate">
+            {index % labelEvery === 0 ? getLabel(bucket) : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Horizontal bars with the amount and its share of the total
+function BreakdownList({ buckets, getLabel }: { buckets: RevenueBucket[]; getLabel: (bucket: RevenueBucket) => string }) {
+  const total = buckets.reduce((sum, b) => sum + b.amount, 0)
+  const sorted = [...buckets].sort((a, b) => b.amount - a.amount)
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-slate-500">No revenue in this period</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((bucket) => {
+        const share = total > 0 ? Math.max(bucket.amount, 0) / total * 100 : 0
+        return (
+          <div key={bucket.bucket}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-slate-300 capitalize truncate">{getLabel(bucket)}</span>
+              <span className="text-white font-medium">
+                {formatCurrency(bucket.amount)}
+                <span className="text-slate-500 font-normal ml-2">{Math.round(share)}%</span>
+              </span>
+            </div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-rynx-500 rounded-full" style={{ width: `${share}%` }} />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export function ReportsPage() {
+  const { branches, staff, organization } = useAppStore()
+
+  const [defaultRange] = useState(() => getRecentRange(7))
+  const [filters, setFilters] = useUrlFilters({ ...defaultRange, branch: '' })
+  const [revenue, setRevenue] = useState<RevenueReport>(emptyRevenue)
+  const [sessionMix, setSessionMix] = useState<SessionTypeReport[]>([])
+  const [topMembers, setTopMembers] = useState<TopMember[]>([])
+  const [topMemberOrder, setTopMemberOrder] = useState<TopMemberOrder>('spend')
+  const [utilization, setUtilization] = useState<DeviceUtilization[]>([])
+  const [heatmap, setHeatmap] = useState<OccupancyCell[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const requestRef = useRef(0)
+
+  // Staff assigned to a branch only see that branch
+  const reportFilters: ReportFilters = {
+    from: filters.from,
+    to: filters.to,
+    branchId: staff?.branch_id || filters.branch || undefined
+  }
+  const filtersKey = JSON.stringify(reportFilters)
+
+  const loadReports = async () => {
+    if (!organization) return
+
+    const request = ++requestRef.current
+    setIsLoading(true)
+    const [revenueReport, sessionReport, devices, cells] = await Promise.all([
+      getRevenueReport(reportFilters),
+      getSessionReport(reportFilters),
+      getDeviceUtilization(reportFilters),
+      getOccupancyHeatmap(reportFilters)
+    ])
+
+    // Filters changed while this was loading
+    if (request !== requestRef.current) return
+
+    setRevenue(revenueReport)
+    setSessionMix(sessionReport)
+    setUtilization(devices)
+    setHeatmap(cells)
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    loadReports()
+  }, [filtersKey, organization])
+
+  useEffect(() => {
+    if (!organization) return
+    getTopMembers(reportFilters, topMemberOrder).then(setTopMembers)
+  }, [filtersKey, organization, topMemberOrder])
+
+  const handleRefresh = () => {
+    loadReports()
+    getTopMembers(reportFilters, topMemberOrder).then(setTopMembers)
+  }
+
+  const handleExportCsv = () => {
+    exportReportCsv({ from: filters.from, to: filters.to, revenue, topMembers, utilization })
+  }
+
+  // Totals
+  const totalRevenue = revenue.day.reduce((sum, b) => sum + b.amount, 0)
+  const totalSessions = sessionMix.reduce((sum, s) => sum + s.count, 0)
+  const totalSeconds = sessionMix.reduce((sum, s) => sum + s.totalSeconds, 0)
+  const averageSeconds = totalSessions > 0 ? totalSeconds / totalSessions : 0
+  const overallUtilization = getUtilizationPercent({
+    usedSeconds: utilization.reduce((sum, d) => sum + d.usedSeconds, 0),
+    availableSeconds: utilization.reduce((sum, d) => sum + d.availableSeconds, 0)
+  })
+
+  const dailyRevenue = fillDailyBuckets(revenue.day, filters.from, filters.to)
+  const hourlyRevenue = fillHourlyBuckets(revenue.hour)
+  const guest = sessionMix.find(s => s.sessionType === 'guest')
+  const member = sessionMix.find(s => s.sessionType === 'member')
+  const guestShare = totalSessions > 0 ? (guest?.count || 0) / totalSessions * 100 : 0
+  const maxOccupancy = Math.max(...heatmap.map(c => c.occupancy), 0)
+
+  const getOccupancy = (weekday: number, hour: number) =>
+    heatmap.find(c => c.weekday === weekday && c.hour === hour)?.occupancy || 0
+
+  const isPreset = (days: number) => {
+    const range = getRecentRange(days)
+    return filters.from === range.from && filters.to === range.to
+  }
+
+  return (
+    <div className="p-6">
+      <Header
+        title="Reports"
+        subtitle={`${formatDate(`${filters.from}T00:00:00`)} - ${formatDate(`${filters.to}T00:00:00`)}`}
+        action={
+          <div className="flex items-center gap-2">
+            <button onClick={handleExportCsv} className="btn-secondary" disabled={isLoading}>
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+            <button
+              onClick={handleRefresh}
+              className="btn-secondary"
+              disabled={isLoading}
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        }
+      />
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row flex-wrap gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          {rangePresets.map(preset => (
+            <button
+              key={preset.days}
+              onClick={() => setFilters(getRecentRange(preset.days))}
+              className={isPreset(preset.days) ? 'btn-primary btn-sm' : 'btn-ghost btn-sm'}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-slate-400" />
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to}
+            onChange={(e) => e.target.value && setFilters({ from: e.target.value })}
+            className="input"
+          />
+          <span className="text-slate-500">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from}
+            onChange={(e) => e.target.value && setFilters({ to: e.target.value })}
+            className="input"
+          />
+        </div>
+
+        {!staff?.branch_id && branches.length > 1 && (
+          <select
+            value={filters.branch}
+            onChange={(e) => setFilters({ branch: e.target.value })}
+            className="select min-w-[160px]"
+          >
+            <option value="">All Branches</option>
+            {branches.map(branch => (
+              <option key={branch.id} value={branch.id}>{branch.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        <StatCard
+          title="Revenue"
+          value={formatCurrency(totalRevenue)}
+          subtitle="Cash and coin, net of refunds"
+          icon={DollarSign}
+          color="emerald"
+        />
+        <StatCard
+          title="Sessions"
+          value={totalSessions}
+          subtitle={`${formatDuration(Math.round(totalSeconds))} played`}
+          icon={Timer}
+          color="rynx"
+        />
+        <StatCard
+          title="Avg. Session"
+          value={formatDuration(Math.round(averageSeconds))}
+          icon={Clock}
+          color="amber"
+        />
+        <StatCard
+          title="Utilization"
+          value={`${overallUtilization}%`}
+          subtitle={`${utilization.length} PCs`}
+          icon={Monitor}
+          color="purple"
+        />
+      </div>
+
+      {/* Revenue over time */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Revenue by Day</h3>
+          <ColumnChart
+            buckets={dailyRevenue}
+            getLabel={(bucket) => formatDate(`${bucket.bucket}T00:00:00`).replace(/, \d{4}$/, '')}
+          />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Revenue by Hour</h3>
+          <ColumnChart
+            buckets={hourlyRevenue}
+            getLabel={(bucket) => formatHour(Number(bucket.bucket))}
+          />
+        </div>
+      </div>
+
+      {/* Revenue breakdowns */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-6">
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">By Branch</h3>
+          <BreakdownList buckets={revenue.branch} getLabel={(b) => b.label || 'Unknown'} />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">By Payment Method</h3>
+          <BreakdownList buckets={revenue.payment_method} getLabel={(b) => b.bucket} />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">By Session Type</h3>
+          <BreakdownList buckets={revenue.session_type} getLabel={(b) => b.bucket} />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">By Package</h3>
+          <BreakdownList buckets={revenue.package} getLabel={(b) => b.label || 'Deleted package'} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Guest vs member */}
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <Users className="w-5 h-5 text-rynx-400" />
+            Guest vs Member
+          </h3>
+          {totalSessions > 0 ? (
+            <>
+              <div className="flex h-3 rounded-full overflow-hidden bg-slate-800 mb-4">
+                <div className="bg-amber-500" style={{ width: `${guestShare}%` }} />
+                <div className="bg-rynx-500 flex-1" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { title: 'Guest', report: guest, color: 'text-amber-400' },
+                  { title: 'Member', report: member, color: 'text-rynx-400' }
+                ].map(({ title, report, color }) => (
+                  <div key={title} className="p-4 bg-slate-800/30 rounded-xl">
+                    <p className={`text-sm font-medium ${color} mb-2`}>{title}</p>
+                    <p className="text-2xl font-bold text-white">{report?.count || 0}</p>
+                    <p className="text-xs text-slate-500 mb-3">
+                      sessions · {Math.round((report?.count || 0) / totalSessions * 100)}%
+                    </p>
+                    <div className="space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Played</span>
+                        <span className="text-slate-200">{formatDuration(Math.round(report?.totalSeconds || 0))}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Avg. length</span>
+                        <span className="text-slate-200">{formatDuration(Math.round(report?.averageSeconds || 0))}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Charged</span>
+                        <span className="text-slate-200">{formatCurrency(report?.amount || 0)}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500">No sessions in this period</p>
+          )}
+        </div>
+
+        {/* Top members */}
+        <div className="card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white">Top Members</h3>
+            <select
+              value={topMemberOrder}
+              onChange={(e) => setTopMemberOrder(e.target.value as TopMemberOrder)}
+              className="select w-auto"
+            >
+              <option value="spend">By spend</option>
+              <option value="hours">By hours</option>
+            </select>
+          </div>
+          {topMembers.length > 0 ? (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Member</th>
+                  <th>Sessions</th>
+                  <th>Played</th>
+                  <th className="text-right">Spend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topMembers.map((m, index) => (
+                  <tr key={m.memberId}>
+                    <td>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 w-4">{index + 1}</span>
+                        <div>
+                          <p className="text-white">{m.username}</p>
+                          {m.fullName && <p className="text-xs text-slate-500">{m.fullName}</p>}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="text-slate-300">{m.sessionCount}</td>
+                    <td className="font-mono text-slate-300">{formatDuration(Math.round(m.totalSeconds))}</td>
+                    <td className="text-right text-amber-400 font-medium">{formatCurrency(m.spend)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-slate-500">No member sessions in this period</p>
+          )}
+        </div>
+      </div>
+
+      {/* Occupancy heatmap */}
+      <div className="card p-6 mb-6">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+          <Grid3x3 className="w-5 h-5 text-rynx-400" />
+          Occupancy by Hour
+        </h3>
+        <p className="text-sm text-slate-400 mb-4">
+          Share of PCs in use, averaged over the period{maxOccupancy > 0 ? `; busiest ${Math.round(maxOccupancy * 100)}%` : ''}
+        </p>
+        <div className="overflow-x-auto">
+          <div className="min-w-[640px]">
+            {WEEKDAY_LABELS.map((weekday, day) => (
+              <div key={weekday} className="flex items-center gap-1 mb-1">
+                <span className="w-10 text-xs text-slate-500">{weekday}</span>
+                {Array.from({ length: 24 }, (_, hour) => {
+                  const occupancy = getOccupancy(day, hour)
+                  return (
+                    <div
+                      key={hour}
+                      className="flex-1 h-6 rounded bg-slate-800"
+                      title={`${weekday} ${formatHour(hour)}: ${Math.round(occupancy * 100)}%`}
+                    >
+                      <div
+                        className="w-full h-full rounded bg-rynx-500"
+                        style={{ opacity: maxOccupancy > 0 ? occupancy / maxOccupancy : 0 }}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <span className="w-10" />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <span key={hour} className="flex-1 text-center text-[10px] text-slate-500">
+                  {hour % 3 === 0 ? formatHour(hour) : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Utilization per PC */}
+      <div className="card p-6">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-rynx-400" />
+          PC Utilization
+        </h3>
+        <p className="text-sm text-slate-400 mb-4">Time with a session open, out of the whole period</p>
+        {utilization.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-x-8 gap-y-3">
+            {[...utilization]
+              .sort((a, b) => getUtilizationPercent(b) - getUtilizationPercent(a))
+              .map((device) => {
+                const percent = getUtilizationPercent(device)
+                return (
+                  <div key={device.deviceId}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="text-slate-300 truncate">
+                        {device.deviceName}
+                        {!reportFilters.branchId && branches.length > 1 && (
+                          <span className="text-slate-500"> · {device.branchName}</span>
+                        )}
+                      </span>
+                      <span className="text-white font-medium">{percent}%</span>
+                    </div>
+                    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${percent >= 75 ? 'bg-emerald-500' : percent >= 25 ? 'bg-rynx-500' : 'bg-slate-600'}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No PCs to report on</p>
+        )}
+      </div>
+    </div>
+  )
+}
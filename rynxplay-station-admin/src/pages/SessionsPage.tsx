@@ -14,13 +14,25 @@ import {
   Download,
   ChevronLeft,
   ChevronRight,
-  Activity
+  Activity,
+  Undo2,
+  Plus,
+  ArrowRightLeft,
+  CloudOff,
+  Check,
+  Calendar,
+  X,
+  AlertCircle
 } from 'lucide-react'
-import { Header, Modal, EmptyState } from '@/components'
+import { Header, Modal, EmptyState, ExtendSessionModal } from '@/components'
 import { useAppStore } from '@/stores/appStore'
-import { endSession } from '@/lib/supabase'
+import { endSession, pauseSession, resumeSession, refundSession, sendDeviceCommand, moveSession, getSyncConflicts, resolveSyncConflict, searchSessions, getSessionTotals } from '@/lib/supabase'
+import { useHistoryPages, useUrlFilters } from '@/lib/history'
+import { exportSessionsCsv } from '@/lib/exports'
+import { hasPermission } from '@/lib/permissions'
 import { formatCurrency, formatDuration, formatRelativeTime, formatDateTime } from '@/lib/utils'
-import type { Session, SessionStatus } from '@/types'
+import { calculateCharge } from '@shared/billing'
+import type { Member, Session, SessionFilters, SessionStatus, SessionTotals, RefundError, MoveSessionError, ClientSyncEvent, ClientSyncConflict } from '@/types'
 
 const statusConfig: Record<SessionStatus, { label: string; color: string; icon: typeof Play }> = {
   active: { label: 'Active', color: 'emerald', icon: Play },
@@ -29,23 +41,115 @@ const statusConfig: Record<SessionStatus, { label: string; color: string; icon:
   terminated: { label: 'Terminated', color: 'red', icon: Square }
 }
 
+const refundErrorMessages: Record<RefundError, string> = {
+  not_allowed: 'Only owners and admins can issue refunds',
+  not_refundable: 'End the session before refunding it',
+  already_voided: 'This payment has already been voided',
+  exceeds_refundable: 'Amount exceeds what is left to refund on this session',
+  insufficient_credits: 'Failed to refund session',
+  failed: 'Failed to refund session'
+}
+
+const moveErrorMessages: Record<MoveSessionError, string> = {
+  session_not_active: 'Only running sessions can be moved',
+  same_device: 'The session is already on that PC',
+  device_busy: 'That PC already has a session',
+  failed: 'Failed to move session'
+}
+
+const syncConflictMessages: Record<ClientSyncConflict, string> = {
+  session_moved: 'Session was moved to another PC before this was sent',
+  session_already_ended: 'Session was ended by staff while the PC was offline',
+  insufficient_credits: 'Member could not cover the offline usage'
+}
+
+const syncEventLabels: Record<ClientSyncEvent['event_type'], string> = {
+  session_time: 'Time update',
+  member_charge: 'Usage charge',
+  session_end: 'Session end'
+}
+
+// Guests only get back time staff stopped them from using
+function isRefundable(session: Session): boolean {
+  if (Number(session.total_amount) <= 0) return false
+  if (session.session_type === 'guest') return session.status === 'terminated'
+  return session.status === 'completed' || session.status === 'terminated'
+}
+
+// Value of the guest time that was paid for but not used, or the member's
+// charge for the session, rounded down to the centavo
+function getSuggestedRefund(session: Session): number {
+  const charged = Number(session.total_amount) || 0
+  if (session.session_type !== 'guest') return charged
+
+  const remaining = session.time_remaining_seconds || 0
+  const paidSeconds = remaining + session.total_seconds_used
+  if (paidSeconds <= 0) return 0
+  return Math.floor(charged * remaining / paidSeconds * 100) / 100
+}
+
 export function SessionsPage() {
-  const { sessions, activeSessions, devices, members, fetchSessions, fetchActiveSessions, addToast } = useAppStore()
+  const { activeSessions, devices, members, branches, staff, organization, fetchActiveSessions, fetchMembers, getDeviceEffectiveStatus, addToast } = useAppStore()
   
-  const [searchQuery, setSearchQuery] = useState('')
-  const [statusFilter, setStatusFilter] = useState<'all' | SessionStatus>('all')
-  const [typeFilter, setTypeFilter] = useState<'all' | 'guest' | 'member'>('all')
+  const [filters, setFilters] = useUrlFilters({
+    q: '',
+    status: '',
+    type: '',
+    branch: '',
+    device: '',
+    member: '',
+    from: '',
+    to: ''
+  })
+  const [searchInput, setSearchInput] = useState(filters.q)
+  const [totals, setTotals] = useState<SessionTotals>({ count: 0, revenue: 0, averageSeconds: 0 })
   const [isLoading, setIsLoading] = useState(false)
   const [selectedSession, setSelectedSession] = useState<Session | null>(null)
   const [showDetailsModal, setShowDetailsModal] = useState(false)
   const [showEndSessionModal, setShowEndSessionModal] = useState(false)
+  const [showRefundModal, setShowRefundModal] = useState(false)
+  const [extendingSession, setExtendingSession] = useState<Session | null>(null)
+  const [showMoveModal, setShowMoveModal] = useState(false)
+  const [moveTargetId, setMoveTargetId] = useState('')
+  const [syncConflicts, setSyncConflicts] = useState<ClientSyncEvent[]>([])
+  const [refundForm, setRefundForm] = useState({ amount: '', reason: '' })
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  
+  const canRefund = hasPermission(staff, 'transactions.refund')
+  
+  // Staff assigned to a branch only see that branch
+  const sessionFilters: SessionFilters = {
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    branchId: staff?.branch_id || filters.branch || undefined,
+    deviceId: filters.device || undefined,
+    memberId: filters.member || undefined,
+    status: (filters.status || undefined) as SessionStatus | undefined,
+    sessionType: (filters.type || undefined) as Session['session_type'] | undefined,
+    search: filters.q || undefined
+  }
+  const filtersKey = JSON.stringify(sessionFilters)
+  
+  const pages = useHistoryPages(
+    cursor => organization
+      ? searchSessions(organization.id, sessionFilters, cursor)
+      : Promise.resolve({ rows: [], nextCursor: null }),
+    `${organization?.id}:${filtersKey}`
+  )
   
-  // Pagination
-  const [page, setPage] = useState(1)
-  const itemsPerPage = 15
+  useEffect(() => {
+    getSessionTotals(sessionFilters).then(setTotals)
+  }, [filtersKey])
+  
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== filters.q) setFilters({ q: searchInput.trim() })
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
   
   useEffect(() => {
-    fetchSessions()
     fetchActiveSessions()
     
     // Refresh active sessions every 30 seconds
@@ -54,7 +158,13 @@ export function SessionsPage() {
     }, 30000)
     
     return () => clearInterval(interval)
-  }, [fetchSessions, fetchActiveSessions])
+  }, [fetchActiveSessions])
+  
+  useEffect(() => {
+    if (organization) {
+      getSyncConflicts(organization.id).then(setSyncConflicts)
+    }
+  }, [organization])
   
   // Get device and member info
   const getDeviceName = (deviceId: string) => {
@@ -62,46 +172,41 @@ export function SessionsPage() {
     return device?.name || 'Unknown Device'
   }
   
-  const getMemberName = (memberId: string | null) => {
+  const getMemberName = (memberId: string | null, member?: Member | null) => {
     if (!memberId) return 'Guest'
-    const member = members.find(m => m.id === memberId)
-    return member?.username || member?.full_name || 'Unknown Member'
+    const found = member || members.find(m => m.id === memberId)
+    return found?.username || found?.full_name || 'Unknown Member'
   }
   
-  // Filter sessions
-  const filteredSessions = sessions.filter(session => {
-    const deviceName = getDeviceName(session.device_id).toLowerCase()
-    const memberName = getMemberName(session.member_id).toLowerCase()
-    
-    const matchesSearch = 
-      deviceName.includes(searchQuery.toLowerCase()) ||
-      memberName.includes(searchQuery.toLowerCase())
-    
-    const matchesStatus = statusFilter === 'all' || session.status === statusFilter
-    const matchesType = typeFilter === 'all' || session.session_type === typeFilter
-    
-    return matchesSearch && matchesStatus && matchesType
-  })
-  
-  // Paginated sessions
-  const totalPages = Math.ceil(filteredSessions.length / itemsPerPage)
-  const paginatedSessions = filteredSessions.slice((page - 1) * itemsPerPage, page * itemsPerPage)
+  const filterBranchId = staff?.branch_id || filters.branch
+  const deviceOptions = filterBranchId ? devices.filter(d => d.branch_id === filterBranchId) : devices
+  const hasFilters = Object.values(filters).some(Boolean)
   
-  // Stats
-  const activeCount = sessions.filter(s => s.status === 'active').length
-  const todayRevenue = sessions
-    .filter(s => new Date(s.created_at).toDateString() === new Date().toDateString())
-    .reduce((sum, s) => sum + s.total_amount, 0)
-  const avgDuration = sessions.length > 0 
-    ? sessions.reduce((sum, s) => sum + s.total_seconds_used, 0) / sessions.length 
-    : 0
+  const reloadSessions = () => {
+    pages.reload()
+    getSessionTotals(sessionFilters).then(setTotals)
+  }
   
   const handleRefresh = async () => {
     setIsLoading(true)
-    await Promise.all([fetchSessions(), fetchActiveSessions()])
+    reloadSessions()
+    await fetchActiveSessions()
     setIsLoading(false)
   }
   
+  const handleExportCsv = async () => {
+    if (!organization) return
+    
+    setExportProgress(0)
+    const result = await exportSessionsCsv(organization.id, sessionFilters, setExportProgress)
+    setExportProgress(null)
+    if (result.success) {
+      addToast('success', `Exported ${result.rows} sessions`)
+    } else if (result.error === 'failed') {
+      addToast('error', 'Export failed, nothing was saved. Please try again.')
+    }
+  }
+  
   const handleEndSession = async () => {
     if (!selectedSession) return
     
@@ -112,7 +217,7 @@ export function SessionsPage() {
       addToast({ type: 'success', message: 'Session ended successfully' })
       setShowEndSessionModal(false)
       setSelectedSession(null)
-      fetchSessions()
+      reloadSessions()
       fetchActiveSessions()
     } else {
       addToast({ type: 'error', message: 'Failed to end session' })
@@ -130,6 +235,126 @@ export function SessionsPage() {
     setShowEndSessionModal(true)
   }
   
+  // The PC pauses or resumes itself so its own timers stop and start. A PC
+  // that is off can't, so the session is changed here instead.
+  const handlePauseToggle = async (session: Session) => {
+    const command = session.status === 'paused' ? 'resume' : 'pause'
+    const device = devices.find(d => d.id === session.device_id)
+    
+    if (device && getDeviceEffectiveStatus(device) === 'offline') {
+      const changed = command === 'pause' ? await pauseSession(session.id) : await resumeSession(session.id)
+      
+      if (changed) {
+        addToast('success', `Session ${command === 'pause' ? 'paused' : 'resumed'}; ${getDeviceName(session.device_id)} picks it up when it starts`)
+        setShowDetailsModal(false)
+        fetchActiveSessions()
+        reloadSessions()
+      } else {
+        addToast('error', `Failed to ${command} session`)
+      }
+      return
+    }
+    
+    const result = await sendDeviceCommand(session.device_id, command, { session_id: session.id }, staff?.id)
+    
+    if (result) {
+      addToast('success', `${command === 'pause' ? 'Pause' : 'Resume'} command sent to ${getDeviceName(session.device_id)}`)
+      setShowDetailsModal(false)
+    } else {
+      addToast('error', `Failed to ${command} session`)
+    }
+  }
+  
+  // Free PCs in the same branch a session can be moved to
+  const getMoveTargets = (session: Session) => {
+    const branchId = devices.find(d => d.id === session.device_id)?.branch_id
+    return devices.filter(d => 
+      d.id !== session.device_id &&
+      d.branch_id === branchId &&
+      (d.status === 'online' || d.status === 'offline') &&
+      !activeSessions.some(s => s.device_id === d.id)
+    )
+  }
+  
+  const openMoveModal = (session: Session) => {
+    setSelectedSession(session)
+    setMoveTargetId('')
+    setShowMoveModal(true)
+  }
+  
+  const handleMoveSession = async () => {
+    if (!selectedSession || !moveTargetId) {
+      addToast('error', 'Please select a PC')
+      return
+    }
+    
+    setIsLoading(true)
+    const result = await moveSession(selectedSession.id, moveTargetId, staff?.id)
+    
+    if (result.success) {
+      addToast('success', `Session moved to ${getDeviceName(moveTargetId)}`)
+      setShowMoveModal(false)
+      setSelectedSession(null)
+      reloadSessions()
+      fetchActiveSessions()
+    } else {
+      addToast('error', moveErrorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+  
+  const handleResolveConflict = async (conflict: ClientSyncEvent) => {
+    const success = await resolveSyncConflict(conflict.id, staff?.id)
+    
+    if (success) {
+      setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id))
+    } else {
+      addToast('error', 'Failed to dismiss conflict')
+    }
+  }
+  
+  const openRefundModal = (session: Session) => {
+    setSelectedSession(session)
+    setRefundForm({ amount: getSuggestedRefund(session).toFixed(2), reason: '' })
+    setShowRefundModal(true)
+  }
+  
+  const handleRefund = async () => {
+    if (!selectedSession) return
+    
+    const isGuest = selectedSession.session_type === 'guest'
+    const amount = parseFloat(refundForm.amount)
+    if (!isGuest && (isNaN(amount) || amount <= 0)) {
+      addToast('error', 'Please enter a valid amount')
+      return
+    }
+    if (!refundForm.reason.trim()) {
+      addToast('error', 'Please enter a reason')
+      return
+    }
+    
+    setIsLoading(true)
+    const result = isGuest
+      ? await refundSession(selectedSession.id, refundForm.reason.trim())
+      : await refundSession(selectedSession.id, refundForm.reason.trim(), amount)
+    
+    if (result.success) {
+      const refunded = Math.abs(Number(result.transaction?.amount) || amount)
+      addToast(
+        'success',
+        isGuest
+          ? `Refund of ${formatCurrency(refunded)} recorded. Pay it out from the drawer.`
+          : `Refunded ${formatCurrency(refunded)} to ${getMemberName(selectedSession.member_id)}'s balance`
+      )
+      setShowRefundModal(false)
+      reloadSessions()
+      if (selectedSession.member_id) fetchMembers()
+    } else {
+      addToast('error', refundErrorMessages[result.error || 'failed'])
+    }
+    setIsLoading(false)
+  }
+  
   return (
     <div className="p-6">
       <Header 
@@ -153,7 +378,7 @@ export function SessionsPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-slate-400">Active Sessions</p>
-              <p className="text-2xl font-bold text-white">{activeCount}</p>
+              <p className="text-2xl font-bold text-white">{activeSessions.length}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center">
               <Activity className="w-5 h-5 text-emerald-400" />
@@ -164,8 +389,8 @@ export function SessionsPage() {
         <div className="card p-4">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-slate-400">Total Sessions</p>
-              <p className="text-2xl font-bold text-white">{sessions.length}</p>
+              <p className="text-sm text-slate-400">{hasFilters ? 'Matching Sessions' : 'Total Sessions'}</p>
+              <p className="text-2xl font-bold text-white">{totals.count}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-rynx-500/20 flex items-center justify-center">
               <Timer className="w-5 h-5 text-rynx-400" />
@@ -176,8 +401,8 @@ export function SessionsPage() {
         <div className="card p-4">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-slate-400">Today's Revenue</p>
-              <p className="text-2xl font-bold text-white">{formatCurrency(todayRevenue)}</p>
+              <p className="text-sm text-slate-400">Revenue</p>
+              <p className="text-2xl font-bold text-white">{formatCurrency(totals.revenue)}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-amber-500/20 flex items-center justify-center">
               <DollarSign className="w-5 h-5 text-amber-400" />
@@ -189,7 +414,7 @@ export function SessionsPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-slate-400">Avg. Duration</p>
-              <p className="text-2xl font-bold text-white">{formatDuration(Math.round(avgDuration))}</p>
+              <p className="text-2xl font-bold text-white">{formatDuration(Math.round(totals.averageSeconds))}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-purple-500/20 flex items-center justify-center">
               <Clock className="w-5 h-5 text-purple-400" />
@@ -198,6 +423,50 @@ export function SessionsPage() {
         </div>
       </div>
       
+      {/* Offline Sync Conflicts */}
+      {syncConflicts.length > 0 && (
+        <div className="card p-4 mb-6 border-amber-500/30">
+          <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+            <CloudOff className="w-5 h-5 text-amber-400" />
+            Offline Sync Conflicts
+          </h3>
+          <p className="text-sm text-slate-400 mb-4">
+            Recorded by a PC while it was offline and not applied as sent. Review the session, then dismiss.
+          </p>
+          <div className="space-y-2">
+            {syncConflicts.map((conflict) => (
+              <div key={conflict.id} className="flex items-center justify-between gap-4 p-3 bg-slate-800/50 rounded-xl">
+                <div className="min-w-0">
+                  <p className="text-sm text-white">
+                    {conflict.devices?.name || getDeviceName(conflict.device_id)}
+                    <span className="text-slate-500"> · {syncEventLabels[conflict.event_type]}</span>
+                    {conflict.sessions && (
+                      <span className="text-slate-500"> · {getMemberName(conflict.sessions.member_id)}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-amber-400">
+                    {conflict.conflict_reason ? syncConflictMessages[conflict.conflict_reason] : 'Not applied'}
+                    {Number(conflict.amount_charged) > 0 && ` · charged ${formatCurrency(Number(conflict.amount_charged))}`}
+                  </p>
+                  <p className="text-xs text-slate-500">Recorded {formatDateTime(conflict.recorded_at)}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {conflict.sessions && (
+                    <button onClick={() => openDetailsModal(conflict.sessions!)} className="btn-ghost btn-sm">
+                      View Session
+                    </button>
+                  )}
+                  <button onClick={() => handleResolveConflict(conflict)} className="btn-secondary btn-sm">
+                    <Check className="w-4 h-4" />
+                    <span>Dismiss</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* Active Sessions Panel */}
       {activeSessions.length > 0 && (
         <div className="card p-4 mb-6">
@@ -221,8 +490,8 @@ export function SessionsPage() {
                       <p className="text-sm text-slate-400">{getMemberName(session.member_id)}</p>
                     </div>
                   </div>
-                  <span className="badge badge-success text-xs">
-                    {session.session_type}
+                  <span className={`badge ${session.status === 'paused' ? 'badge-warning' : 'badge-success'} text-xs`}>
+                    {session.status === 'paused' ? 'paused' : session.session_type}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -238,13 +507,31 @@ export function SessionsPage() {
                       </p>
                     </div>
                   )}
-                  <button
-                    onClick={() => openEndSessionModal(session)}
-                    className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
-                    title="End Session"
-                  >
-                    <Square className="w-4 h-4" />
-                  </button>
+                  <div className="flex items-center">
+                    {session.session_type === 'guest' && session.status === 'active' && (
+                      <button
+                        onClick={() => setExtendingSession(session)}
+                        className="p-2 text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
+                        title="Add Time"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handlePauseToggle(session)}
+                      className="p-2 text-amber-400 hover:bg-amber-500/10 rounded-lg transition-colors"
+                      title={session.status === 'paused' ? 'Resume Session' : 'Pause Session'}
+                    >
+                      {session.status === 'paused' ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => openEndSessionModal(session)}
+                      className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                      title="End Session"
+                    >
+                      <Square className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
               </div>
             ))}
@@ -253,24 +540,24 @@ export function SessionsPage() {
       )}
       
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 mb-6">
-        <div className="relative flex-1">
+      <div className="flex flex-col sm:flex-row flex-wrap gap-4 mb-6">
+        <div className="relative flex-1 min-w-[220px]">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
           <input
             type="text"
-            value={searchQuery}
-            onChange={(e) => { setSearchQuery(e.target.value); setPage(1) }}
-            placeholder="Search by device or member..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by member name, username, email or phone..."
             className="input pl-10"
           />
         </div>
         
         <select
-          value={statusFilter}
-          onChange={(e) => { setStatusFilter(e.target.value as 'all' | SessionStatus); setPage(1) }}
+          value={filters.status}
+          onChange={(e) => setFilters({ status: e.target.value })}
           className="select min-w-[140px]"
         >
-          <option value="all">All Status</option>
+          <option value="">All Status</option>
           <option value="active">Active</option>
           <option value="paused">Paused</option>
           <option value="completed">Completed</option>
@@ -278,23 +565,88 @@ export function SessionsPage() {
         </select>
         
         <select
-          value={typeFilter}
-          onChange={(e) => { setTypeFilter(e.target.value as 'all' | 'guest' | 'member'); setPage(1) }}
+          value={filters.type}
+          onChange={(e) => setFilters({ type: e.target.value })}
           className="select min-w-[140px]"
         >
-          <option value="all">All Types</option>
+          <option value="">All Types</option>
           <option value="guest">Guest</option>
           <option value="member">Member</option>
         </select>
         
-        <button className="btn-secondary">
+        {!staff?.branch_id && branches.length > 1 && (
+          <select
+            value={filters.branch}
+            onChange={(e) => setFilters({ branch: e.target.value, device: '' })}
+            className="select min-w-[140px]"
+          >
+            <option value="">All Branches</option>
+            {branches.map(branch => (
+              <option key={branch.id} value={branch.id}>{branch.name}</option>
+            ))}
+          </select>
+        )}
+        
+        <select
+          value={filters.device}
+          onChange={(e) => setFilters({ device: e.target.value })}
+          className="select min-w-[140px]"
+        >
+          <option value="">All PCs</option>
+          {deviceOptions.map(device => (
+            <option key={device.id} value={device.id}>{device.name}</option>
+          ))}
+        </select>
+        
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-slate-400" />
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilters({ from: e.target.value })}
+            className="input"
+          />
+          <span className="text-slate-500">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilters({ to: e.target.value })}
+            className="input"
+          />
+        </div>
+        
+        <button onClick={handleExportCsv} disabled={exportProgress !== null} className="btn-secondary">
           <Download className="w-4 h-4" />
-          <span>Export</span>
+          <span>{exportProgress !== null ? `Exporting ${exportProgress}...` : 'Export CSV'}</span>
         </button>
       </div>
       
+      {filters.member && (
+        <div className="flex items-center gap-2 mb-4">
+          <span className="badge badge-info">
+            Member: {getMemberName(filters.member)}
+          </span>
+          <button
+            onClick={() => setFilters({ member: '' })}
+            className="btn-ghost btn-sm"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        </div>
+      )}
+      
       {/* Sessions Table */}
-      {paginatedSessions.length > 0 ? (
+      {pages.error ? (
+        <EmptyState
+          icon={AlertCircle}
+          title="Couldn't load sessions"
+          description={`Check your connection and try again. (${pages.error})`}
+          action={{ label: 'Try again', onClick: pages.reload }}
+        />
+      ) : pages.rows.length > 0 ? (
         <>
           <div className="card overflow-hidden mb-4">
             <div className="overflow-x-auto">
@@ -312,7 +664,7 @@ export function SessionsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {paginatedSessions.map((session) => {
+                  {pages.rows.map((session) => {
                     const config = statusConfig[session.status]
                     const StatusIcon = config.icon
                     
@@ -328,14 +680,14 @@ export function SessionsPage() {
                               }`} />
                             </div>
                             <span className="font-medium text-white">
-                              {getDeviceName(session.device_id)}
+                              {session.devices?.name || getDeviceName(session.device_id)}
                             </span>
                           </div>
                         </td>
                         <td>
                           <div className="flex items-center gap-2">
                             <User className="w-4 h-4 text-slate-400" />
-                            <span className="text-slate-300">{getMemberName(session.member_id)}</span>
+                            <span className="text-slate-300">{getMemberName(session.member_id, session.members)}</span>
                           </div>
                         </td>
                         <td>
@@ -393,25 +745,25 @@ export function SessionsPage() {
           </div>
           
           {/* Pagination */}
-          {totalPages > 1 && (
+          {(pages.hasPrevious || pages.hasNext) && (
             <div className="flex items-center justify-between">
               <p className="text-sm text-slate-400">
-                Showing {(page - 1) * itemsPerPage + 1} to {Math.min(page * itemsPerPage, filteredSessions.length)} of {filteredSessions.length}
+                Showing {pages.rows.length} of {totals.count}
               </p>
               <div className="flex items-center gap-2">
                 <button
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1}
+                  onClick={pages.previous}
+                  disabled={!pages.hasPrevious || pages.isLoading}
                   className="btn-secondary p-2 disabled:opacity-50"
                 >
                   <ChevronLeft className="w-4 h-4" />
                 </button>
                 <span className="text-sm text-slate-400">
-                  Page {page} of {totalPages}
+                  Page {pages.page}
                 </span>
                 <button
-                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages}
+                  onClick={pages.next}
+                  disabled={!pages.hasNext || pages.isLoading}
                   className="btn-secondary p-2 disabled:opacity-50"
                 >
                   <ChevronRight className="w-4 h-4" />
@@ -424,7 +776,7 @@ export function SessionsPage() {
         <EmptyState
           icon={Timer}
           title="No sessions found"
-          description={searchQuery || statusFilter !== 'all' || typeFilter !== 'all' 
+          description={hasFilters
             ? 'Try adjusting your search or filters' 
             : 'Sessions will appear here once devices start being used'
           }
@@ -439,6 +791,8 @@ export function SessionsPage() {
             <div className={`p-4 rounded-xl ${
               selectedSession.status === 'active' 
                 ? 'bg-emerald-500/10 border border-emerald-500/20'
+                : selectedSession.status === 'paused'
+                ? 'bg-amber-500/10 border border-amber-500/20'
                 : selectedSession.status === 'completed'
                 ? 'bg-blue-500/10 border border-blue-500/20'
                 : 'bg-slate-800/50 border border-slate-700'
@@ -506,6 +860,16 @@ export function SessionsPage() {
             <div className="p-4 bg-gradient-to-br from-amber-500/10 to-yellow-500/10 border border-amber-500/20 rounded-xl">
               <p className="text-sm text-slate-400 mb-1">Total Amount</p>
               <p className="text-3xl font-bold text-amber-400">{formatCurrency(selectedSession.total_amount)}</p>
+              {selectedSession.session_type === 'member' && selectedSession.status === 'active' && selectedSession.rates && (
+                <p className="text-sm text-slate-400 mt-1">
+                  Charge so far: {formatCurrency(calculateCharge(selectedSession.rates, selectedSession.total_seconds_used))} · {selectedSession.rates.name}
+                </p>
+              )}
+              {selectedSession.time_packages && (
+                <p className="text-sm text-slate-400 mt-1">
+                  {selectedSession.time_packages.name} package
+                </p>
+              )}
             </div>
             
             {/* Timestamps */}
@@ -520,16 +884,66 @@ export function SessionsPage() {
                   <p className="text-slate-300">{formatDateTime(selectedSession.ended_at)}</p>
                 </div>
               )}
+              {selectedSession.paused_at && (
+                <div>
+                  <p className="text-slate-500 mb-1">Paused</p>
+                  <p className="text-amber-400">{formatDateTime(selectedSession.paused_at)}</p>
+                </div>
+              )}
+              {selectedSession.total_paused_seconds > 0 && (
+                <div>
+                  <p className="text-slate-500 mb-1">Time on Break</p>
+                  <p className="text-slate-300">{formatDuration(selectedSession.total_paused_seconds)} (not billed)</p>
+                </div>
+              )}
             </div>
             
             {/* Actions */}
+            {(selectedSession.status === 'active' || selectedSession.status === 'paused') && (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handlePauseToggle(selectedSession)}
+                  className="btn-secondary flex-1"
+                >
+                  {selectedSession.status === 'paused' ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  <span>{selectedSession.status === 'paused' ? 'Resume Session' : 'Pause Session'}</span>
+                </button>
+                <button
+                  onClick={() => { setShowDetailsModal(false); openEndSessionModal(selectedSession) }}
+                  className="btn-primary flex-1 bg-red-500 hover:bg-red-600"
+                >
+                  <Square className="w-4 h-4" />
+                  <span>End Session</span>
+                </button>
+              </div>
+            )}
             {selectedSession.status === 'active' && (
+              <div className="flex gap-3">
+                {selectedSession.session_type === 'guest' && (
+                  <button
+                    onClick={() => { setShowDetailsModal(false); setExtendingSession(selectedSession) }}
+                    className="btn-secondary flex-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Time</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => { setShowDetailsModal(false); openMoveModal(selectedSession) }}
+                  className="btn-secondary flex-1"
+                >
+                  <ArrowRightLeft className="w-4 h-4" />
+                  <span>Move to Another PC</span>
+                </button>
+              </div>
+            )}
+            {canRefund && isRefundable(selectedSession) && (
               <button
-                onClick={() => { setShowDetailsModal(false); openEndSessionModal(selectedSession) }}
-                className="btn-primary w-full bg-red-500 hover:bg-red-600"
+                onClick={() => { setShowDetailsModal(false); openRefundModal(selectedSession) }}
+                className="btn-secondary w-full"
               >
-                <Square className="w-4 h-4" />
-                <span>End Session</span>
+                <Undo2 className="w-4 h-4" />
+                <span>Refund</span>
               </button>
             )}
           </div>
@@ -563,6 +977,136 @@ export function SessionsPage() {
           </div>
         )}
       </Modal>
+      
+      {/* Move Session Modal */}
+      <Modal isOpen={showMoveModal} onClose={() => setShowMoveModal(false)} title="Move Session" size="sm">
+        {selectedSession && (
+          <div className="space-y-4">
+            <div className="p-4 bg-slate-800/50 rounded-xl space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-slate-400">From</span>
+                <span className="text-slate-300">{getDeviceName(selectedSession.device_id)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Player</span>
+                <span className="text-slate-300">{getMemberName(selectedSession.member_id)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">
+                  {selectedSession.session_type === 'guest' ? 'Time Remaining' : 'Time Used'}
+                </span>
+                <span className="font-mono text-slate-300">
+                  {formatDuration(
+                    selectedSession.session_type === 'guest'
+                      ? selectedSession.time_remaining_seconds || 0
+                      : selectedSession.total_seconds_used
+                  )}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Amount</span>
+                <span className="text-slate-300">{formatCurrency(selectedSession.total_amount)}</span>
+              </div>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Move To</label>
+              <select
+                value={moveTargetId}
+                onChange={(e) => setMoveTargetId(e.target.value)}
+                className="select"
+              >
+                <option value="">Select a PC</option>
+                {getMoveTargets(selectedSession).map(device => (
+                  <option key={device.id} value={device.id}>
+                    {device.name}{device.status === 'offline' ? ' (offline)' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-2">
+                The current PC is locked and the session continues on the new one with the same time and amount.
+              </p>
+            </div>
+            
+            <div className="flex gap-3">
+              <button onClick={() => setShowMoveModal(false)} className="btn-secondary flex-1">
+                Cancel
+              </button>
+              <button onClick={handleMoveSession} disabled={isLoading || !moveTargetId} className="btn-primary flex-1">
+                {isLoading ? 'Moving...' : 'Move Session'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+      
+      {/* Refund Modal */}
+      <Modal isOpen={showRefundModal} onClose={() => setShowRefundModal(false)} title="Refund Session" size="sm">
+        {selectedSession && (
+          <div className="space-y-4">
+            <div className="p-4 bg-slate-800/50 rounded-xl text-sm">
+              <p className="text-slate-400">
+                {selectedSession.session_type === 'guest'
+                  ? `Guest paid ${formatCurrency(selectedSession.total_amount)} and left ${formatDuration(selectedSession.time_remaining_seconds || 0)} unused. The refund is paid out in cash.`
+                  : `${getMemberName(selectedSession.member_id)} was charged ${formatCurrency(selectedSession.total_amount)}. The refund goes back to their balance.`}
+              </p>
+            </div>
+            
+            {selectedSession.session_type === 'guest' ? (
+              <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-xl">
+                <span className="text-sm text-slate-400">Unused time refund</span>
+                <span className="font-semibold text-white">{formatCurrency(getSuggestedRefund(selectedSession))}</span>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Amount (₱) <span className="text-red-400">*</span>
+                </label>
+                <input
+                  type="number"
+                  value={refundForm.amount}
+                  onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                  placeholder="0.00"
+                  step="0.01"
+                  min="0"
+                  className="input"
+                />
+              </div>
+            )}
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Reason <span className="text-red-400">*</span>
+              </label>
+              <textarea
+                value={refundForm.reason}
+                onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                placeholder="Why is this session being refunded?"
+                rows={3}
+                className="input"
+              />
+            </div>
+            
+            <div className="flex gap-3">
+              <button onClick={() => setShowRefundModal(false)} className="btn-secondary flex-1">
+                Cancel
+              </button>
+              <button onClick={handleRefund} disabled={isLoading} className="btn-primary flex-1">
+                {isLoading ? 'Refunding...' : 'Issue Refund'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+      
+      <ExtendSessionModal
+        session={extendingSession}
+        onClose={() => setExtendingSession(null)}
+        onExtended={() => {
+          fetchActiveSessions()
+          reloadSessions()
+        }}
+      />
     </div>
   )
 }
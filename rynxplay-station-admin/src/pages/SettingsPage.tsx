@@ -15,13 +15,39 @@ import {
   UserPlus,
   MapPin,
   Check,
-  X
+  X,
+  Clock,
+  Package,
+  ArrowLeftRight,
+  SlidersHorizontal,
+  CalendarClock
 } from 'lucide-react'
-import { Header, Modal, EmptyState } from '@/components'
+import { Header, Modal, EmptyState, ExitCodesPanel, ClientConfigModal, ScheduledCommandsPanel } from '@/components'
 import { useAppStore } from '@/stores/appStore'
-import { createBranch, updateBranch, createRate, updateRate } from '@/lib/supabase'
+import {
+  createBranch,
+  updateBranch,
+  createRate,
+  updateRate,
+  createRateSchedule,
+  updateRateSchedule,
+  deleteRateSchedule,
+  createTimePackage,
+  updateTimePackage,
+  deleteTimePackage,
+  inviteStaffUser,
+  updateStaffUser,
+  updateTransferLimits
+} from '@/lib/supabase'
+import { hasPermission, getAssignableRoles, canManageStaffUser } from '@/lib/permissions'
+import { isScheduleActive } from '@shared/billing'
+import { isPackageAvailable, formatPackageLength } from '@/lib/packages'
+import { getTransferLimits } from '@/lib/transfers'
+import { formatOpeningHours } from '@shared/openingHours'
 import { formatCurrency, formatDateTime } from '@/lib/utils'
-import type { Branch, Rate, StaffRole } from '@/types'
+import type { Branch, Rate, RateSchedule, TimePackage, PackageType, StaffUser, StaffRole, BillingMode } from '@/types'
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 
 const roleLabels: Record<StaffRole, string> = {
   owner: 'Owner',
@@ -30,9 +56,24 @@ const roleLabels: Record<StaffRole, string> = {
 }
 
 export function SettingsPage() {
-  const { organization, branches, rates, staff, fetchBranches, fetchRates, addToast } = useAppStore()
+  const {
+    organization,
+    branches,
+    rates,
+    rateSchedules,
+    timePackages,
+    staff,
+    staffUsers,
+    fetchBranches,
+    fetchRates,
+    fetchRateSchedules,
+    fetchTimePackages,
+    fetchStaffUsers,
+    fetchOrganization,
+    addToast
+  } = useAppStore()
   
-  const [activeTab, setActiveTab] = useState<'organization' | 'branches' | 'rates' | 'staff'>('organization')
+  const [activeTab, setActiveTab] = useState<'organization' | 'branches' | 'rates' | 'packages' | 'staff' | 'exit_codes' | 'schedules'>('organization')
   const [isLoading, setIsLoading] = useState(false)
   
   // Modals
@@ -40,15 +81,27 @@ export function SettingsPage() {
   const [showEditBranchModal, setShowEditBranchModal] = useState(false)
   const [showAddRateModal, setShowAddRateModal] = useState(false)
   const [showEditRateModal, setShowEditRateModal] = useState(false)
+  const [showScheduleModal, setShowScheduleModal] = useState(false)
+  const [showPackageModal, setShowPackageModal] = useState(false)
+  const [showStaffModal, setShowStaffModal] = useState(false)
   
   // Selected items
   const [selectedBranch, setSelectedBranch] = useState<Branch | null>(null)
   const [selectedRate, setSelectedRate] = useState<Rate | null>(null)
+  const [selectedSchedule, setSelectedSchedule] = useState<RateSchedule | null>(null)
+  const [selectedPackage, setSelectedPackage] = useState<TimePackage | null>(null)
+  const [selectedStaffUser, setSelectedStaffUser] = useState<StaffUser | null>(null)
+  const [configuringBranch, setConfiguringBranch] = useState<Branch | null>(null)
   
   // Form state
   const [branchForm, setBranchForm] = useState({
     name: '',
-    address: ''
+    address: '',
+    always_open: true,
+    opens_at: '10:00',
+    closes_at: '02:00',
+    open_days: [0, 1, 2, 3, 4, 5, 6],
+    timezone: 'Asia/Manila'
   })
   
   const [rateForm, setRateForm] = useState({
@@ -57,24 +110,115 @@ export function SettingsPage() {
     description: '',
     price_per_unit: '',
     unit_minutes: '60',
+    billing_mode: 'per_unit' as BillingMode,
+    round_up: true,
+    grace_minutes: '0',
+    minimum_charge: '',
+    max_charge: '',
     is_default: false
   })
   
+  const [scheduleForm, setScheduleForm] = useState({
+    branch_id: '',
+    rate_id: '',
+    name: '',
+    days_of_week: [0, 1, 2, 3, 4, 5, 6],
+    start_time: '22:00',
+    end_time: '06:00',
+    priority: '0',
+    is_active: true
+  })
+  
+  const [packageForm, setPackageForm] = useState({
+    branch_id: '',
+    name: '',
+    description: '',
+    package_type: 'duration' as PackageType,
+    price: '',
+    duration_minutes: '180',
+    start_time: '',
+    end_time: '08:00',
+    sort_order: '0',
+    is_active: true
+  })
+  
+  const [staffForm, setStaffForm] = useState({
+    name: '',
+    email: '',
+    role: 'staff' as StaffRole,
+    branch_id: ''
+  })
+  
+  const [transferForm, setTransferForm] = useState({
+    daily_limit: '',
+    daily_count: ''
+  })
+  
+  const canManageRates = hasPermission(staff, 'rates.manage')
+  const canManageSettings = hasPermission(staff, 'settings.manage')
+  const canManageStaff = hasPermission(staff, 'staff.manage')
+  const assignableRoles = getAssignableRoles(staff)
+  
   useEffect(() => {
     fetchBranches()
     fetchRates()
-  }, [fetchBranches, fetchRates])
+    fetchRateSchedules()
+    fetchTimePackages()
+    fetchStaffUsers()
+  }, [fetchBranches, fetchRates, fetchRateSchedules, fetchTimePackages, fetchStaffUsers])
   
   const tabs = [
     { id: 'organization', label: 'Organization', icon: Building },
     { id: 'branches', label: 'Branches', icon: MapPin },
     { id: 'rates', label: 'Rates', icon: DollarSign },
-    { id: 'staff', label: 'Staff', icon: Users }
+    { id: 'packages', label: 'Packages', icon: Package },
+    { id: 'staff', label: 'Staff', icon: Users },
+    { id: 'exit_codes', label: 'Exit Codes', icon: Key },
+    { id: 'schedules', label: 'Schedules', icon: CalendarClock }
   ]
   
+  useEffect(() => {
+    const limits = getTransferLimits(organization)
+    setTransferForm({
+      daily_limit: limits.dailyLimit.toString(),
+      daily_count: limits.dailyCount.toString()
+    })
+  }, [organization])
+  
+  // Organization handlers
+  const handleSaveTransferLimits = async () => {
+    if (!organization) return
+    
+    const dailyLimit = parseFloat(transferForm.daily_limit)
+    const dailyCount = parseInt(transferForm.daily_count)
+    if (isNaN(dailyLimit) || dailyLimit < 0 || isNaN(dailyCount) || dailyCount < 0) {
+      addToast('error', 'Please enter valid transfer limits')
+      return
+    }
+    
+    setIsLoading(true)
+    const updated = await updateTransferLimits(dailyLimit, dailyCount)
+    
+    if (updated) {
+      addToast('success', 'Transfer limits saved')
+      fetchOrganization()
+    } else {
+      addToast('error', 'Failed to save transfer limits')
+    }
+    setIsLoading(false)
+  }
+  
   // Branch handlers
   const resetBranchForm = () => {
-    setBranchForm({ name: '', address: '' })
+    setBranchForm({
+      name: '',
+      address: '',
+      always_open: true,
+      opens_at: '10:00',
+      closes_at: '02:00',
+      open_days: [0, 1, 2, 3, 4, 5, 6],
+      timezone: 'Asia/Manila'
+    })
   }
   
   const handleAddBranch = async () => {
@@ -97,13 +241,29 @@ export function SettingsPage() {
     setIsLoading(false)
   }
   
+  const toggleBranchOpenDay = (day: number) => {
+    const days = branchForm.open_days.includes(day)
+      ? branchForm.open_days.filter(d => d !== day)
+      : [...branchForm.open_days, day].sort()
+    setBranchForm({ ...branchForm, open_days: days })
+  }
+  
   const handleEditBranch = async () => {
     if (!selectedBranch || !branchForm.name) return
     
+    if (!branchForm.always_open && branchForm.open_days.length === 0) {
+      addToast('error', 'Choose at least one day the branch is open')
+      return
+    }
+    
     setIsLoading(true)
     const updated = await updateBranch(selectedBranch.id, {
       name: branchForm.name,
-      address: branchForm.address || null
+      address: branchForm.address || null,
+      opens_at: branchForm.always_open ? null : branchForm.opens_at,
+      closes_at: branchForm.always_open ? null : branchForm.closes_at,
+      open_days: branchForm.open_days,
+      timezone: branchForm.timezone.trim() || 'Asia/Manila'
     })
     
     if (updated) {
@@ -122,7 +282,12 @@ export function SettingsPage() {
     setSelectedBranch(branch)
     setBranchForm({
       name: branch.name,
-      address: branch.address || ''
+      address: branch.address || '',
+      always_open: !branch.opens_at,
+      opens_at: branch.opens_at?.slice(0, 5) || '10:00',
+      closes_at: branch.closes_at?.slice(0, 5) || '02:00',
+      open_days: branch.open_days || [0, 1, 2, 3, 4, 5, 6],
+      timezone: branch.timezone || 'Asia/Manila'
     })
     setShowEditBranchModal(true)
   }
@@ -135,10 +300,23 @@ export function SettingsPage() {
       description: '',
       price_per_unit: '',
       unit_minutes: '60',
+      billing_mode: 'per_unit',
+      round_up: true,
+      grace_minutes: '0',
+      minimum_charge: '',
+      max_charge: '',
       is_default: false
     })
   }
   
+  const getRateBillingFields = () => ({
+    billing_mode: rateForm.billing_mode,
+    round_up: rateForm.round_up,
+    grace_seconds: Math.round((parseFloat(rateForm.grace_minutes) || 0) * 60),
+    minimum_charge: parseFloat(rateForm.minimum_charge) || 0,
+    max_charge: rateForm.max_charge ? parseFloat(rateForm.max_charge) : null
+  })
+  
   const handleAddRate = async () => {
     if (!rateForm.name || !rateForm.price_per_unit || !rateForm.branch_id) {
       addToast({ type: 'error', message: 'Please fill in all required fields' })
@@ -146,11 +324,13 @@ export function SettingsPage() {
     }
     
     setIsLoading(true)
-    const rate = await createRate(rateForm.branch_id, {
+    const rate = await createRate({
+      branch_id: rateForm.branch_id,
       name: rateForm.name,
       description: rateForm.description || null,
       price_per_unit: parseFloat(rateForm.price_per_unit),
       unit_minutes: parseInt(rateForm.unit_minutes),
+      ...getRateBillingFields(),
       is_default: rateForm.is_default
     })
     
@@ -174,6 +354,7 @@ export function SettingsPage() {
       description: rateForm.description || null,
       price_per_unit: parseFloat(rateForm.price_per_unit),
       unit_minutes: parseInt(rateForm.unit_minutes),
+      ...getRateBillingFields(),
       is_default: rateForm.is_default
     })
     
@@ -197,6 +378,11 @@ export function SettingsPage() {
       description: rate.description || '',
       price_per_unit: String(rate.price_per_unit),
       unit_minutes: String(rate.unit_minutes),
+      billing_mode: rate.billing_mode || 'per_unit',
+      round_up: rate.round_up ?? true,
+      grace_minutes: String((rate.grace_seconds || 0) / 60),
+      minimum_charge: rate.minimum_charge ? String(rate.minimum_charge) : '',
+      max_charge: rate.max_charge != null ? String(rate.max_charge) : '',
       is_default: rate.is_default
     })
     setShowEditRateModal(true)
@@ -207,6 +393,338 @@ export function SettingsPage() {
     setShowAddRateModal(true)
   }
   
+  // Rate schedule handlers
+  const openAddScheduleModal = () => {
+    const branchId = branches[0]?.id || ''
+    setSelectedSchedule(null)
+    setScheduleForm({
+      branch_id: branchId,
+      rate_id: rates.find(r => r.branch_id === branchId)?.id || '',
+      name: '',
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      start_time: '22:00',
+      end_time: '06:00',
+      priority: '0',
+      is_active: true
+    })
+    setShowScheduleModal(true)
+  }
+  
+  const openEditScheduleModal = (schedule: RateSchedule) => {
+    setSelectedSchedule(schedule)
+    setScheduleForm({
+      branch_id: schedule.branch_id,
+      rate_id: schedule.rate_id,
+      name: schedule.name,
+      days_of_week: schedule.days_of_week,
+      start_time: schedule.start_time.slice(0, 5),
+      end_time: schedule.end_time.slice(0, 5),
+      priority: String(schedule.priority),
+      is_active: schedule.is_active
+    })
+    setShowScheduleModal(true)
+  }
+  
+  const toggleScheduleDay = (day: number) => {
+    const days = scheduleForm.days_of_week.includes(day)
+      ? scheduleForm.days_of_week.filter(d => d !== day)
+      : [...scheduleForm.days_of_week, day].sort()
+    setScheduleForm({ ...scheduleForm, days_of_week: days })
+  }
+  
+  const handleSaveSchedule = async () => {
+    if (!scheduleForm.name || !scheduleForm.branch_id || !scheduleForm.rate_id || scheduleForm.days_of_week.length === 0) {
+      addToast('error', 'Please fill in all required fields')
+      return
+    }
+    
+    const fields = {
+      branch_id: scheduleForm.branch_id,
+      rate_id: scheduleForm.rate_id,
+      name: scheduleForm.name,
+      days_of_week: scheduleForm.days_of_week,
+      start_time: scheduleForm.start_time,
+      end_time: scheduleForm.end_time,
+      priority: parseInt(scheduleForm.priority) || 0,
+      is_active: scheduleForm.is_active
+    }
+    
+    setIsLoading(true)
+    const success = selectedSchedule
+      ? await updateRateSchedule(selectedSchedule.id, fields)
+      : !!(await createRateSchedule(fields))
+    
+    if (success) {
+      addToast('success', selectedSchedule ? 'Schedule updated successfully' : `Schedule "${scheduleForm.name}" created successfully`)
+      setShowScheduleModal(false)
+      setSelectedSchedule(null)
+      fetchRateSchedules()
+    } else {
+      addToast('error', 'Failed to save schedule')
+    }
+    setIsLoading(false)
+  }
+  
+  const handleDeleteSchedule = async (schedule: RateSchedule) => {
+    const success = await deleteRateSchedule(schedule.id)
+    
+    if (success) {
+      addToast('success', `Schedule "${schedule.name}" deleted`)
+      fetchRateSchedules()
+    } else {
+      addToast('error', 'Failed to delete schedule')
+    }
+  }
+  
+  // Time package handlers
+  const openAddPackageModal = () => {
+    setSelectedPackage(null)
+    setPackageForm({
+      branch_id: branches[0]?.id || '',
+      name: '',
+      description: '',
+      package_type: 'duration',
+      price: '',
+      duration_minutes: '180',
+      start_time: '',
+      end_time: '08:00',
+      sort_order: '0',
+      is_active: true
+    })
+    setShowPackageModal(true)
+  }
+  
+  const openEditPackageModal = (pkg: TimePackage) => {
+    setSelectedPackage(pkg)
+    setPackageForm({
+      branch_id: pkg.branch_id,
+      name: pkg.name,
+      description: pkg.description || '',
+      package_type: pkg.package_type,
+      price: String(pkg.price),
+      duration_minutes: String(pkg.duration_minutes || ''),
+      start_time: pkg.start_time?.slice(0, 5) || '',
+      end_time: pkg.end_time?.slice(0, 5) || '',
+      sort_order: String(pkg.sort_order),
+      is_active: pkg.is_active
+    })
+    setShowPackageModal(true)
+  }
+  
+  const handleSavePackage = async () => {
+    const isDuration = packageForm.package_type === 'duration'
+    
+    if (
+      !packageForm.name ||
+      !packageForm.branch_id ||
+      !packageForm.price ||
+      (isDuration && !(parseInt(packageForm.duration_minutes) > 0)) ||
+      (!isDuration && !packageForm.end_time)
+    ) {
+      addToast('error', 'Please fill in all required fields')
+      return
+    }
+    
+    const fields = {
+      branch_id: packageForm.branch_id,
+      name: packageForm.name,
+      description: packageForm.description || null,
+      package_type: packageForm.package_type,
+      price: parseFloat(packageForm.price),
+      duration_minutes: isDuration ? parseInt(packageForm.duration_minutes) : null,
+      start_time: !isDuration && packageForm.start_time ? packageForm.start_time : null,
+      end_time: isDuration ? null : packageForm.end_time,
+      sort_order: parseInt(packageForm.sort_order) || 0,
+      is_active: packageForm.is_active
+    }
+    
+    setIsLoading(true)
+    const success = selectedPackage
+      ? await updateTimePackage(selectedPackage.id, fields)
+      : !!(await createTimePackage(fields))
+    
+    if (success) {
+      addToast('success', selectedPackage ? 'Package updated successfully' : `Package "${packageForm.name}" created successfully`)
+      setShowPackageModal(false)
+      setSelectedPackage(null)
+      fetchTimePackages()
+    } else {
+      addToast('error', 'Failed to save package')
+    }
+    setIsLoading(false)
+  }
+  
+  const handleDeletePackage = async (pkg: TimePackage) => {
+    const success = await deleteTimePackage(pkg.id)
+    
+    if (success) {
+      addToast('success', `Package "${pkg.name}" deleted`)
+      fetchTimePackages()
+    } else {
+      addToast('error', 'Failed to delete package')
+    }
+  }
+  
+  // Staff handlers
+  const openInviteStaffModal = () => {
+    setSelectedStaffUser(null)
+    setStaffForm({ name: '', email: '', role: 'staff', branch_id: staff?.branch_id || '' })
+    setShowStaffModal(true)
+  }
+  
+  const openEditStaffModal = (staffUser: StaffUser) => {
+    setSelectedStaffUser(staffUser)
+    setStaffForm({
+      name: staffUser.name,
+      email: staffUser.email || '',
+      role: staffUser.role,
+      branch_id: staffUser.branch_id || ''
+    })
+    setShowStaffModal(true)
+  }
+  
+  const handleSaveStaff = async () => {
+    if (!staffForm.name || (!selectedStaffUser && !staffForm.email)) {
+      addToast('error', 'Please fill in all required fields')
+      return
+    }
+    
+    setIsLoading(true)
+    
+    if (selectedStaffUser) {
+      const success = await updateStaffUser(selectedStaffUser.id, {
+        name: staffForm.name,
+        role: staffForm.role,
+        branch_id: staffForm.branch_id || null
+      })
+      
+      if (success) {
+        addToast('success', `${staffForm.name} updated successfully`)
+        setShowStaffModal(false)
+        setSelectedStaffUser(null)
+        fetchStaffUsers()
+      } else {
+        addToast('error', 'Failed to update staff member')
+      }
+    } else {
+      const result = await inviteStaffUser({
+        email: staffForm.email.trim(),
+        name: staffForm.name,
+        role: staffForm.role,
+        branchId: staffForm.branch_id || null
+      })
+      
+      if (result.success) {
+        addToast('success', `Invite created for ${staffForm.email}. They can now sign up with this email.`)
+        setShowStaffModal(false)
+        fetchStaffUsers()
+      } else if (result.error === 'already_invited') {
+        addToast('error', 'This email already belongs to a staff member')
+      } else if (result.error === 'not_allowed') {
+        addToast('error', 'You are not allowed to invite this role')
+      } else {
+        addToast('error', 'Failed to invite staff member')
+      }
+    }
+    
+    setIsLoading(false)
+  }
+  
+  const handleToggleStaffActive = async (staffUser: StaffUser) => {
+    const success = await updateStaffUser(staffUser.id, { is_active: !staffUser.is_active })
+    
+    if (success) {
+      addToast('success', `${staffUser.name} ${staffUser.is_active ? 'deactivated' : 'reactivated'}`)
+      fetchStaffUsers()
+    } else {
+      addToast('error', 'Failed to update staff member')
+    }
+  }
+  
+  const formatScheduleDays = (days: number[]) => {
+    if (days.length === 7) return 'Every day'
+    if (days.length === 2 && days.includes(0) && days.includes(6)) return 'Weekends'
+    if (days.length === 5 && !days.includes(0) && !days.includes(6)) return 'Weekdays'
+    return days.map(d => weekdayLabels[d]).join(', ')
+  }
+  
+  // Rates currently swapped in by an active schedule, in each branch's own time
+  const now = new Date()
+  const getBranchTimezone = (branchId: string) => branches.find(b => b.id === branchId)?.timezone ?? 'UTC'
+  const scheduledRateIds = new Set(
+    rateSchedules
+      .filter(schedule => isScheduleActive(schedule, now, getBranchTimezone(schedule.branch_id)))
+      .map(schedule => schedule.rate_id)
+  )
+  
+  const rateBillingFields = (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Billing</label>
+          <select
+            value={rateForm.billing_mode}
+            onChange={(e) => setRateForm({ ...rateForm, billing_mode: e.target.value as BillingMode })}
+            className="select"
+          >
+            <option value="per_unit">Per block</option>
+            <option value="per_minute">Per minute (prorated)</option>
+          </select>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Grace period (minutes)</label>
+          <input
+            type="number"
+            value={rateForm.grace_minutes}
+            onChange={(e) => setRateForm({ ...rateForm, grace_minutes: e.target.value })}
+            min="0"
+            step="1"
+            className="input"
+          />
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Minimum charge (PHP)</label>
+          <input
+            type="number"
+            value={rateForm.minimum_charge}
+            onChange={(e) => setRateForm({ ...rateForm, minimum_charge: e.target.value })}
+            placeholder="None"
+            min="0"
+            step="0.01"
+            className="input"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Session cap (PHP)</label>
+          <input
+            type="number"
+            value={rateForm.max_charge}
+            onChange={(e) => setRateForm({ ...rateForm, max_charge: e.target.value })}
+            placeholder="No cap"
+            min="0"
+            step="0.01"
+            className="input"
+          />
+        </div>
+      </div>
+      
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={rateForm.round_up}
+          onChange={(e) => setRateForm({ ...rateForm, round_up: e.target.checked })}
+          className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+        />
+        <span className="text-slate-300">Round up to the next {rateForm.billing_mode === 'per_minute' ? 'minute' : 'block'}</span>
+      </label>
+    </>
+  )
+  
   return (
     <div className="p-6">
       <Header 
@@ -277,6 +795,55 @@ export function SettingsPage() {
           ) : (
             <p className="text-slate-400">No organization data available</p>
           )}
+          
+          {organization && (
+            <div className="mt-8 pt-6 border-t border-slate-800">
+              <div className="flex items-center gap-2 mb-1">
+                <ArrowLeftRight className="w-5 h-5 text-rynx-400" />
+                <h3 className="text-lg font-semibold text-white">Credit Transfers</h3>
+              </div>
+              <p className="text-sm text-slate-400 mb-4">
+                Limits on what each member can send to other members per day, from the counter or their PC.
+              </p>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Daily Amount Limit (₱)</label>
+                  <input
+                    type="number"
+                    value={transferForm.daily_limit}
+                    onChange={(e) => setTransferForm({ ...transferForm, daily_limit: e.target.value })}
+                    min="0"
+                    step="0.01"
+                    className="input"
+                    disabled={!canManageSettings}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Transfers Per Day</label>
+                  <input
+                    type="number"
+                    value={transferForm.daily_count}
+                    onChange={(e) => setTransferForm({ ...transferForm, daily_count: e.target.value })}
+                    min="0"
+                    step="1"
+                    className="input"
+                    disabled={!canManageSettings}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">Set either to 0 to turn member transfers off.</p>
+              
+              {canManageSettings && (
+                <div className="flex justify-end mt-4">
+                  <button onClick={handleSaveTransferLimits} disabled={isLoading} className="btn-primary">
+                    <Save className="w-4 h-4" />
+                    <span>{isLoading ? 'Saving...' : 'Save Limits'}</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
       
@@ -310,18 +877,35 @@ export function SettingsPage() {
                         </span>
                       </div>
                     </div>
-                    <button
-                      onClick={() => openEditBranchModal(branch)}
-                      className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
+                    <div className="flex items-center gap-1">
+                      {canManageSettings && (
+                        <button
+                          onClick={() => setConfiguringBranch(branch)}
+                          title="Client configuration"
+                          className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                        >
+                          <SlidersHorizontal className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openEditBranchModal(branch)}
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
                   
                   {branch.address && (
                     <p className="text-sm text-slate-400 mb-3">{branch.address}</p>
                   )}
                   
+                  <p className="flex items-center gap-2 text-sm text-slate-400 mb-3">
+                    <Clock className="w-4 h-4" />
+                    {formatOpeningHours(branch)}
+                    {branch.opens_at && branch.open_days.length < 7 && ` • ${formatScheduleDays(branch.open_days)}`}
+                  </p>
+                  
                   <div className="text-xs text-slate-500">
                     Created {formatDateTime(branch.created_at)}
                   </div>
@@ -349,14 +933,16 @@ export function SettingsPage() {
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-white">Pricing Rates</h3>
-            <button
-              onClick={openAddRateModal}
-              className="btn-primary"
-              disabled={branches.length === 0}
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Rate</span>
-            </button>
+            {canManageRates && (
+              <button
+                onClick={openAddRateModal}
+                className="btn-primary"
+                disabled={branches.length === 0}
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Rate</span>
+              </button>
+            )}
           </div>
           
           {branches.length === 0 ? (
@@ -372,6 +958,7 @@ export function SettingsPage() {
                     <th>Branch</th>
                     <th>Price</th>
                     <th>Duration</th>
+                    <th>Billing</th>
                     <th>Status</th>
                     <th className="text-right">Actions</th>
                   </tr>
@@ -400,6 +987,20 @@ export function SettingsPage() {
                         <td>
                           <span className="text-slate-300">{rate.unit_minutes} min</span>
                         </td>
+                        <td>
+                          <div>
+                            <p className="text-slate-300">
+                              {rate.billing_mode === 'per_minute' ? 'Per minute' : 'Per block'}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {[
+                                rate.grace_seconds > 0 && `${Math.round(rate.grace_seconds / 60)} min grace`,
+                                rate.minimum_charge > 0 && `min ${formatCurrency(rate.minimum_charge)}`,
+                                rate.max_charge != null && `cap ${formatCurrency(rate.max_charge)}`
+                              ].filter(Boolean).join(' · ') || (rate.round_up === false ? 'Rounds down' : 'Rounds up')}
+                            </p>
+                          </div>
+                        </td>
                         <td>
                           <div className="flex items-center gap-2">
                             <span className={`badge ${rate.is_active ? 'badge-success' : 'badge-default'}`}>
@@ -408,17 +1009,22 @@ export function SettingsPage() {
                             {rate.is_default && (
                               <span className="badge badge-info">Default</span>
                             )}
+                            {scheduledRateIds.has(rate.id) && (
+                              <span className="badge badge-warning">Scheduled now</span>
+                            )}
                           </div>
                         </td>
                         <td>
-                          <div className="flex items-center justify-end">
-                            <button
-                              onClick={() => openEditRateModal(rate)}
-                              className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
-                            >
-                              <Edit2 className="w-4 h-4" />
-                            </button>
-                          </div>
+                          {canManageRates && (
+                            <div className="flex items-center justify-end">
+                              <button
+                                onClick={() => openEditRateModal(rate)}
+                                className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                         </td>
                       </tr>
                     )
@@ -431,12 +1037,214 @@ export function SettingsPage() {
               icon={DollarSign}
               title="No rates configured"
               description="Create pricing rates for your branches"
-              action={
-                <button onClick={openAddRateModal} className="btn-primary">
-                  <Plus className="w-4 h-4" />
-                  <span>Add Rate</span>
-                </button>
-              }
+              action={canManageRates ? { label: 'Add Rate', onClick: openAddRateModal } : undefined}
+            />
+          )}          
+          {/* Rate Schedules */}
+          {branches.length > 0 && rates.length > 0 && (
+            <>
+              <div className="flex items-center justify-between pt-2">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">Rate Schedules</h3>
+                  <p className="text-sm text-slate-400">Switch rates automatically by time of day and weekday</p>
+                </div>
+                {canManageRates && (
+                  <button onClick={openAddScheduleModal} className="btn-secondary">
+                    <Plus className="w-4 h-4" />
+                    <span>Add Schedule</span>
+                  </button>
+                )}
+              </div>
+              
+              {rateSchedules.length > 0 ? (
+                <div className="card overflow-hidden">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Name</th>
+                        <th>Branch</th>
+                        <th>Rate</th>
+                        <th>Window</th>
+                        <th>Priority</th>
+                        <th>Status</th>
+                        <th className="text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rateSchedules.map((schedule) => {
+                        const branch = branches.find(b => b.id === schedule.branch_id)
+                        const rate = schedule.rates || rates.find(r => r.id === schedule.rate_id)
+                        return (
+                          <tr key={schedule.id} className="hover:bg-slate-800/50">
+                            <td>
+                              <p className="font-medium text-white">{schedule.name}</p>
+                            </td>
+                            <td>
+                              <span className="text-slate-300">{branch?.name || '-'}</span>
+                            </td>
+                            <td>
+                              <p className="text-slate-300">{rate?.name || '-'}</p>
+                              {rate && (
+                                <p className="text-xs text-slate-500">
+                                  {formatCurrency(rate.price_per_unit)} / {rate.unit_minutes} min
+                                </p>
+                              )}
+                            </td>
+                            <td>
+                              <p className="text-slate-300">
+                                {schedule.start_time.slice(0, 5)} - {schedule.end_time.slice(0, 5)}
+                              </p>
+                              <p className="text-xs text-slate-500">{formatScheduleDays(schedule.days_of_week)}</p>
+                            </td>
+                            <td>
+                              <span className="text-slate-300">{schedule.priority}</span>
+                            </td>
+                            <td>
+                              {!schedule.is_active ? (
+                                <span className="badge badge-default">Inactive</span>
+                              ) : isScheduleActive(schedule, now, getBranchTimezone(schedule.branch_id)) ? (
+                                <span className="badge badge-warning">Active now</span>
+                              ) : (
+                                <span className="badge badge-success">Enabled</span>
+                              )}
+                            </td>
+                            <td>
+                              {canManageRates && (
+                                <div className="flex items-center justify-end gap-1">
+                                  <button
+                                    onClick={() => openEditScheduleModal(schedule)}
+                                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                                  >
+                                    <Edit2 className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteSchedule(schedule)}
+                                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="card p-6 text-center">
+                  <Clock className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+                  <p className="text-slate-400">No schedules yet. Devices always use their own rate.</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      
+      {/* Packages Tab */}
+      {activeTab === 'packages' && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Time Packages</h3>
+              <p className="text-sm text-slate-400">Prepaid bundles guests can buy at the kiosk instead of pay-as-you-go</p>
+            </div>
+            {canManageRates && (
+              <button
+                onClick={openAddPackageModal}
+                disabled={branches.length === 0}
+                className="btn-primary"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Package</span>
+              </button>
+            )}
+          </div>
+          
+          {timePackages.length > 0 ? (
+            <div className="card overflow-hidden">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Branch</th>
+                    <th>Price</th>
+                    <th>Play Time</th>
+                    <th>On Sale</th>
+                    <th>Status</th>
+                    <th className="text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timePackages.map((pkg) => {
+                    const branch = branches.find(b => b.id === pkg.branch_id)
+                    return (
+                      <tr key={pkg.id} className="hover:bg-slate-800/50">
+                        <td>
+                          <p className="font-medium text-white">{pkg.name}</p>
+                          {pkg.description && (
+                            <p className="text-xs text-slate-500">{pkg.description}</p>
+                          )}
+                        </td>
+                        <td>
+                          <span className="text-slate-300">{branch?.name || '-'}</span>
+                        </td>
+                        <td>
+                          <span className="text-rynx-400 font-medium">{formatCurrency(pkg.price)}</span>
+                        </td>
+                        <td>
+                          <span className="text-slate-300">{formatPackageLength(pkg)}</span>
+                        </td>
+                        <td>
+                          <span className="text-slate-300">
+                            {pkg.package_type === 'until_time' && pkg.start_time && pkg.end_time
+                              ? `${pkg.start_time.slice(0, 5)} - ${pkg.end_time.slice(0, 5)}`
+                              : 'Anytime'}
+                          </span>
+                        </td>
+                        <td>
+                          {!pkg.is_active ? (
+                            <span className="badge badge-default">Inactive</span>
+                          ) : isPackageAvailable(pkg, now) ? (
+                            <span className="badge badge-success">On sale</span>
+                          ) : (
+                            <span className="badge badge-warning">Off hours</span>
+                          )}
+                        </td>
+                        <td>
+                          {canManageRates && (
+                            <div className="flex items-center justify-end gap-1">
+                              <button
+                                onClick={() => openEditPackageModal(pkg)}
+                                className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDeletePackage(pkg)}
+                                className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <EmptyState
+              icon={Package}
+              title="No packages yet"
+              description={branches.length > 0
+                ? 'Create packages like "3 hours for ₱50" or an overnight pass'
+                : 'Create a branch first, then add packages to it'}
+              action={branches.length > 0 && canManageRates ? { label: 'Add Package', onClick: openAddPackageModal } : undefined}
             />
           )}
         </div>
@@ -446,23 +1254,114 @@ export function SettingsPage() {
       {activeTab === 'staff' && (
         <div className="space-y-6">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-semibold text-white">Staff Members</h3>
-            <button className="btn-primary">
-              <UserPlus className="w-4 h-4" />
-              <span>Invite Staff</span>
-            </button>
+            <div>
+              <h3 className="text-lg font-semibold text-white">Staff Members</h3>
+              <p className="text-sm text-slate-400">Invite staff, set their role and limit them to a branch</p>
+            </div>
+            {canManageStaff && (
+              <button onClick={openInviteStaffModal} className="btn-primary">
+                <UserPlus className="w-4 h-4" />
+                <span>Invite Staff</span>
+              </button>
+            )}
           </div>
           
-          <div className="card p-6 text-center">
-            <Users className="w-12 h-12 text-slate-600 mx-auto mb-3" />
-            <h4 className="text-lg font-medium text-white mb-2">Staff Management</h4>
-            <p className="text-slate-400 mb-4">
-              Staff management feature coming soon. You'll be able to invite and manage staff members here.
-            </p>
-          </div>
+          {staffUsers.length > 0 ? (
+            <div className="card overflow-hidden">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Role</th>
+                    <th>Branch</th>
+                    <th>Status</th>
+                    <th className="text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {staffUsers.map((staffUser) => (
+                    <tr key={staffUser.id} className="hover:bg-slate-800/50">
+                      <td>
+                        <p className="font-medium text-white">
+                          {staffUser.name}
+                          {staffUser.id === staff?.id && (
+                            <span className="text-xs text-slate-500 ml-2">(you)</span>
+                          )}
+                        </p>
+                        {staffUser.email && (
+                          <p className="text-xs text-slate-500 flex items-center gap-1">
+                            <Mail className="w-3 h-3" />
+                            {staffUser.email}
+                          </p>
+                        )}
+                      </td>
+                      <td>
+                        <span className="flex items-center gap-2 text-slate-300">
+                          <Shield className="w-4 h-4 text-slate-500" />
+                          {roleLabels[staffUser.role]}
+                        </span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">
+                          {staffUser.branches?.name || branches.find(b => b.id === staffUser.branch_id)?.name || 'All branches'}
+                        </span>
+                      </td>
+                      <td>
+                        {!staffUser.is_active ? (
+                          <span className="badge badge-default">Inactive</span>
+                        ) : !staffUser.auth_user_id ? (
+                          <span className="badge badge-warning">Invited</span>
+                        ) : (
+                          <span className="badge badge-success">Active</span>
+                        )}
+                      </td>
+                      <td>
+                        {canManageStaffUser(staff, staffUser) && (
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              onClick={() => openEditStaffModal(staffUser)}
+                              className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleToggleStaffActive(staffUser)}
+                              title={staffUser.is_active ? 'Deactivate' : 'Reactivate'}
+                              className={`p-2 rounded-lg transition-colors hover:bg-slate-700 ${
+                                staffUser.is_active
+                                  ? 'text-slate-400 hover:text-red-400'
+                                  : 'text-slate-400 hover:text-emerald-400'
+                              }`}
+                            >
+                              {staffUser.is_active ? <X className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <EmptyState
+              icon={Users}
+              title="No staff members"
+              description="Invite staff to help run your branches"
+              action={canManageStaff ? { label: 'Invite Staff', onClick: openInviteStaffModal } : undefined}
+            />
+          )}
         </div>
       )}
       
+      {/* Exit Codes Tab */}
+      {activeTab === 'exit_codes' && <ExitCodesPanel />}
+      
+      {/* Schedules Tab */}
+      {activeTab === 'schedules' && <ScheduledCommandsPanel />}
+      
+      <ClientConfigModal branch={configuringBranch} onClose={() => setConfiguringBranch(null)} />
+      
       {/* Add Branch Modal */}
       <Modal isOpen={showAddBranchModal} onClose={() => setShowAddBranchModal(false)} title="Add Branch" size="md">
         <div className="space-y-4">
@@ -525,6 +1424,78 @@ export function SettingsPage() {
               className="input resize-none"
             />
           </div>
+          
+          <div>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={branchForm.always_open}
+                onChange={(e) => setBranchForm({ ...branchForm, always_open: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+              />
+              <span className="text-slate-300">Open 24 hours</span>
+            </label>
+          </div>
+          
+          {!branchForm.always_open && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Opens</label>
+                  <input
+                    type="time"
+                    value={branchForm.opens_at}
+                    onChange={(e) => setBranchForm({ ...branchForm, opens_at: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">Closes</label>
+                  <input
+                    type="time"
+                    value={branchForm.closes_at}
+                    onChange={(e) => setBranchForm({ ...branchForm, closes_at: e.target.value })}
+                    className="input"
+                  />
+                </div>
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">Open On</label>
+                <div className="flex flex-wrap gap-2">
+                  {weekdayLabels.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleBranchOpenDay(day)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        branchForm.open_days.includes(day)
+                          ? 'bg-rynx-500 text-white'
+                          : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  Closing at or before opening time means the branch closes after midnight. No new guest sessions start while closed.
+                </p>
+              </div>
+            </>
+          )}
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Timezone</label>
+            <input
+              type="text"
+              value={branchForm.timezone}
+              onChange={(e) => setBranchForm({ ...branchForm, timezone: e.target.value })}
+              placeholder="Asia/Manila"
+              className="input"
+            />
+            <p className="text-xs text-slate-500 mt-1">Used to run scheduled commands on time</p>
+          </div>
         </div>
         
         <div className="flex justify-end gap-3 mt-6">
@@ -613,6 +1584,8 @@ export function SettingsPage() {
             </div>
           </div>
           
+          {rateBillingFields}
+          
           <label className="flex items-center gap-3 cursor-pointer">
             <input
               type="checkbox"
@@ -691,6 +1664,8 @@ export function SettingsPage() {
             </div>
           </div>
           
+          {rateBillingFields}
+          
           <label className="flex items-center gap-3 cursor-pointer">
             <input
               type="checkbox"
@@ -711,6 +1686,379 @@ export function SettingsPage() {
           </button>
         </div>
       </Modal>
+      
+      {/* Rate Schedule Modal */}
+      <Modal
+        isOpen={showScheduleModal}
+        onClose={() => setShowScheduleModal(false)}
+        title={selectedSchedule ? 'Edit Schedule' : 'Add Schedule'}
+        size="md"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Schedule Name <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={scheduleForm.name}
+              onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+              placeholder="e.g., Night Pass, Weekend Promo"
+              className="input"
+            />
+          </div>
+          
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Branch <span className="text-red-400">*</span>
+              </label>
+              <select
+                value={scheduleForm.branch_id}
+                onChange={(e) => setScheduleForm({
+                  ...scheduleForm,
+                  branch_id: e.target.value,
+                  rate_id: rates.find(r => r.branch_id === e.target.value)?.id || ''
+                })}
+                className="select"
+              >
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Rate <span className="text-red-400">*</span>
+              </label>
+              <select
+                value={scheduleForm.rate_id}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, rate_id: e.target.value })}
+                className="select"
+              >
+                <option value="">Select a rate</option>
+                {rates.filter(r => r.branch_id === scheduleForm.branch_id).map(rate => (
+                  <option key={rate.id} value={rate.id}>
+                    {rate.name} ({formatCurrency(rate.price_per_unit)} / {rate.unit_minutes} min)
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Days <span className="text-red-400">*</span>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {weekdayLabels.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleScheduleDay(day)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    scheduleForm.days_of_week.includes(day)
+                      ? 'bg-rynx-500 text-white'
+                      : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Starts</label>
+              <input
+                type="time"
+                value={scheduleForm.start_time}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, start_time: e.target.value })}
+                className="input"
+              />
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Ends</label>
+              <input
+                type="time"
+                value={scheduleForm.end_time}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, end_time: e.target.value })}
+                className="input"
+              />
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Priority</label>
+              <input
+                type="number"
+                value={scheduleForm.priority}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, priority: e.target.value })}
+                step="1"
+                className="input"
+              />
+            </div>
+          </div>
+          
+          <p className="text-xs text-slate-500">
+            An end time before the start time runs past midnight. When windows overlap the highest priority wins.
+          </p>
+          
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={scheduleForm.is_active}
+              onChange={(e) => setScheduleForm({ ...scheduleForm, is_active: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+            />
+            <span className="text-slate-300">Schedule is active</span>
+          </label>
+        </div>
+        
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowScheduleModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSaveSchedule} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Saving...' : selectedSchedule ? 'Save Changes' : 'Create Schedule'}
+          </button>
+        </div>
+      </Modal>
+      
+      {/* Time Package Modal */}
+      <Modal
+        isOpen={showPackageModal}
+        onClose={() => setShowPackageModal(false)}
+        title={selectedPackage ? 'Edit Package' : 'Add Package'}
+        size="md"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Package Name <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={packageForm.name}
+              onChange={(e) => setPackageForm({ ...packageForm, name: e.target.value })}
+              placeholder="e.g., 3 Hours, Overnight"
+              className="input"
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Description</label>
+            <input
+              type="text"
+              value={packageForm.description}
+              onChange={(e) => setPackageForm({ ...packageForm, description: e.target.value })}
+              placeholder="Shown to guests at the kiosk"
+              className="input"
+            />
+          </div>
+          
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Branch <span className="text-red-400">*</span>
+              </label>
+              <select
+                value={packageForm.branch_id}
+                onChange={(e) => setPackageForm({ ...packageForm, branch_id: e.target.value })}
+                className="select"
+              >
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Price (₱) <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                value={packageForm.price}
+                onChange={(e) => setPackageForm({ ...packageForm, price: e.target.value })}
+                placeholder="50.00"
+                step="0.01"
+                min="0"
+                className="input"
+              />
+            </div>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Package Type</label>
+            <select
+              value={packageForm.package_type}
+              onChange={(e) => setPackageForm({ ...packageForm, package_type: e.target.value as PackageType })}
+              className="select"
+            >
+              <option value="duration">Fixed duration</option>
+              <option value="until_time">Until a time of day</option>
+            </select>
+          </div>
+          
+          {packageForm.package_type === 'duration' ? (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Minutes <span className="text-red-400">*</span>
+              </label>
+              <input
+                type="number"
+                value={packageForm.duration_minutes}
+                onChange={(e) => setPackageForm({ ...packageForm, duration_minutes: e.target.value })}
+                placeholder="180"
+                min="1"
+                className="input"
+              />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">On Sale From</label>
+                  <input
+                    type="time"
+                    value={packageForm.start_time}
+                    onChange={(e) => setPackageForm({ ...packageForm, start_time: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    Ends At <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="time"
+                    value={packageForm.end_time}
+                    onChange={(e) => setPackageForm({ ...packageForm, end_time: e.target.value })}
+                    className="input"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                Sessions run until the next time the clock reaches the end time. Leave "On Sale From" empty to sell the package at any hour.
+              </p>
+            </>
+          )}
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Sort Order</label>
+            <input
+              type="number"
+              value={packageForm.sort_order}
+              onChange={(e) => setPackageForm({ ...packageForm, sort_order: e.target.value })}
+              step="1"
+              className="input"
+            />
+          </div>
+          
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={packageForm.is_active}
+              onChange={(e) => setPackageForm({ ...packageForm, is_active: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-rynx-500 focus:ring-rynx-500"
+            />
+            <span className="text-slate-300">Package is active</span>
+          </label>
+        </div>
+        
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowPackageModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSavePackage} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Saving...' : selectedPackage ? 'Save Changes' : 'Create Package'}
+          </button>
+        </div>
+      </Modal>
+      
+      {/* Staff Modal */}
+      <Modal
+        isOpen={showStaffModal}
+        onClose={() => setShowStaffModal(false)}
+        title={selectedStaffUser ? 'Edit Staff Member' : 'Invite Staff'}
+        size="md"
+      >
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Name <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="text"
+              value={staffForm.name}
+              onChange={(e) => setStaffForm({ ...staffForm, name: e.target.value })}
+              placeholder="e.g., Juan Dela Cruz"
+              className="input"
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Email {!selectedStaffUser && <span className="text-red-400">*</span>}
+            </label>
+            <input
+              type="email"
+              value={staffForm.email}
+              onChange={(e) => setStaffForm({ ...staffForm, email: e.target.value })}
+              placeholder="staff@example.com"
+              disabled={!!selectedStaffUser}
+              className="input disabled:opacity-50"
+            />
+          </div>
+          
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Role</label>
+              <select
+                value={staffForm.role}
+                onChange={(e) => setStaffForm({ ...staffForm, role: e.target.value as StaffRole })}
+                className="select"
+              >
+                {assignableRoles.map(role => (
+                  <option key={role} value={role}>{roleLabels[role]}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Branch</label>
+              <select
+                value={staffForm.branch_id}
+                onChange={(e) => setStaffForm({ ...staffForm, branch_id: e.target.value })}
+                className="select"
+              >
+                <option value="">All branches</option>
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <p className="text-xs text-slate-500">
+            Staff can run sessions and top up members but cannot remove devices, change pricing or shut down PCs.
+            {!selectedStaffUser && ' The invitee signs up with this email to activate their account.'}
+          </p>
+        </div>
+        
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowStaffModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSaveStaff} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Saving...' : selectedStaffUser ? 'Save Changes' : 'Send Invite'}
+          </button>
+        </div>
+      </Modal>
     </div>
   )
 }
@@ -0,0 +1,439 @@
+import { useState, useEffect } from 'react'
+import {
+  Wallet,
+  RefreshCw,
+  Printer,
+  Lock,
+  Unlock,
+  Coins,
+  Clock
+} from 'lucide-react'
+import { Header, Modal, EmptyState } from '@/components'
+import { useAppStore } from '@/stores/appStore'
+import { openCashShift, closeCashShift, getShiftTransactions } from '@/lib/supabase'
+import { getShiftCashTotal, getExpectedCash, printShiftReport } from '@/lib/shifts'
+import { formatCurrency, formatDateTime, formatRelativeTime } from '@/lib/utils'
+import type { CashShift, Transaction } from '@/types'
+
+// Text color for a drawer variance: short is red, over is amber
+function getVarianceColor(variance: number | null): string {
+  if (variance === null) return 'text-slate-500'
+  if (variance < 0) return 'text-red-400'
+  if (variance > 0) return 'text-amber-400'
+  return 'text-emerald-400'
+}
+
+export function ShiftsPage() {
+  const {
+    organization,
+    staff,
+    branches,
+    currentBranch,
+    cashShifts,
+    currentShift,
+    fetchCashShifts,
+    fetchCurrentShift,
+    addToast
+  } = useAppStore()
+
+  const [isLoading, setIsLoading] = useState(false)
+  const [branchFilter, setBranchFilter] = useState('all')
+  const [showCloseModal, setShowCloseModal] = useState(false)
+  const [shiftTransactions, setShiftTransactions] = useState<Transaction[]>([])
+
+  const [openForm, setOpenForm] = useState({
+    branch_id: '',
+    opening_float: ''
+  })
+
+  const [closeForm, setCloseForm] = useState({
+    counted_cash: '',
+    notes: ''
+  })
+
+  useEffect(() => {
+    fetchCashShifts()
+    fetchCurrentShift()
+  }, [fetchCashShifts, fetchCurrentShift])
+
+  // Cash taken in so far by the open shift
+  useEffect(() => {
+    if (currentShift) {
+      getShiftTransactions(currentShift.id).then(setShiftTransactions)
+    } else {
+      setShiftTransactions([])
+    }
+  }, [currentShift])
+
+  const defaultBranchId = staff?.branch_id || currentBranch?.id || branches[0]?.id || ''
+  const cashTaken = getShiftCashTotal(shiftTransactions)
+  const expectedCash = currentShift ? getExpectedCash(currentShift, shiftTransactions) : 0
+  const countedCash = parseFloat(closeForm.counted_cash)
+  const closeVariance = isNaN(countedCash) ? null : Math.round((countedCash - expectedCash) * 100) / 100
+
+  const filteredShifts = cashShifts.filter(shift =>
+    branchFilter === 'all' || shift.branch_id === branchFilter
+  )
+
+  const handleRefresh = async () => {
+    setIsLoading(true)
+    await Promise.all([fetchCashShifts(), fetchCurrentShift()])
+    if (currentShift) {
+      setShiftTransactions(await getShiftTransactions(currentShift.id))
+    }
+    setIsLoading(false)
+  }
+
+  const handleOpenShift = async () => {
+    const branchId = openForm.branch_id || defaultBranchId
+    const openingFloat = parseFloat(openForm.opening_float) || 0
+
+    if (!staff || !branchId) {
+      addToast('error', 'Please select a branch')
+      return
+    }
+
+    if (openingFloat < 0) {
+      addToast('error', 'Opening float cannot be negative')
+      return
+    }
+
+    setIsLoading(true)
+    const shift = await openCashShift(branchId, staff.id, openingFloat)
+
+    if (shift) {
+      addToast('success', `Shift opened with a ${formatCurrency(openingFloat)} float`)
+      setOpenForm({ branch_id: '', opening_float: '' })
+      fetchCurrentShift()
+      fetchCashShifts()
+    } else {
+      addToast('error', 'Failed to open shift. You may already have an open shift.')
+    }
+    setIsLoading(false)
+  }
+
+  const openCloseModal = () => {
+    setCloseForm({ counted_cash: '', notes: '' })
+    setShowCloseModal(true)
+  }
+
+  const handleCloseShift = async () => {
+    if (!currentShift || isNaN(countedCash) || countedCash < 0) {
+      addToast('error', 'Please enter the counted cash')
+      return
+    }
+
+    setIsLoading(true)
+    const closed = await closeCashShift(currentShift.id, countedCash, closeForm.notes)
+
+    if (closed) {
+      const variance = Number(closed.variance)
+      addToast(
+        variance === 0 ? 'success' : 'warning',
+        variance === 0
+          ? 'Shift closed. Drawer balances.'
+          : `Shift closed. Drawer is ${variance < 0 ? 'short' : 'over'} by ${formatCurrency(Math.abs(variance))}`
+      )
+      setShowCloseModal(false)
+      printShiftReport(
+        { ...closed, branches: currentShift.branches, staff_users: staff },
+        shiftTransactions,
+        organization?.name
+      )
+      fetchCurrentShift()
+      fetchCashShifts()
+    } else {
+      addToast('error', 'Failed to close shift')
+    }
+    setIsLoading(false)
+  }
+
+  const handlePrintShift = async (shift: CashShift) => {
+    const transactions = shift.id === currentShift?.id
+      ? shiftTransactions
+      : await getShiftTransactions(shift.id)
+
+    if (!printShiftReport({ ...shift, branches: shift.branches || currentShift?.branches }, transactions, organization?.name)) {
+      addToast('error', 'Allow pop-ups to print the shift report')
+    }
+  }
+
+  return (
+    <div className="p-6">
+      <Header
+        title="Shifts"
+        subtitle="Cash drawer shifts and end-of-shift reconciliation"
+        action={
+          <button
+            onClick={handleRefresh}
+            className="btn-secondary"
+            disabled={isLoading}
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        }
+      />
+
+      {/* Current Shift */}
+      <div className="card p-6 mb-6">
+        {currentShift ? (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center">
+                  <Unlock className="w-5 h-5 text-emerald-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-white">Your shift is open</h3>
+                  <p className="text-sm text-slate-400">
+                    {currentShift.branches?.name || branches.find(b => b.id === currentShift.branch_id)?.name} · opened {formatRelativeTime(currentShift.opened_at)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => handlePrintShift(currentShift)} className="btn-secondary">
+                  <Printer className="w-4 h-4" />
+                  <span>Print</span>
+                </button>
+                <button onClick={openCloseModal} className="btn-primary">
+                  <Lock className="w-4 h-4" />
+                  <span>Close Shift</span>
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="p-4 bg-slate-800/30 rounded-xl">
+                <p className="text-sm text-slate-400">Opening Float</p>
+                <p className="text-2xl font-bold text-white">{formatCurrency(Number(currentShift.opening_float))}</p>
+              </div>
+              <div className="p-4 bg-slate-800/30 rounded-xl">
+                <p className="text-sm text-slate-400">Cash Taken</p>
+                <p className="text-2xl font-bold text-emerald-400">{formatCurrency(cashTaken)}</p>
+                <p className="text-xs text-slate-500">{shiftTransactions.length} transactions</p>
+              </div>
+              <div className="p-4 bg-slate-800/30 rounded-xl">
+                <p className="text-sm text-slate-400">Expected in Drawer</p>
+                <p className="text-2xl font-bold text-rynx-400">{formatCurrency(expectedCash)}</p>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex items-center gap-3 flex-1">
+              <div className="w-10 h-10 rounded-xl bg-slate-800 flex items-center justify-center">
+                <Lock className="w-5 h-5 text-slate-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-white">No open shift</h3>
+                <p className="text-sm text-slate-400">Open a shift before taking cash so it is counted in your drawer</p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Branch</label>
+              <select
+                value={openForm.branch_id || defaultBranchId}
+                onChange={(e) => setOpenForm({ ...openForm, branch_id: e.target.value })}
+                disabled={!!staff?.branch_id}
+                className="select min-w-[180px]"
+              >
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Opening Float (₱)</label>
+              <input
+                type="number"
+                value={openForm.opening_float}
+                onChange={(e) => setOpenForm({ ...openForm, opening_float: e.target.value })}
+                placeholder="500.00"
+                step="0.01"
+                min="0"
+                className="input"
+              />
+            </div>
+
+            <button onClick={handleOpenShift} disabled={isLoading || branches.length === 0} className="btn-primary">
+              <Unlock className="w-4 h-4" />
+              <span>Open Shift</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Past Shifts */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Shift History</h3>
+        <select
+          value={branchFilter}
+          onChange={(e) => setBranchFilter(e.target.value)}
+          className="select min-w-[180px]"
+        >
+          <option value="all">All Branches</option>
+          {branches.map(branch => (
+            <option key={branch.id} value={branch.id}>{branch.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {filteredShifts.length > 0 ? (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Shift</th>
+                  <th>Staff</th>
+                  <th>Branch</th>
+                  <th>Float</th>
+                  <th>Cash Taken</th>
+                  <th>Expected</th>
+                  <th>Counted</th>
+                  <th>Variance</th>
+                  <th className="text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredShifts.map((shift) => {
+                  const variance = shift.variance !== null ? Number(shift.variance) : null
+                  return (
+                    <tr key={shift.id} className="hover:bg-slate-800/50">
+                      <td>
+                        <p className="text-slate-300">{formatDateTime(shift.opened_at)}</p>
+                        <p className="text-xs text-slate-500 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {shift.closed_at ? `Closed ${formatDateTime(shift.closed_at)}` : 'Open'}
+                        </p>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">{shift.staff_users?.name || '-'}</span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">{shift.branches?.name || '-'}</span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">{formatCurrency(Number(shift.opening_float))}</span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">
+                          {shift.cash_total !== null ? formatCurrency(Number(shift.cash_total)) : '-'}
+                        </span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">
+                          {shift.expected_cash !== null ? formatCurrency(Number(shift.expected_cash)) : '-'}
+                        </span>
+                      </td>
+                      <td>
+                        <span className="text-slate-300">
+                          {shift.counted_cash !== null ? formatCurrency(Number(shift.counted_cash)) : '-'}
+                        </span>
+                      </td>
+                      <td>
+                        {shift.status === 'open' ? (
+                          <span className="badge badge-success">Open</span>
+                        ) : (
+                          <span className={`font-semibold ${getVarianceColor(variance)}`}>
+                            {variance !== null && variance > 0 ? '+' : ''}
+                            {variance !== null ? formatCurrency(variance) : '-'}
+                          </span>
+                        )}
+                      </td>
+                      <td>
+                        <div className="flex items-center justify-end">
+                          <button
+                            onClick={() => handlePrintShift(shift)}
+                            className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                            title="Print Report"
+                          >
+                            <Printer className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <EmptyState
+          icon={Wallet}
+          title="No shifts yet"
+          description="Closed shifts and their drawer counts will appear here"
+        />
+      )}
+
+      {/* Close Shift Modal */}
+      <Modal isOpen={showCloseModal} onClose={() => setShowCloseModal(false)} title="Close Shift" size="md">
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 p-4 bg-slate-800/30 rounded-xl text-sm">
+            <div>
+              <p className="text-slate-500">Float</p>
+              <p className="text-slate-200">{formatCurrency(Number(currentShift?.opening_float || 0))}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Cash Taken</p>
+              <p className="text-slate-200">{formatCurrency(cashTaken)}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Expected</p>
+              <p className="text-rynx-400 font-semibold">{formatCurrency(expectedCash)}</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Counted Cash (₱) <span className="text-red-400">*</span>
+            </label>
+            <div className="relative">
+              <Coins className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+              <input
+                type="number"
+                value={closeForm.counted_cash}
+                onChange={(e) => setCloseForm({ ...closeForm, counted_cash: e.target.value })}
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                className="input pl-10"
+              />
+            </div>
+            {closeVariance !== null && (
+              <p className={`text-sm mt-2 ${getVarianceColor(closeVariance)}`}>
+                {closeVariance === 0
+                  ? 'Drawer balances'
+                  : `${closeVariance < 0 ? 'Short' : 'Over'} by ${formatCurrency(Math.abs(closeVariance))}`}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Notes</label>
+            <textarea
+              value={closeForm.notes}
+              onChange={(e) => setCloseForm({ ...closeForm, notes: e.target.value })}
+              placeholder="Explain any variance..."
+              rows={3}
+              className="input"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={() => setShowCloseModal(false)} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleCloseShift} disabled={isLoading} className="btn-primary">
+            {isLoading ? 'Closing...' : 'Close & Print Report'}
+          </button>
+        </div>
+      </Modal>
+    </div>
+  )
+}
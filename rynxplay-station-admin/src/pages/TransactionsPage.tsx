@@ -15,12 +15,20 @@ import {
   DollarSign,
   Wallet,
   CreditCard,
-  ArrowLeftRight
+  ArrowLeftRight,
+  Ban,
+  X,
+  FileDown,
+  AlertCircle
 } from 'lucide-react'
-import { Header, Modal, EmptyState } from '@/components'
+import { Header, Modal, EmptyState, VoidTopupModal } from '@/components'
 import { useAppStore } from '@/stores/appStore'
+import { getTransactionChain, getTransactionTotals, searchTransactions } from '@/lib/supabase'
+import { useHistoryPages, useUrlFilters } from '@/lib/history'
+import { exportTransactionsCsv, getAllTransactions, exportTransactionStatementPdf } from '@/lib/exports'
+import { hasPermission } from '@/lib/permissions'
 import { formatCurrency, formatDateTime, formatRelativeTime } from '@/lib/utils'
-import type { Transaction, TransactionType } from '@/types'
+import type { Member, Transaction, TransactionFilters, TransactionTotals, TransactionType } from '@/types'
 
 const typeConfig: Record<TransactionType, { label: string; color: string; icon: typeof TrendingUp }> = {
   topup: { label: 'Top Up', color: 'emerald', icon: TrendingUp },
@@ -31,28 +39,63 @@ const typeConfig: Record<TransactionType, { label: string; color: string; icon:
 }
 
 export function TransactionsPage() {
-  const { transactions, members, branches, fetchTransactions, addToast } = useAppStore()
+  const { members, branches, staff, organization, fetchMembers, addToast } = useAppStore()
   
-  const [searchQuery, setSearchQuery] = useState('')
-  const [typeFilter, setTypeFilter] = useState<'all' | TransactionType>('all')
-  const [dateRange, setDateRange] = useState<'all' | 'today' | 'week' | 'month'>('all')
-  const [isLoading, setIsLoading] = useState(false)
+  const [filters, setFilters] = useUrlFilters({
+    q: '',
+    type: '',
+    payment: '',
+    branch: '',
+    member: '',
+    from: '',
+    to: ''
+  })
+  const [searchInput, setSearchInput] = useState(filters.q)
+  const [totals, setTotals] = useState<TransactionTotals>({ count: 0, income: 0, usage: 0 })
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null)
   const [showDetailsModal, setShowDetailsModal] = useState(false)
+  const [transactionChain, setTransactionChain] = useState<Transaction[]>([])
+  const [voidTarget, setVoidTarget] = useState<Transaction | null>(null)
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  
+  const canRefund = hasPermission(staff, 'transactions.refund')
+  
+  // Staff assigned to a branch only see that branch
+  const transactionFilters: TransactionFilters = {
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    branchId: staff?.branch_id || filters.branch || undefined,
+    memberId: filters.member || undefined,
+    type: (filters.type || undefined) as TransactionType | undefined,
+    paymentMethod: filters.payment || undefined,
+    search: filters.q || undefined
+  }
+  const filtersKey = JSON.stringify(transactionFilters)
   
-  // Pagination
-  const [page, setPage] = useState(1)
-  const itemsPerPage = 20
+  const pages = useHistoryPages(
+    cursor => organization
+      ? searchTransactions(organization.id, transactionFilters, cursor)
+      : Promise.resolve({ rows: [], nextCursor: null }),
+    `${organization?.id}:${filtersKey}`
+  )
+  
+  useEffect(() => {
+    getTransactionTotals(transactionFilters).then(setTotals)
+  }, [filtersKey])
   
+  // Search once typing pauses
   useEffect(() => {
-    fetchTransactions()
-  }, [fetchTransactions])
+    const timeout = setTimeout(() => {
+      if (searchInput.trim() !== filters.q) setFilters({ q: searchInput.trim() })
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
   
   // Get member and branch info
-  const getMemberName = (memberId: string | null) => {
+  const getMemberName = (memberId: string | null, member?: Member | null) => {
     if (!memberId) return 'Guest'
-    const member = members.find(m => m.id === memberId)
-    return member?.username || member?.full_name || 'Unknown'
+    const found = member || members.find(m => m.id === memberId)
+    return found?.username || found?.full_name || 'Unknown'
   }
   
   const getBranchName = (branchId: string | null) => {
@@ -61,77 +104,80 @@ export function TransactionsPage() {
     return branch?.name || 'Unknown'
   }
   
-  // Filter by date range
-  const filterByDateRange = (date: string) => {
-    const transactionDate = new Date(date)
-    const now = new Date()
+  const netAmount = totals.income - totals.usage
+  const hasFilters = Object.values(filters).some(Boolean)
+  
+  const handleRefresh = () => {
+    pages.reload()
+    getTransactionTotals(transactionFilters).then(setTotals)
+  }
+  
+  const handleExportCsv = async () => {
+    if (!organization) return
     
-    switch (dateRange) {
-      case 'today':
-        return transactionDate.toDateString() === now.toDateString()
-      case 'week':
-        const weekAgo = new Date(now.setDate(now.getDate() - 7))
-        return transactionDate >= weekAgo
-      case 'month':
-        const monthAgo = new Date(now.setMonth(now.getMonth() - 1))
-        return transactionDate >= monthAgo
-      default:
-        return true
+    setExportProgress(0)
+    const result = await exportTransactionsCsv(organization.id, transactionFilters, setExportProgress)
+    setExportProgress(null)
+    if (result.success) {
+      addToast('success', `Exported ${result.rows} transactions`)
+    } else if (result.error === 'failed') {
+      addToast('error', 'Export failed, nothing was saved. Please try again.')
     }
   }
   
-  // Filter transactions
-  const filteredTransactions = transactions.filter(tx => {
-    const memberName = getMemberName(tx.member_id).toLowerCase()
-    const matchesSearch = 
-      memberName.includes(searchQuery.toLowerCase()) ||
-      tx.reference?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      tx.notes?.toLowerCase().includes(searchQuery.toLowerCase())
+  const handleExportStatement = async () => {
+    if (!organization) return
     
-    const matchesType = typeFilter === 'all' || tx.type === typeFilter
-    const matchesDate = filterByDateRange(tx.created_at)
-    
-    return matchesSearch && matchesType && matchesDate
-  })
-  
-  // Paginated transactions
-  const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage)
-  const paginatedTransactions = filteredTransactions.slice((page - 1) * itemsPerPage, page * itemsPerPage)
-  
-  // Stats
-  const totalIncome = transactions
-    .filter(tx => tx.type === 'topup' && filterByDateRange(tx.created_at))
-    .reduce((sum, tx) => sum + Math.abs(tx.amount), 0)
-  
-  const totalUsage = transactions
-    .filter(tx => tx.type === 'usage' && filterByDateRange(tx.created_at))
-    .reduce((sum, tx) => sum + Math.abs(tx.amount), 0)
-  
-  const netAmount = totalIncome - totalUsage
+    setExportProgress(0)
+    const statementTransactions = await getAllTransactions(organization.id, transactionFilters)
+    setExportProgress(null)
+    if (!statementTransactions) {
+      addToast('error', 'Failed to load transactions for the statement')
+      return
+    }
+    exportTransactionStatementPdf({
+      organizationName: organization.name,
+      branchName: transactionFilters.branchId ? getBranchName(transactionFilters.branchId) : 'All branches',
+      from: transactionFilters.from,
+      to: transactionFilters.to,
+      transactions: statementTransactions
+    })
+  }
   
-  const handleRefresh = async () => {
-    setIsLoading(true)
-    await fetchTransactions()
-    setIsLoading(false)
+  const loadTransactionChain = async (transaction: Transaction) => {
+    setTransactionChain([])
+    const chain = await getTransactionChain(transaction.original_transaction_id || transaction.id)
+    setTransactionChain(chain.length > 1 ? chain : [])
   }
   
   const openDetailsModal = (transaction: Transaction) => {
     setSelectedTransaction(transaction)
     setShowDetailsModal(true)
+    loadTransactionChain(transaction)
+  }
+  
+  const handleVoided = async () => {
+    handleRefresh()
+    await fetchMembers()
+    if (selectedTransaction) {
+      const voided = { ...selectedTransaction, voided_at: new Date().toISOString() }
+      setSelectedTransaction(voided)
+      loadTransactionChain(voided)
+    }
   }
   
   return (
     <div className="p-6">
       <Header 
         title="Transactions"
-        subtitle={`${transactions.length} total transactions`}
+        subtitle={`${totals.count} ${hasFilters ? 'matching' : 'total'} transactions`}
         action={
           <button
             onClick={handleRefresh}
             className="btn-secondary"
-            disabled={isLoading}
+            disabled={pages.isLoading}
           >
-            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`w-4 h-4 ${pages.isLoading ? 'animate-spin' : ''}`} />
             <span>Refresh</span>
           </button>
         }
@@ -143,7 +189,7 @@ export function TransactionsPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-slate-400">Total Income</p>
-              <p className="text-2xl font-bold text-emerald-400">{formatCurrency(totalIncome)}</p>
+              <p className="text-2xl font-bold text-emerald-400">{formatCurrency(totals.income)}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center">
               <TrendingUp className="w-5 h-5 text-emerald-400" />
@@ -155,7 +201,7 @@ export function TransactionsPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-slate-400">Total Usage</p>
-              <p className="text-2xl font-bold text-red-400">{formatCurrency(totalUsage)}</p>
+              <p className="text-2xl font-bold text-red-400">{formatCurrency(totals.usage)}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-red-500/20 flex items-center justify-center">
               <TrendingDown className="w-5 h-5 text-red-400" />
@@ -183,7 +229,7 @@ export function TransactionsPage() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-slate-400">Transactions</p>
-              <p className="text-2xl font-bold text-white">{filteredTransactions.length}</p>
+              <p className="text-2xl font-bold text-white">{totals.count}</p>
             </div>
             <div className="w-10 h-10 rounded-xl bg-rynx-500/20 flex items-center justify-center">
               <Receipt className="w-5 h-5 text-rynx-400" />
@@ -193,24 +239,24 @@ export function TransactionsPage() {
       </div>
       
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 mb-6">
-        <div className="relative flex-1">
+      <div className="flex flex-col sm:flex-row flex-wrap gap-4 mb-6">
+        <div className="relative flex-1 min-w-[220px]">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
           <input
             type="text"
-            value={searchQuery}
-            onChange={(e) => { setSearchQuery(e.target.value); setPage(1) }}
-            placeholder="Search by member, reference, or notes..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by member name, username, email or phone..."
             className="input pl-10"
           />
         </div>
         
         <select
-          value={typeFilter}
-          onChange={(e) => { setTypeFilter(e.target.value as 'all' | TransactionType); setPage(1) }}
+          value={filters.type}
+          onChange={(e) => setFilters({ type: e.target.value })}
           className="select min-w-[140px]"
         >
-          <option value="all">All Types</option>
+          <option value="">All Types</option>
           <option value="topup">Top Up</option>
           <option value="usage">Usage</option>
           <option value="refund">Refund</option>
@@ -219,24 +265,82 @@ export function TransactionsPage() {
         </select>
         
         <select
-          value={dateRange}
-          onChange={(e) => { setDateRange(e.target.value as 'all' | 'today' | 'week' | 'month'); setPage(1) }}
+          value={filters.payment}
+          onChange={(e) => setFilters({ payment: e.target.value })}
           className="select min-w-[140px]"
         >
-          <option value="all">All Time</option>
-          <option value="today">Today</option>
-          <option value="week">This Week</option>
-          <option value="month">This Month</option>
+          <option value="">All Payments</option>
+          <option value="cash">Cash</option>
+          <option value="coin">Coin</option>
         </select>
         
-        <button className="btn-secondary">
+        {!staff?.branch_id && branches.length > 1 && (
+          <select
+            value={filters.branch}
+            onChange={(e) => setFilters({ branch: e.target.value })}
+            className="select min-w-[140px]"
+          >
+            <option value="">All Branches</option>
+            {branches.map(branch => (
+              <option key={branch.id} value={branch.id}>{branch.name}</option>
+            ))}
+          </select>
+        )}
+        
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-slate-400" />
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => setFilters({ from: e.target.value })}
+            className="input"
+          />
+          <span className="text-slate-500">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => setFilters({ to: e.target.value })}
+            className="input"
+          />
+        </div>
+        
+        <button onClick={handleExportCsv} disabled={exportProgress !== null} className="btn-secondary">
           <Download className="w-4 h-4" />
-          <span>Export</span>
+          <span>{exportProgress !== null ? `Exporting ${exportProgress}...` : 'Export CSV'}</span>
+        </button>
+        
+        <button onClick={handleExportStatement} disabled={exportProgress !== null} className="btn-secondary">
+          <FileDown className="w-4 h-4" />
+          <span>PDF Statement</span>
         </button>
       </div>
       
+      {filters.member && (
+        <div className="flex items-center gap-2 mb-4">
+          <span className="badge badge-info">
+            Member: {getMemberName(filters.member)}
+          </span>
+          <button
+            onClick={() => setFilters({ member: '' })}
+            className="btn-ghost btn-sm"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        </div>
+      )}
+      
       {/* Transactions Table */}
-      {paginatedTransactions.length > 0 ? (
+      {pages.error ? (
+        <EmptyState
+          icon={AlertCircle}
+          title="Couldn't load transactions"
+          description={`Check your connection and try again. (${pages.error})`}
+          action={{ label: 'Try again', onClick: pages.reload }}
+        />
+      ) : pages.rows.length > 0 ? (
         <>
           <div className="card overflow-hidden mb-4">
             <div className="overflow-x-auto">
@@ -254,10 +358,10 @@ export function TransactionsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {paginatedTransactions.map((tx) => {
+                  {pages.rows.map((tx) => {
                     const config = typeConfig[tx.type]
                     const TypeIcon = config.icon
-                    const isPositive = tx.amount > 0 || tx.type === 'topup' || tx.type === 'refund'
+                    const isNegative = tx.amount < 0 || tx.type === 'usage'
                     
                     return (
                       <tr key={tx.id} className="hover:bg-slate-800/50">
@@ -269,16 +373,19 @@ export function TransactionsPage() {
                             <span className={`badge badge-${config.color}`}>
                               {config.label}
                             </span>
+                            {tx.voided_at && (
+                              <span className="badge badge-danger">Voided</span>
+                            )}
                           </div>
                         </td>
                         <td>
-                          <span className="text-slate-300">{getMemberName(tx.member_id)}</span>
+                          <span className="text-slate-300">{getMemberName(tx.member_id, tx.members)}</span>
                         </td>
                         <td>
                           <span className={`font-semibold ${
-                            tx.type === 'usage' ? 'text-red-400' : 'text-emerald-400'
-                          }`}>
-                            {tx.type === 'usage' ? '-' : '+'}
+                            isNegative ? 'text-red-400' : 'text-emerald-400'
+                          } ${tx.voided_at ? 'line-through opacity-60' : ''}`}>
+                            {isNegative ? '-' : '+'}
                             {formatCurrency(Math.abs(tx.amount))}
                           </span>
                         </td>
@@ -335,25 +442,25 @@ export function TransactionsPage() {
           </div>
           
           {/* Pagination */}
-          {totalPages > 1 && (
+          {(pages.hasPrevious || pages.hasNext) && (
             <div className="flex items-center justify-between">
               <p className="text-sm text-slate-400">
-                Showing {(page - 1) * itemsPerPage + 1} to {Math.min(page * itemsPerPage, filteredTransactions.length)} of {filteredTransactions.length}
+                Showing {pages.rows.length} of {totals.count}
               </p>
               <div className="flex items-center gap-2">
                 <button
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1}
+                  onClick={pages.previous}
+                  disabled={!pages.hasPrevious || pages.isLoading}
                   className="btn-secondary p-2 disabled:opacity-50"
                 >
                   <ChevronLeft className="w-4 h-4" />
                 </button>
                 <span className="text-sm text-slate-400">
-                  Page {page} of {totalPages}
+                  Page {pages.page}
                 </span>
                 <button
-                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages}
+                  onClick={pages.next}
+                  disabled={!pages.hasNext || pages.isLoading}
                   className="btn-secondary p-2 disabled:opacity-50"
                 >
                   <ChevronRight className="w-4 h-4" />
@@ -366,7 +473,7 @@ export function TransactionsPage() {
         <EmptyState
           icon={Receipt}
           title="No transactions found"
-          description={searchQuery || typeFilter !== 'all' || dateRange !== 'all' 
+          description={hasFilters
             ? 'Try adjusting your search or filters' 
             : 'Transactions will appear here once members start using their credits'
           }
@@ -400,11 +507,16 @@ export function TransactionsPage() {
             <div className="text-center p-6 bg-slate-800/50 rounded-xl">
               <p className="text-sm text-slate-400 mb-2">Amount</p>
               <p className={`text-4xl font-bold ${
-                selectedTransaction.type === 'usage' ? 'text-red-400' : 'text-emerald-400'
-              }`}>
-                {selectedTransaction.type === 'usage' ? '-' : '+'}
+                selectedTransaction.amount < 0 || selectedTransaction.type === 'usage' ? 'text-red-400' : 'text-emerald-400'
+              } ${selectedTransaction.voided_at ? 'line-through opacity-60' : ''}`}>
+                {selectedTransaction.amount < 0 || selectedTransaction.type === 'usage' ? '-' : '+'}
                 {formatCurrency(Math.abs(selectedTransaction.amount))}
               </p>
+              {selectedTransaction.voided_at && (
+                <p className="text-sm text-red-400 mt-2">
+                  Voided {formatDateTime(selectedTransaction.voided_at)}
+                </p>
+              )}
             </div>
             
             {/* Balance Change */}
@@ -430,7 +542,7 @@ export function TransactionsPage() {
             <div className="grid grid-cols-2 gap-4">
               <div className="p-3 bg-slate-800/30 rounded-lg">
                 <p className="text-xs text-slate-500 mb-1">Member</p>
-                <p className="text-white">{getMemberName(selectedTransaction.member_id)}</p>
+                <p className="text-white">{getMemberName(selectedTransaction.member_id, selectedTransaction.members)}</p>
               </div>
               
               <div className="p-3 bg-slate-800/30 rounded-lg">
@@ -461,14 +573,60 @@ export function TransactionsPage() {
               </div>
             )}
             
+            {/* Linked refunds and voids */}
+            {transactionChain.length > 0 && (
+              <div>
+                <p className="text-xs text-slate-500 mb-2">Audit Trail</p>
+                <div className="space-y-2">
+                  {transactionChain.map(tx => (
+                    <div
+                      key={tx.id}
+                      className={`flex items-center justify-between p-3 rounded-lg ${
+                        tx.id === selectedTransaction.id ? 'bg-slate-700/50' : 'bg-slate-800/30'
+                      }`}
+                    >
+                      <div>
+                        <p className="text-sm text-white">
+                          {typeConfig[tx.type].label}
+                          {tx.voided_at && <span className="badge badge-danger ml-2">Voided</span>}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {formatDateTime(tx.created_at)}{tx.notes ? ` · ${tx.notes}` : ''}
+                        </p>
+                      </div>
+                      <span className={`font-semibold ${tx.amount < 0 || tx.type === 'usage' ? 'text-red-400' : 'text-emerald-400'}`}>
+                        {tx.amount < 0 || tx.type === 'usage' ? '-' : '+'}
+                        {formatCurrency(Math.abs(tx.amount))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {/* Transaction ID */}
             <div className="text-center">
               <p className="text-xs text-slate-600">Transaction ID</p>
               <code className="text-xs text-slate-500">{selectedTransaction.id}</code>
             </div>
+            
+            {canRefund && selectedTransaction.type === 'topup' && selectedTransaction.member_id && !selectedTransaction.voided_at && (
+              <div className="flex justify-end">
+                <button onClick={() => setVoidTarget(selectedTransaction)} className="btn-danger">
+                  <Ban className="w-4 h-4" />
+                  <span>Void Top-Up</span>
+                </button>
+              </div>
+            )}
           </div>
         )}
       </Modal>
+      
+      <VoidTopupModal
+        transaction={voidTarget}
+        onClose={() => setVoidTarget(null)}
+        onVoided={handleVoided}
+      />
     </div>
   )
 }
@@ -3,6 +3,8 @@ export { DevicesPage } from './DevicesPage'
 export { MembersPage } from './MembersPage'
 export { SessionsPage } from './SessionsPage'
 export { TransactionsPage } from './TransactionsPage'
+export { ReportsPage } from './ReportsPage'
+export { ShiftsPage } from './ShiftsPage'
 export { SettingsPage } from './SettingsPage'
 export { LoginPage } from './LoginPage'
 export { KioskPage } from './KioskPage'
\ No newline at end of file
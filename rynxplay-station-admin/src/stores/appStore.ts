@@ -5,10 +5,13 @@ import type {
   Organization, 
   Branch, 
   Device, 
+  DevicePresenceState,
   Member, 
   Session, 
   Rate, 
-  Transaction,
+  RateSchedule,
+  TimePackage,
+  CashShift,
   DashboardStats,
   Toast,
   ToastType
@@ -18,18 +21,25 @@ import {
   getSupabase,
   getCurrentUser,
   getStaffUser,
+  getStaffUsers,
+  claimStaffInvite,
   getOrganization,
   getBranches,
   getDevices,
   getPendingDevices,
   getMembers,
-  getSessions,
   getActiveSessions,
+  getSessionById,
   getAllRates,
-  getTransactions,
+  getAllRateSchedules,
+  getAllTimePackages,
+  getCashShifts,
+  getOpenCashShift,
   getDashboardStats,
   subscribeToDevices,
+  subscribeToPendingDevices,
   subscribeToSessions,
+  subscribeToBranchPresence,
   unsubscribe,
   signOut as supabaseSignOut,
   startDeviceStatusPolling,
@@ -38,9 +48,22 @@ import {
   stopActiveSessionsPolling,
   getEffectiveDeviceStatus
 } from '@/lib/supabase'
+import { isInStaffBranch } from '@/lib/permissions'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 import { generateId } from '@/lib/utils'
 
+type RealtimeChange<T> = { eventType: string; new: T; old: Partial<T> }
+
+// Channels that errored and haven't rejoined yet; polling covers for them
+const droppedChannels = new Set<string>()
+let resyncTimeout: ReturnType<typeof setTimeout> | null = null
+
+function upsertById<T extends { id: string }>(list: T[], item: T): T[] {
+  return list.some(i => i.id === item.id)
+    ? list.map(i => i.id === item.id ? item : i)
+    : [item, ...list]
+}
+
 interface AppStore {
   // Auth state
   user: AuthUser | null
@@ -54,10 +77,13 @@ interface AppStore {
   devices: Device[]
   pendingDevices: Device[]
   members: Member[]
-  sessions: Session[]
   activeSessions: Session[]
   rates: Rate[]
-  transactions: Transaction[]
+  rateSchedules: RateSchedule[]
+  timePackages: TimePackage[]
+  staffUsers: StaffUser[]
+  cashShifts: CashShift[]
+  currentShift: CashShift | null
   stats: DashboardStats | null
   
   // UI state
@@ -67,6 +93,9 @@ interface AppStore {
   
   // Realtime channels
   channels: RealtimeChannel[]
+  // Presence per branch id, keyed by device id; only set while the branch's
+  // presence channel is joined
+  devicePresence: Record<string, Record<string, DevicePresenceState>>
   
   // Actions
   initialize: () => Promise<void>
@@ -74,14 +103,18 @@ interface AppStore {
   setUser: (user: AuthUser | null) => void
   
   // Data fetching
+  fetchOrganization: () => Promise<void>
   fetchBranches: () => Promise<void>
   fetchDevices: () => Promise<void>
   fetchPendingDevices: () => Promise<void>
   fetchMembers: () => Promise<void>
-  fetchSessions: () => Promise<void>
   fetchActiveSessions: () => Promise<void>
   fetchRates: () => Promise<void>
-  fetchTransactions: () => Promise<void>
+  fetchRateSchedules: () => Promise<void>
+  fetchTimePackages: () => Promise<void>
+  fetchStaffUsers: () => Promise<void>
+  fetchCashShifts: () => Promise<void>
+  fetchCurrentShift: () => Promise<void>
   fetchStats: () => Promise<void>
   refreshAll: () => Promise<void>
   
@@ -93,6 +126,9 @@ interface AppStore {
   
   // Realtime
   setupRealtimeSubscriptions: () => void
+  applyDeviceChange: (change: RealtimeChange<Device>) => void
+  applySessionChange: (change: RealtimeChange<Session>) => Promise<void>
+  resyncRealtime: () => void
   cleanup: () => void
   
   // Device helpers
@@ -111,16 +147,20 @@ export const useAppStore = create<AppStore>((set, get) => ({
   devices: [],
   pendingDevices: [],
   members: [],
-  sessions: [],
   activeSessions: [],
   rates: [],
-  transactions: [],
+  rateSchedules: [],
+  timePackages: [],
+  staffUsers: [],
+  cashShifts: [],
+  currentShift: null,
   stats: null,
   
   sidebarOpen: true,
   currentBranch: null,
   toasts: [],
   channels: [],
+  devicePresence: {},
   
   initialize: async () => {
     set({ isLoading: true })
@@ -130,9 +170,14 @@ export const useAppStore = create<AppStore>((set, get) => ({
       const { data: { user } } = await getCurrentUser()
       
       if (user) {
-        const staff = await getStaffUser(user.id)
+        let staff = await getStaffUser(user.id)
+        
+        // First sign in of an invited staff member links their invite
+        if (!staff && await claimStaffInvite()) {
+          staff = await getStaffUser(user.id)
+        }
         
-        if (staff) {
+        if (staff && staff.is_active) {
           const organization = await getOrganization(staff.org_id)
           
           set({
@@ -173,10 +218,13 @@ export const useAppStore = create<AppStore>((set, get) => ({
       devices: [],
       pendingDevices: [],
       members: [],
-      sessions: [],
       activeSessions: [],
       rates: [],
-      transactions: [],
+      rateSchedules: [],
+      timePackages: [],
+      staffUsers: [],
+      cashShifts: [],
+      currentShift: null,
       stats: null
     })
   },
@@ -185,12 +233,26 @@ export const useAppStore = create<AppStore>((set, get) => ({
     set({ user, isAuthenticated: !!user })
   },
   
+  fetchOrganization: async () => {
+    const { staff } = get()
+    if (!staff) return
+    
+    const organization = await getOrganization(staff.org_id)
+    if (organization) set({ organization })
+  },
+  
   fetchBranches: async () => {
     const { organization } = get()
     if (!organization) return
     
+    const previousIds = get().branches.map(b => b.id).join()
     const branches = await getBranches(organization.id)
     set({ branches })
+    
+    // A new branch needs its own channels
+    if (get().channels.length > 0 && branches.map(b => b.id).join() !== previousIds) {
+      get().setupRealtimeSubscriptions()
+    }
   },
   
   fetchDevices: async () => {
@@ -198,7 +260,7 @@ export const useAppStore = create<AppStore>((set, get) => ({
     if (!organization) return
     
     const devices = await getDevices(organization.id)
-    set({ devices })
+    set({ devices: devices.filter(d => isInStaffBranch(get().staff, d.branch_id)) })
   },
   
   fetchPendingDevices: async () => {
@@ -214,20 +276,12 @@ export const useAppStore = create<AppStore>((set, get) => ({
     set({ members })
   },
   
-  fetchSessions: async () => {
-    const { organization } = get()
-    if (!organization) return
-    
-    const sessions = await getSessions(organization.id)
-    set({ sessions })
-  },
-  
   fetchActiveSessions: async () => {
     const { organization } = get()
     if (!organization) return
     
     const activeSessions = await getActiveSessions(organization.id)
-    set({ activeSessions })
+    set({ activeSessions: activeSessions.filter(s => isInStaffBranch(get().staff, s.devices?.branch_id)) })
   },
   
   fetchRates: async () => {
@@ -238,12 +292,44 @@ export const useAppStore = create<AppStore>((set, get) => ({
     set({ rates })
   },
   
-  fetchTransactions: async () => {
+  fetchRateSchedules: async () => {
+    const { organization } = get()
+    if (!organization) return
+    
+    const rateSchedules = await getAllRateSchedules(organization.id)
+    set({ rateSchedules })
+  },
+  
+  fetchTimePackages: async () => {
     const { organization } = get()
     if (!organization) return
     
-    const transactions = await getTransactions(organization.id)
-    set({ transactions })
+    const timePackages = await getAllTimePackages(organization.id)
+    set({ timePackages })
+  },
+  
+  fetchStaffUsers: async () => {
+    const { organization } = get()
+    if (!organization) return
+    
+    const staffUsers = await getStaffUsers(organization.id)
+    set({ staffUsers })
+  },
+  
+  fetchCashShifts: async () => {
+    const { organization } = get()
+    if (!organization) return
+    
+    const cashShifts = await getCashShifts(organization.id)
+    set({ cashShifts: cashShifts.filter(s => isInStaffBranch(get().staff, s.branch_id)) })
+  },
+  
+  fetchCurrentShift: async () => {
+    const { staff } = get()
+    if (!staff) return
+    
+    const currentShift = await getOpenCashShift(staff.id)
+    set({ currentShift })
   },
   
   fetchStats: async () => {
@@ -260,9 +346,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
       get().fetchDevices(),
       get().fetchPendingDevices(),
       get().fetchMembers(),
-      get().fetchSessions(),
       get().fetchActiveSessions(),
       get().fetchRates(),
+      get().fetchRateSchedules(),
+      get().fetchTimePackages(),
+      get().fetchCurrentShift(),
       get().fetchStats()
     ])
   },
@@ -293,43 +381,161 @@ export const useAppStore = create<AppStore>((set, get) => ({
   },
   
   setupRealtimeSubscriptions: () => {
-    const { organization } = get()
+    const { organization, staff, branches } = get()
     if (!organization) return
     
+    get().cleanup()
+    
+    const startFallbackPolling = () => {
+      startDeviceStatusPolling(organization.id, (devices) => {
+        set({ devices: devices.filter(d => isInStaffBranch(get().staff, d.branch_id)) })
+        get().fetchPendingDevices()
+      }, 10000)
+      
+      startActiveSessionsPolling(organization.id, (activeSessions) => {
+        set({ activeSessions: activeSessions.filter(s => isInStaffBranch(get().staff, s.devices?.branch_id)) })
+      }, 5000)
+    }
+    
+    // Poll while any channel is down, and catch up on what was missed once
+    // it rejoins
+    const onStatus = (name: string) => (status: string) => {
+      if (status === 'SUBSCRIBED') {
+        if (!droppedChannels.delete(name)) return
+        if (droppedChannels.size === 0) {
+          stopDeviceStatusPolling()
+          stopActiveSessionsPolling()
+        }
+        get().resyncRealtime()
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        if (droppedChannels.size === 0) startFallbackPolling()
+        droppedChannels.add(name)
+      }
+    }
+    
     const channels: RealtimeChannel[] = []
     
-    // Subscribe to device changes (realtime)
-    const deviceChannel = subscribeToDevices((payload) => {
-      console.log('Device change:', payload.eventType)
-      // Fetch fresh data on any change
-      get().fetchDevices()
-      get().fetchPendingDevices()
+    branches
+      .filter(branch => isInStaffBranch(staff, branch.id))
+      .forEach(branch => {
+        channels.push(subscribeToDevices(
+          branch.id,
+          change => get().applyDeviceChange(change),
+          onStatus(`devices-${branch.id}`)
+        ))
+        channels.push(subscribeToSessions(
+          branch.id,
+          change => get().applySessionChange(change),
+          onStatus(`sessions-${branch.id}`)
+        ))
+        channels.push(subscribeToBranchPresence(
+          branch.id,
+          presence => set(state => ({ devicePresence: { ...state.devicePresence, [branch.id]: presence } })),
+          status => {
+            // Without presence the heartbeat decides again
+            if (status !== 'SUBSCRIBED') {
+              set(state => {
+                const devicePresence = { ...state.devicePresence }
+                delete devicePresence[branch.id]
+                return { devicePresence }
+              })
+            }
+          }
+        ))
+      })
+    
+    channels.push(subscribeToPendingDevices(
+      change => get().applyDeviceChange(change),
+      onStatus('devices-pending')
+    ))
+    
+    set({ channels })
+  },
+  
+  applyDeviceChange: ({ eventType, new: row, old }) => {
+    const { staff, rates, branches, devices, pendingDevices } = get()
+    
+    if (eventType === 'DELETE') {
+      set({
+        devices: devices.filter(d => d.id !== old.id),
+        pendingDevices: pendingDevices.filter(d => d.id !== old.id)
+      })
       get().fetchStats()
-    })
-    channels.push(deviceChannel)
+      return
+    }
     
-    // Subscribe to session changes (realtime)
-    const sessionChannel = subscribeToSessions((payload) => {
-      console.log('Session change:', payload.eventType, payload.new?.status)
-      // Fetch fresh data on any change
-      get().fetchSessions()
-      get().fetchActiveSessions()
+    // Approval moves a device from pending into its branch
+    if (!row.branch_id) {
+      set({
+        pendingDevices: upsertById(pendingDevices, row),
+        devices: devices.filter(d => d.id !== row.id)
+      })
+      return
+    }
+    
+    const remainingPending = pendingDevices.filter(d => d.id !== row.id)
+    
+    if (!isInStaffBranch(staff, row.branch_id)) {
+      set({ devices: devices.filter(d => d.id !== row.id), pendingDevices: remainingPending })
+      return
+    }
+    
+    // Realtime rows come without joins; take them from what's loaded
+    const previous = devices.find(d => d.id === row.id)
+    const device: Device = {
+      ...row,
+      rates: rates.find(r => r.id === row.rate_id) || null,
+      branches: branches.find(b => b.id === row.branch_id) || null
+    }
+    
+    set({ devices: upsertById(devices, device), pendingDevices: remainingPending })
+    
+    if (!previous || previous.status !== row.status) {
       get().fetchStats()
-      get().fetchDevices() // Device status may change with session
-    })
-    channels.push(sessionChannel)
+    }
+  },
+  
+  applySessionChange: async ({ eventType, new: row, old }) => {
+    if (eventType === 'DELETE') {
+      set(state => ({ activeSessions: state.activeSessions.filter(s => s.id !== old.id) }))
+      return
+    }
     
-    set({ channels })
+    const previous = get().activeSessions.find(s => s.id === row.id)
+    
+    if (row.status !== 'active' && row.status !== 'paused') {
+      set(state => ({ activeSessions: state.activeSessions.filter(s => s.id !== row.id) }))
+      if (previous) get().fetchStats()
+      return
+    }
+    
+    // Timer updates keep the joins already loaded; a new session, or one
+    // moved to another PC or member, is fetched once with its joins
+    const session: Session | null = previous
+      && previous.device_id === row.device_id
+      && previous.member_id === row.member_id
+      ? { ...previous, ...row }
+      : await getSessionById(row.id)
+    if (!session) return
+    
+    set(state => ({ activeSessions: upsertById(state.activeSessions, session) }))
     
-    // Start polling for device status (heartbeat checks) - every 10 seconds
-    startDeviceStatusPolling(organization.id, (devices) => {
-      set({ devices })
-    }, 10000)
+    if (!previous || previous.status !== row.status) {
+      get().fetchStats()
+    }
+  },
+  
+  resyncRealtime: () => {
+    // Several channels rejoin together after a network drop; refetch once
+    if (resyncTimeout) clearTimeout(resyncTimeout)
     
-    // Start polling for active sessions (timer updates) - every 5 seconds
-    startActiveSessionsPolling(organization.id, (activeSessions) => {
-      set({ activeSessions })
-    }, 5000)
+    resyncTimeout = setTimeout(() => {
+      resyncTimeout = null
+      get().fetchDevices()
+      get().fetchPendingDevices()
+      get().fetchActiveSessions()
+      get().fetchStats()
+    }, 1000)
   },
   
   cleanup: () => {
@@ -338,15 +544,21 @@ export const useAppStore = create<AppStore>((set, get) => ({
     // Unsubscribe from all channels
     channels.forEach(channel => unsubscribe(channel))
     
-    // Stop polling
+    // Stop fallback polling
     stopDeviceStatusPolling()
     stopActiveSessionsPolling()
+    droppedChannels.clear()
+    
+    if (resyncTimeout) {
+      clearTimeout(resyncTimeout)
+      resyncTimeout = null
+    }
     
-    set({ channels: [] })
+    set({ channels: [], devicePresence: {} })
   },
   
-  // Helper to get effective device status based on heartbeat
+  // Helper to get effective device status from presence, or the heartbeat
   getDeviceEffectiveStatus: (device) => {
-    return getEffectiveDeviceStatus(device)
+    return getEffectiveDeviceStatus(device, device.branch_id ? get().devicePresence[device.branch_id] : null)
   }
 }))
\ No newline at end of file
@@ -16,11 +16,18 @@ export interface Branch {
   address: string | null
   is_active: boolean
   settings: Record<string, unknown>
+  // Opening hours in the branch's timezone; null hours = always open
+  timezone: string
+  opens_at: string | null
+  closes_at: string | null
+  open_days: number[]
   created_at: string
   updated_at: string
   organizations?: Organization
 }
 
+export type BillingMode = 'per_unit' | 'per_minute'
+
 export interface Rate {
   id: string
   branch_id: string
@@ -28,6 +35,11 @@ export interface Rate {
   description: string | null
   price_per_unit: number
   unit_minutes: number
+  billing_mode: BillingMode
+  round_up: boolean
+  grace_seconds: number
+  minimum_charge: number
+  max_charge: number | null
   is_default: boolean
   is_active: boolean
   created_at: string
@@ -74,6 +86,41 @@ export interface SystemSpecs {
 export type DeviceStatus = 'online' | 'offline' | 'in_use' | 'pending'
 export type DeviceType = 'pc' | 'mobile'
 
+// Time window that swaps in another rate of the branch while active
+export interface RateSchedule {
+  id: string
+  branch_id: string
+  rate_id: string
+  name: string
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+  priority: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  rates?: Rate
+}
+
+export type PackageType = 'duration' | 'until_time'
+
+// Prepaid bundle sold at the kiosk instead of linear time
+export interface TimePackage {
+  id: string
+  branch_id: string
+  name: string
+  description: string | null
+  package_type: PackageType
+  price: number
+  duration_minutes: number | null
+  start_time: string | null
+  end_time: string | null
+  sort_order: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
 export interface Device {
   id: string
   branch_id: string | null
@@ -88,12 +135,23 @@ export interface Device {
   ip_address: string | null
   specs: SystemSpecs | null
   metadata: Record<string, unknown>
+  config_version: number
+  config_version_applied: number | null
+  config_applied_at: string | null
   created_at: string
   updated_at: string
   rates?: Rate | null
   branches?: Branch | null
 }
 
+// device_not_registered: the PC hasn't sent its registration key yet
+export type ApproveDeviceError = 'device_not_registered' | 'failed'
+
+export interface ApproveDeviceResult {
+  success: boolean
+  error?: ApproveDeviceError
+}
+
 export interface Member {
   id: string
   org_id: string
@@ -114,12 +172,15 @@ export type SessionStatus = 'active' | 'paused' | 'completed' | 'terminated'
 export interface Session {
   id: string
   device_id: string
+  branch_id: string | null
   member_id: string | null
   rate_id: string | null
+  package_id: string | null
   session_type: SessionType
   started_at: string
   ended_at: string | null
   paused_at: string | null
+  total_paused_seconds: number
   time_remaining_seconds: number | null
   total_seconds_used: number
   total_amount: number
@@ -128,6 +189,7 @@ export interface Session {
   members?: Member | null
   devices?: Device | null
   rates?: Rate | null
+  time_packages?: TimePackage | null
 }
 
 export type TransactionType = 'topup' | 'usage' | 'refund' | 'adjustment' | 'transfer'
@@ -137,6 +199,7 @@ export interface Transaction {
   member_id: string | null
   branch_id: string | null
   session_id: string | null
+  shift_id: string | null
   type: TransactionType
   amount: number
   balance_before: number | null
@@ -145,13 +208,185 @@ export interface Transaction {
   reference: string | null
   notes: string | null
   created_by: string | null
+  original_transaction_id: string | null
+  voided_at: string | null
+  voided_by: string | null
   created_at: string
   members?: Member | null
   branches?: Branch | null
 }
 
-export type CommandType = 'shutdown' | 'restart' | 'lock' | 'unlock' | 'message'
-export type CommandStatus = 'pending' | 'sent' | 'executed' | 'failed'
+// Result of a refund or void; the new transaction links to the original
+export type RefundError =
+  | 'not_allowed'
+  | 'not_refundable'
+  | 'already_voided'
+  | 'exceeds_refundable'
+  | 'insufficient_credits'
+  | 'failed'
+
+export interface RefundResult {
+  success: boolean
+  transaction?: Transaction
+  error?: RefundError
+}
+
+export type ExtendSessionError =
+  | 'invalid_amount'
+  | 'session_not_active'
+  | 'not_guest_session'
+  | 'failed'
+
+export interface ExtendSessionResult {
+  success: boolean
+  transaction?: Transaction
+  error?: ExtendSessionError
+}
+
+export type ClientSyncEventType = 'session_time' | 'member_charge' | 'session_end'
+export type ClientSyncStatus = 'applied' | 'skipped' | 'conflict'
+export type ClientSyncConflict = 'session_moved' | 'session_already_ended' | 'insufficient_credits'
+
+// Entry a client PC journaled while offline and replayed later
+export interface ClientSyncEvent {
+  id: string
+  device_id: string
+  session_id: string | null
+  event_type: ClientSyncEventType
+  payload: Record<string, unknown>
+  status: ClientSyncStatus
+  conflict_reason: ClientSyncConflict | null
+  amount_charged: number
+  recorded_at: string
+  applied_at: string
+  resolved_at: string | null
+  resolved_by: string | null
+  devices?: Device | null
+  sessions?: Session | null
+}
+
+export type MoveSessionError =
+  | 'session_not_active'
+  | 'same_device'
+  | 'device_busy'
+  | 'failed'
+
+export interface MoveSessionResult {
+  success: boolean
+  session?: Session
+  error?: MoveSessionError
+}
+
+export type AdminExitCodeType = 'static' | 'totp'
+export type AdminExitSource = 'terminal' | 'tray' | 'console' | 'command_line'
+
+// Code that lets staff close the client on a locked PC. Static codes only
+// keep their hash; TOTP codes keep the shared secret.
+export interface AdminExitCode {
+  id: string
+  org_id: string
+  device_id: string | null
+  label: string
+  code_type: AdminExitCodeType
+  code_salt: string | null
+  code_hash: string | null
+  code_iterations: number | null
+  totp_secret: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_by: string | null
+  created_at: string
+  devices?: Device | null
+}
+
+export interface AdminExitEvent {
+  id: string
+  device_id: string
+  exit_code_id: string | null
+  source: AdminExitSource
+  used_at: string
+  recorded_at: string
+  devices?: Device | null
+  admin_exit_codes?: AdminExitCode | null
+}
+
+// Client PC behaviour pushed from the admin; see lib/clientConfig.ts
+export interface ClientConfig {
+  blockedShortcuts: string[]
+  disableTaskManager: boolean
+  timerWarningSeconds: number
+  timerDangerSeconds: number
+  heartbeatIntervalSeconds: number
+  commandPollIntervalSeconds: number
+  sessionPollIntervalSeconds: number
+}
+
+// A branch document, or a single PC's overrides on top of it
+export interface DeviceConfig {
+  id: string
+  branch_id: string | null
+  device_id: string | null
+  config: Partial<ClientConfig>
+  updated_by: string | null
+  updated_at: string
+}
+
+export type ShiftStatus = 'open' | 'closed'
+
+// Cash drawer shift; totals are filled in by close_cash_shift
+export interface CashShift {
+  id: string
+  branch_id: string
+  staff_id: string | null
+  status: ShiftStatus
+  opening_float: number
+  cash_total: number | null
+  expected_cash: number | null
+  counted_cash: number | null
+  variance: number | null
+  notes: string | null
+  opened_at: string
+  closed_at: string | null
+  closed_by: string | null
+  created_at: string
+  updated_at: string
+  staff_users?: StaffUser | null
+  branches?: Branch | null
+}
+
+// Result of a balance change through the apply_member_credit ledger RPC
+export type CreditLedgerError = 'insufficient_credits' | 'member_not_found' | 'invalid_amount' | 'failed'
+
+export interface CreditLedgerResult {
+  success: boolean
+  transaction?: Transaction
+  newBalance?: number
+  error?: CreditLedgerError
+}
+
+// Result of transfer_member_credits; both sides are 'transfer' transactions
+// sharing a TRF- reference
+export type TransferError =
+  | 'insufficient_credits'
+  | 'member_not_found'
+  | 'member_inactive'
+  | 'same_member'
+  | 'invalid_amount'
+  | 'invalid_pin'
+  | 'pin_locked'
+  | 'daily_limit_exceeded'
+  | 'daily_count_exceeded'
+  | 'failed'
+
+export interface TransferResult {
+  success: boolean
+  outgoing?: Transaction
+  incoming?: Transaction
+  error?: TransferError
+}
+
+export type CommandType = 'shutdown' | 'restart' | 'lock' | 'unlock' | 'message' | 'pause' | 'resume' | 'add_time' | 'admin_unlock' | 'reload_device' | 'wake_device'
+export type CommandStatus = 'pending' | 'sent' | 'executed' | 'failed' | 'expired'
 
 export interface DeviceCommand {
   id: string
@@ -163,14 +398,192 @@ export interface DeviceCommand {
   created_at: string
   sent_at: string | null
   executed_at: string | null
+  expires_at: string | null
+  attempts: number
   error_message: string | null
+  result: Record<string, unknown> | null
+  batch_id: string | null
+}
+
+// What a PC announces on its branch presence channel
+export interface DevicePresenceState {
+  device_id: string
+  is_locked: boolean
+  in_session: boolean
+  session_id: string | null
+  app_version: string
+  online_at: string
+}
+
+export type BulkDeviceAction = 'lock' | 'message' | 'restart' | 'shutdown' | 'assign_rate' | 'move_branch' | 'wake'
+
+export type BulkDeviceActionError =
+  | 'not_authorized'
+  | 'device_not_found'
+  | 'rate_not_in_branch'
+  | 'branch_not_found'
+  | 'device_in_use'
+  | 'failed'
+
+export interface BulkDeviceActionResult {
+  success: boolean
+  batchId?: string
+  error?: BulkDeviceActionError
+}
+
+export type ScheduledCommandType = 'shutdown' | 'restart' | 'lock' | 'message'
+
+// One-off (run_at) or recurring (days_of_week + time_of_day)
+export interface ScheduledCommand {
+  id: string
+  branch_id: string
+  name: string
+  command_type: ScheduledCommandType
+  payload: Record<string, unknown>
+  run_at: string | null
+  days_of_week: number[] | null
+  time_of_day: string | null
+  next_run_at: string | null
+  last_run_at: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  branches?: Branch
+}
+
+export type ScheduledCommandRunStatus = 'dispatched' | 'no_devices' | 'missed'
+
+export interface ScheduledCommandRun {
+  id: string
+  scheduled_command_id: string
+  branch_id: string
+  scheduled_for: string
+  status: ScheduledCommandRunStatus
+  batch_id: string | null
+  device_count: number
+  created_at: string
+  scheduled_commands?: ScheduledCommand
+}
+
+// Where the next page of a history list starts; lists are newest first
+export interface HistoryCursor {
+  created_at: string
+  id: string
+}
+
+// error is set when the query failed; rows are empty then, not "no results"
+export interface HistoryPage<T> {
+  rows: T[]
+  nextCursor: HistoryCursor | null
+  error?: string
+}
+
+export type ExportError = 'cancelled' | 'failed'
+
+export interface ExportResult {
+  success: boolean
+  rows?: number
+  error?: ExportError
+}
+
+// Dates are local calendar days (YYYY-MM-DD), both ends included
+export interface SessionFilters {
+  from?: string
+  to?: string
+  branchId?: string
+  deviceId?: string
+  memberId?: string
+  status?: SessionStatus
+  sessionType?: SessionType
+  search?: string
+}
+
+export interface SessionTotals {
+  count: number
+  revenue: number
+  averageSeconds: number
+}
+
+export interface TransactionFilters {
+  from?: string
+  to?: string
+  branchId?: string
+  memberId?: string
+  type?: TransactionType
+  paymentMethod?: string
+  search?: string
+}
+
+export interface TransactionTotals {
+  count: number
+  income: number
+  usage: number
+}
+
+export interface MemberFilters {
+  status?: 'active' | 'inactive'
+  search?: string
+}
+
+// Reports: dates are local calendar days, `to` included
+export interface ReportFilters {
+  from: string
+  to: string
+  branchId?: string
+}
+
+export type RevenueDimension = 'day' | 'hour' | 'branch' | 'payment_method' | 'session_type' | 'package'
+
+export interface RevenueBucket {
+  bucket: string
+  label: string | null
+  amount: number
+  count: number
+}
+
+export type RevenueReport = Record<RevenueDimension, RevenueBucket[]>
+
+export interface SessionTypeReport {
+  sessionType: Session['session_type']
+  count: number
+  totalSeconds: number
+  averageSeconds: number
+  amount: number
+}
+
+export type TopMemberOrder = 'spend' | 'hours'
+
+export interface TopMember {
+  memberId: string
+  username: string
+  fullName: string | null
+  spend: number
+  totalSeconds: number
+  sessionCount: number
+}
+
+export interface DeviceUtilization {
+  deviceId: string
+  deviceName: string
+  branchId: string
+  branchName: string
+  usedSeconds: number
+  availableSeconds: number
+}
+
+// weekday: 0 = Sunday; occupancy: 0 to 1
+export interface OccupancyCell {
+  weekday: number
+  hour: number
+  occupancy: number
 }
 
 export type StaffRole = 'owner' | 'admin' | 'staff'
 
 export interface StaffUser {
   id: string
-  auth_user_id: string
+  auth_user_id: string | null
   org_id: string
   branch_id: string | null
   role: StaffRole
@@ -183,6 +596,14 @@ export interface StaffUser {
   branches?: Branch | null
 }
 
+export type StaffInviteError = 'already_invited' | 'not_allowed' | 'invalid_branch' | 'failed'
+
+export interface StaffInviteResult {
+  success: boolean
+  staff?: StaffUser
+  error?: StaffInviteError
+}
+
 // App-specific types
 export interface AuthUser {
   id: string
@@ -6,11 +6,15 @@ export default defineConfig({
   plugins: [react()],
   resolve: {
     alias: {
-      '@': path.resolve(__dirname, './src')
+      '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, '../rynxplay-station-shared/src')
     }
   },
   server: {
     port: 3000,
-    open: true
+    open: true,
+    fs: {
+      allow: ['.', '../rynxplay-station-shared']
+    }
   }
 })
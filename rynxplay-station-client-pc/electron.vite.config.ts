@@ -34,7 +34,13 @@ export default defineConfig({
     },
     resolve: {
       alias: {
-        '@': resolve(__dirname, 'src/renderer/src')
+        '@': resolve(__dirname, 'src/renderer/src'),
+        '@shared': resolve(__dirname, '../rynxplay-station-shared/src')
+      }
+    },
+    server: {
+      fs: {
+        allow: [resolve(__dirname), resolve(__dirname, '../rynxplay-station-shared')]
       }
     },
     plugins: [react()]
@@ -1,4 +1,4 @@
-import { app, shell, BrowserWindow, ipcMain, Tray, Menu, nativeImage, screen, globalShortcut, dialog } from 'electron'
+import { app, shell, BrowserWindow, ipcMain, Tray, Menu, nativeImage, screen, globalShortcut, dialog, session } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import Store from 'electron-store'
@@ -7,21 +7,15 @@ import * as fs from 'fs'
 import * as si from 'systeminformation'
 import * as QRCode from 'qrcode'
 import { v4 as uuidv4 } from 'uuid'
+import { randomBytes, pbkdf2Sync, createHmac, timingSafeEqual } from 'crypto'
 import * as os from 'os'
 import * as readline from 'readline'
+import * as dgram from 'dgram'
 
 // Low-level keyboard hook (loaded dynamically)
 let uIOhook: any = null
 let UiohookKey: any = null
 
-// Current session tracking for direct DB sync
-let currentSessionId: string | null = null
-
-// ============================================
-// ADMIN KILL CODE - Change this to your secret
-// ============================================
-const ADMIN_KILL_CODE = 'RYNX-ADMIN-EXIT-2024'
-
 // Types for system specs
 interface SystemSpecs {
   cpu: {
@@ -61,6 +55,17 @@ interface SystemSpecs {
   }
 }
 
+// Behaviour pushed from the admin (see CLIENT CONFIG below)
+interface ClientConfig {
+  blockedShortcuts: string[]
+  disableTaskManager: boolean
+  timerWarningSeconds: number
+  timerDangerSeconds: number
+  heartbeatIntervalSeconds: number
+  commandPollIntervalSeconds: number
+  sessionPollIntervalSeconds: number
+}
+
 // Persistent storage for device configuration
 const store = new Store({
   name: 'rynxplay-config',
@@ -70,7 +75,69 @@ const store = new Store({
     deviceName: '',
     branchId: null,
     isRegistered: false,
-    isApproved: false
+    isApproved: false,
+    deviceSecret: null,
+    registrationKey: null,
+    clientConfig: null,
+    clientConfigVersion: null
+  }
+})
+
+// Offline journal - session writes waiting to be replayed to Supabase
+type JournalEventType = 'session_time' | 'member_charge' | 'session_end'
+
+interface JournalEntry {
+  id: string
+  type: JournalEventType
+  sessionId: string
+  payload: Record<string, unknown>
+  recordedAt: string
+}
+
+const journalStore = new Store<{ entries: JournalEntry[] }>({
+  name: 'rynxplay-journal',
+  defaults: {
+    entries: []
+  }
+})
+
+// Admin exit codes - verifiers cached from Supabase so staff can exit offline
+interface ExitCodeVerifier {
+  id: string
+  code_type: 'static' | 'totp'
+  code_salt: string | null
+  code_hash: string | null
+  code_iterations: number | null
+  totp_secret: string | null
+  expires_at: string | null
+}
+
+type AdminExitSource = 'terminal' | 'tray' | 'console' | 'command_line'
+
+// Why an exit code was or wasn't accepted
+type ExitAuthorization = 'authorized' | 'invalid' | 'locked_out' | 'no_codes'
+
+interface AdminExitEvent {
+  id: string
+  exitCodeId: string
+  source: AdminExitSource
+  usedAt: string
+}
+
+const exitCodeStore = new Store<{
+  verifiers: ExitCodeVerifier[]
+  pendingEvents: AdminExitEvent[]
+  usedTotpSteps: Record<string, number>
+  failedAttempts: number
+  lockedUntil: string | null
+}>({
+  name: 'rynxplay-exit-codes',
+  defaults: {
+    verifiers: [],
+    pendingEvents: [],
+    usedTotpSteps: {},
+    failedAttempts: 0,
+    lockedUntil: null
   }
 })
 
@@ -82,10 +149,6 @@ let isQuitting = false
 let isAuthorizedExit = false
 let floatingTimerVisible = true
 
-// Session state for floating timer
-let currentSessionTime = 0
-let currentSessionType: 'guest' | 'member' | null = null
-
 // ============================================
 // WINDOWS SYSTEM LOCKDOWN
 // ============================================
@@ -267,25 +330,7 @@ $taskbar = [Native.Win32]::FindWindow("Shell_TrayWnd", $null)
 
 // Register global shortcuts as additional protection
 function registerGlobalShortcuts(): void {
-  const shortcuts = [
-    'Alt+Tab',
-    'Alt+F4',
-    'Alt+Escape',
-    'Ctrl+Escape',
-    'Ctrl+Shift+Escape',
-    'Super',
-    'Super+D',
-    'Super+E', 
-    'Super+R',
-    'Super+Tab',
-    'Super+L',
-    'Super+M',
-    'Super+S',
-    'Super+I',
-    'Super+A',
-    'Super+X',
-    'F11'
-  ]
+  const shortcuts = getClientConfig().blockedShortcuts
 
   shortcuts.forEach(shortcut => {
     try {
@@ -316,7 +361,7 @@ let startMenuMonitorInterval: NodeJS.Timeout | null = null
 function enableLockdownMode(): void {
   console.log('🔒 Enabling lockdown mode...')
   disableWindowsKeyViaRegistry()
-  disableTaskManager()
+  if (getClientConfig().disableTaskManager) disableTaskManager()
   hideTaskbar()
   registerGlobalShortcuts()
   startKeyboardHook() // Start low-level keyboard blocking
@@ -362,6 +407,20 @@ function disableLockdownMode(): void {
   unregisterGlobalShortcuts()
 }
 
+function lockScreen(): void {
+  isLocked = true
+  enableLockdownMode()
+  hideFloatingTimer()
+  mainWindow?.setAlwaysOnTop(true, 'screen-saver')
+  mainWindow?.setKiosk(true)
+  mainWindow?.setSkipTaskbar(true)
+  mainWindow?.setFullScreen(true)
+  mainWindow?.show()
+  mainWindow?.focus()
+  mainWindow?.moveTop()
+  updateTrayMenu()
+}
+
 // Check if Start Menu is open and close it
 let startMenuScriptPath: string | null = null
 
@@ -410,14 +469,16 @@ if ([StartMenuHelper]::IsStartMenuOpen()) {
 // PROCESS PROTECTION
 // ============================================
 
-function checkCommandLineKillCode(): boolean {
+async function checkCommandLineKillCode(): Promise<boolean> {
   const args = process.argv.slice(2)
   for (const arg of args) {
     if (arg.startsWith('--kill-code=')) {
       const code = arg.split('=')[1]
-      if (code === ADMIN_KILL_CODE) {
+      const result = await authorizeExit(code, 'command_line')
+      if (result === 'authorized') {
         return true
       }
+      console.log(`❌ ${describeExitRejection(result)}`)
     }
   }
   return false
@@ -437,19 +498,22 @@ function setupConsoleKillCode(): void {
       console.log('  🎮 RYNXPLAY STATION Client PC')
       console.log('═══════════════════════════════════════════════════════')
       console.log('  To safely exit while locked:')
-      console.log('  1. Type the admin kill code in this console')
+      console.log('  1. Type an admin exit code in this console')
       console.log('  2. Or run with: --kill-code=YOUR_CODE')
       console.log('  3. Or use tray icon → Admin Exit')
       console.log('═══════════════════════════════════════════════════════')
       console.log('')
       
-      rl.on('line', (input) => {
+      rl.on('line', async (input) => {
         const trimmed = input.trim()
-        if (trimmed === ADMIN_KILL_CODE) {
-          console.log('✅ Kill code accepted. Exiting safely...')
-          safeExit()
-        } else if (trimmed.length > 0) {
-          console.log('❌ Invalid kill code')
+        if (trimmed.length === 0) return
+        
+        const result = await authorizeExit(trimmed, 'console')
+        if (result === 'authorized') {
+          console.log('✅ Exit code accepted. Exiting safely...')
+          exitAfterReport()
+        } else {
+          console.log(`❌ ${describeExitRejection(result)}`)
         }
       })
     } catch (e) {
@@ -633,6 +697,7 @@ function createWindow(): void {
 function createFloatingWindow(): void {
   const primaryDisplay = screen.getPrimaryDisplay()
   const { width: screenWidth } = primaryDisplay.workAreaSize
+  const clientConfig = getClientConfig()
 
   floatingWindow = new BrowserWindow({
     width: 310,
@@ -711,6 +776,10 @@ function createFloatingWindow(): void {
           background: rgba(16, 185, 129, 0.2);
           color: #10b981;
         }
+        .session-type.paused {
+          background: rgba(245, 158, 11, 0.2);
+          color: #f59e0b;
+        }
         .timer {
           font-size: 42px;
           font-weight: 700;
@@ -733,6 +802,10 @@ function createFloatingWindow(): void {
           text-shadow: 0 0 30px rgba(239, 68, 68, 0.5); 
           animation: pulse 1s infinite; 
         }
+        .timer.paused {
+          color: #94a3b8;
+          text-shadow: none;
+        }
         .buttons {
           display: flex;
           gap: 8px;
@@ -786,12 +859,11 @@ function createFloatingWindow(): void {
         
         console.log('🎯 Floating timer script loaded');
         
-        // Timer state
-        let currentTime = 0;
-        let elapsedTime = 0;
-        let sessionType = 'guest';
-        let timerInterval = null;
-        let syncCounter = 0;
+        // Latest snapshot of the session clock kept by the main process
+        let clock = { status: 'idle', sessionType: 'guest', timeRemaining: 0, totalSecondsUsed: 0 };
+        
+        // Warning levels from the client config, updated when the admin changes them
+        let thresholds = { warning: ${clientConfig.timerWarningSeconds}, danger: ${clientConfig.timerDangerSeconds} };
         
         function formatTime(seconds) {
           const s = Math.max(0, Math.floor(seconds));
@@ -805,23 +877,27 @@ function createFloatingWindow(): void {
           const timerEl = document.getElementById('timer');
           const typeEl = document.getElementById('sessionType');
           const containerEl = document.getElementById('container');
+          const sessionType = clock.sessionType || 'guest';
+          const isPaused = clock.status === 'paused';
           
           // Display remaining time for guest, elapsed for member
-          timerEl.textContent = formatTime(sessionType === 'guest' ? currentTime : elapsedTime);
+          timerEl.textContent = formatTime(sessionType === 'guest' ? clock.timeRemaining : clock.totalSecondsUsed);
           
           // Session type styling
-          typeEl.textContent = sessionType === 'member' ? 'MEMBER' : 'GUEST';
-          typeEl.className = 'session-type ' + sessionType;
+          typeEl.textContent = isPaused ? 'PAUSED' : (sessionType === 'member' ? 'MEMBER' : 'GUEST');
+          typeEl.className = 'session-type ' + (isPaused ? 'paused' : sessionType);
           
           // Timer and container styling based on warning level
           timerEl.className = 'timer';
           containerEl.className = 'container';
           
-          if (sessionType === 'guest') {
-            if (currentTime <= 60) {
+          if (isPaused) {
+            timerEl.classList.add('paused');
+          } else if (sessionType === 'guest') {
+            if (clock.timeRemaining <= thresholds.danger) {
               timerEl.classList.add('danger');
               containerEl.classList.add('danger');
-            } else if (currentTime <= 300) {
+            } else if (clock.timeRemaining <= thresholds.warning) {
               timerEl.classList.add('warning');
               containerEl.classList.add('warning');
             }
@@ -830,50 +906,6 @@ function createFloatingWindow(): void {
           }
         }
         
-        function startTimer() {
-          console.log('🎯 startTimer called, currentTime:', currentTime, 'elapsed:', elapsedTime);
-          
-          // Clear existing interval
-          if (timerInterval) {
-            clearInterval(timerInterval);
-          }
-          
-          syncCounter = 0;
-          
-          // Start countdown/countup
-          timerInterval = setInterval(() => {
-            // Always increment elapsed time
-            elapsedTime++;
-            
-            if (sessionType === 'guest') {
-              // Countdown for guest
-              currentTime = Math.max(0, currentTime - 1);
-              
-              if (currentTime <= 0) {
-                // Time's up - notify main process
-                console.log('🎯 Time up! Sending timer-ended');
-                ipcRenderer.send('timer-ended');
-                clearInterval(timerInterval);
-              }
-            }
-            
-            // Sync to main process every 5 seconds
-            syncCounter++;
-            if (syncCounter >= 5) {
-              syncCounter = 0;
-              ipcRenderer.send('timer-sync', { 
-                timeRemaining: currentTime, 
-                totalSecondsUsed: elapsedTime,
-                sessionType: sessionType 
-              });
-            }
-            
-            updateDisplay();
-          }, 1000);
-          
-          console.log('🎯 Timer interval started');
-        }
-        
         function hideTimer() {
           console.log('🎯 hideTimer clicked');
           ipcRenderer.send('hide-floating-timer');
@@ -884,25 +916,14 @@ function createFloatingWindow(): void {
           ipcRenderer.send('show-session-screen');
         }
         
-        // Receive timer updates from main process
-        ipcRenderer.on('update-timer', (event, data) => {
-          console.log('🎯 Received update-timer:', data);
-          currentTime = data.time;
-          sessionType = data.sessionType;
-          elapsedTime = data.elapsed || 0;
+        // The main process owns the clock; this window only shows it
+        ipcRenderer.on('session-clock', (event, snapshot) => {
+          clock = snapshot;
           updateDisplay();
-          startTimer();
         });
         
-        // Stop timer when session ends
-        ipcRenderer.on('stop-timer', () => {
-          console.log('🎯 Received stop-timer');
-          if (timerInterval) {
-            clearInterval(timerInterval);
-            timerInterval = null;
-          }
-          currentTime = 0;
-          elapsedTime = 0;
+        ipcRenderer.on('client-config', (event, config) => {
+          thresholds = { warning: config.timerWarningSeconds, danger: config.timerDangerSeconds };
           updateDisplay();
         });
         
@@ -937,20 +958,194 @@ function hideFloatingTimer(): void {
   }
 }
 
-function updateFloatingTimer(time: number, sessionType: 'guest' | 'member', elapsed: number = 0): void {
-  console.log(`🕐 updateFloatingTimer: time=${time}, type=${sessionType}, elapsed=${elapsed}`)
-  
-  currentSessionTime = time
-  currentSessionType = sessionType
-  
-  if (floatingWindow && !isLocked) {
-    console.log('🕐 Sending update-timer to floating window')
-    floatingWindow.webContents.send('update-timer', { time, sessionType, elapsed })
-  } else {
-    console.log('🕐 NOT sending - floatingWindow:', !!floatingWindow, 'isLocked:', isLocked)
+// ============================================
+// SESSION CLOCK
+// ============================================
+// The one place session time is counted. Time is measured against
+// performance.now(), which is monotonic, so wall clock changes don't move
+// it, and the renderer only ever displays snapshots of it, so reloading
+// the renderer doesn't reset it. The clock keeps the remaining and used
+// seconds from the last time it was (re)based plus when it started running;
+// the current values are always worked out from those.
+
+type SessionClockStatus = 'idle' | 'running' | 'paused' | 'expired'
+
+interface SessionClockSnapshot {
+  sessionId: string | null
+  sessionType: 'guest' | 'member' | null
+  status: SessionClockStatus
+  timeRemaining: number
+  totalSecondsUsed: number
+}
+
+const SESSION_CLOCK_TICK_MS = 1000
+const SESSION_CLOCK_SYNC_INTERVAL_MS = 5000
+
+const sessionClock = {
+  sessionId: null as string | null,
+  sessionType: null as 'guest' | 'member' | null,
+  status: 'idle' as SessionClockStatus,
+  baseRemaining: 0,
+  baseUsed: 0,
+  runningSince: 0
+}
+
+let sessionClockInterval: ReturnType<typeof setInterval> | null = null
+let sessionClockLastSync = 0
+
+function getSessionClockSnapshot(): SessionClockSnapshot {
+  let timeRemaining = sessionClock.baseRemaining
+  let totalSecondsUsed = sessionClock.baseUsed
+
+  if (sessionClock.status === 'running') {
+    const elapsed = Math.floor((performance.now() - sessionClock.runningSince) / 1000)
+
+    if (sessionClock.sessionType === 'guest') {
+      timeRemaining = Math.max(0, sessionClock.baseRemaining - elapsed)
+      totalSecondsUsed = sessionClock.baseUsed + Math.min(elapsed, sessionClock.baseRemaining)
+    } else {
+      totalSecondsUsed = sessionClock.baseUsed + elapsed
+    }
+  }
+
+  return {
+    sessionId: sessionClock.sessionId,
+    sessionType: sessionClock.sessionType,
+    status: sessionClock.status,
+    timeRemaining,
+    totalSecondsUsed
+  }
+}
+
+// Fold the running time into the base values so they can be changed
+function rebaseSessionClock(): SessionClockSnapshot {
+  const snapshot = getSessionClockSnapshot()
+  sessionClock.baseRemaining = snapshot.timeRemaining
+  sessionClock.baseUsed = snapshot.totalSecondsUsed
+  sessionClock.runningSince = performance.now()
+  return snapshot
+}
+
+function broadcastSessionClock(snapshot: SessionClockSnapshot): void {
+  mainWindow?.webContents.send('session-clock', snapshot)
+  floatingWindow?.webContents.send('session-clock', snapshot)
+}
+
+function syncSessionClock(snapshot: SessionClockSnapshot): void {
+  sessionClockLastSync = performance.now()
+
+  // Local guest sessions have no row to write to
+  if (!snapshot.sessionId || snapshot.sessionId === 'guest-local') return
+  syncSessionTimeToDatabase(snapshot.sessionId, snapshot.timeRemaining, snapshot.totalSecondsUsed)
+}
+
+function tickSessionClock(): void {
+  if (sessionClock.status !== 'running') return
+
+  const snapshot = getSessionClockSnapshot()
+
+  if (sessionClock.sessionType === 'guest' && snapshot.timeRemaining <= 0) {
+    console.log('⏱️ Session clock reached zero!')
+    sessionClock.status = 'expired'
+    sessionClock.baseRemaining = 0
+    sessionClock.baseUsed = snapshot.totalSecondsUsed
+
+    const expired = getSessionClockSnapshot()
+    syncSessionClock(expired)
+    broadcastSessionClock(expired)
+
+    // Lock right away; the renderer ends the session when it hears about it
+    lockScreen()
+    mainWindow?.webContents.send('timer-ended')
+    return
+  }
+
+  broadcastSessionClock(snapshot)
+
+  if (performance.now() - sessionClockLastSync >= SESSION_CLOCK_SYNC_INTERVAL_MS) {
+    syncSessionClock(snapshot)
   }
 }
 
+function startSessionClock(
+  sessionId: string,
+  sessionType: 'guest' | 'member',
+  timeRemaining: number,
+  totalSecondsUsed: number
+): SessionClockSnapshot {
+  // Already counting this session (e.g. the renderer reloaded) - keep going
+  if (sessionClock.sessionId === sessionId && sessionClock.status === 'running') {
+    return getSessionClockSnapshot()
+  }
+
+  console.log(`🕐 Session clock start: session=${sessionId.slice(0, 8)}, type=${sessionType}, remaining=${timeRemaining}, used=${totalSecondsUsed}`)
+
+  sessionClock.sessionId = sessionId
+  sessionClock.sessionType = sessionType
+  sessionClock.status = 'running'
+  sessionClock.baseRemaining = Math.max(0, Math.floor(timeRemaining))
+  sessionClock.baseUsed = Math.max(0, Math.floor(totalSecondsUsed))
+  sessionClock.runningSince = performance.now()
+  sessionClockLastSync = performance.now()
+
+  if (!sessionClockInterval) {
+    sessionClockInterval = setInterval(tickSessionClock, SESSION_CLOCK_TICK_MS)
+  }
+
+  const snapshot = getSessionClockSnapshot()
+  broadcastSessionClock(snapshot)
+  return snapshot
+}
+
+function pauseSessionClock(): SessionClockSnapshot {
+  if (sessionClock.status !== 'running') return getSessionClockSnapshot()
+
+  rebaseSessionClock()
+  sessionClock.status = 'paused'
+
+  const snapshot = getSessionClockSnapshot()
+  broadcastSessionClock(snapshot)
+  return snapshot
+}
+
+function addSessionClockTime(seconds: number): SessionClockSnapshot {
+  if (sessionClock.status !== 'running' && sessionClock.status !== 'paused') {
+    return getSessionClockSnapshot()
+  }
+
+  rebaseSessionClock()
+  sessionClock.baseRemaining += Math.max(0, Math.floor(seconds))
+
+  // Sync right away so the database has the new time before the next tick
+  const snapshot = getSessionClockSnapshot()
+  syncSessionClock(snapshot)
+  broadcastSessionClock(snapshot)
+  return snapshot
+}
+
+function stopSessionClock(): SessionClockSnapshot {
+  if (sessionClock.status === 'running') {
+    rebaseSessionClock()
+  }
+  const snapshot = getSessionClockSnapshot()
+
+  console.log(`🕐 Session clock stop: remaining=${snapshot.timeRemaining}, used=${snapshot.totalSecondsUsed}`)
+
+  if (sessionClockInterval) {
+    clearInterval(sessionClockInterval)
+    sessionClockInterval = null
+  }
+
+  sessionClock.sessionId = null
+  sessionClock.sessionType = null
+  sessionClock.status = 'idle'
+  sessionClock.baseRemaining = 0
+  sessionClock.baseUsed = 0
+
+  broadcastSessionClock(getSessionClockSnapshot())
+  return snapshot
+}
+
 // ============================================
 // DIRECT SUPABASE SYNC FROM MAIN PROCESS
 // ============================================
@@ -971,34 +1166,616 @@ async function syncSessionTimeToDatabase(
     
     console.log(`💾 Direct DB sync: session=${sessionId.slice(0,8)}, remaining=${timeRemaining}, used=${totalSecondsUsed}`)
     
-    const response = await fetch(`${supabaseUrl}/rest/v1/sessions?id=eq.${sessionId}`, {
-      method: 'PATCH',
+    // The server works out the time left from the time used, and only
+    // while the session runs; a session staff ended keeps the time that
+    // was left when they did
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/sync_session_time`, {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'apikey': supabaseKey,
         'Authorization': `Bearer ${supabaseKey}`,
-        'Prefer': 'return=minimal'
+        'Prefer': 'return=minimal',
+        ...getDeviceAuthHeaders()
       },
       body: JSON.stringify({
-        time_remaining_seconds: timeRemaining,
-        total_seconds_used: totalSecondsUsed,
-        updated_at: new Date().toISOString()
+        p_session_id: sessionId,
+        p_total_seconds_used: totalSecondsUsed
       })
     })
     
     if (!response.ok) {
       console.error('❌ DB sync failed:', response.status, await response.text())
+      if (response.status >= 500) {
+        recordJournalEntry('session_time', sessionId, { time_remaining_seconds: timeRemaining, total_seconds_used: totalSecondsUsed })
+      }
       return false
     }
     
     console.log('✅ DB sync successful')
+    
+    // Back online - send anything recorded while we weren't
+    if (journalStore.get('entries').length > 0) {
+      replayJournal()
+    }
     return true
   } catch (error) {
     console.error('❌ DB sync error:', error)
+    recordJournalEntry('session_time', sessionId, { time_remaining_seconds: timeRemaining, total_seconds_used: totalSecondsUsed })
     return false
   }
 }
 
+// ============================================
+// OFFLINE SESSION JOURNAL
+// ============================================
+// Session writes that can't reach Supabase are kept in their own
+// electron-store file and replayed in order through apply_client_event()
+// once the connection is back. Entries hold running totals, so only the
+// newest one of a kind per session is kept. The server resolves conflicts
+// (e.g. staff ended the session meanwhile) and flags them for the admin.
+
+const JOURNAL_REPLAY_INTERVAL_MS = 15000
+
+let journalReplayInterval: ReturnType<typeof setInterval> | null = null
+let isReplayingJournal = false
+
+function recordJournalEntry(type: JournalEventType, sessionId: string, payload: Record<string, unknown>): JournalEntry {
+  const entry: JournalEntry = {
+    id: uuidv4(),
+    type,
+    sessionId,
+    payload,
+    recordedAt: new Date().toISOString()
+  }
+  
+  const entries = journalStore.get('entries').filter(e => !(e.type === type && e.sessionId === sessionId))
+  journalStore.set('entries', [...entries, entry])
+  console.log(`📓 Journaled ${type} for session ${sessionId.slice(0, 8)} (${entries.length + 1} pending)`)
+  
+  startJournalReplay()
+  return entry
+}
+
+function startJournalReplay(): void {
+  if (journalReplayInterval) return
+  journalReplayInterval = setInterval(replayJournal, JOURNAL_REPLAY_INTERVAL_MS)
+}
+
+function stopJournalReplay(): void {
+  if (journalReplayInterval) {
+    clearInterval(journalReplayInterval)
+    journalReplayInterval = null
+  }
+}
+
+// Only errors that replaying the same entry can never get past drop it:
+// a session that no longer exists, or a payload the database refuses
+// (SQLSTATE classes 22 data exception and 23 integrity violation).
+function isPermanentJournalError(status: number, body: string): boolean {
+  if (status !== 400) return false
+  
+  try {
+    const error = JSON.parse(body) as { code?: string; message?: string }
+    return error.message === 'session_not_found'
+      || /^2[23]/.test(error.code ?? '')
+  } catch {
+    return false
+  }
+}
+
+async function replayJournal(): Promise<void> {
+  if (isReplayingJournal) return
+  
+  const supabaseUrl = store.get('supabase_url') as string
+  const supabaseKey = store.get('supabase_key') as string
+  const deviceId = store.get('deviceId') as string | null
+  
+  if (!supabaseUrl || !supabaseKey || !deviceId) return
+  
+  isReplayingJournal = true
+  
+  try {
+    for (const entry of journalStore.get('entries')) {
+      let response: Response
+      
+      try {
+        response = await fetch(`${supabaseUrl}/rest/v1/rpc/apply_client_event`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'apikey': supabaseKey,
+            'Authorization': `Bearer ${supabaseKey}`,
+            ...getDeviceAuthHeaders()
+          },
+          body: JSON.stringify({
+            p_event_id: entry.id,
+            p_device_id: deviceId,
+            p_session_id: entry.sessionId,
+            p_event_type: entry.type,
+            p_payload: entry.payload,
+            p_recorded_at: entry.recordedAt
+          })
+        })
+      } catch {
+        // Still offline - keep the rest in order for the next attempt
+        return
+      }
+      
+      if (response.ok) {
+        const result = await response.json() as { status?: string; conflict_reason?: string | null }
+        if (result?.status === 'conflict') {
+          console.warn(`📓 ${entry.type} for session ${entry.sessionId.slice(0, 8)} conflicted: ${result.conflict_reason}`)
+        }
+      } else {
+        const body = await response.text()
+        
+        if (!isPermanentJournalError(response.status, body)) {
+          // Auth, credentials or the server itself - keep everything in
+          // order and try again later
+          console.warn(`📓 Replay of ${entry.type} failed, will retry:`, response.status, body)
+          return
+        }
+        
+        // Rejected for good (e.g. the session was deleted); replaying won't help
+        console.error(`📓 Dropping ${entry.type} entry:`, response.status, body)
+      }
+      
+      journalStore.set('entries', journalStore.get('entries').filter(e => e.id !== entry.id))
+    }
+    
+    console.log('📓 Journal replayed')
+    stopJournalReplay()
+  } finally {
+    isReplayingJournal = false
+  }
+}
+
+// ============================================
+// CLIENT CONFIG
+// ============================================
+// Settings the admin pushes per branch or per PC. The renderer fetches the
+// merged document whenever the device row says there's a new version and
+// hands it over here; only the settings that pass validation are used, the
+// rest fall back to the defaults below. The last applied config is kept in
+// rynxplay-config so the PC starts with it even when offline. Keep the
+// defaults and limits in sync with the admin app's lib/clientConfig.ts.
+
+const DEFAULT_CLIENT_CONFIG: ClientConfig = {
+  blockedShortcuts: [
+    'Alt+Tab',
+    'Alt+F4',
+    'Alt+Escape',
+    'Ctrl+Escape',
+    'Ctrl+Shift+Escape',
+    'Super',
+    'Super+D',
+    'Super+E',
+    'Super+R',
+    'Super+Tab',
+    'Super+L',
+    'Super+M',
+    'Super+S',
+    'Super+I',
+    'Super+A',
+    'Super+X',
+    'F11'
+  ],
+  disableTaskManager: true,
+  timerWarningSeconds: 300,
+  timerDangerSeconds: 60,
+  heartbeatIntervalSeconds: 60,
+  commandPollIntervalSeconds: 3,
+  sessionPollIntervalSeconds: 5
+}
+
+type NumericClientConfigKey = Exclude<keyof ClientConfig, 'blockedShortcuts' | 'disableTaskManager'>
+
+const CLIENT_CONFIG_LIMITS: Record<NumericClientConfigKey, [number, number]> = {
+  timerWarningSeconds: [0, 3600],
+  timerDangerSeconds: [0, 3600],
+  heartbeatIntervalSeconds: [5, 90],
+  commandPollIntervalSeconds: [1, 60],
+  sessionPollIntervalSeconds: [1, 60]
+}
+
+const SHORTCUT_PATTERN = /^([A-Za-z]+\+)*[A-Za-z0-9]+$/
+
+function validateClientConfig(raw: unknown): ClientConfig {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const config: ClientConfig = { ...DEFAULT_CLIENT_CONFIG }
+  
+  if (input.blockedShortcuts !== undefined) {
+    if (Array.isArray(input.blockedShortcuts) && input.blockedShortcuts.every(s => typeof s === 'string' && SHORTCUT_PATTERN.test(s))) {
+      config.blockedShortcuts = input.blockedShortcuts as string[]
+    } else {
+      console.warn('⚙️ Ignoring invalid blockedShortcuts')
+    }
+  }
+  
+  if (input.disableTaskManager !== undefined) {
+    if (typeof input.disableTaskManager === 'boolean') {
+      config.disableTaskManager = input.disableTaskManager
+    } else {
+      console.warn('⚙️ Ignoring invalid disableTaskManager')
+    }
+  }
+  
+  for (const [key, [min, max]] of Object.entries(CLIENT_CONFIG_LIMITS) as [NumericClientConfigKey, [number, number]][]) {
+    const value = input[key]
+    if (value === undefined) continue
+    
+    if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) {
+      config[key] = value
+    } else {
+      console.warn(`⚙️ Ignoring invalid ${key}:`, value)
+    }
+  }
+  
+  if (config.timerDangerSeconds > config.timerWarningSeconds) {
+    config.timerDangerSeconds = config.timerWarningSeconds
+  }
+  
+  return config
+}
+
+function getClientConfig(): ClientConfig {
+  return validateClientConfig(store.get('clientConfig'))
+}
+
+function applyClientConfig(raw: unknown, version: number): ClientConfig {
+  const previous = getClientConfig()
+  const config = validateClientConfig(raw)
+  
+  store.set('clientConfig', config)
+  store.set('clientConfigVersion', version)
+  console.log(`⚙️ Client config version ${version} applied`)
+  
+  // Lockdown settings take effect right away if the PC is locked
+  if (isLocked) {
+    unregisterGlobalShortcuts()
+    registerGlobalShortcuts()
+    
+    if (config.disableTaskManager !== previous.disableTaskManager) {
+      if (config.disableTaskManager) disableTaskManager()
+      else enableTaskManager()
+    }
+  }
+  
+  floatingWindow?.webContents.send('client-config', config)
+  return config
+}
+
+// ============================================
+// ADMIN EXIT CODES
+// ============================================
+// Admins create exit codes for the whole org or one PC in the admin app.
+// The PC caches the verifiers that apply to it (salted hashes and TOTP
+// secrets, never plain codes) so staff can get out while it's offline, and
+// reports every exit through record_admin_exit() once it can. Normalization
+// and hashing must match the admin app's lib/exitCodes.ts.
+//
+// Every few wrong codes lock code entry for a while, doubling each time, and
+// the count survives restarts. A PC with nothing cached fetches the codes
+// before checking one, so a code created after its last refresh still works.
+
+const EXIT_CODE_REFRESH_INTERVAL_MS = 10 * 60 * 1000
+const EXIT_CODE_MAX_ATTEMPTS = 5
+const EXIT_CODE_LOCKOUT_BASE_MS = 30 * 1000
+const EXIT_CODE_LOCKOUT_MAX_MS = 15 * 60 * 1000
+const TOTP_STEP_SECONDS = 30
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+let exitCodeRefreshInterval: ReturnType<typeof setInterval> | null = null
+
+function normalizeExitCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase()
+}
+
+function decodeBase32(value: string): Buffer {
+  let bits = ''
+  for (const char of value.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index !== -1) bits += index.toString(2).padStart(5, '0')
+  }
+  
+  const bytes: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2))
+  }
+  return Buffer.from(bytes)
+}
+
+// RFC 6238 with the authenticator app defaults: HMAC-SHA1, 6 digits
+function getTotpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0)
+  counter.writeUInt32BE(step >>> 0, 4)
+  
+  const hmac = createHmac('sha1', secret).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).toString().padStart(6, '0')
+}
+
+// Returns the id of the exit code that matches, or null
+function verifyExitCode(code: string): string | null {
+  const normalized = normalizeExitCode(code)
+  if (!normalized) return null
+  
+  const now = Date.now()
+  
+  for (const verifier of exitCodeStore.get('verifiers')) {
+    if (verifier.expires_at && new Date(verifier.expires_at).getTime() <= now) continue
+    
+    if (verifier.code_type === 'static') {
+      if (!verifier.code_salt || !verifier.code_hash || !verifier.code_iterations) continue
+      
+      const expected = Buffer.from(verifier.code_hash, 'hex')
+      if (expected.length === 0) continue
+      
+      const actual = pbkdf2Sync(normalized, Buffer.from(verifier.code_salt, 'hex'), verifier.code_iterations, expected.length, 'sha256')
+      if (timingSafeEqual(actual, expected)) return verifier.id
+    } else if (verifier.code_type === 'totp' && verifier.totp_secret && /^\d{6}$/.test(normalized)) {
+      const secret = decodeBase32(verifier.totp_secret)
+      const currentStep = Math.floor(now / 1000 / TOTP_STEP_SECONDS)
+      const usedSteps = exitCodeStore.get('usedTotpSteps')
+      
+      // One step either side allows for clock drift
+      for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+        // A code that already opened this PC can't be used again
+        if (step <= (usedSteps[verifier.id] ?? -1)) continue
+        
+        if (timingSafeEqual(Buffer.from(getTotpCode(secret, step)), Buffer.from(normalized))) {
+          exitCodeStore.set('usedTotpSteps', { ...usedSteps, [verifier.id]: step })
+          return verifier.id
+        }
+      }
+    }
+  }
+  
+  return null
+}
+
+// Milliseconds until codes are accepted again, 0 when not locked out
+function getExitLockoutRemainingMs(): number {
+  const lockedUntil = exitCodeStore.get('lockedUntil')
+  return lockedUntil ? Math.max(0, new Date(lockedUntil).getTime() - Date.now()) : 0
+}
+
+function recordFailedExitAttempt(): void {
+  const failedAttempts = exitCodeStore.get('failedAttempts') + 1
+  exitCodeStore.set('failedAttempts', failedAttempts)
+  
+  if (failedAttempts % EXIT_CODE_MAX_ATTEMPTS !== 0) return
+  
+  const lockouts = failedAttempts / EXIT_CODE_MAX_ATTEMPTS
+  const lockoutMs = Math.min(EXIT_CODE_LOCKOUT_BASE_MS * 2 ** (lockouts - 1), EXIT_CODE_LOCKOUT_MAX_MS)
+  exitCodeStore.set('lockedUntil', new Date(Date.now() + lockoutMs).toISOString())
+  console.warn(`🔑 ${failedAttempts} wrong exit codes, locked for ${Math.round(lockoutMs / 1000)}s`)
+}
+
+function describeExitRejection(result: ExitAuthorization): string {
+  switch (result) {
+    case 'locked_out':
+      return `Too many wrong codes. Try again in ${Math.ceil(getExitLockoutRemainingMs() / 1000)}s.`
+    case 'no_codes':
+      return 'No exit codes are available on this PC. Connect it to the network and create one in the admin app.'
+    default:
+      return 'The exit code is incorrect.'
+  }
+}
+
+// Checks the code and queues the audit event for the admin
+async function authorizeExit(code: string | undefined, source: AdminExitSource): Promise<ExitAuthorization> {
+  if (!code) return 'invalid'
+  if (getExitLockoutRemainingMs() > 0) return 'locked_out'
+  
+  if (exitCodeStore.get('verifiers').length === 0) {
+    await refreshExitCodeVerifiers()
+    if (exitCodeStore.get('verifiers').length === 0) return 'no_codes'
+  }
+  
+  const exitCodeId = verifyExitCode(code)
+  if (!exitCodeId) {
+    recordFailedExitAttempt()
+    return 'invalid'
+  }
+  
+  exitCodeStore.set('failedAttempts', 0)
+  exitCodeStore.set('lockedUntil', null)
+  
+  const event: AdminExitEvent = {
+    id: uuidv4(),
+    exitCodeId,
+    source,
+    usedAt: new Date().toISOString()
+  }
+  exitCodeStore.set('pendingEvents', [...exitCodeStore.get('pendingEvents'), event])
+  console.log(`🔑 Admin exit authorized (${source})`)
+  return 'authorized'
+}
+
+async function refreshExitCodeVerifiers(): Promise<void> {
+  const supabaseUrl = store.get('supabase_url') as string
+  const supabaseKey = store.get('supabase_key') as string
+  const deviceHeaders = getDeviceAuthHeaders()
+  
+  if (!supabaseUrl || !supabaseKey || !deviceHeaders['x-device-id']) return
+  
+  await flushExitEvents()
+  
+  try {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/get_exit_code_verifiers`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseKey,
+        'Authorization': `Bearer ${supabaseKey}`,
+        ...deviceHeaders
+      },
+      body: '{}'
+    })
+    
+    // Keep the cached verifiers on any failure, or the PC could lock staff out
+    if (!response.ok) {
+      console.error('🔑 Failed to refresh exit codes:', response.status, await response.text())
+      return
+    }
+    
+    const verifiers = await response.json() as ExitCodeVerifier[]
+    exitCodeStore.set('verifiers', verifiers.map(v => ({
+      id: v.id,
+      code_type: v.code_type,
+      code_salt: v.code_salt,
+      code_hash: v.code_hash,
+      code_iterations: v.code_iterations,
+      totp_secret: v.totp_secret,
+      expires_at: v.expires_at
+    })))
+    
+    // Forget used TOTP steps for codes that are gone
+    const usedSteps = exitCodeStore.get('usedTotpSteps')
+    exitCodeStore.set('usedTotpSteps', Object.fromEntries(
+      Object.entries(usedSteps).filter(([id]) => verifiers.some(v => v.id === id))
+    ))
+    console.log(`🔑 ${verifiers.length} exit code(s) cached`)
+  } catch {
+    // Offline - the cached verifiers still work
+  }
+}
+
+function startExitCodeRefresh(): void {
+  if (exitCodeRefreshInterval) return
+  exitCodeRefreshInterval = setInterval(refreshExitCodeVerifiers, EXIT_CODE_REFRESH_INTERVAL_MS)
+}
+
+async function flushExitEvents(): Promise<void> {
+  const supabaseUrl = store.get('supabase_url') as string
+  const supabaseKey = store.get('supabase_key') as string
+  
+  if (!supabaseUrl || !supabaseKey) return
+  
+  for (const event of exitCodeStore.get('pendingEvents')) {
+    let response: Response
+    
+    try {
+      response = await fetch(`${supabaseUrl}/rest/v1/rpc/record_admin_exit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': supabaseKey,
+          'Authorization': `Bearer ${supabaseKey}`,
+          ...getDeviceAuthHeaders()
+        },
+        body: JSON.stringify({
+          p_event_id: event.id,
+          p_exit_code_id: event.exitCodeId,
+          p_source: event.source,
+          p_used_at: event.usedAt
+        })
+      })
+    } catch {
+      return
+    }
+    
+    if (response.status >= 500 || response.status === 429) return
+    
+    if (!response.ok) {
+      console.error('🔑 Dropping exit event:', response.status, await response.text())
+    }
+    
+    exitCodeStore.set('pendingEvents', exitCodeStore.get('pendingEvents').filter(e => e.id !== event.id))
+  }
+}
+
+// Gives the audit event a moment to reach the server; it stays queued for
+// the next start if it doesn't
+function exitAfterReport(): void {
+  const timeout = new Promise<void>(resolve => setTimeout(resolve, 3000))
+  Promise.race([flushExitEvents(), timeout]).finally(safeExit)
+}
+
+// ============================================
+// WAKE-ON-LAN
+// ============================================
+// The admin panel is a web app and can't reach the shop LAN, so an online
+// PC on the same branch relays the magic packet for a PC that is off.
+
+const MAC_PATTERN = /^([0-9a-f]{2}[:-]){5}[0-9a-f]{2}$/i
+
+interface WakeOnLanResult {
+  success: boolean
+  error?: string
+  broadcasts?: string[]
+}
+
+// 6 x 0xFF, then the target MAC 16 times
+function createMagicPacket(mac: string): Buffer {
+  const macBytes = Buffer.from(mac.replace(/[:-]/g, ''), 'hex')
+  const packet = Buffer.alloc(102, 0xff)
+  for (let i = 0; i < 16; i++) {
+    macBytes.copy(packet, 6 + i * 6)
+  }
+  return packet
+}
+
+// Directed broadcast of every IPv4 network this PC is on, plus the limited
+// broadcast for switches that drop directed ones
+function getBroadcastAddresses(): string[] {
+  const addresses = new Set<string>(['255.255.255.255'])
+  
+  for (const infos of Object.values(os.networkInterfaces())) {
+    for (const info of infos || []) {
+      if (info.family !== 'IPv4' || info.internal) continue
+      const ip = info.address.split('.').map(Number)
+      const mask = info.netmask.split('.').map(Number)
+      addresses.add(ip.map((part, i) => part | (~mask[i] & 255)).join('.'))
+    }
+  }
+  
+  return [...addresses]
+}
+
+async function sendWakeOnLan(mac: string): Promise<WakeOnLanResult> {
+  if (typeof mac !== 'string' || !MAC_PATTERN.test(mac) || /^(00[:-]){5}00$/.test(mac)) {
+    return { success: false, error: 'Invalid MAC address' }
+  }
+  
+  const packet = createMagicPacket(mac)
+  const broadcasts = getBroadcastAddresses()
+  const socket = dgram.createSocket('udp4')
+  
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(() => {
+        socket.setBroadcast(true)
+        resolve()
+      })
+    })
+    
+    // Most network cards listen on port 9, some older ones on 7
+    const sends = broadcasts.flatMap(address => [9, 7].map(port =>
+      new Promise<void>((resolve, reject) => {
+        socket.send(packet, port, address, (error) => error ? reject(error) : resolve())
+      })
+    ))
+    const results = await Promise.allSettled(sends)
+    
+    if (!results.some(r => r.status === 'fulfilled')) {
+      return { success: false, error: 'Could not send the wake packet on this network' }
+    }
+    
+    console.log(`⏰ Wake packet for ${mac} sent to ${broadcasts.join(', ')}`)
+    return { success: true, broadcasts }
+  } catch (error) {
+    console.error('⏰ Wake-on-LAN failed:', error)
+    return { success: false, error: String(error) }
+  } finally {
+    socket.close()
+  }
+}
+
 // ============================================
 // SYSTEM TRAY
 // ============================================
@@ -1065,20 +1842,23 @@ function updateTrayMenu(): void {
       label: '🔑 Admin Exit...',
       click: async () => {
         if (process.platform === 'win32') {
-          const psScript = `[System.Reflection.Assembly]::LoadWithPartialName('Microsoft.VisualBasic') | Out-Null; [Microsoft.VisualBasic.Interaction]::InputBox('Enter Admin Kill Code:', 'RYNXPLAY Admin Exit', '')`
-          exec(`powershell -Command "${psScript}"`, (error, stdout) => {
+          const psScript = `[System.Reflection.Assembly]::LoadWithPartialName('Microsoft.VisualBasic') | Out-Null; [Microsoft.VisualBasic.Interaction]::InputBox('Enter Admin Exit Code:', 'RYNXPLAY Admin Exit', '')`
+          exec(`powershell -Command "${psScript}"`, async (error, stdout) => {
             const code = stdout.trim()
-            if (code === ADMIN_KILL_CODE) {
-              safeExit()
-            } else if (code.length > 0) {
-              dialog.showErrorBox('Invalid Code', 'The kill code is incorrect.')
+            if (code.length === 0) return
+            
+            const result = await authorizeExit(code, 'tray')
+            if (result === 'authorized') {
+              exitAfterReport()
+            } else {
+              dialog.showErrorBox('Invalid Code', describeExitRejection(result))
             }
           })
         } else {
           dialog.showMessageBox({
             type: 'info',
             title: 'Admin Exit',
-            message: `To exit, run with:\n--kill-code=${ADMIN_KILL_CODE}`,
+            message: 'To exit, run with:\n--kill-code=<admin exit code>',
             buttons: ['OK']
           })
         }
@@ -1105,6 +1885,55 @@ function getOrCreateDeviceCode(): string {
   return deviceCode
 }
 
+// Proves this PC registered its device; never leaves the PC except to
+// register and to claim the device secret
+function getOrCreateRegistrationKey(): string {
+  let registrationKey = store.get('registrationKey') as string | null
+  
+  if (!registrationKey) {
+    registrationKey = randomBytes(32).toString('hex')
+    store.set('registrationKey', registrationKey)
+  }
+  
+  return registrationKey
+}
+
+// Device credentials sent with every request so the server only lets this
+// PC write its own rows
+function getDeviceAuthHeaders(): Record<string, string> {
+  const deviceId = store.get('deviceId') as string | null
+  const deviceSecret = store.get('deviceSecret') as string | null
+  
+  if (!deviceId || !deviceSecret) return {}
+  return { 'x-device-id': deviceId, 'x-device-secret': deviceSecret }
+}
+
+// The renderer can't set headers on a websocket, so the credentials are
+// added to the realtime socket's upgrade request here. Realtime passes them
+// on to the channel policies, which is how the private presence channel
+// knows which PC is joining.
+function setupRealtimeDeviceHeaders(): void {
+  session.defaultSession.webRequest.onBeforeSendHeaders(
+    { urls: ['wss://*/realtime/v1/*', 'ws://*/realtime/v1/*'] },
+    (details, callback) => {
+      const supabaseUrl = store.get('supabase_url') as string | undefined
+      let isSupabase = false
+      
+      try {
+        isSupabase = !!supabaseUrl && new URL(details.url).host === new URL(supabaseUrl).host
+      } catch {
+        // Not a URL we can compare; send nothing extra
+      }
+      
+      callback({
+        requestHeaders: isSupabase
+          ? { ...details.requestHeaders, ...getDeviceAuthHeaders() }
+          : details.requestHeaders
+      })
+    }
+  )
+}
+
 async function getSystemSpecs(): Promise<SystemSpecs> {
   try {
     const [cpu, mem, graphics, diskLayout, osInfo, networkInterfaces] = await Promise.all([
@@ -1158,21 +1987,12 @@ function setupIpcHandlers(): void {
     return true
   })
   ipcMain.handle('get-device-code', () => getOrCreateDeviceCode())
+  ipcMain.handle('get-registration-key', () => getOrCreateRegistrationKey())
   ipcMain.handle('get-system-specs', async () => await getSystemSpecs())
   ipcMain.handle('generate-qr-code', async (_event, data: string) => await generateQRCode(data))
 
   ipcMain.handle('lock-screen', () => {
-    isLocked = true
-    enableLockdownMode()
-    hideFloatingTimer()
-    mainWindow?.setAlwaysOnTop(true, 'screen-saver')
-    mainWindow?.setKiosk(true)
-    mainWindow?.setSkipTaskbar(true)
-    mainWindow?.setFullScreen(true)
-    mainWindow?.show()
-    mainWindow?.focus()
-    mainWindow?.moveTop()
-    updateTrayMenu()
+    lockScreen()
     return true
   })
 
@@ -1193,28 +2013,31 @@ function setupIpcHandlers(): void {
   })
 
   ipcMain.handle('get-lock-status', () => isLocked)
-  ipcMain.handle('update-floating-timer', (_event, time: number, sessionType: 'guest' | 'member', elapsed: number = 0) => {
-    updateFloatingTimer(time, sessionType, elapsed)
-    return true
-  })
   ipcMain.handle('show-floating-timer', () => { showFloatingTimer(); return true })
   ipcMain.handle('hide-floating-timer', () => { hideFloatingTimer(); return true })
   ipcMain.on('hide-floating-timer', () => hideFloatingTimer())
   
-  // Set current session ID for direct DB sync
-  ipcMain.handle('set-session-id', (_event, sessionId: string | null, supabaseUrl?: string, supabaseKey?: string) => {
-    console.log('📋 Session ID set:', sessionId?.slice(0, 8) || 'null')
-    currentSessionId = sessionId
-    
-    // Store Supabase credentials if provided
+  // Session clock - the renderer starts and stops it and reads snapshots
+  ipcMain.handle('session-clock-start', (
+    _event,
+    sessionId: string,
+    sessionType: 'guest' | 'member',
+    timeRemaining: number,
+    totalSecondsUsed: number,
+    supabaseUrl?: string,
+    supabaseKey?: string
+  ) => {
+    // Store Supabase credentials if provided, for the direct DB sync
     if (supabaseUrl && supabaseKey) {
       store.set('supabase_url', supabaseUrl)
       store.set('supabase_key', supabaseKey)
-      console.log('📋 Supabase credentials stored')
     }
-    
-    return true
+    return startSessionClock(sessionId, sessionType, timeRemaining, totalSecondsUsed)
   })
+  ipcMain.handle('session-clock-pause', () => pauseSessionClock())
+  ipcMain.handle('session-clock-add', (_event, seconds: number) => addSessionClockTime(seconds))
+  ipcMain.handle('session-clock-stop', () => stopSessionClock())
+  ipcMain.handle('session-clock-snapshot', () => getSessionClockSnapshot())
   
   // Show session screen in main window
   ipcMain.on('show-session-screen', () => {
@@ -1225,39 +2048,11 @@ function setupIpcHandlers(): void {
     }
   })
   
-  // Timer ended - notify renderer to end session
-  ipcMain.on('timer-ended', () => {
-    console.log('⏱️ Floating timer reached zero!')
-    if (mainWindow) {
-      mainWindow.webContents.send('timer-ended')
-    }
-  })
-
-  // Timer sync - floating timer sends time updates - sync DIRECTLY to database
-  ipcMain.on('timer-sync', async (_event, data: { timeRemaining: number, totalSecondsUsed: number, sessionType: string }) => {
-    console.log('⏱️ Main process received timer-sync:', JSON.stringify(data))
-    currentSessionTime = data.timeRemaining
-    
-    // Sync directly to database from main process
-    if (currentSessionId) {
-      await syncSessionTimeToDatabase(currentSessionId, data.timeRemaining, data.totalSecondsUsed)
-    } else {
-      console.log('⚠️ No currentSessionId set, cannot sync to DB')
-    }
-    
-    // Also forward to renderer (in case window is visible)
-    if (mainWindow) {
-      mainWindow.webContents.send('timer-sync', data)
-    }
+  // The renderer journals member charges and session ends it couldn't send
+  ipcMain.handle('record-journal-entry', (_event, type: JournalEventType, sessionId: string, payload: Record<string, unknown>) => {
+    return recordJournalEntry(type, sessionId, payload).id
   })
-
-  // Stop the floating timer countdown
-  ipcMain.on('stop-floating-timer', () => {
-    if (floatingWindow) {
-      floatingWindow.webContents.send('stop-timer')
-    }
-  })
-
+  
   ipcMain.handle('execute-command', (_event, command: string) => {
     return new Promise((resolve, reject) => {
       if (command === 'shutdown') {
@@ -1279,21 +2074,38 @@ function setupIpcHandlers(): void {
     return true
   })
 
-  ipcMain.handle('quit-app', (_event, killCode?: string) => {
+  ipcMain.handle('quit-app', async (_event, killCode?: string): Promise<ExitAuthorization> => {
     const trimmedCode = killCode?.trim()
     console.log(`🔑 Quit requested with code: ${trimmedCode ? '***' : 'none'}`)
-    console.log(`🔑 Expected code: ${ADMIN_KILL_CODE}`)
-    console.log(`🔑 Match: ${trimmedCode === ADMIN_KILL_CODE}`)
     
-    if (trimmedCode === ADMIN_KILL_CODE) {
-      console.log('✅ Kill code verified, initiating safe exit...')
-      safeExit()
-      return true
+    const result = await authorizeExit(trimmedCode, 'terminal')
+    if (result === 'authorized') {
+      console.log('✅ Exit code verified, initiating safe exit...')
+      exitAfterReport()
+    } else {
+      console.log(`❌ ${describeExitRejection(result)}`)
     }
-    console.log('❌ Kill code mismatch')
-    return false
+    return result
+  })
+
+  ipcMain.handle('get-client-config', () => ({
+    config: getClientConfig(),
+    version: store.get('clientConfigVersion') as number | null
+  }))
+  ipcMain.handle('apply-client-config', (_event, config: unknown, version: number) => applyClientConfig(config, version))
+
+  ipcMain.handle('refresh-exit-codes', async (_event, supabaseUrl?: string, supabaseKey?: string) => {
+    if (supabaseUrl && supabaseKey) {
+      store.set('supabase_url', supabaseUrl)
+      store.set('supabase_key', supabaseKey)
+    }
+    await refreshExitCodeVerifiers()
+    startExitCodeRefresh()
+    return exitCodeStore.get('verifiers').length
   })
 
+  ipcMain.handle('wake-on-lan', (_event, mac: string) => sendWakeOnLan(mac))
+
   ipcMain.handle('get-system-info', () => ({
     platform: process.platform,
     hostname: os.hostname(),
@@ -1309,7 +2121,8 @@ function getConfig(): Record<string, unknown> {
     deviceName: store.get('deviceName'),
     branchId: store.get('branchId'),
     isRegistered: store.get('isRegistered'),
-    isApproved: store.get('isApproved')
+    isApproved: store.get('isApproved'),
+    deviceSecret: store.get('deviceSecret')
   }
 }
 
@@ -1317,10 +2130,12 @@ function getConfig(): Record<string, unknown> {
 // APP LIFECYCLE
 // ============================================
 
-if (checkCommandLineKillCode()) {
-  console.log('✅ Kill code provided. Safe exit enabled.')
-  isAuthorizedExit = true
-}
+checkCommandLineKillCode().then(authorized => {
+  if (authorized) {
+    console.log('✅ Exit code provided. Safe exit enabled.')
+    isAuthorizedExit = true
+  }
+})
 
 const gotTheLock = app.requestSingleInstanceLock()
 
@@ -1343,9 +2158,21 @@ if (!gotTheLock) {
     
     app.on('browser-window-created', (_, window) => optimizer.watchWindowShortcuts(window))
     setupIpcHandlers()
+    setupRealtimeDeviceHeaders()
     createWindow()
     createFloatingWindow()
     createTray()
+    
+    // Replay anything journaled before the last shutdown
+    if (journalStore.get('entries').length > 0) {
+      startJournalReplay()
+    }
+    
+    // Refresh exit codes with whatever Supabase settings were saved last time;
+    // the renderer refreshes again once it has checked in
+    refreshExitCodeVerifiers()
+    startExitCodeRefresh()
+    
     app.on('activate', () => {
       if (BrowserWindow.getAllWindows().length === 0) {
         createWindow()
@@ -38,13 +38,45 @@ interface SystemSpecs {
   }
 }
 
+// Session clock kept by the main process
+interface SessionClockSnapshot {
+  sessionId: string | null
+  sessionType: 'guest' | 'member' | null
+  status: 'idle' | 'running' | 'paused' | 'expired'
+  timeRemaining: number
+  totalSecondsUsed: number
+}
+
+// Why an admin exit code was or wasn't accepted
+type ExitAuthorization = 'authorized' | 'invalid' | 'locked_out' | 'no_codes'
+
+// Magic packet relayed for another PC on this LAN
+interface WakeOnLanResult {
+  success: boolean
+  error?: string
+  broadcasts?: string[]
+}
+
+interface ClientConfig {
+  blockedShortcuts: string[]
+  disableTaskManager: boolean
+  timerWarningSeconds: number
+  timerDangerSeconds: number
+  heartbeatIntervalSeconds: number
+  commandPollIntervalSeconds: number
+  sessionPollIntervalSeconds: number
+}
+
 interface Api {
   // Configuration
   getConfig: () => Promise<Record<string, unknown>>
   saveConfig: (config: Record<string, unknown>) => Promise<boolean>
 
-  // Device code & QR
+  // Device code, registration key & QR
   getDeviceCode: () => Promise<string>
+  getRegistrationKey: () => Promise<string>
+  getClientConfig: () => Promise<{ config: ClientConfig; version: number | null }>
+  applyClientConfig: (config: unknown, version: number) => Promise<ClientConfig>
   generateQRCode: (data: string) => Promise<string>
 
   // System specs
@@ -56,17 +88,36 @@ interface Api {
   getLockStatus: () => Promise<boolean>
 
   // Floating timer
-  updateFloatingTimer: (time: number, sessionType: 'guest' | 'member', elapsed?: number) => Promise<boolean>
   showFloatingTimer: () => Promise<boolean>
   hideFloatingTimer: () => Promise<boolean>
-  
-  // Set session ID for direct DB sync
-  setSessionId: (sessionId: string | null, supabaseUrl?: string, supabaseKey?: string) => Promise<boolean>
+
+  // Session clock
+  startSessionClock: (
+    sessionId: string,
+    sessionType: 'guest' | 'member',
+    timeRemaining: number,
+    totalSecondsUsed: number,
+    supabaseUrl?: string,
+    supabaseKey?: string
+  ) => Promise<SessionClockSnapshot>
+  pauseSessionClock: () => Promise<SessionClockSnapshot>
+  addSessionClockTime: (seconds: number) => Promise<SessionClockSnapshot>
+  stopSessionClock: () => Promise<SessionClockSnapshot>
+  getSessionClock: () => Promise<SessionClockSnapshot>
+
+  // Offline journal
+  recordJournalEntry: (
+    type: 'session_time' | 'member_charge' | 'session_end',
+    sessionId: string,
+    payload: Record<string, unknown>
+  ) => Promise<string>
 
   // System commands
   executeCommand: (command: string) => Promise<boolean>
   showMessage: (message: string) => Promise<boolean>
-  quitApp: (killCode?: string) => Promise<boolean>
+  quitApp: (killCode?: string) => Promise<ExitAuthorization>
+  refreshExitCodes: (supabaseUrl?: string, supabaseKey?: string) => Promise<number>
+  wakeOnLan: (mac: string) => Promise<WakeOnLanResult>
 
   // System info (legacy)
   getSystemInfo: () => Promise<{
@@ -79,12 +130,9 @@ interface Api {
   // Event listeners
   onDisplayMessage: (callback: (message: string) => void) => void
   removeDisplayMessageListener: () => void
-  onTimerUpdate: (callback: (data: { time: number, sessionType: string }) => void) => void
+  onSessionClock: (callback: (snapshot: SessionClockSnapshot) => void) => () => void
   onTimerEnded: (callback: () => void) => void
   removeTimerEndedListener: () => void
-  onTimerSync: (callback: (data: { timeRemaining: number, totalSecondsUsed: number, sessionType: string }) => void) => void
-  removeTimerSyncListener: () => void
-  stopFloatingTimer: () => void
 }
 
 declare global {
@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
 // System specs type
@@ -40,6 +40,35 @@ interface SystemSpecs {
   }
 }
 
+// Session clock kept by the main process
+interface SessionClockSnapshot {
+  sessionId: string | null
+  sessionType: 'guest' | 'member' | null
+  status: 'idle' | 'running' | 'paused' | 'expired'
+  timeRemaining: number
+  totalSecondsUsed: number
+}
+
+// Why an admin exit code was or wasn't accepted
+type ExitAuthorization = 'authorized' | 'invalid' | 'locked_out' | 'no_codes'
+
+// Magic packet relayed for another PC on this LAN
+interface WakeOnLanResult {
+  success: boolean
+  error?: string
+  broadcasts?: string[]
+}
+
+interface ClientConfig {
+  blockedShortcuts: string[]
+  disableTaskManager: boolean
+  timerWarningSeconds: number
+  timerDangerSeconds: number
+  heartbeatIntervalSeconds: number
+  commandPollIntervalSeconds: number
+  sessionPollIntervalSeconds: number
+}
+
 // Custom APIs for renderer
 const api = {
   // Configuration
@@ -47,8 +76,13 @@ const api = {
   saveConfig: (config: Record<string, unknown>): Promise<boolean> => 
     ipcRenderer.invoke('save-config', config),
 
-  // Device code & QR
+  // Device code, registration key & QR
   getDeviceCode: (): Promise<string> => ipcRenderer.invoke('get-device-code'),
+  getRegistrationKey: (): Promise<string> => ipcRenderer.invoke('get-registration-key'),
+  getClientConfig: (): Promise<{ config: ClientConfig; version: number | null }> =>
+    ipcRenderer.invoke('get-client-config'),
+  applyClientConfig: (config: unknown, version: number): Promise<ClientConfig> =>
+    ipcRenderer.invoke('apply-client-config', config, version),
   generateQRCode: (data: string): Promise<string> => ipcRenderer.invoke('generate-qr-code', data),
 
   // System specs
@@ -60,21 +94,40 @@ const api = {
   getLockStatus: (): Promise<boolean> => ipcRenderer.invoke('get-lock-status'),
 
   // Floating timer
-  updateFloatingTimer: (time: number, sessionType: 'guest' | 'member', elapsed?: number): Promise<boolean> =>
-    ipcRenderer.invoke('update-floating-timer', time, sessionType, elapsed || 0),
   showFloatingTimer: (): Promise<boolean> => ipcRenderer.invoke('show-floating-timer'),
   hideFloatingTimer: (): Promise<boolean> => ipcRenderer.invoke('hide-floating-timer'),
-  
-  // Set session ID for direct DB sync from main process
-  setSessionId: (sessionId: string | null, supabaseUrl?: string, supabaseKey?: string): Promise<boolean> => 
-    ipcRenderer.invoke('set-session-id', sessionId, supabaseUrl, supabaseKey),
+
+  // Session clock - counted in the main process, the renderer only displays it
+  startSessionClock: (
+    sessionId: string,
+    sessionType: 'guest' | 'member',
+    timeRemaining: number,
+    totalSecondsUsed: number,
+    supabaseUrl?: string,
+    supabaseKey?: string
+  ): Promise<SessionClockSnapshot> =>
+    ipcRenderer.invoke('session-clock-start', sessionId, sessionType, timeRemaining, totalSecondsUsed, supabaseUrl, supabaseKey),
+  pauseSessionClock: (): Promise<SessionClockSnapshot> => ipcRenderer.invoke('session-clock-pause'),
+  addSessionClockTime: (seconds: number): Promise<SessionClockSnapshot> => ipcRenderer.invoke('session-clock-add', seconds),
+  stopSessionClock: (): Promise<SessionClockSnapshot> => ipcRenderer.invoke('session-clock-stop'),
+  getSessionClock: (): Promise<SessionClockSnapshot> => ipcRenderer.invoke('session-clock-snapshot'),
+
+  // Offline journal - replayed by the main process when back online
+  recordJournalEntry: (
+    type: 'session_time' | 'member_charge' | 'session_end',
+    sessionId: string,
+    payload: Record<string, unknown>
+  ): Promise<string> => ipcRenderer.invoke('record-journal-entry', type, sessionId, payload),
 
   // System commands
   executeCommand: (command: string): Promise<boolean> => 
     ipcRenderer.invoke('execute-command', command),
   showMessage: (message: string): Promise<boolean> => 
     ipcRenderer.invoke('show-message', message),
-  quitApp: (killCode?: string): Promise<boolean> => ipcRenderer.invoke('quit-app', killCode),
+  quitApp: (killCode?: string): Promise<ExitAuthorization> => ipcRenderer.invoke('quit-app', killCode),
+  refreshExitCodes: (supabaseUrl?: string, supabaseKey?: string): Promise<number> =>
+    ipcRenderer.invoke('refresh-exit-codes', supabaseUrl, supabaseKey),
+  wakeOnLan: (mac: string): Promise<WakeOnLanResult> => ipcRenderer.invoke('wake-on-lan', mac),
 
   // System info (legacy)
   getSystemInfo: (): Promise<{
@@ -93,32 +146,22 @@ const api = {
     ipcRenderer.removeAllListeners('display-message')
   },
 
-  // Timer update listener (for floating window)
-  onTimerUpdate: (callback: (data: { time: number, sessionType: string }) => void): void => {
-    ipcRenderer.on('update-timer', (_event, data) => callback(data))
+  // Session clock updates, every second while it runs
+  onSessionClock: (callback: (snapshot: SessionClockSnapshot) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, snapshot: SessionClockSnapshot): void => callback(snapshot)
+    ipcRenderer.on('session-clock', listener)
+    return () => {
+      ipcRenderer.removeListener('session-clock', listener)
+    }
   },
 
-  // Timer ended listener (floating timer reached zero)
+  // Timer ended listener (session clock reached zero)
   onTimerEnded: (callback: () => void): void => {
     ipcRenderer.on('timer-ended', () => callback())
   },
 
   removeTimerEndedListener: (): void => {
     ipcRenderer.removeAllListeners('timer-ended')
-  },
-
-  // Timer sync listener (floating timer sends time updates)
-  onTimerSync: (callback: (data: { timeRemaining: number, totalSecondsUsed: number, sessionType: string }) => void): void => {
-    ipcRenderer.on('timer-sync', (_event, data) => callback(data))
-  },
-
-  removeTimerSyncListener: (): void => {
-    ipcRenderer.removeAllListeners('timer-sync')
-  },
-
-  // Stop the floating timer
-  stopFloatingTimer: (): void => {
-    ipcRenderer.send('stop-floating-timer')
   }
 }
 
@@ -1,7 +1,7 @@
 import { useEffect } from 'react'
 import { useAppStore } from './stores/appStore'
-import { updateSessionTime } from './lib/supabase'
 import { SetupScreen, PendingScreen, LockScreen, SessionScreen, MessageOverlay, DebugOverlay } from './components'
+import type { SessionClock } from './types'
 
 function LoadingScreen() {
   return (
@@ -43,7 +43,7 @@ function App() {
     }
   }, [initialize, cleanup])
 
-  // Listen for timer-ended from main process (floating timer reached zero)
+  // Listen for timer-ended from main process (session clock reached zero)
   useEffect(() => {
     const handleTimerEnded = () => {
       console.log('⏱️ Received timer-ended from main process')
@@ -58,42 +58,20 @@ function App() {
     }
   }, [endCurrentSession])
 
-  // Listen for timer-sync from floating timer to update store AND database
+  // The session clock runs in the main process; the store just mirrors it
   useEffect(() => {
-    console.log('📡 Setting up timer-sync listener')
-    
-    const handleTimerSync = async (data: { timeRemaining: number, totalSecondsUsed: number, sessionType: string }) => {
-      console.log('📡 Received timer-sync:', data)
-      
-      const state = useAppStore.getState()
-      const currentSession = state.session
+    const unsubscribe = window.api?.onSessionClock?.((clock: SessionClock) => {
+      const currentSession = useAppStore.getState().session
+      if (!currentSession || currentSession.id !== clock.sessionId) return
       
-      if (!currentSession) {
-        console.log('📡 No current session, ignoring sync')
-        return
-      }
-
-      // Update store with the actual values from floating timer
-      useAppStore.setState({ 
-        timeRemaining: data.timeRemaining,
-        totalSecondsUsed: data.totalSecondsUsed
+      useAppStore.setState({
+        timeRemaining: clock.timeRemaining,
+        totalSecondsUsed: clock.totalSecondsUsed
       })
-      
-      // Directly sync to database
-      console.log('📡 Syncing to database...')
-      const success = await updateSessionTime(currentSession.id, data.timeRemaining, data.totalSecondsUsed)
-      if (success) {
-        console.log('✅ Database synced successfully')
-      } else {
-        console.error('❌ Failed to sync to database')
-      }
-    }
-
-    window.api?.onTimerSync?.(handleTimerSync)
-
+    })
+    
     return () => {
-      console.log('📡 Removing timer-sync listener')
-      window.api?.removeTimerSyncListener?.()
+      unsubscribe?.()
     }
   }, [])
 
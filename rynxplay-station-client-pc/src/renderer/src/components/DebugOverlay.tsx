@@ -27,6 +27,12 @@ export function addDebugLog(type: DebugLog['type'], message: string) {
 // Expose globally for supabase.ts to use
 ;(window as any).addDebugLog = addDebugLog
 
+const exitRejectionMessages: Record<string, string> = {
+  invalid: 'Invalid exit code',
+  locked_out: 'Too many wrong codes, try again later',
+  no_codes: 'No exit codes on this PC yet - connect it to the network'
+}
+
 export function DebugOverlay() {
   const [isVisible, setIsVisible] = useState(false)
   const [logs, setLogs] = useState<DebugLog[]>([])
@@ -87,14 +93,16 @@ export function DebugOverlay() {
     const command = terminalInput.trim()
     if (!command) return
 
-    // Add to history
-    setTerminalHistory(prev => [command, ...prev].slice(0, 20))
+    // Anything that isn't a command is treated as an exit code, so it's
+    // masked and kept out of the history
+    const isCommand = ['help', 'status', 'clear'].includes(command.toLowerCase())
+    if (isCommand) {
+      setTerminalHistory(prev => [command, ...prev].slice(0, 20))
+    }
     setHistoryIndex(-1)
     setTerminalInput('')
 
-    // Log the command (masked if it looks like a kill code)
-    const maskedCommand = command.startsWith('RYNX-') ? '********' : command
-    addTerminalLog('terminal', `> ${maskedCommand}`)
+    addTerminalLog('terminal', `> ${isCommand ? command : '********'}`)
 
     // Process commands
     if (command.toLowerCase() === 'help') {
@@ -103,8 +111,8 @@ export function DebugOverlay() {
       addTerminalLog('info', '  status   - Show system status')
       addTerminalLog('info', '  clear    - Clear terminal')
       addTerminalLog('info', '═══ To Exit App ═══')
-      addTerminalLog('info', '  Type: RYNX-ADMIN-EXIT-2024')
-      addTerminalLog('info', '  (This is the default kill code)')
+      addTerminalLog('info', '  Type an admin exit code')
+      addTerminalLog('info', '  (Ask an admin - codes are managed in the admin settings)')
       return
     }
 
@@ -122,14 +130,14 @@ export function DebugOverlay() {
       return
     }
 
-    // Try as kill code (any input that's not a recognized command)
+    // Try as exit code (any input that's not a recognized command)
     setIsProcessing(true)
-    addTerminalLog('info', '🔐 Verifying kill code...')
+    addTerminalLog('info', '🔐 Verifying exit code...')
 
     try {
       const result = await window.api.quitApp(command)
-      if (result) {
-        addTerminalLog('success', '✓ Kill code accepted!')
+      if (result === 'authorized') {
+        addTerminalLog('success', '✓ Exit code accepted!')
         addTerminalLog('success', '✓ Exiting application...')
         // App should quit now, but add a fallback message
         setTimeout(() => {
@@ -137,8 +145,7 @@ export function DebugOverlay() {
           setIsProcessing(false)
         }, 3000)
       } else {
-        addTerminalLog('error', '✗ Invalid kill code')
-        addTerminalLog('info', '💡 Try: RYNX-ADMIN-EXIT-2024')
+        addTerminalLog('error', `✗ ${exitRejectionMessages[result] ?? 'Invalid exit code'}`)
         setIsProcessing(false)
       }
     } catch (error) {
@@ -309,7 +316,7 @@ export function DebugOverlay() {
                 value={terminalInput}
                 onChange={(e) => setTerminalInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder={isProcessing ? 'Processing...' : 'Enter kill code to exit...'}
+                placeholder={isProcessing ? 'Processing...' : 'Enter admin exit code...'}
                 disabled={isProcessing}
                 className="flex-1 bg-transparent text-slate-200 text-sm font-mono placeholder-slate-600 outline-none"
                 autoComplete="off"
@@ -326,7 +333,7 @@ export function DebugOverlay() {
               ↑↓ History • Enter to execute
             </p>
             <p className="text-[9px] text-amber-500/70">
-              💡 Default kill code is in in the admin settings
+              💡 Exit codes are managed in the admin settings
             </p>
           </div>
         </div>
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react'
 import { useAppStore } from '../stores/appStore'
+import { isBranchOpen, formatOpeningHours } from '@shared/openingHours'
 
 export function LockScreen() {
-  const { device, setScreen, handleMemberLogin, error, setError } = useAppStore()
+  const { device, session, setScreen, handleMemberLogin, error, setError } = useAppStore()
   const [currentTime, setCurrentTime] = useState(new Date())
   const [showMemberLogin, setShowMemberLogin] = useState(false)
   const [username, setUsername] = useState('')
@@ -52,6 +53,12 @@ export function LockScreen() {
     }
   }
 
+  const pausedSession = session?.status === 'paused' ? session : null
+
+  // Guest sessions can't start outside opening hours; members can still log in
+  const branch = device?.branches
+  const isClosed = branch ? !isBranchOpen(branch, currentTime) : false
+
   const handlePinKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleLogin()
@@ -108,6 +115,18 @@ export function LockScreen() {
           </div>
         </div>
 
+        {/* Paused session on hold for this PC */}
+        {pausedSession && (
+          <div className="rounded-2xl px-8 py-4 mb-8 bg-amber-500/10 border border-amber-500/30 animate-slide-up" style={{ animationDelay: '0.35s' }}>
+            <p className="text-amber-400 font-semibold">Session Paused</p>
+            <p className="text-sm text-slate-400 mt-1">
+              {pausedSession.session_type === 'member'
+                ? `${pausedSession.members?.username || 'Member'}, log in to continue where you left off`
+                : 'Ask the staff to resume your session'}
+            </p>
+          </div>
+        )}
+
         {/* Actions */}
         {!showMemberLogin ? (
           <div className="space-y-4 animate-slide-up" style={{ animationDelay: '0.4s' }}>
@@ -121,9 +140,15 @@ export function LockScreen() {
               Member Login
             </button>
             
-            <div className="text-slate-500 text-sm">
-              Insert coins at the kiosk to start a guest session
-            </div>
+            {isClosed && branch ? (
+              <div className="text-amber-400 text-sm">
+                We're closed for guest sessions. Open {formatOpeningHours(branch)}
+              </div>
+            ) : (
+              <div className="text-slate-500 text-sm">
+                Insert coins at the kiosk to start a guest session
+              </div>
+            )}
           </div>
         ) : (
           <div className="glass rounded-2xl p-6 w-80 animate-fade-in">
@@ -1,112 +1,48 @@
-import { useEffect, useState, useRef } from 'react'
+import { useState } from 'react'
 import { useAppStore } from '../stores/appStore'
+import { resolveRate } from '@shared/billing'
+import type { TransferError } from '../types'
+
+const transferErrorMessages: Record<TransferError, string> = {
+  insufficient_credits: 'Not enough credits',
+  member_not_found: 'No member with that username',
+  member_inactive: 'That account is not active',
+  same_member: 'You cannot transfer to yourself',
+  invalid_amount: 'Enter a valid amount',
+  invalid_pin: 'Wrong PIN',
+  pin_locked: 'Too many wrong PINs. Try again in 15 minutes.',
+  daily_limit_exceeded: 'This goes over your daily transfer limit',
+  daily_count_exceeded: 'You have reached your transfers for today',
+  failed: 'Transfer failed. Please try again.'
+}
 
 export function SessionScreen() {
   const session = useAppStore(s => s.session)
   const member = useAppStore(s => s.member)
   const device = useAppStore(s => s.device)
-  const storeTimeRemaining = useAppStore(s => s.timeRemaining)
-  const storeTotalSecondsUsed = useAppStore(s => s.totalSecondsUsed)
+  // Counted by the session clock in the main process
+  const timeLeft = useAppStore(s => s.timeRemaining)
+  const timeUsed = useAppStore(s => s.totalSecondsUsed)
   const endCurrentSession = useAppStore(s => s.endCurrentSession)
+  const rates = useAppStore(s => s.rates)
+  const rateSchedules = useAppStore(s => s.rateSchedules)
+  const transferCredits = useAppStore(s => s.transferCredits)
+  const pauseCurrentSession = useAppStore(s => s.pauseCurrentSession)
 
   const [showConfirm, setShowConfirm] = useState(false)
+  const [showTransfer, setShowTransfer] = useState(false)
+  const [transferForm, setTransferForm] = useState({ username: '', amount: '', pin: '' })
+  const [transferError, setTransferError] = useState<string | null>(null)
+  const [transferDone, setTransferDone] = useState<string | null>(null)
+  const [isTransferring, setIsTransferring] = useState(false)
+  const [isPausing, setIsPausing] = useState(false)
   
-  // Timer state - synced with store
-  const [timeLeft, setTimeLeft] = useState(storeTimeRemaining)
-  const [timeUsed, setTimeUsed] = useState(storeTotalSecondsUsed)
-  const [timerStarted, setTimerStarted] = useState(false)
-  
-  // Use ref to track if we've initialized to prevent re-init
-  const initializedRef = useRef(false)
-
   const isGuest = session?.session_type === 'guest'
 
-  // Initialize timer ONCE when component mounts or session changes
-  useEffect(() => {
-    if (!session) return
-    if (initializedRef.current && session.id === initializedRef.current) return
-
-    // Get initial time from session or store
-    const initialTime = session.time_remaining_seconds || storeTimeRemaining || 0
-    const initialUsed = session.total_seconds_used || storeTotalSecondsUsed || 0
-
-    console.log('🎮 Session loaded - initialTime:', initialTime, 'initialUsed:', initialUsed)
-    
-    setTimeLeft(initialTime)
-    setTimeUsed(initialUsed)
-    setTimerStarted(true)
-    initializedRef.current = session.id
-  }, [session?.id])
-
-  // THE TIMER - runs when timerStarted is true
-  useEffect(() => {
-    if (!timerStarted || !session) return
-
-    console.log('⏱️ Starting interval timer')
-
-    const intervalId = setInterval(() => {
-      // Increment elapsed time
-      setTimeUsed(prev => {
-        const newUsed = prev + 1
-        // Update the Zustand store
-        useAppStore.setState({ totalSecondsUsed: newUsed })
-        return newUsed
-      })
-
-      // For guest sessions, decrement remaining time
-      if (isGuest) {
-        setTimeLeft(prev => {
-          const newTime = Math.max(0, prev - 1)
-          
-          // Update the Zustand store - THIS IS CRITICAL FOR DB SYNC
-          useAppStore.setState({ timeRemaining: newTime })
-          
-          // Update floating timer
-          if (window.api?.updateFloatingTimer) {
-            window.api.updateFloatingTimer(newTime, 'guest')
-          }
-
-          // Time's up
-          if (newTime <= 0) {
-            console.log('⏱️ Time is up!')
-            endCurrentSession()
-            return 0
-          }
-
-          return newTime
-        })
-      } else {
-        // Member session - update floating timer with elapsed
-        setTimeUsed(prev => {
-          if (window.api?.updateFloatingTimer) {
-            window.api.updateFloatingTimer(prev, 'member')
-          }
-          return prev
-        })
-      }
-    }, 1000)
-
-    return () => {
-      console.log('⏱️ Clearing interval')
-      clearInterval(intervalId)
-    }
-  }, [timerStarted, session?.id, isGuest, endCurrentSession])
-
-  // Sync local state when store updates (e.g., from timer-sync IPC)
-  useEffect(() => {
-    // Only sync if significantly different (to avoid loops)
-    if (Math.abs(storeTimeRemaining - timeLeft) > 2) {
-      console.log('📡 Syncing from store - timeRemaining:', storeTimeRemaining)
-      setTimeLeft(storeTimeRemaining)
-    }
-  }, [storeTimeRemaining])
-
-  useEffect(() => {
-    if (Math.abs(storeTotalSecondsUsed - timeUsed) > 2) {
-      console.log('📡 Syncing from store - totalSecondsUsed:', storeTotalSecondsUsed)
-      setTimeUsed(storeTotalSecondsUsed)
-    }
-  }, [storeTotalSecondsUsed])
+  // Rate in effect right now, following the branch's rate schedules
+  const activeRate = session?.rates
+    ? resolveRate(session.rates, rateSchedules, rates, new Date(), device?.branches?.timezone ?? 'UTC')
+    : null
 
   // Format time
   const formatTime = (secs: number) => {
@@ -131,6 +67,42 @@ export function SessionScreen() {
 
   const warning = getWarning()
 
+  const openTransfer = () => {
+    setTransferForm({ username: '', amount: '', pin: '' })
+    setTransferError(null)
+    setTransferDone(null)
+    setShowTransfer(true)
+  }
+
+  const handleTransfer = async () => {
+    const amount = parseFloat(transferForm.amount)
+    if (!transferForm.username.trim()) {
+      setTransferError('Enter the recipient\'s username')
+      return
+    }
+    if (isNaN(amount) || amount <= 0) {
+      setTransferError(transferErrorMessages.invalid_amount)
+      return
+    }
+    if (!transferForm.pin) {
+      setTransferError('Enter your PIN to confirm')
+      return
+    }
+
+    setIsTransferring(true)
+    setTransferError(null)
+    const result = await transferCredits(transferForm.username, amount, transferForm.pin)
+    setIsTransferring(false)
+
+    if (result.success) {
+      setTransferDone(`Sent ₱${amount.toFixed(2)} to ${transferForm.username.trim()}`)
+      setTransferForm({ username: '', amount: '', pin: '' })
+    } else {
+      setTransferError(transferErrorMessages[result.error || 'failed'])
+      setTransferForm(f => ({ ...f, pin: '' }))
+    }
+  }
+
   // Full panel view - positioned to not cover taskbar
   return (
     <>
@@ -230,6 +202,9 @@ export function SessionScreen() {
                   {member?.full_name && (
                     <p className="text-slate-400 mt-2">{member.full_name}</p>
                   )}
+                  <p className="text-slate-500 text-sm mt-2">
+                    Charged this session: ₱{(session?.total_amount || 0).toFixed(2)}
+                  </p>
                 </>
               )}
             </div>
@@ -243,8 +218,8 @@ export function SessionScreen() {
               <div className="bg-slate-800/50 rounded-2xl p-5 text-center">
                 <p className="text-slate-500 text-xs uppercase tracking-wider mb-1">Rate</p>
                 <p className="text-white text-2xl">
-                  {session?.rates 
-                    ? `₱${session.rates.price_per_unit}/${session.rates.unit_minutes}min` 
+                  {activeRate 
+                    ? `₱${activeRate.price_per_unit}/${activeRate.unit_minutes}min` 
                     : '—'}
                 </p>
               </div>
@@ -292,6 +267,34 @@ export function SessionScreen() {
                 End Session
               </button>
             </div>
+
+            {!isGuest && member && (
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <button
+                  onClick={async () => {
+                    setIsPausing(true)
+                    await pauseCurrentSession()
+                    setIsPausing(false)
+                  }}
+                  disabled={isPausing}
+                  className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-300 font-medium py-3 rounded-2xl transition flex items-center justify-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  {isPausing ? 'Pausing...' : 'Take a Break'}
+                </button>
+                <button
+                  onClick={openTransfer}
+                  className="bg-slate-800 hover:bg-slate-700 text-slate-300 font-medium py-3 rounded-2xl transition flex items-center justify-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                  </svg>
+                  Transfer Credits
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Footer */}
@@ -303,6 +306,70 @@ export function SessionScreen() {
         </div>
       </div>
 
+      {/* Transfer Credits Modal */}
+      {showTransfer && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-black/80">
+          <div className="bg-slate-900 border border-slate-700 rounded-3xl p-8 w-full max-w-md shadow-2xl">
+            <div className="text-center mb-6">
+              <h2 className="text-2xl font-bold text-white mb-2">Transfer Credits</h2>
+              <p className="text-slate-400">
+                Balance: <span className="text-emerald-400 font-semibold">₱{(member?.credits || 0).toFixed(2)}</span>
+              </p>
+            </div>
+
+            <div className="space-y-3 mb-6">
+              <input
+                type="text"
+                value={transferForm.username}
+                onChange={(e) => setTransferForm({ ...transferForm, username: e.target.value })}
+                placeholder="Recipient username"
+                className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="number"
+                value={transferForm.amount}
+                onChange={(e) => setTransferForm({ ...transferForm, amount: e.target.value })}
+                placeholder="Amount (₱)"
+                min="0"
+                step="0.01"
+                className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+              />
+              <input
+                type="password"
+                value={transferForm.pin}
+                onChange={(e) => setTransferForm({ ...transferForm, pin: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleTransfer()}
+                placeholder="Your PIN"
+                className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+
+            {transferError && (
+              <p className="text-red-400 text-center mb-4">{transferError}</p>
+            )}
+            {transferDone && (
+              <p className="text-emerald-400 text-center mb-4">{transferDone}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <button
+                onClick={() => setShowTransfer(false)}
+                className="bg-slate-700 hover:bg-slate-600 text-white font-semibold py-4 rounded-2xl transition"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleTransfer}
+                disabled={isTransferring}
+                className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-semibold py-4 rounded-2xl transition"
+              >
+                {isTransferring ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* End Session Confirmation Modal */}
       {showConfirm && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center p-4 bg-black/80">
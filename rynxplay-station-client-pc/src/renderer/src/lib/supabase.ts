@@ -1,5 +1,5 @@
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js'
-import type { Device, Session, Member, DeviceCommand, Rate, Branch, SystemSpecs } from '../types'
+import type { Device, DevicePresenceState, Session, Member, DeviceCommand, Rate, RateSchedule, Branch, SystemSpecs, Transaction, CreditLedgerError, CreditLedgerResult, EndSessionResult, MemberLoginError, MemberLoginResult, TransferError, TransferResult } from '../types'
 
 // Get Supabase credentials from environment variables
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL
@@ -7,6 +7,13 @@ const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY
 
 let supabaseClient: SupabaseClient | null = null
 
+// Credentials this PC was issued on approval; sent with every request so
+// the server only lets it write its own device, sessions and commands
+let deviceCredentials: { deviceId: string; secret: string } | null = null
+
+// Every member column the anon role may read; pin_code stays on the server
+const MEMBER_COLUMNS = 'id, org_id, username, email, phone, full_name, credits, is_active, created_at, updated_at'
+
 // Debug logging helper
 function debugLog(type: 'info' | 'success' | 'error' | 'command', message: string) {
   const logFn = (window as any).addDebugLog
@@ -25,6 +32,11 @@ export function initSupabase(): SupabaseClient {
   if (!supabaseClient) {
     debugLog('info', 'Initializing Supabase client...')
     supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: {
+        headers: deviceCredentials
+          ? { 'x-device-id': deviceCredentials.deviceId, 'x-device-secret': deviceCredentials.secret }
+          : {}
+      },
       realtime: {
         params: {
           eventsPerSecond: 10
@@ -47,60 +59,95 @@ export function isSupabaseConfigured(): boolean {
   return !!(SUPABASE_URL && SUPABASE_ANON_KEY)
 }
 
+// The client is rebuilt with the new headers the next time it's used, so
+// call this before subscribing to anything
+export function setDeviceCredentials(deviceId: string, secret: string): void {
+  if (deviceCredentials?.deviceId === deviceId && deviceCredentials.secret === secret) return
+  
+  deviceCredentials = { deviceId, secret }
+  if (supabaseClient) {
+    supabaseClient.removeAllChannels()
+    supabaseClient = null
+  }
+  debugLog('info', `Device credentials set for ${deviceId.slice(0, 8)}`)
+}
+
 // Device operations
 
+// Registration goes through an RPC because PCs can't insert devices
+// directly. The registration key is what later lets this PC, and only this
+// PC, claim the secret issued when the device is approved.
 export async function registerPendingDevice(
   deviceCode: string,
   deviceName: string,
-  specs: SystemSpecs
+  specs: SystemSpecs,
+  registrationKey: string
 ): Promise<Device | null> {
   const supabase = getSupabase()
   
-  const { data: existingDevice } = await supabase
-    .from('devices')
-    .select('*')
-    .eq('device_code', deviceCode)
-    .single()
+  const { data, error } = await supabase.rpc('register_device', {
+    p_device_code: deviceCode,
+    p_name: deviceName,
+    p_specs: specs,
+    p_registration_key: registrationKey
+  })
+
+  if (error || !data) {
+    console.error('Error registering pending device:', error)
+    return null
+  }
 
-  if (existingDevice) {
-    const { data, error } = await supabase
-      .from('devices')
-      .update({
-        name: deviceName,
-        specs: specs,
-        last_heartbeat: new Date().toISOString()
-      })
-      .eq('device_code', deviceCode)
-      .select('*, rates(*), branches(*)')
-      .single()
-
-    if (error) {
-      console.error('Error updating device:', error)
-      return existingDevice
+  return data as Device
+}
+
+// Returns the secret issued on approval, once. Null when there's nothing
+// new to claim, which is the normal case after the first start.
+export async function claimDeviceSecret(deviceCode: string, registrationKey: string): Promise<string | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('claim_device_secret', {
+    p_device_code: deviceCode,
+    p_registration_key: registrationKey
+  })
+
+  if (error || !data) {
+    if (error?.message?.includes('no_pending_secret')) {
+      debugLog('info', 'No new device secret to claim')
+    } else {
+      console.error('Error claiming device secret:', error)
     }
-    return data
+    return null
   }
 
-  const { data, error } = await supabase
-    .from('devices')
-    .insert({
-      device_code: deviceCode,
-      name: deviceName,
-      device_type: 'pc',
-      status: 'pending',
-      is_locked: true,
-      specs: specs,
-      last_heartbeat: new Date().toISOString()
-    })
-    .select('*')
-    .single()
+  debugLog('success', 'Device secret claimed')
+  return data as string
+}
 
-  if (error) {
-    console.error('Error registering pending device:', error)
+// Branch config with this PC's overrides on top; validated in the main process
+export async function getDeviceConfig(): Promise<{ version: number; config: Record<string, unknown> } | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('get_device_config')
+  
+  if (error || !data) {
+    console.error('Error getting device config:', error)
     return null
   }
+  
+  return data as { version: number; config: Record<string, unknown> }
+}
 
-  return data
+export async function reportDeviceConfigApplied(version: number): Promise<boolean> {
+  const supabase = getSupabase()
+  
+  const { error } = await supabase.rpc('report_device_config_applied', { p_version: version })
+  
+  if (error) {
+    console.error('Error reporting device config:', error)
+    return false
+  }
+  
+  return true
 }
 
 export async function getDeviceByCode(deviceCode: string): Promise<Device | null> {
@@ -123,10 +170,10 @@ export async function getDeviceByCode(deviceCode: string): Promise<Device | null
   return data
 }
 
+// is_locked follows from the status on the server: locked unless in use
 export async function updateDeviceStatus(
   deviceId: string,
-  status: Device['status'],
-  isLocked: boolean
+  status: Device['status']
 ): Promise<boolean> {
   const supabase = getSupabase()
   
@@ -134,7 +181,6 @@ export async function updateDeviceStatus(
     .from('devices')
     .update({
       status,
-      is_locked: isLocked,
       last_heartbeat: new Date().toISOString()
     })
     .eq('id', deviceId)
@@ -144,7 +190,7 @@ export async function updateDeviceStatus(
     return false
   }
 
-  debugLog('success', `Device status updated: ${status}, locked: ${isLocked}`)
+  debugLog('success', `Device status updated: ${status}`)
   return true
 }
 
@@ -197,7 +243,7 @@ export async function getActiveSession(deviceId: string): Promise<Session | null
   
   const { data, error } = await supabase
     .from('sessions')
-    .select('*, members(*), rates(*)')
+    .select(`*, members(${MEMBER_COLUMNS}), rates(*)`)
     .eq('device_id', deviceId)
     .eq('status', 'active')
     .order('created_at', { ascending: false })
@@ -224,7 +270,7 @@ export async function checkSessionStatus(sessionId: string): Promise<Session | n
   
   const { data, error } = await supabase
     .from('sessions')
-    .select('*, members(*), rates(*)')
+    .select(`*, members(${MEMBER_COLUMNS}), rates(*)`)
     .eq('id', sessionId)
     .single()
 
@@ -236,105 +282,123 @@ export async function checkSessionStatus(sessionId: string): Promise<Session | n
   return data
 }
 
-// Update session time - called periodically to sync with database
-export async function updateSessionTime(
+// Ends the session through complete_session, which also frees the PC. The
+// server keeps whichever time used is higher and leaves a session staff
+// already ended as it is.
+export async function endSession(
   sessionId: string,
-  timeRemainingSeconds: number,
   totalSecondsUsed: number
-): Promise<boolean> {
+): Promise<EndSessionResult> {
   const supabase = getSupabase()
   
-  console.log(`💾 updateSessionTime: session=${sessionId.slice(0,8)}, remaining=${timeRemainingSeconds}, used=${totalSecondsUsed}`)
-  
-  const { error } = await supabase
-    .from('sessions')
-    .update({
-      time_remaining_seconds: timeRemainingSeconds,
-      total_seconds_used: totalSecondsUsed,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', sessionId)
+  const { error } = await supabase.rpc('complete_session', {
+    p_session_id: sessionId,
+    p_total_seconds_used: totalSecondsUsed
+  })
 
   if (error) {
-    console.error('❌ Error updating session time:', error)
-    return false
+    console.error('Error ending session:', error)
+    return {
+      success: false,
+      error: error.message?.includes('session_not_active') ? 'session_not_active' : 'failed'
+    }
   }
 
-  console.log('✅ Session time updated in DB')
-  return true
+  debugLog('success', 'Session ended')
+  return { success: true }
 }
 
-export async function updateSessionTimeRemaining(
-  sessionId: string,
-  timeRemainingSeconds: number
-): Promise<boolean> {
+// A session paused on this PC; it stays locked until the session is resumed
+export async function getPausedSession(deviceId: string): Promise<Session | null> {
   const supabase = getSupabase()
   
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from('sessions')
-    .update({
-      time_remaining_seconds: timeRemainingSeconds
-    })
-    .eq('id', sessionId)
+    .select(`*, members(${MEMBER_COLUMNS}), rates(*)`)
+    .eq('device_id', deviceId)
+    .eq('status', 'paused')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
 
   if (error) {
-    console.error('Error updating session time:', error)
-    return false
+    console.error('Error getting paused session:', error)
+    return null
   }
 
-  return true
+  return data
 }
 
-export async function endSession(
+// Pausing records the time this PC has used; resuming adds the time spent
+// paused to total_paused_seconds. Neither touches billing.
+export async function pauseSession(
   sessionId: string,
-  totalSecondsUsed: number,
-  totalAmount: number
-): Promise<boolean> {
+  totalSecondsUsed: number
+): Promise<Session | null> {
   const supabase = getSupabase()
   
-  const { error } = await supabase
-    .from('sessions')
-    .update({
-      status: 'completed',
-      ended_at: new Date().toISOString(),
-      total_seconds_used: totalSecondsUsed,
-      total_amount: totalAmount,
-      time_remaining_seconds: 0
-    })
-    .eq('id', sessionId)
+  const { data, error } = await supabase.rpc('pause_session', {
+    p_session_id: sessionId,
+    p_total_seconds_used: totalSecondsUsed
+  })
 
-  if (error) {
-    console.error('Error ending session:', error)
-    return false
+  if (error || !data) {
+    console.error('Error pausing session:', error)
+    return null
   }
 
-  debugLog('success', 'Session ended')
-  return true
+  debugLog('success', 'Session paused')
+  return data as Session
+}
+
+export async function resumeSession(sessionId: string): Promise<Session | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('resume_session', {
+    p_session_id: sessionId
+  })
+
+  if (error || !data) {
+    console.error('Error resuming session:', error)
+    return null
+  }
+
+  debugLog('success', 'Session resumed')
+  return data as Session
 }
 
 // Member operations
+// The PIN is checked by login_member, which shares the transfer lockout
 export async function loginMember(
   orgId: string,
   username: string,
   pinCode: string
-): Promise<Member | null> {
+): Promise<MemberLoginResult> {
   const supabase = getSupabase()
   
   const { data, error } = await supabase
-    .from('members')
-    .select('*')
-    .eq('org_id', orgId)
-    .eq('username', username)
-    .eq('pin_code', pinCode)
-    .eq('is_active', true)
-    .single()
+    .rpc('login_member', {
+      p_org_id: orgId,
+      p_username: username,
+      p_pin_code: pinCode
+    })
+    .maybeSingle()
 
   if (error) {
     console.error('Error logging in member:', error)
-    return null
+    return { success: false, error: getMemberLoginError(error.message) }
   }
 
-  return data
+  if (!data) {
+    return { success: false, error: 'invalid_credentials' }
+  }
+
+  return { success: true, member: data as Member }
+}
+
+function getMemberLoginError(message?: string): MemberLoginError {
+  if (message?.includes('pin_locked')) return 'pin_locked'
+  return 'failed'
 }
 
 export async function startMemberSession(
@@ -352,11 +416,9 @@ export async function startMemberSession(
       rate_id: rateId,
       session_type: 'member',
       status: 'active',
-      started_at: new Date().toISOString(),
-      total_seconds_used: 0,
-      total_amount: 0
+      started_at: new Date().toISOString()
     })
-    .select('*, members(*), rates(*)')
+    .select(`*, members(${MEMBER_COLUMNS}), rates(*)`)
     .single()
 
   if (error) {
@@ -367,63 +429,115 @@ export async function startMemberSession(
   return data
 }
 
+// Debits go through the charge_session_credits RPC, which only charges the
+// member of a session on this PC. It uses the apply_member_credit ledger,
+// which locks the member row, rejects overdrafts, writes the usage
+// transaction and adds the charge to the session total in one database
+// transaction.
 export async function chargeMemberCredits(
   memberId: string,
   amount: number,
   sessionId: string
-): Promise<{ success: boolean; newBalance?: number }> {
+): Promise<CreditLedgerResult> {
   const supabase = getSupabase()
   
-  // Get current balance
-  const { data: member, error: memberError } = await supabase
-    .from('members')
-    .select('credits')
-    .eq('id', memberId)
-    .single()
+  const { data, error, status } = await supabase.rpc('charge_session_credits', {
+    p_session_id: sessionId,
+    p_amount: amount
+  })
 
-  if (memberError || !member) {
-    console.error('Error getting member credits:', memberError)
-    return { success: false }
+  if (error || !data) {
+    // supabase-js reports a request that never got a response as status 0
+    const ledgerError = status === 0 ? 'offline' : getCreditLedgerError(error?.message)
+    if (ledgerError === 'insufficient_credits') {
+      debugLog('info', `Insufficient credits for member ${memberId.slice(0, 8)}`)
+    } else {
+      console.error('Error charging member credits:', error)
+    }
+    return { success: false, error: ledgerError }
   }
 
-  if (member.credits < amount) {
-    return { success: false }
-  }
+  const transaction = data as Transaction
+  return { success: true, transaction, newBalance: transaction.balance_after ?? undefined }
+}
 
-  const newBalance = member.credits - amount
+function getCreditLedgerError(message?: string): CreditLedgerError {
+  if (message?.includes('insufficient_credits')) return 'insufficient_credits'
+  if (message?.includes('member_not_found')) return 'member_not_found'
+  if (message?.includes('session_not_found')) return 'session_not_found'
+  if (message?.includes('invalid_amount')) return 'invalid_amount'
+  return 'failed'
+}
 
-  // Update member credits
-  const { error: updateError } = await supabase
+// Member-initiated transfers. The RPC checks the sender's PIN because the
+// station isn't signed in as staff, and enforces the org's daily limits.
+export async function findMemberByUsername(orgId: string, username: string): Promise<Member | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
     .from('members')
-    .update({ credits: newBalance })
-    .eq('id', memberId)
+    .select('id, org_id, username, full_name, is_active')
+    .eq('org_id', orgId)
+    .eq('username', username)
+    .eq('is_active', true)
+    .maybeSingle()
 
-  if (updateError) {
-    console.error('Error updating credits:', updateError)
-    return { success: false }
+  if (error) {
+    console.error('Error finding member:', error)
+    return null
   }
 
-  // Update session total amount
-  const { error: sessionError } = await supabase
-    .rpc('increment_session_amount', { 
-      session_id: sessionId, 
-      amount: amount 
-    })
+  return data as Member | null
+}
+
+export async function transferMemberCredits(
+  fromMemberId: string,
+  toMemberId: string,
+  amount: number,
+  pinCode: string,
+  branchId: string | null
+): Promise<TransferResult> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('transfer_member_credits', {
+    p_from_member_id: fromMemberId,
+    p_to_member_id: toMemberId,
+    p_amount: amount,
+    p_pin_code: pinCode,
+    p_branch_id: branchId
+  })
+
+  if (error || !data) {
+    console.error('Error transferring member credits:', error)
+    return { success: false, error: getTransferError(error?.message) }
+  }
 
-  if (sessionError) {
-    // Try direct update if RPC doesn't exist
-    await supabase
-      .from('sessions')
-      .update({ 
-        total_amount: amount // This would need to be accumulative
-      })
-      .eq('id', sessionId)
+  // A wrong PIN comes back without rows so the server can count the attempt
+  if (data.length === 0) {
+    debugLog('info', 'Transfer rejected: wrong PIN')
+    return { success: false, error: 'invalid_pin' }
   }
 
-  return { success: true, newBalance }
+  const [outgoing, incoming] = data as Transaction[]
+  debugLog('success', `Transferred ₱${amount} (${outgoing?.reference})`)
+  return { success: true, outgoing, incoming }
+}
+
+function getTransferError(message?: string): TransferError {
+  if (message?.includes('insufficient_credits')) return 'insufficient_credits'
+  if (message?.includes('member_not_found')) return 'member_not_found'
+  if (message?.includes('member_inactive')) return 'member_inactive'
+  if (message?.includes('same_member')) return 'same_member'
+  if (message?.includes('invalid_amount')) return 'invalid_amount'
+  if (message?.includes('invalid_pin')) return 'invalid_pin'
+  if (message?.includes('pin_locked')) return 'pin_locked'
+  if (message?.includes('daily_limit_exceeded')) return 'daily_limit_exceeded'
+  if (message?.includes('daily_count_exceeded')) return 'daily_count_exceeded'
+  return 'failed'
 }
 
 // Command operations
+// Commands that haven't finished; claimDeviceCommand decides which still run
 export async function getPendingCommands(deviceId: string): Promise<DeviceCommand[]> {
   const supabase = getSupabase()
   
@@ -431,7 +545,7 @@ export async function getPendingCommands(deviceId: string): Promise<DeviceComman
     .from('device_commands')
     .select('*')
     .eq('device_id', deviceId)
-    .is('executed_at', null)
+    .in('status', ['pending', 'sent'])
     .order('created_at', { ascending: true })
 
   if (error) {
@@ -442,23 +556,42 @@ export async function getPendingCommands(deviceId: string): Promise<DeviceComman
   return data || []
 }
 
+// Realtime and polling both deliver commands. Only the delivery that wins
+// the claim runs it; expired commands are never handed out.
+export async function claimDeviceCommand(commandId: string): Promise<DeviceCommand | null> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase.rpc('claim_device_command', { p_command_id: commandId })
+
+  if (error) {
+    console.error('Error claiming command:', error)
+    return null
+  }
+
+  if (!data?.id) {
+    debugLog('info', `Command ${commandId} already claimed or expired`)
+    return null
+  }
+
+  return data as DeviceCommand
+}
+
 export async function markCommandExecuted(
   commandId: string,
   success: boolean,
-  errorMessage?: string
+  errorMessage?: string,
+  result?: Record<string, unknown>
 ): Promise<boolean> {
   const supabase = getSupabase()
   
   debugLog('info', `Marking command ${commandId} as ${success ? 'executed' : 'failed'}`)
   
-  const { error } = await supabase
-    .from('device_commands')
-    .update({
-      status: success ? 'executed' : 'failed',
-      executed_at: new Date().toISOString(),
-      error_message: errorMessage || null
-    })
-    .eq('id', commandId)
+  const { error } = await supabase.rpc('complete_device_command', {
+    p_command_id: commandId,
+    p_success: success,
+    p_error_message: errorMessage || null,
+    p_result: result || null
+  })
 
   if (error) {
     console.error('Error marking command executed:', error)
@@ -489,6 +622,24 @@ export async function getRates(branchId: string): Promise<Rate[]> {
   return data || []
 }
 
+export async function getRateSchedules(branchId: string): Promise<RateSchedule[]> {
+  const supabase = getSupabase()
+  
+  const { data, error } = await supabase
+    .from('rate_schedules')
+    .select('*, rates(*)')
+    .eq('branch_id', branchId)
+    .eq('is_active', true)
+    .order('priority', { ascending: false })
+
+  if (error) {
+    console.error('Error getting rate schedules:', error)
+    return []
+  }
+
+  return data || []
+}
+
 // Branch operations
 export async function getBranches(orgId: string): Promise<Branch[]> {
   const supabase = getSupabase()
@@ -596,6 +747,8 @@ export function subscribeToSession(
           if (session.status === 'active') {
             const fullSession = await getActiveSession(deviceId)
             callback(fullSession)
+          } else if (session.status === 'paused') {
+            callback(session)
           } else {
             debugLog('info', `Session ended with status: ${session.status}`)
             callback(null)
@@ -703,6 +856,49 @@ export function subscribeToMemberCredits(
   return channel
 }
 
+// Presence on the branch channel is how the admin sees this PC online, in
+// use or gone. State is read again on every (re)join. The channel is
+// private: only PCs of the branch and staff of its org get in.
+export function joinBranchPresence(
+  branchId: string,
+  deviceId: string,
+  getState: () => DevicePresenceState
+): RealtimeChannel {
+  const supabase = getSupabase()
+  
+  debugLog('info', `Joining presence for branch: ${branchId.slice(0, 8)}...`)
+  
+  const channel = supabase.channel(`presence-${branchId}`, {
+    config: { private: true, presence: { key: deviceId } }
+  })
+  
+  channel.subscribe(async (status, err) => {
+    if (status === 'SUBSCRIBED') {
+      debugLog('success', `Presence channel SUBSCRIBED`)
+      await channel.track(getState())
+    } else if (status === 'CHANNEL_ERROR') {
+      debugLog('error', `Presence channel ERROR: ${err?.message || 'Unknown error'}`)
+    } else if (status === 'TIMED_OUT') {
+      debugLog('error', `Presence channel TIMED_OUT`)
+    } else {
+      debugLog('info', `Presence channel status: ${status}`)
+    }
+  })
+
+  return channel
+}
+
+export async function updatePresence(channel: RealtimeChannel, state: DevicePresenceState): Promise<boolean> {
+  const result = await channel.track(state)
+  
+  if (result !== 'ok') {
+    debugLog('error', `Presence update failed: ${result}`)
+    return false
+  }
+  
+  return true
+}
+
 export function unsubscribe(channel: RealtimeChannel): void {
   const supabase = getSupabase()
   supabase.removeChannel(channel)
@@ -772,7 +968,8 @@ export function startSessionPolling(
   sessionPollingInterval = setInterval(async () => {
     const session = await checkSessionStatus(sessionId)
     
-    if (!session || session.status !== 'active') {
+    // A failed check (e.g. offline) keeps the session running
+    if (session && session.status !== 'active') {
       debugLog('command', `[POLL] Session no longer active: ${session?.status || 'not found'}`)
       onSessionEnded()
       stopSessionPolling()
@@ -786,42 +983,4 @@ export function stopSessionPolling(): void {
     sessionPollingInterval = null
     debugLog('info', 'Session polling stopped')
   }
-}
-
-// ============================================
-// SESSION TIME SYNC (NEW)
-// ============================================
-
-let sessionTimeSyncInterval: ReturnType<typeof setInterval> | null = null
-
-export function startSessionTimeSync(
-  sessionId: string,
-  getTimeData: () => { timeRemaining: number; totalSecondsUsed: number },
-  intervalMs: number = 10000 // Sync every 10 seconds
-): void {
-  console.log(`🔄 Starting session time sync for session ${sessionId.slice(0,8)} (every ${intervalMs}ms)`)
-  
-  if (sessionTimeSyncInterval) {
-    clearInterval(sessionTimeSyncInterval)
-  }
-  
-  sessionTimeSyncInterval = setInterval(async () => {
-    const { timeRemaining, totalSecondsUsed } = getTimeData()
-    console.log(`🔄 Sync tick - timeRemaining: ${timeRemaining}, totalSecondsUsed: ${totalSecondsUsed}`)
-    
-    const success = await updateSessionTime(sessionId, timeRemaining, totalSecondsUsed)
-    if (success) {
-      debugLog('info', `⏱️ Session time synced: ${timeRemaining}s remaining, ${totalSecondsUsed}s used`)
-    } else {
-      console.error('❌ Failed to sync session time')
-    }
-  }, intervalMs)
-}
-
-export function stopSessionTimeSync(): void {
-  if (sessionTimeSyncInterval) {
-    clearInterval(sessionTimeSyncInterval)
-    sessionTimeSyncInterval = null
-    debugLog('info', 'Session time sync stopped')
-  }
 }
\ No newline at end of file
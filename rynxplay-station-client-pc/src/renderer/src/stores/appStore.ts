@@ -1,33 +1,45 @@
 import { create } from 'zustand'
-import type { AppConfig, Device, Session, Member, AppScreen, SystemInfo, SystemSpecs, DeviceCommand } from '../types'
+import type { AppConfig, ClientConfig, Device, DevicePresenceState, Session, Member, Rate, RateSchedule, AppScreen, SystemInfo, SystemSpecs, DeviceCommand, TransferResult } from '../types'
 import {
   initSupabase,
   isSupabaseConfigured,
   getDeviceByCode,
   registerPendingDevice as registerPendingDeviceApi,
+  claimDeviceSecret,
+  setDeviceCredentials,
+  getDeviceConfig,
+  reportDeviceConfigApplied,
   updateDeviceStatus,
   updateDeviceSpecs,
   sendHeartbeat,
   getActiveSession,
+  getPausedSession,
   endSession,
+  pauseSession,
+  resumeSession,
   loginMember,
   startMemberSession,
   chargeMemberCredits,
+  findMemberByUsername,
+  transferMemberCredits,
   getPendingCommands,
+  claimDeviceCommand,
+  getRates,
+  getRateSchedules,
   markCommandExecuted,
   subscribeToDevice,
   subscribeToSession,
   subscribeToCommands,
   subscribeToMemberCredits,
+  joinBranchPresence,
+  updatePresence,
   unsubscribe,
   startCommandPolling,
   stopCommandPolling,
   startSessionPolling,
-  stopSessionPolling,
-  updateSessionTime,
-  startSessionTimeSync,
-  stopSessionTimeSync
+  stopSessionPolling
 } from '../lib/supabase'
+import { calculateChargeDue, createBillingSchedule } from '@shared/billing'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 
 interface AppStore {
@@ -57,6 +69,14 @@ interface AppStore {
   timeRemaining: number
   totalSecondsUsed: number
   
+  // Branch pricing (for rate schedules)
+  rates: Rate[]
+  rateSchedules: RateSchedule[]
+  
+  // Remote client config, as applied by the main process
+  clientConfig: ClientConfig | null
+  clientConfigVersion: number | null
+  
   // Realtime channels
   channels: RealtimeChannel[]
   
@@ -65,6 +85,7 @@ interface AppStore {
   setConfig: (config: Partial<AppConfig>) => Promise<void>
   setDeviceName: (name: string) => Promise<void>
   registerPendingDevice: () => Promise<boolean>
+  syncClientConfig: () => Promise<void>
   
   // Lock/Unlock
   lock: () => Promise<void>
@@ -76,11 +97,15 @@ interface AppStore {
   startGuestSession: (timeSeconds: number) => void
   handleMemberLogin: (username: string, pin: string) => Promise<boolean>
   endCurrentSession: (terminatedByAdmin?: boolean) => Promise<void>
+  pauseCurrentSession: () => Promise<boolean>
+  resumeCurrentSession: () => Promise<boolean>
+  releaseSession: () => Promise<void>
   
   // Timer
-  decrementTimer: () => void
   chargeCredits: () => Promise<boolean>
-  syncSessionTime: () => Promise<void>
+  
+  // Credits
+  transferCredits: (toUsername: string, amount: number, pin: string) => Promise<TransferResult>
   
   // Commands
   processCommand: (command: DeviceCommand) => Promise<void>
@@ -114,6 +139,10 @@ export const useAppStore = create<AppStore>((set, get) => ({
   error: null,
   timeRemaining: 0,
   totalSecondsUsed: 0,
+  rates: [],
+  rateSchedules: [],
+  clientConfig: null,
+  clientConfigVersion: null,
   channels: [],
   
   // Admin unlock state
@@ -145,6 +174,10 @@ export const useAppStore = create<AppStore>((set, get) => ({
         return
       }
 
+      if (config.deviceId && config.deviceSecret) {
+        setDeviceCredentials(config.deviceId, config.deviceSecret)
+      }
+
       try {
         initSupabase()
       } catch (err) {
@@ -158,18 +191,44 @@ export const useAppStore = create<AppStore>((set, get) => ({
       if (device) {
         set({ device, isOnline: true })
 
-        await updateDeviceSpecs(deviceCode, systemSpecs)
-
         if (device.branch_id) {
-          await window.api.saveConfig({ 
+          // Pick up the secret issued when the device was (re-)approved
+          const registrationKey = await window.api.getRegistrationKey()
+          const deviceSecret = await claimDeviceSecret(deviceCode, registrationKey) || config.deviceSecret
+          
+          if (deviceSecret) {
+            setDeviceCredentials(device.id, deviceSecret)
+          }
+          
+          const approvedConfig = { 
             ...config, 
             isRegistered: true, 
             isApproved: true,
             deviceId: device.id,
-            branchId: device.branch_id
-          })
+            branchId: device.branch_id,
+            deviceSecret
+          }
+          await window.api.saveConfig(approvedConfig)
+          set({ config: approvedConfig })
+
+          // Cache this PC's admin exit codes for offline use
+          await window.api.refreshExitCodes(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY)
 
-          await updateDeviceStatus(device.id, 'online', device.is_locked)
+          // Start from the last applied config, then pick up any newer one
+          const localClientConfig = await window.api.getClientConfig()
+          set({ clientConfig: localClientConfig.config, clientConfigVersion: localClientConfig.version })
+          await get().syncClientConfig()
+
+          await updateDeviceSpecs(deviceCode, systemSpecs)
+
+          await updateDeviceStatus(device.id, 'online')
+          
+          // Load branch pricing so member billing follows rate schedules
+          const [rates, rateSchedules] = await Promise.all([
+            getRates(device.branch_id),
+            getRateSchedules(device.branch_id)
+          ])
+          set({ rates, rateSchedules })
           
           const activeSession = await getActiveSession(device.id)
           
@@ -188,43 +247,51 @@ export const useAppStore = create<AppStore>((set, get) => ({
             
             await window.api.unlockScreen()
             
-            // *** NEW: Set session ID in main process for direct DB sync ***
-            await setupSessionInMainProcess(activeSession.id)
+            // Keeps counting if the main process already has this session
+            // (the renderer was reloaded mid-session)
+            await startSessionClockInMainProcess(activeSession, sessionTime, sessionUsed, set)
             
             // Update device status to in_use
-            await updateDeviceStatus(device.id, 'in_use', false)
+            await updateDeviceStatus(device.id, 'in_use')
             
-            // Update floating timer with initial values
-            const displayTime = activeSession.session_type === 'guest' ? sessionTime : sessionUsed
-            await window.api.updateFloatingTimer(displayTime, activeSession.session_type, sessionUsed)
             await window.api.showFloatingTimer()
-            
-            // Start session time sync
-            startSessionTimeSync(activeSession.id, () => ({
-              timeRemaining: get().timeRemaining,
-              totalSecondsUsed: get().totalSecondsUsed
-            }), 5000)
+            startBillingInterval(get)
             
             startSessionPolling(activeSession.id, () => {
               get().endCurrentSession(true)
-            })
+            }, getConfiguredIntervalMs(get, 'sessionPollIntervalSeconds'))
           } else {
-            set({ screen: 'lock', isLocked: true })
+            // A paused session keeps the PC locked until it is resumed
+            const pausedSession = await getPausedSession(device.id)
+            
+            set({
+              session: pausedSession,
+              member: pausedSession?.members || null,
+              timeRemaining: pausedSession?.time_remaining_seconds || 0,
+              totalSecondsUsed: pausedSession?.total_seconds_used || 0,
+              screen: 'lock',
+              isLocked: true
+            })
             await window.api.lockScreen()
           }
           
           setupSubscriptions(device.id, deviceCode, set, get)
           
-          // Start heartbeat - more frequently for better status tracking
-          startHeartbeatInterval(device.id, 15000) // Every 15 seconds
+          // Coarse heartbeat, in case the admin can't see branch presence
+          startHeartbeatInterval(device.id, getConfiguredIntervalMs(get, 'heartbeatIntervalSeconds'))
           
           const commands = await getPendingCommands(device.id)
           for (const cmd of commands) {
             await get().processCommand(cmd)
           }
         } else {
+          // Devices approved before credentials existed are pending again and
+          // need this PC's registration key before staff can re-approve them
+          const registrationKey = await window.api.getRegistrationKey()
+          await registerPendingDeviceApi(deviceCode, config.deviceName || device.name, systemSpecs, registrationKey)
+
           set({ screen: 'pending' })
-          
+
           const channel = subscribeToDevice(deviceCode, async (updatedDevice) => {
             if (updatedDevice.branch_id) {
               set({ device: updatedDevice })
@@ -281,7 +348,8 @@ export const useAppStore = create<AppStore>((set, get) => ({
     
     const deviceName = config?.deviceName || `PC-${deviceCode.slice(0, 8)}`
     
-    const device = await registerPendingDeviceApi(deviceCode, deviceName, systemSpecs)
+    const registrationKey = await window.api.getRegistrationKey()
+    const device = await registerPendingDeviceApi(deviceCode, deviceName, systemSpecs, registrationKey)
     
     if (device) {
       set({ device, screen: 'pending' })
@@ -302,12 +370,47 @@ export const useAppStore = create<AppStore>((set, get) => ({
     return false
   },
 
+  syncClientConfig: async () => {
+    if (isSyncingClientConfig) return
+    isSyncingClientConfig = true
+    
+    try {
+      // Offline keeps whatever was applied last
+      const remote = await getDeviceConfig()
+      if (!remote) return
+      
+      const clientConfig = await window.api.applyClientConfig(remote.config, remote.version)
+      set({ clientConfig, clientConfigVersion: remote.version })
+      await reportDeviceConfigApplied(remote.version)
+      
+      // Restart whatever is already running with the new intervals
+      const { device, session, isLocked, channels } = get()
+      if (!device) return
+      
+      if (heartbeatInterval) {
+        startHeartbeatInterval(device.id, clientConfig.heartbeatIntervalSeconds * 1000)
+      }
+      if (channels.length > 0) {
+        startCommandPolling(device.id, (command) => {
+          get().processCommand(command)
+        }, clientConfig.commandPollIntervalSeconds * 1000)
+      }
+      if (session && session.status === 'active' && !isLocked) {
+        startSessionPolling(session.id, () => {
+          get().endCurrentSession(true)
+        }, clientConfig.sessionPollIntervalSeconds * 1000)
+      }
+    } finally {
+      isSyncingClientConfig = false
+    }
+  },
+
   lock: async () => {
     const { device } = get()
     
     // Stop all timers
-    stopSessionTimeSync()
     stopSessionPolling()
+    stopBillingInterval()
     
     set({ 
       isLocked: true, 
@@ -321,7 +424,7 @@ export const useAppStore = create<AppStore>((set, get) => ({
     await window.api.hideFloatingTimer()
     
     if (device) {
-      await updateDeviceStatus(device.id, 'online', true)
+      await updateDeviceStatus(device.id, 'online')
     }
   },
 
@@ -334,22 +437,13 @@ export const useAppStore = create<AppStore>((set, get) => ({
     
     // Show floating timer
     if (session && session.id !== 'guest-local') {
-      // *** NEW: Set session ID in main process for direct DB sync ***
-      await setupSessionInMainProcess(session.id)
-      
-      const displayTime = session.session_type === 'guest' ? timeRemaining : totalSecondsUsed
-      await window.api.updateFloatingTimer(displayTime, session.session_type, totalSecondsUsed)
+      await startSessionClockInMainProcess(session, timeRemaining, totalSecondsUsed, set)
       await window.api.showFloatingTimer()
-      
-      // Start session time sync
-      startSessionTimeSync(session.id, () => ({
-        timeRemaining: get().timeRemaining,
-        totalSecondsUsed: get().totalSecondsUsed
-      }), 5000)
+      startBillingInterval(get)
     }
     
     if (device) {
-      await updateDeviceStatus(device.id, 'in_use', false)
+      await updateDeviceStatus(device.id, 'in_use')
     }
   },
 
@@ -371,7 +465,7 @@ export const useAppStore = create<AppStore>((set, get) => ({
     await window.api.unlockScreen()
     
     if (device) {
-      await updateDeviceStatus(device.id, 'in_use', false)
+      await updateDeviceStatus(device.id, 'in_use')
     }
     
     // Start expiry check if there's a duration
@@ -427,13 +521,30 @@ export const useAppStore = create<AppStore>((set, get) => ({
     }
     
     const orgId = device.branches.organizations.id
-    const member = await loginMember(orgId, username, pin)
+    const login = await loginMember(orgId, username, pin)
+    const member = login.member
     
     if (!member) {
-      get().setError('Invalid username or PIN')
+      get().setError(
+        login.error === 'pin_locked' ? 'Too many wrong PINs. Try again in 15 minutes.'
+          : login.error === 'failed' ? 'Login failed. Please try again.'
+          : 'Invalid username or PIN'
+      )
       return false
     }
     
+    // Logging back in continues the member's own paused session
+    const pausedSession = get().session
+    if (pausedSession?.status === 'paused') {
+      if (pausedSession.member_id !== member.id) {
+        get().setError('This PC is on hold for a paused session')
+        return false
+      }
+      
+      set({ member })
+      return get().resumeCurrentSession()
+    }
+    
     if (member.credits <= 0) {
       get().setError('Insufficient credits. Please top up.')
       return false
@@ -453,43 +564,50 @@ export const useAppStore = create<AppStore>((set, get) => ({
       totalSecondsUsed: 0
     })
     
+    // Starts the session clock and billing
     await get().unlock()
-    await setupSessionInMainProcess(session.id)
-    
-    // Start session time sync
-    startSessionTimeSync(session.id, () => ({
-      timeRemaining: get().timeRemaining,
-      totalSecondsUsed: get().totalSecondsUsed
-    }), 5000)
     
     return true
   },
 
   endCurrentSession: async (terminatedByAdmin = false) => {
-    const { session, device, totalSecondsUsed } = get()
+    const { session, device } = get()
     
     // Stop all timers
-    stopSessionTimeSync()
     stopSessionPolling()
+    stopBillingInterval()
     
-    // Stop and hide floating timer
-    window.api.stopFloatingTimer?.()
+    // Stop the clock and take its final count
+    const clock = await window.api.stopSessionClock()
     await window.api.hideFloatingTimer()
     
-    // Clear session ID in main process
-    await window.api.setSessionId(null)
+    const totalSecondsUsed = clock.sessionId === session?.id ? clock.totalSecondsUsed : get().totalSecondsUsed
+    set({ totalSecondsUsed })
     
     if (session && session.id !== 'guest-local') {
-      // Final sync of session time before ending
-      await updateSessionTime(session.id, 0, totalSecondsUsed)
+      // Bill the time since the last billing tick
+      if (session.session_type === 'member') {
+        await get().chargeCredits()
+      }
       
-      // End session in database
-      await endSession(session.id, totalSecondsUsed, session.total_amount || 0)
+      const totalAmount = get().session?.total_amount || session.total_amount || 0
+
+      // End session in database, or journal it for when we're back online.
+      // A session staff ended already is left as they ended it: a guest
+      // refund is worked out from the time that was left.
+      const ended = await endSession(session.id, totalSecondsUsed)
+      if (ended.error === 'failed') {
+        await window.api.recordJournalEntry?.('session_end', session.id, {
+          time_remaining_seconds: 0,
+          total_seconds_used: totalSecondsUsed,
+          total_amount: totalAmount
+        })
+      }
     }
     
     // Update device status back to online (locked)
     if (device) {
-      await updateDeviceStatus(device.id, 'online', true)
+      await updateDeviceStatus(device.id, 'online')
     }
     
     set({
@@ -504,73 +622,168 @@ export const useAppStore = create<AppStore>((set, get) => ({
     await window.api.lockScreen()
   },
 
-  decrementTimer: () => {
-    // This function is now only called for manual triggers
-    // The main timer is managed at the store module level
-    const { session, timeRemaining, totalSecondsUsed } = get()
+  pauseCurrentSession: async () => {
+    const { session, device } = get()
+    
+    if (!session || session.id === 'guest-local' || session.status !== 'active') return false
     
-    if (!session || session.status !== 'active') return
+    // Freeze the clock and stop billing first so no tick lands while the
+    // session is paused, then settle what's due up to now
+    const clock = await window.api.pauseSessionClock()
+    set({ timeRemaining: clock.timeRemaining, totalSecondsUsed: clock.totalSecondsUsed })
+    stopBillingInterval()
+    if (session.session_type === 'member') {
+      await get().chargeCredits()
+    }
     
-    const newTimeRemaining = Math.max(0, timeRemaining - 1)
-    const newTotalSeconds = totalSecondsUsed + 1
+    const paused = await pauseSession(session.id, clock.totalSecondsUsed)
     
-    set({
-      timeRemaining: newTimeRemaining,
-      totalSecondsUsed: newTotalSeconds
-    })
+    if (!paused) {
+      await startSessionClockInMainProcess(session, clock.timeRemaining, clock.totalSecondsUsed, set)
+      startBillingInterval(get)
+      return false
+    }
+    
+    stopSessionPolling()
+    
+    set((state) => ({
+      session: state.session
+        ? { ...state.session, status: 'paused', paused_at: paused.paused_at }
+        : null,
+      isLocked: true,
+      screen: 'lock'
+    }))
     
-    // Update floating timer window
-    const displayTime = session.session_type === 'guest' ? newTimeRemaining : newTotalSeconds
-    window.api.updateFloatingTimer(displayTime, session.session_type)
+    await window.api.lockScreen()
     
-    // End session if time runs out (guest sessions)
-    if (session.session_type === 'guest' && newTimeRemaining <= 0) {
-      get().endCurrentSession()
+    if (device) {
+      await updateDeviceStatus(device.id, 'online')
     }
+    
+    return true
   },
 
-  // Sync session time to database (called periodically)
-  syncSessionTime: async () => {
-    const { session, timeRemaining, totalSecondsUsed } = get()
+  resumeCurrentSession: async () => {
+    const { session } = get()
     
-    if (!session || session.id === 'guest-local') return
+    if (!session || session.status !== 'paused') return false
+    
+    const resumed = await resumeSession(session.id)
+    
+    if (!resumed) {
+      get().setError('Failed to resume session')
+      return false
+    }
+    
+    set((state) => ({
+      session: state.session
+        ? {
+            ...state.session,
+            status: 'active',
+            paused_at: null,
+            total_paused_seconds: resumed.total_paused_seconds
+          }
+        : null,
+      timeRemaining: resumed.time_remaining_seconds ?? get().timeRemaining,
+      totalSecondsUsed: resumed.total_seconds_used ?? get().totalSecondsUsed
+    }))
+    
+    // Restarts the session clock and billing
+    await get().unlock()
     
-    await updateSessionTime(session.id, timeRemaining, totalSecondsUsed)
+    startSessionPolling(session.id, () => {
+      get().endCurrentSession(true)
+    }, getConfiguredIntervalMs(get, 'sessionPollIntervalSeconds'))
+    
+    return true
   },
 
-  chargeCredits: async () => {
-    const { session, member } = get()
+  releaseSession: async () => {
+    // Stop every timer without a final sync or charge; the PC the session
+    // moved to picks up the time and billing from the database
+    stopSessionPolling()
+    stopBillingInterval()
     
-    if (!session || !member || session.session_type !== 'member') {
-      return true
-    }
+    await window.api.stopSessionClock()
+    await window.api.hideFloatingTimer()
     
-    const rate = session.rates
-    if (!rate) return true
+    set({
+      session: null,
+      member: null,
+      timeRemaining: 0,
+      totalSecondsUsed: 0,
+      screen: 'lock',
+      isLocked: true
+    })
     
-    const chargeAmount = (60 / rate.unit_minutes / 60) * rate.price_per_unit
+    await window.api.lockScreen()
+  },
+
+  chargeCredits: async () => {
+    // One charge at a time. The amount due is worked out from the session
+    // total the previous charge updated, so a billing tick still in flight
+    // and the final charge of a session would otherwise bill the same time
+    // twice.
+    while (pendingCharge) {
+      await pendingCharge
+    }
     
-    const result = await chargeMemberCredits(member.id, chargeAmount, session.id)
+    pendingCharge = chargeSessionCredits(get, set)
+    try {
+      return await pendingCharge
+    } finally {
+      pendingCharge = null
+    }
+  },
+
+  transferCredits: async (toUsername, amount, pin) => {
+    const { device, member } = get()
     
-    if (!result.success) {
-      get().showMessage('Insufficient credits. Session ending...')
-      setTimeout(() => get().endCurrentSession(), 3000)
-      return false
+    if (!member || !device?.branches?.organizations) {
+      return { success: false, error: 'failed' }
     }
     
-    if (result.newBalance !== undefined) {
+    const recipient = await findMemberByUsername(device.branches.organizations.id, toUsername.trim())
+    if (!recipient) {
+      return { success: false, error: 'member_not_found' }
+    }
+    
+    const result = await transferMemberCredits(member.id, recipient.id, amount, pin, device.branch_id)
+    
+    if (result.success && result.outgoing?.balance_after != null) {
+      const newBalance = result.outgoing.balance_after
       set((state) => ({
-        member: state.member ? { ...state.member, credits: result.newBalance! } : null
+        member: state.member ? { ...state.member, credits: newBalance } : null
       }))
     }
     
-    return true
+    return result
   },
 
   processCommand: async (command) => {
     const { showMessage, lock, endCurrentSession, adminUnlock } = get()
     
-    console.log('🎮 Processing command:', command.command_type, command.payload)
+    // Still running from another delivery
+    if (commandResults.get(command.id) === null) return
+    
+    const claimed = await claimDeviceCommand(command.id)
+    if (!claimed) return
+    
+    // Redelivered because the result never arrived; report it again
+    // instead of running the command twice
+    const previousResult = commandResults.get(command.id)
+    if (previousResult) {
+      await markCommandExecuted(command.id, previousResult.success, previousResult.errorMessage, previousResult.result)
+      return
+    }
+    
+    commandResults.set(command.id, null)
+    
+    // Keeps the result so a redelivery can report it again
+    const complete = async (success: boolean, errorMessage?: string, result?: Record<string, unknown>) => {
+      commandResults.set(command.id, { success, errorMessage, result })
+      await markCommandExecuted(command.id, success, errorMessage, result)
+    }
     
     try {
       switch (command.command_type) {
@@ -579,26 +792,34 @@ export const useAppStore = create<AppStore>((set, get) => ({
           // Update device status to offline before shutdown
           const { device: shutdownDevice } = get()
           if (shutdownDevice) {
-            await updateDeviceStatus(shutdownDevice.id, 'offline', true)
+            await updateDeviceStatus(shutdownDevice.id, 'offline')
           }
           await window.api.executeCommand('shutdown')
-          await markCommandExecuted(command.id, true)
+          await complete(true)
           break
           
         case 'restart':
           showMessage('System will restart in 30 seconds...')
           const { device: restartDevice } = get()
           if (restartDevice) {
-            await updateDeviceStatus(restartDevice.id, 'offline', true)
+            await updateDeviceStatus(restartDevice.id, 'offline')
           }
           await window.api.executeCommand('restart')
-          await markCommandExecuted(command.id, true)
+          await complete(true)
           break
           
         case 'lock':
+          // A session moved to another PC carries on there, so only let go of it
+          if (command.payload.reason === 'moved' && get().session?.id === command.payload.session_id) {
+            await get().releaseSession()
+            showMessage('Your session was moved to another PC')
+            await complete(true)
+            break
+          }
+          
           await endCurrentSession(true)
           await lock()
-          await markCommandExecuted(command.id, true)
+          await complete(true)
           break
           
         case 'unlock':
@@ -643,30 +864,16 @@ export const useAppStore = create<AppStore>((set, get) => ({
               
               await window.api.unlockScreen()
               
-              // Set session ID in main process for direct DB sync
-              // Pass Supabase credentials from environment
-              const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-              const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-              await window.api.setSessionId(activeSession.id, supabaseUrl, supabaseKey)
-              
-              const displayTime = activeSession.session_type === 'guest' ? sessionTime : (activeSession.total_seconds_used || 0)
-              const elapsedTime = activeSession.total_seconds_used || 0
-              await window.api.updateFloatingTimer(displayTime, activeSession.session_type, elapsedTime)
+              await startSessionClockInMainProcess(activeSession, sessionTime, activeSession.total_seconds_used || 0, set)
               await window.api.showFloatingTimer()
               
-              await updateDeviceStatus(currentDevice.id, 'in_use', false)
-              
-              // START THE COUNTDOWN TIMER
+              await updateDeviceStatus(currentDevice.id, 'in_use')
               
-              // Start session time sync
-              startSessionTimeSync(activeSession.id, () => ({
-                timeRemaining: get().timeRemaining,
-                totalSecondsUsed: get().totalSecondsUsed
-              }), 5000)
+              startBillingInterval(get)
               
               startSessionPolling(activeSession.id, () => {
                 get().endCurrentSession(true)
-              })
+              }, getConfiguredIntervalMs(get, 'sessionPollIntervalSeconds'))
               
               showMessage(`Session started! ${activeSession.session_type === 'guest' ? 'Time remaining: ' + Math.floor(sessionTime / 60) + ' minutes' : ''}`)
             } else {
@@ -674,28 +881,98 @@ export const useAppStore = create<AppStore>((set, get) => ({
             }
           }
           
-          await markCommandExecuted(command.id, true)
+          await complete(true, undefined, { session_started: get().session?.status === 'active' })
+          break
+          
+        case 'pause':
+          if (get().session?.status === 'active') {
+            const paused = await get().pauseCurrentSession()
+            if (paused) showMessage('Session paused by staff')
+            await complete(paused, paused ? undefined : 'Failed to pause session')
+          } else {
+            await complete(false, 'No active session')
+          }
+          break
+          
+        case 'resume':
+          if (get().session?.status === 'paused') {
+            const resumed = await get().resumeCurrentSession()
+            if (resumed) showMessage('Session resumed')
+            await complete(resumed, resumed ? undefined : 'Failed to resume session')
+          } else {
+            await complete(false, 'No paused session')
+          }
+          break
+          
+        case 'add_time':
+          const { session: addTimeSession } = get()
+          const addedSeconds = command.payload.seconds || 0
+          
+          if (addTimeSession?.status !== 'active' || addTimeSession.id !== command.payload.session_id || addedSeconds <= 0) {
+            await complete(false, 'No matching active session')
+            break
+          }
+          
+          // The session clock syncs the new time to the database right away
+          const extendedClock = await window.api.addSessionClockTime(addedSeconds)
+          set({ timeRemaining: extendedClock.timeRemaining, totalSecondsUsed: extendedClock.totalSecondsUsed })
+          showMessage(`${Math.floor(addedSeconds / 60)} minutes added to your session`)
+          await complete(true, undefined, { time_remaining: extendedClock.timeRemaining })
           break
           
         case 'admin_unlock':
           const durationMinutes = (command.payload as any)?.duration_minutes || 0
           const unlockedBy = (command.payload as any)?.unlocked_by || 'Admin'
           await adminUnlock(durationMinutes, unlockedBy)
-          await markCommandExecuted(command.id, true)
+          await complete(true)
           break
           
         case 'message':
           const msg = (command.payload as any)?.message || 'Message from admin'
           showMessage(msg)
-          await markCommandExecuted(command.id, true)
+          await complete(true)
+          break
+          
+        case 'reload_device':
+          // Staff changed this PC's rate or branch; pick up the new pricing
+          const { deviceCode: reloadCode, config: reloadConfig } = get()
+          const reloadedDevice = reloadCode ? await getDeviceByCode(reloadCode) : null
+          if (!reloadedDevice?.branch_id) {
+            await complete(false, 'Device not found')
+            break
+          }
+          
+          const [reloadedRates, reloadedSchedules] = await Promise.all([
+            getRates(reloadedDevice.branch_id),
+            getRateSchedules(reloadedDevice.branch_id)
+          ])
+          set({ device: reloadedDevice, rates: reloadedRates, rateSchedules: reloadedSchedules })
+          
+          if (reloadConfig && reloadConfig.branchId !== reloadedDevice.branch_id) {
+            const movedConfig = { ...reloadConfig, branchId: reloadedDevice.branch_id }
+            await window.api.saveConfig(movedConfig)
+            set({ config: movedConfig })
+          }
+          
+          await get().syncClientConfig()
+          await complete(true, undefined, { branch_id: reloadedDevice.branch_id, rate_id: reloadedDevice.rate_id })
+          break
+          
+        case 'wake_device':
+          // Relayed for a PC on this LAN that is switched off
+          const wakeResult = await window.api.wakeOnLan(command.payload.mac || '')
+          await complete(wakeResult.success, wakeResult.error, {
+            target_device_id: command.payload.target_device_id,
+            broadcasts: wakeResult.broadcasts
+          })
           break
           
         default:
-          await markCommandExecuted(command.id, false, 'Unknown command type')
+          await complete(false, 'Unknown command type')
       }
     } catch (error) {
       console.error('Command execution error:', error)
-      await markCommandExecuted(command.id, false, String(error))
+      await complete(false, String(error))
     }
   },
 
@@ -741,9 +1018,10 @@ export const useAppStore = create<AppStore>((set, get) => ({
   cleanup: () => {
     const { channels, device } = get()
     
-    // Stop all intervals including countdown timer
-    stopSessionTimeSync()
+    // Stop all intervals (the session clock lives in the main process and
+    // keeps running across renderer reloads)
     stopSessionPolling()
+    stopBillingInterval()
     stopCommandPolling()
     stopHeartbeatInterval()
     stopAdminUnlockExpiryCheck()
@@ -753,23 +1031,40 @@ export const useAppStore = create<AppStore>((set, get) => ({
       unsubscribe(channel)
     })
     
+    presenceChannel = null
+    
     set({ channels: [] })
     
     // Mark device as offline on cleanup
     if (device) {
-      updateDeviceStatus(device.id, 'offline', true)
+      updateDeviceStatus(device.id, 'offline')
     }
     
     window.api.removeDisplayMessageListener()
   }
 }))
 
-// Helper to set session ID in main process for direct DB sync
-async function setupSessionInMainProcess(sessionId: string): Promise<void> {
+// Helper to start the session clock in the main process, which also syncs
+// the session time to the database. If the clock is already counting this
+// session it carries on, and the store takes the clock's values.
+async function startSessionClockInMainProcess(
+  session: Session,
+  timeRemaining: number,
+  totalSecondsUsed: number,
+  set: (state: Partial<AppStore>) => void
+): Promise<void> {
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
   const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-  console.log('📋 Setting session ID in main process:', sessionId.slice(0, 8))
-  await window.api.setSessionId(sessionId, supabaseUrl, supabaseKey)
+  console.log('📋 Starting session clock in main process:', session.id.slice(0, 8))
+  const clock = await window.api.startSessionClock(
+    session.id,
+    session.session_type,
+    timeRemaining,
+    totalSecondsUsed,
+    supabaseUrl,
+    supabaseKey
+  )
+  set({ timeRemaining: clock.timeRemaining, totalSecondsUsed: clock.totalSecondsUsed })
 }
 
 
@@ -785,6 +1080,11 @@ function setupSubscriptions(
   const deviceChannel = subscribeToDevice(deviceCode, (device) => {
     set({ device })
     
+    // The admin changed this PC's config
+    if (device.config_version !== get().clientConfigVersion) {
+      get().syncClientConfig()
+    }
+    
     if (device.is_locked && !get().isLocked && !get().isAdminUnlocked) {
       get().lock()
     }
@@ -806,20 +1106,17 @@ function setupSubscriptions(
           screen: 'session'
         })
         
-        // *** NEW: Set session ID in main process for direct DB sync ***
-        await setupSessionInMainProcess(session.id)
-        
+        // Starts the session clock and billing
         await get().unlock()
         
-        startSessionTimeSync(session.id, () => ({
-          timeRemaining: get().timeRemaining,
-          totalSecondsUsed: get().totalSecondsUsed
-        }), 5000)
-        
         startSessionPolling(session.id, () => {
           get().endCurrentSession(true)
-        })
+        }, getConfiguredIntervalMs(get, 'sessionPollIntervalSeconds'))
       }
+    } else if (session && session.status === 'paused') {
+      // Pausing always goes through pauseCurrentSession on this PC, which
+      // has already stopped the timers; a paused session hasn't ended
+      console.log('Session paused, keeping it for resume')
     } else {
       const currentSession = get().session
       if (currentSession && currentSession.id !== 'guest-local') {
@@ -836,16 +1133,53 @@ function setupSubscriptions(
   })
   channels.push(commandChannel)
   
+  const branchId = get().device?.branch_id
+  if (branchId) {
+    presenceJoinedAt = new Date().toISOString()
+    presenceChannel = joinBranchPresence(branchId, deviceId, () => getPresenceState(get))
+    channels.push(presenceChannel)
+  }
+  
   set({ channels })
   
   startCommandPolling(deviceId, (command) => {
     get().processCommand(command)
-  }, 3000)
+  }, getConfiguredIntervalMs(get, 'commandPollIntervalSeconds'))
+}
+
+let isSyncingClientConfig = false
+
+// Result of every command this PC has run, keyed by command id; null while
+// it's still running
+const commandResults = new Map<string, { success: boolean; errorMessage?: string; result?: Record<string, unknown> } | null>()
+
+type ClientConfigIntervalKey = 'heartbeatIntervalSeconds' | 'commandPollIntervalSeconds' | 'sessionPollIntervalSeconds'
+
+// Interval from the client config; undefined keeps the built-in default
+function getConfiguredIntervalMs(get: () => AppStore, key: ClientConfigIntervalKey): number | undefined {
+  const seconds = get().clientConfig?.[key]
+  return seconds ? seconds * 1000 : undefined
+}
+
+// Branch presence is what the admin goes by; the heartbeat only backs it up
+let presenceChannel: RealtimeChannel | null = null
+let presenceJoinedAt = ''
+
+function getPresenceState(get: () => AppStore): DevicePresenceState {
+  const { device, session, isLocked, systemInfo } = get()
+  return {
+    device_id: device?.id || '',
+    is_locked: isLocked,
+    in_session: session?.status === 'active',
+    session_id: session?.id || null,
+    app_version: systemInfo?.version || '',
+    online_at: presenceJoinedAt
+  }
 }
 
 let heartbeatInterval: NodeJS.Timeout | null = null
 
-function startHeartbeatInterval(deviceId: string, intervalMs: number = 15000): void {
+function startHeartbeatInterval(deviceId: string, intervalMs: number = 60000): void {
   if (heartbeatInterval) {
     clearInterval(heartbeatInterval)
   }
@@ -865,6 +1199,97 @@ function stopHeartbeatInterval(): void {
   }
 }
 
+let pendingCharge: Promise<boolean> | null = null
+
+// Charges what the session has cost since the last charge. Returns false
+// once the session can't be billed any more and is being ended.
+async function chargeSessionCredits(
+  get: () => AppStore,
+  set: (state: Partial<AppStore> | ((state: AppStore) => Partial<AppStore>)) => void
+): Promise<boolean> {
+  const { session, member, device, totalSecondsUsed, rates, rateSchedules } = get()
+  
+  if (!session || !member || session.session_type !== 'member') {
+    return true
+  }
+  
+  const rate = session.rates
+  if (!rate) return true
+  
+  // Bill the difference between what the session costs so far and what
+  // has already been charged. Time spent paused moves the schedule's clock
+  // forward but is never billed. Schedules run on the branch's clock.
+  const billingStart = new Date(new Date(session.started_at).getTime() + (session.total_paused_seconds || 0) * 1000)
+  const schedule = createBillingSchedule(rate, rateSchedules, rates, billingStart, device?.branches?.timezone ?? 'UTC')
+  const chargeAmount = calculateChargeDue(rate, totalSecondsUsed, session.total_amount || 0, schedule)
+  if (chargeAmount <= 0) return true
+  
+  const result = await chargeMemberCredits(member.id, chargeAmount, session.id)
+  
+  if (result.success) {
+    set((state) => ({
+      session: state.session
+        ? { ...state.session, total_amount: (state.session.total_amount || 0) + chargeAmount }
+        : null,
+      member: state.member && result.newBalance !== undefined
+        ? { ...state.member, credits: result.newBalance }
+        : state.member
+    }))
+    return true
+  }
+  
+  // Offline: bill against the last known balance and journal the running
+  // total so the server charges the difference once we're back
+  if (result.error === 'offline' && chargeAmount <= member.credits) {
+    const totalAmount = (session.total_amount || 0) + chargeAmount
+    await window.api.recordJournalEntry?.('member_charge', session.id, { total_amount: totalAmount })
+    
+    set((state) => ({
+      session: state.session ? { ...state.session, total_amount: totalAmount } : null,
+      member: state.member ? { ...state.member, credits: state.member.credits - chargeAmount } : null
+    }))
+    return true
+  }
+  
+  // The server answered but charged nothing - try again on the next tick
+  if (result.error === 'failed') return true
+  
+  // Moved to another PC, which bills it from here on
+  if (result.error === 'session_not_found') {
+    await get().releaseSession()
+    get().showMessage('This session is no longer on this PC')
+    return false
+  }
+  
+  // Out of credits, or the charge was refused - the session can't go on
+  // unbilled
+  get().showMessage(result.error === 'insufficient_credits' || result.error === 'offline'
+    ? 'Insufficient credits. Session ending...'
+    : 'Billing failed. Session ending...')
+  setTimeout(() => get().endCurrentSession(), 3000)
+  return false
+}
+
+// Member sessions are billed from the elapsed time on a fixed tick
+let billingInterval: ReturnType<typeof setInterval> | null = null
+
+function startBillingInterval(get: () => AppStore, intervalMs: number = 15000): void {
+  if (billingInterval) {
+    clearInterval(billingInterval)
+  }
+  
+  billingInterval = setInterval(() => {
+    get().chargeCredits()
+  }, intervalMs)
+}
+
+function stopBillingInterval(): void {
+  if (billingInterval) {
+    clearInterval(billingInterval)
+    billingInterval = null
+  }
+}
+
 let adminUnlockExpiryInterval: NodeJS.Timeout | null = null
 
 function startAdminUnlockExpiryCheck(get: () => AppStore): void {
@@ -884,13 +1309,26 @@ function stopAdminUnlockExpiryCheck(): void {
   }
 }
 
+// Keep branch presence in step with the lock screen and the session
+useAppStore.subscribe((state, prev) => {
+  if (!presenceChannel) return
+  
+  if (
+    state.isLocked !== prev.isLocked ||
+    state.session?.id !== prev.session?.id ||
+    state.session?.status !== prev.session?.status
+  ) {
+    updatePresence(presenceChannel, getPresenceState(useAppStore.getState))
+  }
+})
+
 // Handle window/app closing - update device status
 window.addEventListener('beforeunload', () => {
   const { device } = useAppStore.getState()
   if (device) {
     // Use sendBeacon for reliable delivery on page unload
     const url = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/devices?id=eq.${device.id}`
-    const data = JSON.stringify({ status: 'offline', is_locked: true })
+    const data = JSON.stringify({ status: 'offline' })
     
     navigator.sendBeacon(url, new Blob([data], { type: 'application/json' }))
   }
@@ -16,12 +16,19 @@ export interface Branch {
   address: string | null
   is_active: boolean
   settings: Record<string, unknown>
+  // Opening hours in the branch's timezone; null hours = always open
+  timezone: string
+  opens_at: string | null
+  closes_at: string | null
+  open_days: number[]
   created_at: string
   updated_at: string
   // Joined
   organizations?: Organization
 }
 
+export type BillingMode = 'per_unit' | 'per_minute'
+
 export interface Rate {
   id: string
   branch_id: string
@@ -29,11 +36,32 @@ export interface Rate {
   description: string | null
   price_per_unit: number
   unit_minutes: number
+  billing_mode: BillingMode
+  round_up: boolean
+  grace_seconds: number
+  minimum_charge: number
+  max_charge: number | null
   is_default: boolean
   is_active: boolean
   created_at: string
 }
 
+// Time window that swaps in another rate of the branch while active
+export interface RateSchedule {
+  id: string
+  branch_id: string
+  rate_id: string
+  name: string
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+  priority: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  rates?: Rate
+}
+
 export interface Device {
   id: string
   branch_id: string
@@ -48,6 +76,7 @@ export interface Device {
   ip_address: string | null
   specs: SystemSpecs | null
   metadata: Record<string, unknown>
+  config_version: number
   created_at: string
   updated_at: string
   // Joined data
@@ -59,7 +88,6 @@ export interface Member {
   id: string
   org_id: string
   username: string
-  pin_code: string
   email: string | null
   phone: string | null
   full_name: string | null
@@ -75,12 +103,15 @@ export type SessionStatus = 'active' | 'paused' | 'completed' | 'terminated'
 export interface Session {
   id: string
   device_id: string
+  branch_id: string | null
   member_id: string | null
   rate_id: string | null
+  package_id: string | null
   session_type: SessionType
   started_at: string
   ended_at: string | null
   paused_at: string | null
+  total_paused_seconds: number
   time_remaining_seconds: number | null
   total_seconds_used: number
   total_amount: number
@@ -99,6 +130,7 @@ export interface Transaction {
   member_id: string | null
   branch_id: string | null
   session_id: string | null
+  shift_id: string | null
   type: TransactionType
   amount: number
   balance_before: number | null
@@ -107,23 +139,130 @@ export interface Transaction {
   reference: string | null
   notes: string | null
   created_by: string | null
+  original_transaction_id: string | null
+  voided_at: string | null
+  voided_by: string | null
   created_at: string
 }
 
-export type CommandType = 'shutdown' | 'restart' | 'lock' | 'unlock' | 'message'
-export type CommandStatus = 'pending' | 'sent' | 'executed' | 'failed'
+// Result of a balance change through the apply_member_credit ledger RPC.
+// 'offline' means the request never reached the server; 'failed' is any
+// other error the server returned.
+export type CreditLedgerError = 'insufficient_credits' | 'member_not_found' | 'session_not_found' | 'invalid_amount' | 'offline' | 'failed'
 
-export interface DeviceCommand {
+export interface CreditLedgerResult {
+  success: boolean
+  transaction?: Transaction
+  newBalance?: number
+  error?: CreditLedgerError
+}
+
+// Result of login_member. An unknown username and a wrong PIN are the same
+// error; 'pin_locked' follows five wrong PINs in a row.
+export type MemberLoginError = 'invalid_credentials' | 'pin_locked' | 'failed'
+
+export interface MemberLoginResult {
+  success: boolean
+  member?: Member
+  error?: MemberLoginError
+}
+
+// Result of complete_session. 'session_not_active' means it had already
+// ended, usually by staff; 'failed' is anything that may still need sending.
+export type EndSessionError = 'session_not_active' | 'failed'
+
+export interface EndSessionResult {
+  success: boolean
+  error?: EndSessionError
+}
+
+// Result of transfer_member_credits; both sides are 'transfer' transactions
+// sharing a TRF- reference
+export type TransferError =
+  | 'insufficient_credits'
+  | 'member_not_found'
+  | 'member_inactive'
+  | 'same_member'
+  | 'invalid_amount'
+  | 'invalid_pin'
+  | 'pin_locked'
+  | 'daily_limit_exceeded'
+  | 'daily_count_exceeded'
+  | 'failed'
+
+export interface TransferResult {
+  success: boolean
+  outgoing?: Transaction
+  incoming?: Transaction
+  error?: TransferError
+}
+
+export type CommandType = 'shutdown' | 'restart' | 'lock' | 'unlock' | 'message' | 'pause' | 'resume' | 'add_time' | 'admin_unlock' | 'reload_device' | 'wake_device'
+export type CommandStatus = 'pending' | 'sent' | 'executed' | 'failed' | 'expired'
+
+// What each command type carries in its payload
+export interface CommandPayloads {
+  shutdown: Record<string, unknown>
+  restart: Record<string, unknown>
+  lock: LockCommandPayload
+  unlock: Record<string, unknown>
+  message: Record<string, unknown>
+  pause: Record<string, unknown>
+  resume: Record<string, unknown>
+  add_time: AddTimeCommandPayload
+  admin_unlock: Record<string, unknown>
+  reload_device: Record<string, unknown>
+  wake_device: WakeDeviceCommandPayload
+}
+
+// Staff locking the PC sends no payload; move_session sends the session
+// that moved away from it
+export interface LockCommandPayload {
+  reason?: 'moved'
+  session_id?: string
+  moved_to?: string
+}
+
+// Queued by extend_session once the time is paid for
+export interface AddTimeCommandPayload {
+  session_id: string
+  seconds: number
+  transaction_id: string
+}
+
+// Sent to a relay PC on the same LAN as the one being woken
+export interface WakeDeviceCommandPayload {
+  target_device_id: string
+  mac: string
+}
+
+interface DeviceCommandRow<T extends CommandType> {
   id: string
   device_id: string
-  command_type: CommandType
-  payload: Record<string, unknown>
+  command_type: T
+  payload: CommandPayloads[T]
   status: CommandStatus
   created_by: string | null
   created_at: string
   sent_at: string | null
   executed_at: string | null
+  expires_at: string | null
+  attempts: number
   error_message: string | null
+  result: Record<string, unknown> | null
+}
+
+// Switching on command_type narrows the payload
+export type DeviceCommand = { [T in CommandType]: DeviceCommandRow<T> }[CommandType]
+
+// What this PC announces on its branch presence channel
+export interface DevicePresenceState {
+  device_id: string
+  is_locked: boolean
+  in_session: boolean
+  session_id: string | null
+  app_version: string
+  online_at: string
 }
 
 // System specifications
@@ -173,6 +312,7 @@ export interface AppConfig {
   branchId: string | null
   isRegistered: boolean
   isApproved: boolean
+  deviceSecret: string | null
 }
 
 export interface SystemInfo {
@@ -182,6 +322,26 @@ export interface SystemInfo {
   version: string
 }
 
+// Snapshot of the session clock counted in the main process
+export interface SessionClock {
+  sessionId: string | null
+  sessionType: SessionType | null
+  status: 'idle' | 'running' | 'paused' | 'expired'
+  timeRemaining: number
+  totalSecondsUsed: number
+}
+
+// Behaviour pushed from the admin, already validated by the main process
+export interface ClientConfig {
+  blockedShortcuts: string[]
+  disableTaskManager: boolean
+  timerWarningSeconds: number
+  timerDangerSeconds: number
+  heartbeatIntervalSeconds: number
+  commandPollIntervalSeconds: number
+  sessionPollIntervalSeconds: number
+}
+
 export type AppScreen = 'setup' | 'pending' | 'lock' | 'member-login' | 'session' | 'message'
 
 export interface AppState {
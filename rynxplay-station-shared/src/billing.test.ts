@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateCharge,
+  calculateChargeDue,
+  calculatePurchasedSeconds,
+  createBillingSchedule,
+  getZonedTimeOfDay,
+  isScheduleActive,
+  resolveRate,
+  type Rate,
+  type RateSchedule
+} from './billing'
+
+function makeRate(overrides: Partial<Rate> = {}): Rate {
+  return {
+    id: 'regular',
+    branch_id: 'branch-1',
+    price_per_unit: 5,
+    unit_minutes: 30,
+    billing_mode: 'per_unit',
+    round_up: true,
+    grace_seconds: 0,
+    minimum_charge: 0,
+    max_charge: null,
+    is_active: true,
+    ...overrides
+  }
+}
+
+// Every day, 22:00 until 06:00 the next morning
+function makeNightSchedule(overrides: Partial<RateSchedule> = {}): RateSchedule {
+  return {
+    branch_id: 'branch-1',
+    rate_id: 'night',
+    days_of_week: [0, 1, 2, 3, 4, 5, 6],
+    start_time: '22:00',
+    end_time: '06:00',
+    priority: 1,
+    is_active: true,
+    ...overrides
+  }
+}
+
+// "H:MM:SS" to seconds
+function hms(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number)
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+// The shop's timezone, UTC+8 all year
+const SHOP_TIMEZONE = 'Asia/Manila'
+
+// Shop time on Monday 19 October 2026, or later days, whatever the
+// timezone of the machine running the tests
+function at(time: string, day = 19): Date {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  return new Date(Date.UTC(2026, 9, day, hours - 8, minutes, seconds))
+}
+
+const nightRate = makeRate({ id: 'night', price_per_unit: 3 })
+
+describe('calculateCharge', () => {
+  it.each([
+    ['0:00:00', 0],
+    ['0:00:01', 5],
+    ['0:29:59', 5],
+    ['0:30:00', 5],
+    ['0:30:01', 10],
+    ['1:00:00', 10],
+    ['1:00:01', 15],
+    ['2:00:00', 20]
+  ])('per_unit ₱5 / 30 min at %s is ₱%d', (elapsed, charge) => {
+    expect(calculateCharge(makeRate(), hms(elapsed))).toBe(charge)
+  })
+
+  it.each([
+    ['0:00:01', 0.17],
+    ['0:10:00', 1.67],
+    ['0:30:00', 5],
+    ['0:45:30', 7.67]
+  ])('per_minute ₱5 / 30 min at %s is ₱%d', (elapsed, charge) => {
+    expect(calculateCharge(makeRate({ billing_mode: 'per_minute' }), hms(elapsed))).toBe(charge)
+  })
+
+  it.each([
+    ['0:29:59', 0],
+    ['0:30:00', 5],
+    ['0:59:59', 5],
+    ['1:00:00', 10]
+  ])('per_unit without rounding up at %s is ₱%d', (elapsed, charge) => {
+    expect(calculateCharge(makeRate({ round_up: false }), hms(elapsed))).toBe(charge)
+  })
+
+  it.each([
+    ['0:02:00', 0],
+    ['0:02:01', 5],
+    ['0:30:01', 10]
+  ])('a 120s grace at %s is ₱%d', (elapsed, charge) => {
+    expect(calculateCharge(makeRate({ grace_seconds: 120 }), hms(elapsed))).toBe(charge)
+  })
+
+  it.each([
+    ['a ₱10 minimum', makeRate({ minimum_charge: 10 }), '0:00:01', 10],
+    ['a ₱10 minimum', makeRate({ minimum_charge: 10 }), '1:00:01', 15],
+    ['a ₱50 cap', makeRate({ max_charge: 50 }), '4:30:00', 45],
+    ['a ₱50 cap', makeRate({ max_charge: 50 }), '12:00:00', 50]
+  ])('with %s at %s is ₱%d', (_, rate, elapsed, charge) => {
+    expect(calculateCharge(rate, hms(elapsed))).toBe(charge)
+  })
+
+  it('is free on a rate without a block length', () => {
+    expect(calculateCharge(makeRate({ unit_minutes: 0 }), hms('1:00:00'))).toBe(0)
+  })
+
+  it.each([
+    ['0:15:00', 5],
+    ['0:30:00', 5],
+    ['0:30:01', 8],
+    ['1:00:00', 8],
+    ['1:00:01', 11]
+  ])('prices each block by the rate when it starts, from 21:45 at %s is ₱%d', (elapsed, charge) => {
+    const schedule = createBillingSchedule(makeRate(), [makeNightSchedule()], [nightRate], at('21:45'), SHOP_TIMEZONE)
+    expect(calculateCharge(makeRate(), hms(elapsed), schedule)).toBe(charge)
+  })
+})
+
+describe('calculateChargeDue', () => {
+  it.each([
+    ['per_unit', makeRate(), '0:00:01', 0, 5],
+    ['per_unit', makeRate(), '0:00:01', 5, 0],
+    ['per_unit', makeRate(), '0:30:01', 5, 5],
+    ['per_unit', makeRate(), '0:30:01', 12, 0],
+    ['per_minute', makeRate({ billing_mode: 'per_minute' }), '0:10:00', 1.5, 0.17],
+    ['per_minute', makeRate({ billing_mode: 'per_minute' }), '0:00:01', 0.1, 0.07],
+    ['a ₱10 minimum', makeRate({ minimum_charge: 10 }), '0:30:01', 10, 0],
+    ['a ₱50 cap', makeRate({ max_charge: 50 }), '12:00:00', 45, 5]
+  ])('%s at %s with ₱%d already charged owes ₱%d', (_, rate, elapsed, alreadyCharged, due) => {
+    expect(calculateChargeDue(rate, hms(elapsed), alreadyCharged)).toBe(due)
+  })
+
+  it('bills a session tick by tick to the same total as all at once', () => {
+    const rate = makeRate({ billing_mode: 'per_minute' })
+    let charged = 0
+    let elapsed = 0
+
+    for (; elapsed < hms('1:30:00'); elapsed += 7) {
+      charged = Math.round((charged + calculateChargeDue(rate, elapsed, charged)) * 100) / 100
+    }
+
+    expect(charged).toBe(calculateCharge(rate, elapsed - 7))
+  })
+})
+
+describe('calculatePurchasedSeconds', () => {
+  it.each([
+    [0, 0],
+    [5, hms('0:30:00')],
+    [7.5, hms('0:45:00')],
+    [20, hms('2:00:00')]
+  ])('₱%d buys %d seconds on ₱5 / 30 min', (amount, seconds) => {
+    expect(calculatePurchasedSeconds(makeRate(), amount)).toBe(seconds)
+  })
+
+  it.each([
+    ['21:45', 8, hms('1:00:00')],
+    ['21:45', 11, hms('1:30:00')],
+    ['21:00', 5, hms('0:30:00')],
+    ['21:00', 10, hms('1:00:00')]
+  ])('from %s, ₱%d buys %d seconds with a ₱3 night rate from 22:00', (start, amount, seconds) => {
+    const schedule = createBillingSchedule(makeRate(), [makeNightSchedule()], [nightRate], at(start), SHOP_TIMEZONE)
+    expect(calculatePurchasedSeconds(makeRate(), amount, schedule)).toBe(seconds)
+  })
+})
+
+describe('getZonedTimeOfDay', () => {
+  it.each([
+    ['Asia/Manila', '2026-10-19T16:30:15Z', 2, '00:30:15'],
+    ['America/New_York', '2026-10-19T16:30:15Z', 1, '12:30:15'],
+    ['UTC', '2026-10-19T16:30:15Z', 1, '16:30:15'],
+    ['Mars/Olympus_Mons', '2026-10-19T16:30:15Z', 1, '16:30:15']
+  ])('in %s at %s is day %d, %s', (timeZone, instant, day, time) => {
+    const [hours, minutes, seconds] = time.split(':').map(Number)
+    expect(getZonedTimeOfDay(new Date(instant), timeZone)).toEqual({
+      day,
+      seconds: hours * 3600 + minutes * 60 + seconds
+    })
+  })
+})
+
+describe('isScheduleActive', () => {
+  it.each([
+    ['21:59:59', 19, false],
+    ['22:00:00', 19, true],
+    ['23:59:59', 19, true],
+    ['00:00:00', 20, true],
+    ['05:59:59', 20, true],
+    ['06:00:00', 20, false]
+  ])('a 22:00-06:00 window at %s on day %d is %s', (time, day, active) => {
+    expect(isScheduleActive(makeNightSchedule(), at(time, day), SHOP_TIMEZONE)).toBe(active)
+  })
+
+  // Monday only; the hours after midnight belong to Monday's window
+  it.each([
+    ['23:00', 19, true],
+    ['01:00', 20, true],
+    ['01:00', 19, false],
+    ['23:00', 20, false]
+  ])('a Monday night window at %s on day %d is %s', (time, day, active) => {
+    expect(isScheduleActive(makeNightSchedule({ days_of_week: [1] }), at(time, day), SHOP_TIMEZONE)).toBe(active)
+  })
+
+  it.each([
+    ['11:59:59', false],
+    ['12:00:00', true],
+    ['16:59:59', true],
+    ['17:00:00', false]
+  ])('a 12:00-17:00 window at %s is %s', (time, active) => {
+    const schedule = makeNightSchedule({ start_time: '12:00', end_time: '17:00' })
+    expect(isScheduleActive(schedule, at(time), SHOP_TIMEZONE)).toBe(active)
+  })
+
+  // 22:30 in Manila is 14:30 UTC and 10:30 in New York
+  it.each([
+    ['Asia/Manila', true],
+    ['UTC', false],
+    ['America/New_York', false]
+  ])('a 22:00-06:00 window is read in the branch timezone, in %s active: %s', (timeZone, active) => {
+    expect(isScheduleActive(makeNightSchedule(), new Date('2026-10-19T14:30:00Z'), timeZone)).toBe(active)
+  })
+
+  it('is never active when switched off', () => {
+    expect(isScheduleActive(makeNightSchedule({ is_active: false }), at('23:00'), SHOP_TIMEZONE)).toBe(false)
+  })
+})
+
+describe('resolveRate', () => {
+  const vipRate = makeRate({ id: 'vip', price_per_unit: 10 })
+  const rates = [nightRate, vipRate]
+
+  it.each([
+    ['21:59:59', 'regular'],
+    ['22:00:00', 'night'],
+    ['23:30:00', 'vip'],
+    ['00:30:00', 'night']
+  ])('at %s the rate is %s', (time, rateId) => {
+    const schedules = [
+      makeNightSchedule(),
+      makeNightSchedule({ rate_id: 'vip', start_time: '23:00', end_time: '00:00', priority: 2 })
+    ]
+    expect(resolveRate(makeRate(), schedules, rates, at(time), SHOP_TIMEZONE).id).toBe(rateId)
+  })
+
+  it('ignores schedules of other branches and inactive rates', () => {
+    const schedules = [
+      makeNightSchedule({ branch_id: 'branch-2' }),
+      makeNightSchedule({ rate_id: 'vip' })
+    ]
+    const inactive = [nightRate, makeRate({ id: 'vip', is_active: false })]
+    expect(resolveRate(makeRate(), schedules, inactive, at('23:00'), SHOP_TIMEZONE).id).toBe('regular')
+  })
+})
@@ -0,0 +1,293 @@
+// Billing engine, used by the admin panel and the client PC.
+//
+// Charges are always computed from the total elapsed time of a session and
+// in whole centavos, so billing on every tick can never drift from the amount
+// recorded in transactions.
+//
+// Price table for a ₱5.00 / 30 min rate (per_unit, round up, no grace):
+//
+//   elapsed     charge      elapsed     charge
+//   0:00:00     ₱0.00       0:30:01     ₱10.00
+//   0:00:01     ₱5.00       1:00:00     ₱10.00
+//   0:29:59     ₱5.00       1:00:01     ₱15.00
+//   0:30:00     ₱5.00       2:00:00     ₱20.00
+//
+// Same rate as per_minute: 0:00:01 → ₱0.17, 0:10:00 → ₱1.67, 0:30:00 → ₱5.00,
+// 0:45:30 → ₱7.67. A 120s grace makes 0:02:00 free, 0:02:01 bills from zero.
+// minimum_charge ₱10 turns 0:00:01 into ₱10.00; max_charge ₱50 caps 12:00:00.
+//
+// With rate schedules each block is priced by the rate in effect when the
+// block starts: a ₱5/30 min session started at 21:45 with a ₱3/30 min night
+// window from 22:00 pays ₱5 for 21:45-22:15 and ₱3 per block after that.
+// Schedule windows are read in the branch's timezone, like opening hours.
+//
+// These examples are the cases in billing.test.ts.
+
+export type BillingMode = 'per_unit' | 'per_minute'
+
+// The columns of a rates row that billing reads
+export interface Rate {
+  id: string
+  branch_id: string
+  price_per_unit: number
+  unit_minutes: number
+  billing_mode: BillingMode
+  round_up: boolean
+  grace_seconds: number
+  minimum_charge: number
+  max_charge: number | null
+  is_active: boolean
+}
+
+// The columns of a rate_schedules row that billing reads
+export interface RateSchedule<R extends Rate = Rate> {
+  branch_id: string
+  rate_id: string
+  days_of_week: number[]
+  start_time: string
+  end_time: string
+  priority: number
+  is_active: boolean
+  rates?: R
+}
+
+export interface BillingRules {
+  mode: BillingMode
+  roundUp: boolean
+  graceSeconds: number
+  minimumCharge: number
+  maxCharge: number | null
+}
+
+export type RateResolver = (at: Date) => Rate
+
+// When a session started and how to find the rate at any point after
+export interface BillingSchedule {
+  startedAt: Date
+  resolveRate: RateResolver
+}
+
+export const DEFAULT_BILLING_RULES: BillingRules = {
+  mode: 'per_unit',
+  roundUp: true,
+  graceSeconds: 0,
+  minimumCharge: 0,
+  maxCharge: null
+}
+
+// Upper bound for how far a purchase is walked through rate windows
+const MAX_PURCHASE_SECONDS = 7 * 24 * 60 * 60
+
+// Convert pesos to whole centavos
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// Read the billing columns of a rate, falling back to defaults
+export function getBillingRules(rate: Rate): BillingRules {
+  return {
+    mode: rate.billing_mode || DEFAULT_BILLING_RULES.mode,
+    roundUp: rate.round_up ?? DEFAULT_BILLING_RULES.roundUp,
+    graceSeconds: Number(rate.grace_seconds) || DEFAULT_BILLING_RULES.graceSeconds,
+    minimumCharge: Number(rate.minimum_charge) || DEFAULT_BILLING_RULES.minimumCharge,
+    maxCharge: rate.max_charge != null ? Number(rate.max_charge) : DEFAULT_BILLING_RULES.maxCharge
+  }
+}
+
+// Length and price (in fractional centavos) of one billing block of a rate
+function getBlock(rate: Rate): { seconds: number; cents: number } {
+  const unitMinutes = Number(rate.unit_minutes)
+  const priceCents = toCents(Number(rate.price_per_unit))
+
+  if (unitMinutes <= 0 || priceCents < 0) {
+    return { seconds: 0, cents: 0 }
+  }
+
+  if (getBillingRules(rate).mode === 'per_minute') {
+    return { seconds: 60, cents: priceCents / unitMinutes }
+  }
+
+  return { seconds: unitMinutes * 60, cents: priceCents }
+}
+
+// Rate in effect a number of seconds into the session
+function getRateAt(rate: Rate, offsetSeconds: number, schedule?: BillingSchedule): Rate {
+  if (!schedule) return rate
+  return schedule.resolveRate(new Date(schedule.startedAt.getTime() + offsetSeconds * 1000))
+}
+
+// Total amount owed for a session that has run for elapsedSeconds. Grace,
+// rounding, minimum and cap always come from the session's own rate.
+export function calculateCharge(rate: Rate, elapsedSeconds: number, schedule?: BillingSchedule): number {
+  const rules = getBillingRules(rate)
+  const elapsed = Math.max(0, Math.floor(elapsedSeconds))
+
+  if (elapsed === 0 || elapsed <= rules.graceSeconds) {
+    return 0
+  }
+
+  let offset = 0
+  let cents = 0
+
+  while (offset < elapsed) {
+    let block = getBlock(getRateAt(rate, offset, schedule))
+    if (block.seconds <= 0) block = getBlock(rate)
+    if (block.seconds <= 0) return 0
+
+    if (offset + block.seconds <= elapsed) {
+      cents += block.cents
+      offset += block.seconds
+    } else {
+      if (rules.roundUp) cents += block.cents
+      break
+    }
+  }
+
+  // Per-minute blocks carry fractions of a centavo until the very end
+  cents = rules.roundUp ? Math.ceil(cents - 1e-6) : Math.floor(cents + 1e-6)
+
+  if (cents <= 0) {
+    return 0
+  }
+
+  cents = Math.max(cents, toCents(rules.minimumCharge))
+
+  if (rules.maxCharge !== null) {
+    cents = Math.min(cents, toCents(rules.maxCharge))
+  }
+
+  return cents / 100
+}
+
+// Amount still to bill after alreadyCharged has been collected
+export function calculateChargeDue(
+  rate: Rate,
+  elapsedSeconds: number,
+  alreadyCharged: number,
+  schedule?: BillingSchedule
+): number {
+  const dueCents = toCents(calculateCharge(rate, elapsedSeconds, schedule)) - toCents(alreadyCharged)
+  return Math.max(0, dueCents) / 100
+}
+
+// Seconds of play a prepaid amount buys. Whole blocks are bought at the
+// price of the rate in effect when each block starts and whatever is left
+// buys a prorated part of the next block.
+export function calculatePurchasedSeconds(rate: Rate, amount: number, schedule?: BillingSchedule): number {
+  let remaining = toCents(amount)
+  let offset = 0
+
+  while (remaining > 0 && offset < MAX_PURCHASE_SECONDS) {
+    let block = getBlock(getRateAt(rate, offset, schedule))
+    if (block.seconds <= 0) block = getBlock(rate)
+    if (block.seconds <= 0) return 0
+
+    // Free windows cost nothing to play through
+    if (block.cents <= 0) {
+      offset += block.seconds
+      continue
+    }
+
+    if (remaining >= block.cents) {
+      remaining -= block.cents
+      offset += block.seconds
+    } else {
+      offset += (remaining / block.cents) * block.seconds
+      remaining = 0
+    }
+  }
+
+  return Math.floor(Math.min(offset, MAX_PURCHASE_SECONDS))
+}
+
+// ============================================
+// RATE SCHEDULES
+// ============================================
+
+// "HH:MM[:SS]" to seconds since midnight
+export function parseTimeOfDay(time: string): number {
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number)
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Weekday (0 = Sunday) and seconds since midnight of a moment in a timezone.
+// An unknown timezone is read as UTC rather than the device's own.
+export function getZonedTimeOfDay(at: Date, timeZone: string): { day: number; seconds: number } {
+  let format: Intl.DateTimeFormat
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    })
+  } catch {
+    return getZonedTimeOfDay(at, 'UTC')
+  }
+
+  const parts = format.formatToParts(at)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? ''
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    seconds: Number(part('hour')) * 3600 + Number(part('minute')) * 60 + Number(part('second'))
+  }
+}
+
+// Whether a schedule window covers a moment, read in the branch's timezone
+// whatever the clock of the device asking says. Windows that end at or
+// before their start wrap past midnight and belong to the weekday they
+// started on.
+export function isScheduleActive(schedule: RateSchedule, at: Date, timeZone: string): boolean {
+  if (!schedule.is_active) return false
+
+  const start = parseTimeOfDay(schedule.start_time)
+  const end = parseTimeOfDay(schedule.end_time)
+  const { day: today, seconds: now } = getZonedTimeOfDay(at, timeZone)
+  const yesterday = (today + 6) % 7
+
+  if (start < end) {
+    return schedule.days_of_week.includes(today) && now >= start && now < end
+  }
+
+  if (now >= start) return schedule.days_of_week.includes(today)
+  if (now < end) return schedule.days_of_week.includes(yesterday)
+  return false
+}
+
+// Rate that applies on a device at a moment: the highest priority active
+// schedule of its branch, otherwise the device's own rate
+export function resolveRate<R extends Rate>(
+  baseRate: R,
+  schedules: RateSchedule<R>[],
+  rates: R[],
+  at: Date,
+  timeZone: string
+): R {
+  const scheduled = schedules
+    .filter(s => s.branch_id === baseRate.branch_id && isScheduleActive(s, at, timeZone))
+    .sort((a, b) => b.priority - a.priority)
+    .map(s => s.rates || rates.find(r => r.id === s.rate_id))
+    .find((r): r is R => !!r && r.is_active)
+
+  return scheduled || baseRate
+}
+
+// Billing schedule for a session on a rate with the branch's schedules,
+// in the branch's timezone
+export function createBillingSchedule<R extends Rate>(
+  baseRate: R,
+  schedules: RateSchedule<R>[],
+  rates: R[],
+  startedAt: Date,
+  timeZone: string
+): BillingSchedule {
+  return {
+    startedAt,
+    resolveRate: (at) => resolveRate(baseRate, schedules, rates, at, timeZone)
+  }
+}
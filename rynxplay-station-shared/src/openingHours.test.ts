@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { formatOpeningHours, isBranchOpen, type BranchHours } from './openingHours'
+
+function makeBranch(overrides: Partial<BranchHours> = {}): BranchHours {
+  return {
+    timezone: 'Asia/Manila',
+    opens_at: '10:00:00',
+    closes_at: '22:00:00',
+    open_days: [0, 1, 2, 3, 4, 5, 6],
+    ...overrides
+  }
+}
+
+// Fridays only, 10:00 until 02:00 the next morning
+const fridayNights = makeBranch({ closes_at: '02:00:00', open_days: [5] })
+
+describe('isBranchOpen', () => {
+  it.each([
+    ['Fri 09:59', '2026-10-23T01:59:00Z', false],
+    ['Fri 10:00', '2026-10-23T02:00:00Z', true],
+    ['Sat 01:59', '2026-10-23T17:59:00Z', true],
+    ['Sat 02:00', '2026-10-23T18:00:00Z', false],
+    ['Sat 10:00', '2026-10-24T02:00:00Z', false],
+    ['Thu 23:00', '2026-10-22T15:00:00Z', false]
+  ])('Friday nights in Manila at %s is open: %s', (_, instant, open) => {
+    expect(isBranchOpen(fridayNights, new Date(instant))).toBe(open)
+  })
+
+  it.each([
+    ['Asia/Manila', false],
+    ['America/New_York', true],
+    ['Mars/Olympus_Mons', true]
+  ])('10:00 - 22:00 at 15:00 UTC in %s is open: %s', (timezone, open) => {
+    expect(isBranchOpen(makeBranch({ timezone }), new Date('2026-10-19T15:00:00Z'))).toBe(open)
+  })
+
+  it('is always open without hours', () => {
+    expect(isBranchOpen(makeBranch({ opens_at: null, closes_at: null, open_days: [] }), new Date())).toBe(true)
+  })
+})
+
+describe('formatOpeningHours', () => {
+  it.each([
+    ['daytime hours', makeBranch(), '10:00 - 22:00'],
+    ['hours past midnight', fridayNights, '10:00 - 02:00'],
+    ['no hours', makeBranch({ opens_at: null }), 'Always open']
+  ])('%s read %s', (_, branch, text) => {
+    expect(formatOpeningHours(branch)).toBe(text)
+  })
+})
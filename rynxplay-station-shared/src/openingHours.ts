@@ -0,0 +1,46 @@
+// Opening hours, used by the admin kiosk and the client PC lock screen.
+//
+// Same rules as is_branch_open() in the database: the time is read in the
+// branch's own timezone, whatever the clock of the device asking says, and
+// hours ending at or before they start wrap past midnight and belong to the
+// weekday they opened on. A branch without hours is always open.
+//
+// For a branch in Asia/Manila open 10:00 - 02:00 on Fridays only:
+//
+//   Fri 09:59 closed    Sat 01:59 open (still Friday's hours)
+//   Fri 10:00 open      Sat 02:00 closed
+//
+// These examples are the cases in openingHours.test.ts.
+
+import { getZonedTimeOfDay, parseTimeOfDay } from './billing'
+
+// The columns of a branches row that opening hours read
+export interface BranchHours {
+  timezone: string
+  opens_at: string | null
+  closes_at: string | null
+  open_days: number[]
+}
+
+export function isBranchOpen(branch: BranchHours, at: Date): boolean {
+  if (!branch.opens_at || !branch.closes_at) return true
+
+  const opens = parseTimeOfDay(branch.opens_at)
+  const closes = parseTimeOfDay(branch.closes_at)
+  const { day: today, seconds: now } = getZonedTimeOfDay(at, branch.timezone)
+  const yesterday = (today + 6) % 7
+
+  if (opens < closes) {
+    return branch.open_days.includes(today) && now >= opens && now < closes
+  }
+
+  if (now >= opens) return branch.open_days.includes(today)
+  if (now < closes) return branch.open_days.includes(yesterday)
+  return false
+}
+
+// e.g. "10:00 - 02:00"
+export function formatOpeningHours(branch: Pick<BranchHours, 'opens_at' | 'closes_at'>): string {
+  if (!branch.opens_at || !branch.closes_at) return 'Always open'
+  return `${branch.opens_at.slice(0, 5)} - ${branch.closes_at.slice(0, 5)}`
+}
@@ -0,0 +1,188 @@
+-- ============================================
+-- CREDIT LEDGER
+-- ============================================
+-- Every change to members.credits goes through the ledger below.
+-- The member row is locked for the duration of the call so concurrent
+-- charges from different stations (or a top-up during a session) are
+-- serialized, and the transaction row is written in the same database
+-- transaction as the balance change.
+--
+-- Amounts are signed: positive credits the member, negative debits.
+--
+-- apply_member_credit_unchecked() is the ledger itself and can't be called
+-- directly; the functions built on it check their callers first.
+
+CREATE OR REPLACE FUNCTION apply_member_credit_unchecked(
+    p_member_id UUID,
+    p_amount DECIMAL(10,2),
+    p_type VARCHAR(50),
+    p_branch_id UUID DEFAULT NULL,
+    p_session_id UUID DEFAULT NULL,
+    p_payment_method VARCHAR(50) DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_created_by UUID DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+    v_balance DECIMAL(10,2);
+    v_branch_id UUID := p_branch_id;
+    v_tx transactions;
+BEGIN
+    IF p_amount IS NULL OR p_amount = 0 THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    IF p_type NOT IN ('topup', 'usage', 'refund', 'adjustment', 'transfer') THEN
+        RAISE EXCEPTION 'invalid_type';
+    END IF;
+
+    SELECT credits INTO v_balance
+    FROM members
+    WHERE id = p_member_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'member_not_found';
+    END IF;
+
+    v_balance := COALESCE(v_balance, 0);
+
+    IF v_balance + p_amount < 0 THEN
+        RAISE EXCEPTION 'insufficient_credits';
+    END IF;
+
+    -- Usage charges from a client PC only know the session
+    IF v_branch_id IS NULL AND p_session_id IS NOT NULL THEN
+        SELECT d.branch_id INTO v_branch_id
+        FROM sessions s
+        JOIN devices d ON d.id = s.device_id
+        WHERE s.id = p_session_id;
+    END IF;
+
+    PERFORM set_config('app.credit_ledger', 'on', true);
+
+    UPDATE members
+    SET credits = v_balance + p_amount,
+        updated_at = NOW()
+    WHERE id = p_member_id;
+
+    PERFORM set_config('app.credit_ledger', 'off', true);
+
+    INSERT INTO transactions (
+        member_id, branch_id, session_id, type, amount,
+        balance_before, balance_after, payment_method, notes, created_by
+    )
+    VALUES (
+        p_member_id, v_branch_id, p_session_id, p_type, p_amount,
+        v_balance, v_balance + p_amount, p_payment_method, p_notes, p_created_by
+    )
+    RETURNING * INTO v_tx;
+
+    -- Keep the running session total in step with what was charged
+    IF p_type = 'usage' AND p_session_id IS NOT NULL THEN
+        UPDATE sessions
+        SET total_amount = COALESCE(total_amount, 0) - p_amount
+        WHERE id = p_session_id;
+    END IF;
+
+    RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_member_credit_unchecked(UUID, DECIMAL, VARCHAR, UUID, UUID, VARCHAR, TEXT, UUID)
+    FROM PUBLIC, anon, authenticated;
+
+-- Balance changes made directly by a caller:
+--   owner, admin  top-ups, usage, refunds and adjustments
+--   staff         top-ups and usage
+--   client PC     usage, for the member of a session still running
+-- Staff are limited to members of their org and are recorded as the
+-- creator. Transfers only go through transfer_member_credits().
+CREATE OR REPLACE FUNCTION apply_member_credit(
+    p_member_id UUID,
+    p_amount DECIMAL(10,2),
+    p_type VARCHAR(50),
+    p_branch_id UUID DEFAULT NULL,
+    p_session_id UUID DEFAULT NULL,
+    p_payment_method VARCHAR(50) DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+    v_staff staff_users;
+BEGIN
+    SELECT * INTO v_staff
+    FROM staff_users
+    WHERE auth_user_id = auth.uid()
+      AND is_active = TRUE;
+
+    IF v_staff.id IS NOT NULL THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM members WHERE id = p_member_id AND org_id = v_staff.org_id
+        ) THEN
+            RAISE EXCEPTION 'member_not_found';
+        END IF;
+
+        IF p_branch_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM branches WHERE id = p_branch_id AND org_id = v_staff.org_id
+        ) THEN
+            RAISE EXCEPTION 'invalid_branch';
+        END IF;
+
+        IF p_type NOT IN ('topup', 'usage', 'refund', 'adjustment')
+           OR (p_type IN ('refund', 'adjustment') AND v_staff.role NOT IN ('owner', 'admin')) THEN
+            RAISE EXCEPTION 'not_allowed';
+        END IF;
+
+        IF (p_type = 'topup' AND p_amount < 0) OR (p_type = 'usage' AND p_amount > 0) THEN
+            RAISE EXCEPTION 'invalid_amount';
+        END IF;
+    ELSIF auth.uid() IS NULL THEN
+        -- Client PCs have no account, only the session they are running
+        IF p_type <> 'usage' OR p_amount >= 0 OR NOT EXISTS (
+            SELECT 1 FROM sessions
+            WHERE id = p_session_id
+              AND member_id = p_member_id
+              AND status IN ('active', 'paused')
+        ) THEN
+            RAISE EXCEPTION 'not_allowed';
+        END IF;
+    ELSE
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    RETURN apply_member_credit_unchecked(
+        p_member_id,
+        p_amount,
+        p_type,
+        p_branch_id,
+        p_session_id,
+        p_payment_method,
+        p_notes,
+        v_staff.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_member_credit(UUID, DECIMAL, VARCHAR, UUID, UUID, VARCHAR, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_member_credit(UUID, DECIMAL, VARCHAR, UUID, UUID, VARCHAR, TEXT) TO anon, authenticated;
+
+-- Reject balance changes that bypass the ledger
+CREATE OR REPLACE FUNCTION guard_member_credits()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.credits IS DISTINCT FROM OLD.credits
+        AND current_setting('app.credit_ledger', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'credits can only be changed through apply_member_credit';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS members_credits_guard ON members;
+CREATE TRIGGER members_credits_guard
+    BEFORE UPDATE OF credits ON members
+    FOR EACH ROW EXECUTE FUNCTION guard_member_credits();
+
+-- The read-modify-write helper is superseded by the ledger
+DROP FUNCTION IF EXISTS increment_session_amount(UUID, DECIMAL);
@@ -0,0 +1,23 @@
+-- ============================================
+-- RATE BILLING RULES
+-- ============================================
+-- Columns read by the billing engine (rynxplay-station-shared/src/billing.ts).
+--   billing_mode    per_unit bills whole unit_minutes blocks,
+--                   per_minute prorates price_per_unit by the minute
+--   round_up        bill a started block/minute as a full one
+--   grace_seconds   sessions this short are free
+--   minimum_charge  least amount billed once the grace period is over
+--   max_charge      cap on a single session (NULL = no cap)
+
+ALTER TABLE rates
+    ADD COLUMN IF NOT EXISTS billing_mode VARCHAR(20) NOT NULL DEFAULT 'per_unit',
+    ADD COLUMN IF NOT EXISTS round_up BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS grace_seconds INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS minimum_charge DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    ADD COLUMN IF NOT EXISTS max_charge DECIMAL(10,2);
+
+ALTER TABLE rates
+    ADD CONSTRAINT rates_billing_mode_check CHECK (billing_mode IN ('per_unit', 'per_minute')),
+    ADD CONSTRAINT rates_grace_seconds_check CHECK (grace_seconds >= 0),
+    ADD CONSTRAINT rates_minimum_charge_check CHECK (minimum_charge >= 0),
+    ADD CONSTRAINT rates_max_charge_check CHECK (max_charge IS NULL OR max_charge >= minimum_charge);
@@ -0,0 +1,43 @@
+-- ============================================
+-- RATE SCHEDULES
+-- ============================================
+-- Time-of-day / day-of-week rules that swap in another rate of the same
+-- branch while they are active (happy hour, night pass, weekend promo).
+--
+--   days_of_week  0 = Sunday ... 6 = Saturday, the day the window starts on
+--   start_time    local shop time the window opens
+--   end_time      local shop time it closes; end_time <= start_time wraps
+--                 past midnight (22:00 - 06:00)
+--   priority      highest active rule wins when windows overlap
+--
+-- When no rule matches, the device's own rate_id applies.
+
+CREATE TABLE rate_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    rate_id UUID REFERENCES rates(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    days_of_week SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT rate_schedules_days_check CHECK (days_of_week <@ '{0,1,2,3,4,5,6}'::SMALLINT[])
+);
+
+CREATE INDEX idx_rate_schedules_branch ON rate_schedules(branch_id);
+
+ALTER TABLE rate_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage rate schedules in their org" ON rate_schedules
+    FOR ALL USING (
+        branch_id IN (
+            SELECT id FROM branches WHERE org_id = get_user_org_id()
+        )
+    );
+
+-- Client PCs read the schedules of their branch to bill members
+CREATE POLICY "Devices can view rate schedules" ON rate_schedules
+    FOR SELECT USING (is_active = TRUE);
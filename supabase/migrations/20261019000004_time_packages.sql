@@ -0,0 +1,45 @@
+-- ============================================
+-- PREPAID TIME PACKAGES
+-- ============================================
+-- Fixed-price bundles sold to guests at the kiosk instead of linear time.
+--   duration    price buys duration_minutes of play ("3 hours for ₱50")
+--   until_time  price buys play until end_time, the next time that clock
+--               time comes around ("overnight 10pm-8am"). start_time, when
+--               set, limits the hours the package can be bought in.
+
+CREATE TABLE time_packages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    package_type VARCHAR(20) NOT NULL DEFAULT 'duration', -- duration, until_time
+    price DECIMAL(10,2) NOT NULL,
+    duration_minutes INTEGER,
+    start_time TIME,
+    end_time TIME,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT time_packages_type_check CHECK (
+        (package_type = 'duration' AND duration_minutes > 0)
+        OR (package_type = 'until_time' AND end_time IS NOT NULL)
+    ),
+    CONSTRAINT time_packages_price_check CHECK (price >= 0)
+);
+
+CREATE INDEX idx_time_packages_branch ON time_packages(branch_id);
+
+-- Sessions remember the package they were sold with for revenue reports
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS package_id UUID REFERENCES time_packages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_sessions_package ON sessions(package_id);
+
+ALTER TABLE time_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage time packages in their org" ON time_packages
+    FOR ALL USING (
+        branch_id IN (
+            SELECT id FROM branches WHERE org_id = get_user_org_id()
+        )
+    );
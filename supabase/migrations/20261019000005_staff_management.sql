@@ -0,0 +1,206 @@
+-- ============================================
+-- STAFF MANAGEMENT
+-- ============================================
+-- Owners and admins invite staff by email. An invite is a staff_users row
+-- without an auth user yet; when the invitee signs up with that (confirmed)
+-- email, claim_staff_invite() links the account on their first sign in.
+--
+--   owner  everything, including managing other owners
+--   admin  everything except touching owner accounts
+--   staff  day-to-day operation: no device removal, no pricing changes,
+--          no shutdown commands
+--
+-- Deactivated staff keep their row for history but lose access to org data.
+
+ALTER TABLE staff_users ALTER COLUMN auth_user_id DROP NOT NULL;
+
+ALTER TABLE staff_users
+    ADD CONSTRAINT staff_users_role_check CHECK (role IN ('owner', 'admin', 'staff'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_users_org_email ON staff_users(org_id, LOWER(email));
+
+-- Only active staff resolve to an organization
+CREATE OR REPLACE FUNCTION get_user_org_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN (
+        SELECT org_id FROM staff_users
+        WHERE auth_user_id = auth.uid()
+          AND is_active = TRUE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_user_role()
+RETURNS VARCHAR AS $$
+BEGIN
+    RETURN (
+        SELECT role FROM staff_users
+        WHERE auth_user_id = auth.uid()
+          AND is_active = TRUE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION invite_staff_user(
+    p_email VARCHAR(255),
+    p_name VARCHAR(255),
+    p_role VARCHAR(50),
+    p_branch_id UUID DEFAULT NULL
+)
+RETURNS staff_users AS $$
+DECLARE
+    v_org_id UUID := get_user_org_id();
+    v_caller_role VARCHAR := get_user_role();
+    v_staff staff_users;
+BEGIN
+    IF v_caller_role IS NULL OR v_caller_role NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF p_role NOT IN ('owner', 'admin', 'staff') THEN
+        RAISE EXCEPTION 'invalid_role';
+    END IF;
+
+    IF p_role = 'owner' AND v_caller_role <> 'owner' THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF p_branch_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM branches WHERE id = p_branch_id AND org_id = v_org_id
+    ) THEN
+        RAISE EXCEPTION 'invalid_branch';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM staff_users WHERE org_id = v_org_id AND LOWER(email) = LOWER(p_email)
+    ) THEN
+        RAISE EXCEPTION 'already_invited';
+    END IF;
+
+    INSERT INTO staff_users (org_id, branch_id, role, name, email)
+    VALUES (v_org_id, p_branch_id, p_role, p_name, LOWER(p_email))
+    RETURNING * INTO v_staff;
+
+    RETURN v_staff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Link a pending invite to the signed-in user. Relies on Supabase email
+-- confirmation so nobody can claim an invite for an address they don't own.
+CREATE OR REPLACE FUNCTION claim_staff_invite()
+RETURNS staff_users AS $$
+DECLARE
+    v_staff staff_users;
+BEGIN
+    IF auth.uid() IS NULL OR (auth.jwt() ->> 'email') IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM staff_users WHERE auth_user_id = auth.uid()) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE staff_users
+    SET auth_user_id = auth.uid(),
+        updated_at = NOW()
+    WHERE id = (
+        SELECT id FROM staff_users
+        WHERE auth_user_id IS NULL
+          AND is_active = TRUE
+          AND LOWER(email) = LOWER(auth.jwt() ->> 'email')
+        ORDER BY created_at
+        LIMIT 1
+    )
+    RETURNING * INTO v_staff;
+
+    RETURN v_staff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins cannot touch owner accounts and nobody can demote or deactivate
+-- themselves (which could leave an org without an owner)
+CREATE OR REPLACE FUNCTION guard_staff_user_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_caller_role VARCHAR := get_user_role();
+BEGIN
+    -- Service role and claim_staff_invite() run without a staff caller
+    IF v_caller_role IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_caller_role <> 'owner' AND (OLD.role = 'owner' OR NEW.role = 'owner') THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF OLD.auth_user_id = auth.uid()
+        AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active) THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF NEW.org_id IS DISTINCT FROM OLD.org_id OR NEW.auth_user_id IS DISTINCT FROM OLD.auth_user_id THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS staff_users_guard ON staff_users;
+CREATE TRIGGER staff_users_guard
+    BEFORE UPDATE ON staff_users
+    FOR EACH ROW EXECUTE FUNCTION guard_staff_user_changes();
+
+-- ============================================
+-- RLS
+-- ============================================
+
+CREATE POLICY "Users can view their own staff record" ON staff_users
+    FOR SELECT USING (auth_user_id = auth.uid());
+
+CREATE POLICY "Users can view staff in their org" ON staff_users
+    FOR SELECT USING (org_id = get_user_org_id());
+
+CREATE POLICY "Admins can update staff in their org" ON staff_users
+    FOR UPDATE USING (
+        org_id = get_user_org_id()
+        AND get_user_role() IN ('owner', 'admin')
+    );
+
+-- Role guards. Restrictive policies are AND-ed with the existing ones, so
+-- they only take permissions away from the staff role.
+CREATE POLICY "Only admins can delete devices" ON devices
+    AS RESTRICTIVE FOR DELETE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can create rates" ON rates
+    AS RESTRICTIVE FOR INSERT WITH CHECK (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can update rates" ON rates
+    AS RESTRICTIVE FOR UPDATE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can delete rates" ON rates
+    AS RESTRICTIVE FOR DELETE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can create rate schedules" ON rate_schedules
+    AS RESTRICTIVE FOR INSERT WITH CHECK (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can update rate schedules" ON rate_schedules
+    AS RESTRICTIVE FOR UPDATE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can delete rate schedules" ON rate_schedules
+    AS RESTRICTIVE FOR DELETE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can create time packages" ON time_packages
+    AS RESTRICTIVE FOR INSERT WITH CHECK (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can update time packages" ON time_packages
+    AS RESTRICTIVE FOR UPDATE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can delete time packages" ON time_packages
+    AS RESTRICTIVE FOR DELETE USING (get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Only admins can send shutdown commands" ON device_commands
+    AS RESTRICTIVE FOR INSERT WITH CHECK (
+        command_type <> 'shutdown' OR get_user_role() IN ('owner', 'admin')
+    );
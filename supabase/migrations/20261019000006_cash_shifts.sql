@@ -0,0 +1,144 @@
+-- ============================================
+-- CASH DRAWER SHIFTS
+-- ============================================
+-- A staff member opens a shift with a starting float. Every cash or coin
+-- transaction they create while it is open is stamped with the shift, and
+-- close_cash_shift() reconciles the drawer:
+--
+--   expected_cash = opening_float + sum(cash/coin transactions of the shift)
+--   variance      = counted_cash - expected_cash   (negative = short)
+--
+-- Shifts are always opened and closed as the signed-in staff member.
+
+-- The signed-in staff member, or NULL
+CREATE OR REPLACE FUNCTION get_user_staff_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN (
+        SELECT id FROM staff_users
+        WHERE auth_user_id = auth.uid()
+          AND is_active = TRUE
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE cash_shifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    staff_id UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- open, closed
+    opening_float DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    cash_total DECIMAL(10,2),
+    expected_cash DECIMAL(10,2),
+    counted_cash DECIMAL(10,2),
+    variance DECIMAL(10,2),
+    notes TEXT,
+    opened_at TIMESTAMPTZ DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    closed_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT cash_shifts_status_check CHECK (status IN ('open', 'closed')),
+    CONSTRAINT cash_shifts_float_check CHECK (opening_float >= 0)
+);
+
+CREATE INDEX idx_cash_shifts_branch ON cash_shifts(branch_id, opened_at DESC);
+
+-- One open drawer per staff member
+CREATE UNIQUE INDEX idx_cash_shifts_open_staff ON cash_shifts(staff_id) WHERE status = 'open';
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cash_shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_shift ON transactions(shift_id);
+
+-- Stamp cash transactions with the creating staff member's open shift, so
+-- kiosk coins, counter top-ups and ledger calls are all covered
+CREATE OR REPLACE FUNCTION stamp_transaction_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.shift_id IS NULL
+        AND NEW.created_by IS NOT NULL
+        AND NEW.payment_method IN ('cash', 'coin') THEN
+        SELECT id INTO NEW.shift_id
+        FROM cash_shifts
+        WHERE staff_id = NEW.created_by
+          AND status = 'open';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_stamp_shift ON transactions;
+CREATE TRIGGER transactions_stamp_shift
+    BEFORE INSERT ON transactions
+    FOR EACH ROW EXECUTE FUNCTION stamp_transaction_shift();
+
+CREATE OR REPLACE FUNCTION close_cash_shift(
+    p_shift_id UUID,
+    p_counted_cash DECIMAL(10,2),
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_shifts AS $$
+DECLARE
+    v_shift cash_shifts;
+    v_cash_total DECIMAL(10,2);
+BEGIN
+    IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    SELECT * INTO v_shift
+    FROM cash_shifts
+    WHERE id = p_shift_id
+      AND branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'shift_not_found';
+    END IF;
+
+    IF v_shift.status <> 'open' THEN
+        RAISE EXCEPTION 'shift_closed';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_cash_total
+    FROM transactions
+    WHERE shift_id = p_shift_id
+      AND payment_method IN ('cash', 'coin');
+
+    UPDATE cash_shifts
+    SET status = 'closed',
+        cash_total = v_cash_total,
+        expected_cash = opening_float + v_cash_total,
+        counted_cash = p_counted_cash,
+        variance = p_counted_cash - (opening_float + v_cash_total),
+        notes = p_notes,
+        closed_at = NOW(),
+        closed_by = get_user_staff_id(),
+        updated_at = NOW()
+    WHERE id = p_shift_id
+    RETURNING * INTO v_shift;
+
+    RETURN v_shift;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE cash_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cash shifts in their org" ON cash_shifts
+    FOR SELECT USING (
+        branch_id IN (
+            SELECT id FROM branches WHERE org_id = get_user_org_id()
+        )
+    );
+
+CREATE POLICY "Users can open cash shifts in their org" ON cash_shifts
+    FOR INSERT WITH CHECK (
+        status = 'open'
+        AND staff_id = get_user_staff_id()
+        AND branch_id IN (
+            SELECT id FROM branches WHERE org_id = get_user_org_id()
+        )
+    );
+
+-- Closing goes through close_cash_shift() so the totals can't be edited
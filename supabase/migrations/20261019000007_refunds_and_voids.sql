@@ -0,0 +1,225 @@
+-- ============================================
+-- REFUNDS AND VOIDS
+-- ============================================
+-- Reversals never edit the original row. They add a new transaction that
+-- points back to it through original_transaction_id, so the details view
+-- can show the whole chain.
+--
+--   void_transaction  takes back a mistaken member top-up (type adjustment,
+--                     same payment method, so cash voids leave the drawer)
+--   refund_session    guest: pays back the unused time of a terminated
+--                     session in cash (type refund, negative amount), worth
+--                     its share of what was paid; member: credits part of
+--                     the session charge back to the member's balance
+--                     (type refund)
+--
+-- Both are limited to owners and admins and recorded as the signed-in staff
+-- member. Cash that goes back out counts
+-- against the shift that took it in while that shift is open, not the drawer
+-- of whoever reverses it. Once that shift is closed its count is final, so
+-- the reversal goes to the reversing staff member's own open shift.
+
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS original_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES staff_users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_original ON transactions(original_transaction_id);
+
+CREATE OR REPLACE FUNCTION void_transaction(
+    p_transaction_id UUID,
+    p_reason TEXT
+)
+RETURNS transactions AS $$
+DECLARE
+    v_original transactions;
+    v_staff_id UUID := get_user_staff_id();
+    v_tx transactions;
+BEGIN
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'reason_required';
+    END IF;
+
+    SELECT * INTO v_original
+    FROM transactions
+    WHERE id = p_transaction_id
+      AND branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'transaction_not_found';
+    END IF;
+
+    IF v_original.type <> 'topup' OR v_original.member_id IS NULL THEN
+        RAISE EXCEPTION 'not_refundable';
+    END IF;
+
+    IF v_original.voided_at IS NOT NULL THEN
+        RAISE EXCEPTION 'already_voided';
+    END IF;
+
+    -- Fails with insufficient_credits if the member already spent it
+    v_tx := apply_member_credit_unchecked(
+        v_original.member_id,
+        -v_original.amount,
+        'adjustment',
+        v_original.branch_id,
+        NULL,
+        v_original.payment_method,
+        'Void: ' || TRIM(p_reason),
+        v_staff_id
+    );
+
+    -- The insert stamped the reversing staff member's open shift
+    UPDATE transactions
+    SET original_transaction_id = v_original.id,
+        shift_id = COALESCE(
+            (SELECT id FROM cash_shifts WHERE id = v_original.shift_id AND status = 'open'),
+            shift_id
+        )
+    WHERE id = v_tx.id
+    RETURNING * INTO v_tx;
+
+    UPDATE transactions
+    SET voided_at = NOW(),
+        voided_by = v_staff_id
+    WHERE id = v_original.id;
+
+    RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- p_amount is the part of a member's charge to give back; a guest always
+-- gets the unused time, so it is not used for guest sessions
+CREATE OR REPLACE FUNCTION refund_session(
+    p_session_id UUID,
+    p_reason TEXT,
+    p_amount DECIMAL(10,2) DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+    v_session sessions;
+    v_staff_id UUID := get_user_staff_id();
+    v_branch_id UUID;
+    v_original_id UUID;
+    v_shift_id UUID;
+    v_paid DECIMAL(10,2);
+    v_paid_seconds INTEGER;
+    v_amount DECIMAL(10,2);
+    v_refunded DECIMAL(10,2);
+    v_tx transactions;
+BEGIN
+    IF get_user_role() IS NULL OR get_user_role() NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'reason_required';
+    END IF;
+
+    SELECT s.* INTO v_session
+    FROM sessions s
+    JOIN devices d ON d.id = s.device_id
+    WHERE s.id = p_session_id
+      AND d.branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_found';
+    END IF;
+
+    IF v_session.status = 'active' THEN
+        RAISE EXCEPTION 'not_refundable';
+    END IF;
+
+    SELECT branch_id INTO v_branch_id FROM devices WHERE id = v_session.device_id;
+
+    -- Everything already refunded on this session, as a positive amount
+    SELECT COALESCE(SUM(ABS(amount)), 0) INTO v_refunded
+    FROM transactions
+    WHERE session_id = p_session_id
+      AND type = 'refund';
+
+    IF v_session.member_id IS NULL THEN
+        -- Only time staff stopped the guest from using is given back
+        IF v_session.status <> 'terminated' THEN
+            RAISE EXCEPTION 'not_refundable';
+        END IF;
+
+        SELECT
+            COALESCE(SUM(amount), 0),
+            (ARRAY_AGG(id ORDER BY created_at))[1],
+            (ARRAY_AGG(shift_id ORDER BY created_at))[1]
+        INTO v_paid, v_original_id, v_shift_id
+        FROM transactions
+        WHERE session_id = p_session_id
+          AND type = 'topup'
+          AND voided_at IS NULL;
+
+        -- Left empty, the insert stamps the reversing staff member's shift
+        IF NOT EXISTS (SELECT 1 FROM cash_shifts WHERE id = v_shift_id AND status = 'open') THEN
+            v_shift_id := NULL;
+        END IF;
+
+        -- Time paid for and time left, as the PC last reported them. The
+        -- unused share of what was paid is rounded down to the centavo.
+        v_paid_seconds := COALESCE(v_session.total_seconds_used, 0) + COALESCE(v_session.time_remaining_seconds, 0);
+
+        IF v_paid_seconds > 0 THEN
+            v_amount := FLOOR(v_paid * COALESCE(v_session.time_remaining_seconds, 0) / v_paid_seconds * 100) / 100
+                - v_refunded;
+        END IF;
+
+        IF v_amount IS NULL OR v_amount <= 0 THEN
+            RAISE EXCEPTION 'exceeds_refundable';
+        END IF;
+
+        INSERT INTO transactions (
+            branch_id, session_id, type, amount, payment_method, notes,
+            created_by, original_transaction_id, shift_id
+        )
+        VALUES (
+            v_branch_id, p_session_id, 'refund', -v_amount, 'cash',
+            'Refund: ' || TRIM(p_reason), v_staff_id, v_original_id, v_shift_id
+        )
+        RETURNING * INTO v_tx;
+    ELSE
+        IF p_amount IS NULL OR p_amount <= 0 THEN
+            RAISE EXCEPTION 'invalid_amount';
+        END IF;
+
+        IF p_amount > COALESCE(v_session.total_amount, 0) - v_refunded THEN
+            RAISE EXCEPTION 'exceeds_refundable';
+        END IF;
+
+        SELECT id INTO v_original_id
+        FROM transactions
+        WHERE session_id = p_session_id
+          AND type = 'usage'
+        ORDER BY created_at DESC
+        LIMIT 1;
+
+        v_tx := apply_member_credit_unchecked(
+            v_session.member_id,
+            p_amount,
+            'refund',
+            v_branch_id,
+            p_session_id,
+            NULL,
+            'Refund: ' || TRIM(p_reason),
+            v_staff_id
+        );
+
+        UPDATE transactions
+        SET original_transaction_id = v_original_id
+        WHERE id = v_tx.id
+        RETURNING * INTO v_tx;
+    END IF;
+
+    RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,268 @@
+-- ============================================
+-- MEMBER CREDIT TRANSFERS
+-- ============================================
+-- transfer_member_credits() moves credits between two members of the same
+-- organization. Both member rows are locked in id order so two transfers
+-- going opposite ways can't deadlock, and both sides go through
+-- the credit ledger so each gets a 'transfer' row with its own
+-- balance_before/balance_after. The pair shares a TRF- reference.
+--
+-- Staff can transfer for any member of their org. Anyone else (the client
+-- PC) must supply the sender's PIN. Five wrong PINs in a row, here or at
+-- sign-in, lock the member out for 15 minutes.
+--
+-- PINs are only ever checked on the server: members sign in on a PC through
+-- login_member(), and the anon role PCs use can't read pin_code.
+--
+-- Per-member daily limits come from organizations.settings, set by owners
+-- and admins through update_transfer_limits():
+--   transfer_daily_limit  total amount a member can send per day (default 500)
+--   transfer_daily_count  number of transfers a member can send per day (default 5)
+-- A day is the shop's day, in the timezone of the branch the transfer is
+-- made at (the org's first branch if none is given).
+
+ALTER TABLE branches ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Manila';
+
+ALTER TABLE members ADD COLUMN IF NOT EXISTS pin_failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE members ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMPTZ;
+
+-- Checks a member's PIN against the lockout. A wrong PIN returns FALSE
+-- instead of raising, so the caller can return normally and the failed
+-- attempt is kept.
+CREATE OR REPLACE FUNCTION check_member_pin(p_member members, p_pin_code TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF p_member.pin_locked_until > NOW() THEN
+        RAISE EXCEPTION 'pin_locked';
+    END IF;
+
+    IF p_pin_code IS NULL OR p_pin_code IS DISTINCT FROM p_member.pin_code THEN
+        -- Counting starts over once a lock has run out
+        UPDATE members
+        SET pin_failed_attempts = CASE
+                WHEN pin_locked_until IS NULL THEN pin_failed_attempts + 1
+                ELSE 1
+            END,
+            pin_locked_until = CASE
+                WHEN pin_locked_until IS NULL AND pin_failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes'
+            END
+        WHERE id = p_member.id;
+        RETURN FALSE;
+    END IF;
+
+    IF p_member.pin_failed_attempts > 0 THEN
+        UPDATE members
+        SET pin_failed_attempts = 0,
+            pin_locked_until = NULL
+        WHERE id = p_member.id;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION check_member_pin(members, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Member sign-in on a client PC. Returns no row for an unknown username or
+-- a wrong PIN, and never returns the PIN itself.
+CREATE OR REPLACE FUNCTION login_member(
+    p_org_id UUID,
+    p_username TEXT,
+    p_pin_code TEXT
+)
+RETURNS SETOF members AS $$
+DECLARE
+    v_member members;
+BEGIN
+    SELECT * INTO v_member
+    FROM members
+    WHERE org_id = p_org_id
+      AND username = p_username
+      AND is_active = TRUE
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT check_member_pin(v_member, p_pin_code) THEN
+        RETURN;
+    END IF;
+
+    v_member.pin_code := NULL;
+    RETURN NEXT v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- PCs read members for sessions, transfers and balance updates, never the PIN
+REVOKE SELECT ON members FROM anon;
+GRANT SELECT (id, org_id, username, email, phone, full_name, credits, is_active, created_at, updated_at) ON members TO anon;
+
+CREATE OR REPLACE FUNCTION transfer_member_credits(
+    p_from_member_id UUID,
+    p_to_member_id UUID,
+    p_amount DECIMAL(10,2),
+    p_pin_code TEXT DEFAULT NULL,
+    p_branch_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS SETOF transactions AS $$
+DECLARE
+    v_from members;
+    v_to members;
+    v_staff_id UUID := get_user_staff_id();
+    v_timezone VARCHAR(64);
+    v_settings JSONB;
+    v_daily_limit DECIMAL(10,2);
+    v_daily_count INTEGER;
+    v_sent_today DECIMAL(10,2);
+    v_count_today INTEGER;
+    v_reference VARCHAR(100);
+    v_out transactions;
+    v_in transactions;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    IF p_from_member_id = p_to_member_id THEN
+        RAISE EXCEPTION 'same_member';
+    END IF;
+
+    -- Lock in a fixed order; the ledger re-locks the same rows
+    PERFORM 1
+    FROM members
+    WHERE id IN (p_from_member_id, p_to_member_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_from FROM members WHERE id = p_from_member_id;
+    SELECT * INTO v_to FROM members WHERE id = p_to_member_id;
+
+    IF v_from.id IS NULL OR v_to.id IS NULL THEN
+        RAISE EXCEPTION 'member_not_found';
+    END IF;
+
+    IF v_from.org_id IS DISTINCT FROM v_to.org_id THEN
+        RAISE EXCEPTION 'member_not_found';
+    END IF;
+
+    IF NOT v_from.is_active OR NOT v_to.is_active THEN
+        RAISE EXCEPTION 'member_inactive';
+    END IF;
+
+    IF get_user_org_id() IS DISTINCT FROM v_from.org_id THEN
+        v_staff_id := NULL;
+
+        -- A wrong PIN returns no rows instead of raising, so the failed
+        -- attempt is kept
+        IF NOT check_member_pin(v_from, p_pin_code) THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    IF p_branch_id IS NOT NULL THEN
+        SELECT timezone INTO v_timezone
+        FROM branches
+        WHERE id = p_branch_id
+          AND org_id = v_from.org_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'invalid_branch';
+        END IF;
+    ELSE
+        SELECT timezone INTO v_timezone
+        FROM branches
+        WHERE org_id = v_from.org_id
+        ORDER BY created_at
+        LIMIT 1;
+    END IF;
+
+    v_timezone := COALESCE(v_timezone, 'UTC');
+
+    SELECT COALESCE(settings, '{}'::JSONB) INTO v_settings
+    FROM organizations
+    WHERE id = v_from.org_id;
+
+    v_daily_limit := COALESCE((v_settings->>'transfer_daily_limit')::DECIMAL, 500);
+    v_daily_count := COALESCE((v_settings->>'transfer_daily_count')::INTEGER, 5);
+
+    SELECT COALESCE(SUM(-amount), 0), COUNT(*)
+    INTO v_sent_today, v_count_today
+    FROM transactions
+    WHERE member_id = p_from_member_id
+      AND type = 'transfer'
+      AND amount < 0
+      AND created_at >= DATE_TRUNC('day', NOW() AT TIME ZONE v_timezone) AT TIME ZONE v_timezone;
+
+    IF v_count_today + 1 > v_daily_count THEN
+        RAISE EXCEPTION 'daily_count_exceeded';
+    END IF;
+
+    IF v_sent_today + p_amount > v_daily_limit THEN
+        RAISE EXCEPTION 'daily_limit_exceeded';
+    END IF;
+
+    v_reference := 'TRF-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10));
+
+    -- Fails with insufficient_credits if the sender can't cover it
+    v_out := apply_member_credit_unchecked(
+        p_from_member_id,
+        -p_amount,
+        'transfer',
+        p_branch_id,
+        NULL,
+        NULL,
+        COALESCE(NULLIF(TRIM(p_notes), ''), 'Transfer to ' || v_to.username),
+        v_staff_id
+    );
+
+    v_in := apply_member_credit_unchecked(
+        p_to_member_id,
+        p_amount,
+        'transfer',
+        p_branch_id,
+        NULL,
+        NULL,
+        COALESCE(NULLIF(TRIM(p_notes), ''), 'Transfer from ' || v_from.username),
+        v_staff_id
+    );
+
+    UPDATE transactions
+    SET reference = v_reference
+    WHERE id IN (v_out.id, v_in.id);
+
+    v_out.reference := v_reference;
+    v_in.reference := v_reference;
+
+    RETURN NEXT v_out;
+    RETURN NEXT v_in;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owners and admins set the transfer limits of their org; the rest of the
+-- organization row stays read-only
+CREATE OR REPLACE FUNCTION update_transfer_limits(
+    p_daily_limit DECIMAL(10,2),
+    p_daily_count INTEGER
+)
+RETURNS organizations AS $$
+DECLARE
+    v_org organizations;
+BEGIN
+    IF COALESCE(get_user_role(), '') NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    IF p_daily_limit IS NULL OR p_daily_limit < 0 OR p_daily_count IS NULL OR p_daily_count < 0 THEN
+        RAISE EXCEPTION 'invalid_limits';
+    END IF;
+
+    UPDATE organizations
+    SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+            'transfer_daily_limit', p_daily_limit,
+            'transfer_daily_count', p_daily_count
+        ),
+        updated_at = NOW()
+    WHERE id = get_user_org_id()
+    RETURNING * INTO v_org;
+
+    RETURN v_org;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,90 @@
+-- ============================================
+-- SESSION PAUSE / RESUME
+-- ============================================
+-- A paused session keeps its row (status 'paused', paused_at set) while the
+-- PC is locked. The client stops its countdown and billing, so time spent
+-- paused is never added to total_seconds_used. On resume the gap is added
+-- to total_paused_seconds for reporting and to shift the rate schedule
+-- lookup by the time the member was away.
+--
+-- The client PC calls these with the time it has used, the same way it
+-- syncs session time; the time left is worked out from it. The admin asks the PC to pause through a device
+-- command so the PC's own timers are the ones that stop. For a PC that is
+-- off and can't take the command, staff call them directly and the session
+-- keeps the time the PC last synced.
+--
+-- is_session_in_caller_scope() decides who may: staff for their own org's
+-- PCs, and PCs for the sessions they could already update directly. The
+-- device_credentials migration narrows the PCs to the one the session
+-- runs on.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS total_paused_seconds INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION is_session_in_caller_scope(p_device_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN auth.uid() IS NULL THEN TRUE
+        ELSE EXISTS (
+            SELECT 1
+            FROM devices d
+            JOIN branches b ON b.id = d.branch_id
+            WHERE d.id = p_device_id
+              AND b.org_id = get_user_org_id()
+        )
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION pause_session(
+    p_session_id UUID,
+    p_total_seconds_used INTEGER DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+    v_session sessions;
+BEGIN
+    UPDATE sessions
+    SET status = 'paused',
+        paused_at = NOW(),
+        time_remaining_seconds = CASE
+            WHEN time_remaining_seconds IS NULL THEN NULL
+            ELSE GREATEST(0, time_remaining_seconds
+                - GREATEST(0, COALESCE(p_total_seconds_used, 0) - COALESCE(total_seconds_used, 0)))
+        END,
+        total_seconds_used = GREATEST(COALESCE(total_seconds_used, 0), COALESCE(p_total_seconds_used, 0)),
+        updated_at = NOW()
+    WHERE id = p_session_id
+      AND status = 'active'
+      AND is_session_in_caller_scope(device_id)
+    RETURNING * INTO v_session;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_active';
+    END IF;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resume_session(p_session_id UUID)
+RETURNS sessions AS $$
+DECLARE
+    v_session sessions;
+BEGIN
+    UPDATE sessions
+    SET status = 'active',
+        total_paused_seconds = total_paused_seconds
+            + GREATEST(0, EXTRACT(EPOCH FROM NOW() - COALESCE(paused_at, NOW())))::INTEGER,
+        paused_at = NULL,
+        updated_at = NOW()
+    WHERE id = p_session_id
+      AND status = 'paused'
+      AND is_session_in_caller_scope(device_id)
+    RETURNING * INTO v_session;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_paused';
+    END IF;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
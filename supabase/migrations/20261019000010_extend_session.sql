@@ -0,0 +1,83 @@
+-- ============================================
+-- EXTEND SESSION
+-- ============================================
+-- extend_session() adds paid time to a running guest session. In one
+-- transaction it records the payment as a topup linked to the session,
+-- adds the seconds to time_remaining_seconds and total_amount, and queues
+-- an add_time command so the PC adds the same seconds to its own countdown
+-- (the PC keeps syncing its counter over time_remaining_seconds, so it has
+-- to hear about the extension).
+--
+-- The caller works out the seconds from the rate, the same way the kiosk
+-- does when a session is started. The payment is recorded as the signed-in
+-- staff member, so it lands in their open cash shift.
+
+CREATE OR REPLACE FUNCTION extend_session(
+    p_session_id UUID,
+    p_amount DECIMAL(10,2),
+    p_seconds INTEGER,
+    p_payment_method VARCHAR(50) DEFAULT 'cash'
+)
+RETURNS transactions AS $$
+DECLARE
+    v_session sessions;
+    v_staff_id UUID := get_user_staff_id();
+    v_branch_id UUID;
+    v_tx transactions;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 OR p_seconds IS NULL OR p_seconds <= 0 THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    SELECT s.* INTO v_session
+    FROM sessions s
+    JOIN devices d ON d.id = s.device_id
+    WHERE s.id = p_session_id
+      AND d.branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_found';
+    END IF;
+
+    IF v_session.status <> 'active' THEN
+        RAISE EXCEPTION 'session_not_active';
+    END IF;
+
+    -- Members pay from their balance as they go; only guests buy time
+    IF v_session.session_type <> 'guest' THEN
+        RAISE EXCEPTION 'not_guest_session';
+    END IF;
+
+    SELECT branch_id INTO v_branch_id FROM devices WHERE id = v_session.device_id;
+
+    UPDATE sessions
+    SET time_remaining_seconds = COALESCE(time_remaining_seconds, 0) + p_seconds,
+        total_amount = COALESCE(total_amount, 0) + p_amount,
+        updated_at = NOW()
+    WHERE id = p_session_id;
+
+    INSERT INTO transactions (
+        branch_id, session_id, type, amount, payment_method, notes, created_by
+    )
+    VALUES (
+        v_branch_id, p_session_id, 'topup', p_amount, COALESCE(p_payment_method, 'cash'),
+        'Extended by ' || (p_seconds / 60) || ' min', v_staff_id
+    )
+    RETURNING * INTO v_tx;
+
+    INSERT INTO device_commands (device_id, command_type, payload, created_by)
+    VALUES (
+        v_session.device_id,
+        'add_time',
+        jsonb_build_object(
+            'session_id', p_session_id,
+            'seconds', p_seconds,
+            'transaction_id', v_tx.id
+        ),
+        v_staff_id
+    );
+
+    RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,114 @@
+-- ============================================
+-- MOVE SESSION BETWEEN PCS
+-- ============================================
+-- move_session() reassigns a running session to another device when its PC
+-- breaks. The session row is kept as is (remaining time, amount, member and
+-- rate), only device_id changes, so billing and history carry on.
+--
+-- Both devices rows are updated in the same transaction so
+-- current_session_id never points at the same session twice, and the two
+-- PCs are told through device_commands:
+--   old PC  lock   { session_id, reason: 'moved', moved_to }
+--           (the PC lets go of the session without ending it)
+--   new PC  unlock { session_id, time_remaining, session_type, moved_from }
+
+CREATE OR REPLACE FUNCTION move_session(
+    p_session_id UUID,
+    p_target_device_id UUID,
+    p_created_by UUID DEFAULT NULL
+)
+RETURNS sessions AS $$
+DECLARE
+    v_session sessions;
+    v_target devices;
+    v_old_device_id UUID;
+BEGIN
+    SELECT s.* INTO v_session
+    FROM sessions s
+    JOIN devices d ON d.id = s.device_id
+    WHERE s.id = p_session_id
+      AND d.branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE OF s;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_found';
+    END IF;
+
+    IF v_session.status <> 'active' THEN
+        RAISE EXCEPTION 'session_not_active';
+    END IF;
+
+    IF v_session.device_id = p_target_device_id THEN
+        RAISE EXCEPTION 'same_device';
+    END IF;
+
+    SELECT * INTO v_target
+    FROM devices
+    WHERE id = p_target_device_id
+      AND branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    -- Busy is judged by its sessions; current_session_id is only set for
+    -- sessions started at the kiosk and isn't cleared when they end
+    IF v_target.status = 'in_use'
+       OR EXISTS (
+           SELECT 1 FROM sessions
+           WHERE device_id = p_target_device_id
+             AND status IN ('active', 'paused')
+       ) THEN
+        RAISE EXCEPTION 'device_busy';
+    END IF;
+
+    v_old_device_id := v_session.device_id;
+
+    UPDATE devices
+    SET current_session_id = NULL,
+        status = 'online',
+        is_locked = true,
+        updated_at = NOW()
+    WHERE id = v_old_device_id;
+
+    UPDATE sessions
+    SET device_id = p_target_device_id,
+        updated_at = NOW()
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    UPDATE devices
+    SET current_session_id = p_session_id,
+        status = 'in_use',
+        is_locked = false,
+        updated_at = NOW()
+    WHERE id = p_target_device_id;
+
+    INSERT INTO device_commands (device_id, command_type, payload, created_by)
+    VALUES
+        (
+            v_old_device_id,
+            'lock',
+            jsonb_build_object(
+                'session_id', p_session_id,
+                'reason', 'moved',
+                'moved_to', p_target_device_id
+            ),
+            p_created_by
+        ),
+        (
+            p_target_device_id,
+            'unlock',
+            jsonb_build_object(
+                'session_id', p_session_id,
+                'time_remaining', v_session.time_remaining_seconds,
+                'session_type', v_session.session_type,
+                'moved_from', v_old_device_id
+            ),
+            p_created_by
+        );
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
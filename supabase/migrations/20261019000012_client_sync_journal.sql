@@ -0,0 +1,234 @@
+-- ============================================
+-- OFFLINE CLIENT JOURNAL
+-- ============================================
+-- A client PC that loses its connection keeps the session going locally and
+-- journals what it could not write. When it is back online it replays the
+-- journal in order through apply_client_event(). Every entry carries an id
+-- generated on the PC, so an entry that reached the server but was never
+-- acknowledged is only applied once.
+--
+-- Entries hold running totals rather than deltas, so replaying them is
+-- idempotent and only the newest one per session really matters:
+--   session_time   { time_remaining_seconds, total_seconds_used }
+--   member_charge  { total_amount }  what the session has cost so far
+--   session_end    { time_remaining_seconds, total_seconds_used, total_amount }
+--
+-- Conflicts are resolved the same way every time:
+--   * the server's end of a session wins; anything the PC recorded after
+--     ended_at is not applied
+--   * time counters never go backwards, and the time left is worked out
+--     from the time used rather than taken from the PC
+--   * a session moved to another PC only takes entries from the PC it is on
+--   * a member who can't cover the charge is charged what they have
+-- Entries that hit one of these are stored as 'conflict' for staff to
+-- review; entries that are simply out of date are stored as 'skipped'.
+--
+-- A PC may only replay onto sessions in its own org, and staff only onto
+-- their org's PCs. Which PC is calling is checked once PCs carry
+-- credentials (device_credentials migration).
+
+CREATE TABLE client_sync_events (
+    id UUID PRIMARY KEY,
+    device_id UUID REFERENCES devices(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL, -- session_time, member_charge, session_end
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL, -- applied, skipped, conflict
+    conflict_reason VARCHAR(50),
+    amount_charged DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    recorded_at TIMESTAMPTZ NOT NULL,
+    applied_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    CONSTRAINT client_sync_events_type_check CHECK (event_type IN ('session_time', 'member_charge', 'session_end')),
+    CONSTRAINT client_sync_events_status_check CHECK (status IN ('applied', 'skipped', 'conflict'))
+);
+
+CREATE INDEX idx_client_sync_events_session ON client_sync_events(session_id);
+
+-- Open conflicts for the admin
+CREATE INDEX idx_client_sync_events_conflicts ON client_sync_events(applied_at DESC)
+    WHERE status = 'conflict' AND resolved_at IS NULL;
+
+CREATE OR REPLACE FUNCTION apply_client_event(
+    p_event_id UUID,
+    p_device_id UUID,
+    p_session_id UUID,
+    p_event_type VARCHAR(50),
+    p_payload JSONB,
+    p_recorded_at TIMESTAMPTZ
+)
+RETURNS client_sync_events AS $$
+DECLARE
+    v_event client_sync_events;
+    v_session sessions;
+    v_status VARCHAR(20) := 'applied';
+    v_reason VARCHAR(50);
+    v_charged DECIMAL(10,2) := 0;
+    v_due DECIMAL(10,2);
+    v_balance DECIMAL(10,2);
+    v_seconds_used INTEGER;
+    v_device_org_id UUID;
+    v_session_org_id UUID;
+BEGIN
+    IF auth.uid() IS NOT NULL AND get_user_org_id() IS NULL THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    SELECT b.org_id INTO v_device_org_id
+    FROM devices d
+    JOIN branches b ON b.id = d.branch_id
+    WHERE d.id = p_device_id;
+
+    IF v_device_org_id IS NULL
+       OR v_device_org_id IS DISTINCT FROM COALESCE(get_user_org_id(), v_device_org_id) THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    -- Already replayed
+    SELECT * INTO v_event FROM client_sync_events WHERE id = p_event_id;
+    IF FOUND THEN
+        IF v_event.device_id IS DISTINCT FROM p_device_id THEN
+            RAISE EXCEPTION 'not_allowed';
+        END IF;
+        RETURN v_event;
+    END IF;
+
+    SELECT * INTO v_session
+    FROM sessions
+    WHERE id = p_session_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_found';
+    END IF;
+
+    SELECT b.org_id INTO v_session_org_id
+    FROM devices d
+    JOIN branches b ON b.id = d.branch_id
+    WHERE d.id = v_session.device_id;
+
+    IF v_session_org_id IS DISTINCT FROM v_device_org_id THEN
+        RAISE EXCEPTION 'not_allowed';
+    END IF;
+
+    v_seconds_used := (p_payload->>'total_seconds_used')::INTEGER;
+
+    IF v_session.device_id IS DISTINCT FROM p_device_id THEN
+        v_status := 'conflict';
+        v_reason := 'session_moved';
+    ELSIF v_session.status NOT IN ('active', 'paused')
+          AND (v_session.ended_at IS NULL OR p_recorded_at > v_session.ended_at) THEN
+        -- Staff ended the session while the PC was offline. Time updates
+        -- after that are just stale; a charge or end is worth a look.
+        IF p_event_type = 'session_time' THEN
+            v_status := 'skipped';
+        ELSE
+            v_status := 'conflict';
+            v_reason := 'session_already_ended';
+        END IF;
+    ELSE
+        -- Charge whatever the PC billed that the server hasn't seen yet
+        IF p_event_type IN ('member_charge', 'session_end')
+           AND v_session.member_id IS NOT NULL
+           AND p_payload ? 'total_amount' THEN
+            v_due := (p_payload->>'total_amount')::DECIMAL - COALESCE(v_session.total_amount, 0);
+
+            IF v_due > 0 THEN
+                SELECT COALESCE(credits, 0) INTO v_balance
+                FROM members
+                WHERE id = v_session.member_id;
+
+                v_charged := LEAST(v_due, GREATEST(v_balance, 0));
+
+                IF v_charged < v_due THEN
+                    v_status := 'conflict';
+                    v_reason := 'insufficient_credits';
+                END IF;
+
+                IF v_charged > 0 THEN
+                    PERFORM apply_member_credit_unchecked(
+                        v_session.member_id,
+                        -v_charged,
+                        'usage',
+                        NULL,
+                        p_session_id,
+                        NULL,
+                        'Offline usage',
+                        NULL
+                    );
+                END IF;
+            ELSIF p_event_type = 'member_charge' THEN
+                v_status := 'skipped';
+            END IF;
+        END IF;
+
+        IF p_event_type IN ('session_time', 'session_end') THEN
+            IF v_seconds_used IS NOT NULL AND v_seconds_used >= COALESCE(v_session.total_seconds_used, 0) THEN
+                UPDATE sessions
+                SET time_remaining_seconds = CASE
+                        WHEN time_remaining_seconds IS NULL THEN NULL
+                        ELSE GREATEST(0, time_remaining_seconds - (v_seconds_used - COALESCE(total_seconds_used, 0)))
+                    END,
+                    total_seconds_used = v_seconds_used,
+                    updated_at = NOW()
+                WHERE id = p_session_id;
+            ELSIF p_event_type = 'session_time' THEN
+                v_status := 'skipped';
+            END IF;
+        END IF;
+
+        IF p_event_type = 'session_end' THEN
+            UPDATE sessions
+            SET status = 'completed',
+                ended_at = p_recorded_at,
+                time_remaining_seconds = 0,
+                updated_at = NOW()
+            WHERE id = p_session_id;
+
+            -- Free the PC the way ending the session online does, unless
+            -- it has moved on to another session since
+            UPDATE devices
+            SET current_session_id = NULL,
+                status = CASE WHEN status = 'in_use' THEN 'online' ELSE status END,
+                is_locked = TRUE,
+                updated_at = NOW()
+            WHERE id = p_device_id
+              AND current_session_id = p_session_id;
+        END IF;
+    END IF;
+
+    INSERT INTO client_sync_events (
+        id, device_id, session_id, event_type, payload, status,
+        conflict_reason, amount_charged, recorded_at
+    )
+    VALUES (
+        p_event_id, p_device_id, p_session_id, p_event_type, COALESCE(p_payload, '{}'::JSONB), v_status,
+        v_reason, v_charged, p_recorded_at
+    )
+    RETURNING * INTO v_event;
+
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE client_sync_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view client sync events in their org" ON client_sync_events
+    FOR SELECT USING (
+        device_id IN (
+            SELECT d.id FROM devices d
+            JOIN branches b ON b.id = d.branch_id
+            WHERE b.org_id = get_user_org_id()
+        )
+    );
+
+-- Staff mark conflicts as reviewed
+CREATE POLICY "Users can resolve client sync events in their org" ON client_sync_events
+    FOR UPDATE USING (
+        device_id IN (
+            SELECT d.id FROM devices d
+            JOIN branches b ON b.id = d.branch_id
+            WHERE b.org_id = get_user_org_id()
+        )
+    );
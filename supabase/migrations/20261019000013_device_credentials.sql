@@ -0,0 +1,423 @@
+-- ============================================
+-- DEVICE CREDENTIALS
+-- ============================================
+-- Client PCs talk to Supabase with the anon key, which on its own lets any
+-- PC write any sessions or members row. Each PC now has its own secret and
+-- sends it with every request:
+--   x-device-id      the devices.id the PC was approved as
+--   x-device-secret  the secret issued to it on approval
+-- current_device_id() checks the pair against the stored hash, and the
+-- policies and functions below only let the anon role write rows that
+-- belong to that device.
+--
+-- How a PC gets its secret:
+--   1. register_device() creates the pending device and keeps a hash of a
+--      registration key the PC generated and never sends anywhere else
+--   2. approve_device() (staff) assigns the branch and issues a secret
+--   3. claim_device_secret() hands the secret to the PC holding the
+--      registration key, once; only its hash is kept after that
+-- Devices approved before this migration have no registration key, so
+-- nothing would tie a secret to the right PC. They go back to pending below:
+-- the PC registers its key on the next start and staff approve it again.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE device_credentials (
+    device_id UUID PRIMARY KEY REFERENCES devices(id) ON DELETE CASCADE,
+    registration_key_hash TEXT,
+    secret_hash TEXT,
+    pending_secret TEXT, -- waiting for the PC to claim it, cleared when claimed
+    issued_at TIMESTAMPTZ,
+    issued_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    claimed_at TIMESTAMPTZ
+);
+
+-- Only the functions below read or write credentials
+ALTER TABLE device_credentials ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON device_credentials FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION hash_device_secret(p_secret TEXT)
+RETURNS TEXT AS $$
+    SELECT encode(extensions.digest(p_secret, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The device the current request authenticated as, or NULL
+CREATE OR REPLACE FUNCTION current_device_id()
+RETURNS UUID AS $$
+DECLARE
+    v_headers JSON;
+    v_device_id UUID;
+BEGIN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::JSON;
+
+    IF v_headers IS NULL
+       OR v_headers->>'x-device-id' IS NULL
+       OR v_headers->>'x-device-secret' IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT device_id INTO v_device_id
+    FROM device_credentials
+    WHERE device_id = (v_headers->>'x-device-id')::UUID
+      AND secret_hash = hash_device_secret(v_headers->>'x-device-secret');
+
+    RETURN v_device_id;
+EXCEPTION
+    WHEN invalid_text_representation THEN
+        RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION register_device(
+    p_device_code VARCHAR(50),
+    p_name VARCHAR(255),
+    p_specs JSONB,
+    p_registration_key TEXT
+)
+RETURNS devices AS $$
+DECLARE
+    v_device devices;
+    v_key_hash TEXT;
+BEGIN
+    IF p_registration_key IS NULL OR length(p_registration_key) < 32 THEN
+        RAISE EXCEPTION 'invalid_registration_key';
+    END IF;
+
+    SELECT * INTO v_device
+    FROM devices
+    WHERE device_code = p_device_code
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO devices (device_code, name, device_type, status, is_locked, specs, last_heartbeat)
+        VALUES (p_device_code, p_name, 'pc', 'pending', true, p_specs, NOW())
+        RETURNING * INTO v_device;
+
+        INSERT INTO device_credentials (device_id, registration_key_hash)
+        VALUES (v_device.id, hash_device_secret(p_registration_key));
+
+        RETURN v_device;
+    END IF;
+
+    SELECT registration_key_hash INTO v_key_hash
+    FROM device_credentials
+    WHERE device_id = v_device.id;
+
+    IF v_key_hash IS NOT NULL AND v_key_hash <> hash_device_secret(p_registration_key) THEN
+        RAISE EXCEPTION 'registration_key_mismatch';
+    END IF;
+
+    -- Devices registered before credentials existed keep the first key;
+    -- they are pending again, so staff still approve the PC that sent it
+    INSERT INTO device_credentials (device_id, registration_key_hash)
+    VALUES (v_device.id, hash_device_secret(p_registration_key))
+    ON CONFLICT (device_id) DO UPDATE
+    SET registration_key_hash = COALESCE(device_credentials.registration_key_hash, EXCLUDED.registration_key_hash);
+
+    UPDATE devices
+    SET name = p_name,
+        specs = p_specs,
+        last_heartbeat = NOW()
+    WHERE id = v_device.id
+    RETURNING * INTO v_device;
+
+    RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approving (or approving again) issues a new secret. The old one stops
+-- working right away; the PC claims the new one the next time it starts.
+CREATE OR REPLACE FUNCTION approve_device(
+    p_device_id UUID,
+    p_branch_id UUID,
+    p_rate_id UUID,
+    p_name VARCHAR(255) DEFAULT NULL,
+    p_approved_by UUID DEFAULT NULL
+)
+RETURNS devices AS $$
+DECLARE
+    v_device devices;
+    v_secret TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM branches WHERE id = p_branch_id AND org_id = get_user_org_id()
+    ) THEN
+        RAISE EXCEPTION 'branch_not_found';
+    END IF;
+
+    UPDATE devices
+    SET branch_id = p_branch_id,
+        rate_id = p_rate_id,
+        status = 'offline',
+        name = COALESCE(p_name, name),
+        updated_at = NOW()
+    WHERE id = p_device_id
+      AND (
+          branch_id IS NULL
+          OR branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+      )
+    RETURNING * INTO v_device;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    -- Only a PC that registered a key can claim the secret, so there has to
+    -- be one before a secret is issued
+    UPDATE device_credentials
+    SET secret_hash = hash_device_secret(v_secret),
+        pending_secret = v_secret,
+        issued_at = NOW(),
+        issued_by = p_approved_by,
+        claimed_at = NULL
+    WHERE device_id = p_device_id
+      AND registration_key_hash IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'device_not_registered';
+    END IF;
+
+    RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION claim_device_secret(
+    p_device_code VARCHAR(50),
+    p_registration_key TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_credentials device_credentials;
+    v_secret TEXT;
+BEGIN
+    SELECT c.* INTO v_credentials
+    FROM device_credentials c
+    JOIN devices d ON d.id = c.device_id
+    WHERE d.device_code = p_device_code
+    FOR UPDATE OF c;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    IF v_credentials.registration_key_hash IS DISTINCT FROM hash_device_secret(p_registration_key) THEN
+        RAISE EXCEPTION 'registration_key_mismatch';
+    END IF;
+
+    IF v_credentials.pending_secret IS NULL THEN
+        RAISE EXCEPTION 'no_pending_secret';
+    END IF;
+
+    v_secret := v_credentials.pending_secret;
+
+    UPDATE device_credentials
+    SET pending_secret = NULL,
+        claimed_at = NOW()
+    WHERE device_id = v_credentials.device_id;
+
+    RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Devices approved before this migration need approving again, once their
+-- PC has registered a key
+UPDATE devices
+SET branch_id = NULL,
+    status = 'pending',
+    is_locked = true,
+    updated_at = NOW()
+WHERE branch_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM device_credentials c WHERE c.device_id = devices.id);
+
+-- ============================================
+-- CLIENT WRITES
+-- ============================================
+
+-- Member charges from a PC go through its own session; apply_member_credit()
+-- is for staff only from here on
+CREATE OR REPLACE FUNCTION charge_session_credits(
+    p_session_id UUID,
+    p_amount DECIMAL(10,2)
+)
+RETURNS transactions AS $$
+DECLARE
+    v_session sessions;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    SELECT * INTO v_session
+    FROM sessions
+    WHERE id = p_session_id
+      AND device_id = current_device_id();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_found';
+    END IF;
+
+    IF v_session.member_id IS NULL THEN
+        RAISE EXCEPTION 'member_not_found';
+    END IF;
+
+    RETURN apply_member_credit_unchecked(v_session.member_id, -p_amount, 'usage', NULL, p_session_id, NULL, NULL, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_member_credit(UUID, DECIMAL, VARCHAR, UUID, UUID, VARCHAR, TEXT) FROM anon;
+
+-- pause_session() and resume_session() (session_pause migration) reach the
+-- PC the session runs on and staff of its org, nobody else
+CREATE OR REPLACE FUNCTION is_session_in_caller_scope(p_device_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(p_device_id = current_device_id(), FALSE) OR EXISTS (
+        SELECT 1
+        FROM devices d
+        JOIN branches b ON b.id = d.branch_id
+        WHERE d.id = p_device_id
+          AND b.org_id = get_user_org_id()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Journal replays are checked here and then applied as before
+ALTER FUNCTION apply_client_event(UUID, UUID, UUID, VARCHAR, JSONB, TIMESTAMPTZ)
+    RENAME TO apply_client_event_unchecked;
+REVOKE EXECUTE ON FUNCTION apply_client_event_unchecked(UUID, UUID, UUID, VARCHAR, JSONB, TIMESTAMPTZ)
+    FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION apply_client_event(
+    p_event_id UUID,
+    p_device_id UUID,
+    p_session_id UUID,
+    p_event_type VARCHAR(50),
+    p_payload JSONB,
+    p_recorded_at TIMESTAMPTZ
+)
+RETURNS client_sync_events AS $$
+BEGIN
+    IF p_device_id IS DISTINCT FROM current_device_id() THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    RETURN apply_client_event_unchecked(p_event_id, p_device_id, p_session_id, p_event_type, p_payload, p_recorded_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Session time from the PC it runs on. The PC reports the seconds it has
+-- used, which never go down; the time left is the time left before minus
+-- what was used since, so nothing a PC sends gives it more time.
+CREATE OR REPLACE FUNCTION sync_session_time(
+    p_session_id UUID,
+    p_total_seconds_used INTEGER
+)
+RETURNS sessions AS $$
+DECLARE
+    v_session sessions;
+BEGIN
+    UPDATE sessions
+    SET time_remaining_seconds = CASE
+            WHEN time_remaining_seconds IS NULL THEN NULL
+            ELSE GREATEST(0, time_remaining_seconds
+                - GREATEST(0, p_total_seconds_used - COALESCE(total_seconds_used, 0)))
+        END,
+        total_seconds_used = GREATEST(COALESCE(total_seconds_used, 0), p_total_seconds_used),
+        updated_at = NOW()
+    WHERE id = p_session_id
+      AND status = 'active'
+      AND device_id = current_device_id()
+    RETURNING * INTO v_session;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_active';
+    END IF;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Ends a session from the PC it runs on and frees the PC, the online
+-- counterpart of a replayed session_end. A session staff already ended is
+-- left as they ended it.
+CREATE OR REPLACE FUNCTION complete_session(
+    p_session_id UUID,
+    p_total_seconds_used INTEGER
+)
+RETURNS sessions AS $$
+DECLARE
+    v_session sessions;
+BEGIN
+    UPDATE sessions
+    SET status = 'completed',
+        ended_at = NOW(),
+        time_remaining_seconds = 0,
+        total_seconds_used = GREATEST(COALESCE(total_seconds_used, 0), COALESCE(p_total_seconds_used, 0)),
+        updated_at = NOW()
+    WHERE id = p_session_id
+      AND status IN ('active', 'paused')
+      AND device_id = current_device_id()
+    RETURNING * INTO v_session;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'session_not_active';
+    END IF;
+
+    UPDATE devices
+    SET current_session_id = NULL,
+        status = CASE WHEN status = 'in_use' THEN 'online' ELSE status END,
+        is_locked = TRUE,
+        updated_at = NOW()
+    WHERE id = v_session.device_id
+      AND current_session_id = p_session_id;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A PC reports whether it's locked through its status, as it always has:
+-- in use is unlocked, anything else is locked
+CREATE OR REPLACE FUNCTION set_device_lock_from_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user = 'anon' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.is_locked := NEW.status <> 'in_use';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS devices_lock_from_status ON devices;
+CREATE TRIGGER devices_lock_from_status
+    BEFORE UPDATE OF status ON devices
+    FOR EACH ROW EXECUTE FUNCTION set_device_lock_from_status();
+
+-- Table access for the anon role. On its own devices row a PC may only
+-- report its status, heartbeat and specs. It starts member sessions on
+-- itself and changes them only through the functions above, so rate,
+-- time, amount and status all stay with the server. Anything PCs never
+-- write directly is revoked outright.
+REVOKE INSERT, UPDATE, DELETE ON devices FROM anon;
+GRANT UPDATE (status, last_heartbeat, specs) ON devices TO anon;
+REVOKE INSERT, UPDATE, DELETE ON sessions FROM anon;
+GRANT INSERT (device_id, member_id, rate_id, session_type, status, started_at) ON sessions TO anon;
+REVOKE INSERT, DELETE ON device_commands FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON members FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON transactions FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON client_sync_events FROM anon;
+
+CREATE POLICY "Devices can only update their own row" ON devices
+    AS RESTRICTIVE FOR UPDATE TO anon
+    USING (id = (SELECT current_device_id()));
+
+CREATE POLICY "Devices can only start member sessions on themselves" ON sessions
+    AS RESTRICTIVE FOR INSERT TO anon
+    WITH CHECK (
+        device_id = (SELECT current_device_id())
+        AND session_type = 'member'
+        AND member_id IS NOT NULL
+        AND status = 'active'
+        AND rate_id IS NOT DISTINCT FROM (SELECT d.rate_id FROM devices d WHERE d.id = sessions.device_id)
+    );
+
+CREATE POLICY "Devices can only acknowledge their own commands" ON device_commands
+    AS RESTRICTIVE FOR UPDATE TO anon
+    USING (device_id = (SELECT current_device_id()));
@@ -0,0 +1,122 @@
+-- ============================================
+-- ADMIN EXIT CODES
+-- ============================================
+-- The code that lets staff close the client on a locked PC used to be
+-- compiled into the client, the same for every shop. Admins now create
+-- their own codes, for the whole org or a single PC:
+--   static  a generated code; only a salted PBKDF2-SHA256 hash is stored
+--           (the admin app hashes it, the plain code is shown once)
+--   totp    a shared secret for an authenticator app; the PC accepts the
+--           current 6-digit code (RFC 6238, 30 second steps)
+-- A code can expire, and revoking it takes effect the next time the PC
+-- refreshes its verifiers.
+--
+-- PCs have to be able to exit while offline, so each PC keeps a cached copy
+-- of the verifiers that apply to it (get_exit_code_verifiers) and checks
+-- codes locally. Every exit is reported back through record_admin_exit(),
+-- queued on the PC until it gets through.
+
+CREATE TABLE admin_exit_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    device_id UUID REFERENCES devices(id) ON DELETE CASCADE, -- NULL = every PC in the org
+    label VARCHAR(100) NOT NULL,
+    code_type VARCHAR(20) NOT NULL, -- static, totp
+    code_salt TEXT,
+    code_hash TEXT,
+    code_iterations INTEGER,
+    totp_secret TEXT,
+    expires_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    created_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT admin_exit_codes_type_check CHECK (code_type IN ('static', 'totp')),
+    CONSTRAINT admin_exit_codes_verifier_check CHECK (
+        (code_type = 'static' AND code_salt IS NOT NULL AND code_hash IS NOT NULL AND code_iterations > 0)
+        OR (code_type = 'totp' AND totp_secret IS NOT NULL)
+    )
+);
+
+CREATE INDEX idx_admin_exit_codes_org ON admin_exit_codes(org_id);
+
+CREATE TABLE admin_exit_events (
+    id UUID PRIMARY KEY, -- generated on the PC so a retried report is only stored once
+    device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    exit_code_id UUID REFERENCES admin_exit_codes(id) ON DELETE SET NULL,
+    source VARCHAR(20) NOT NULL, -- terminal, tray, console, command_line
+    used_at TIMESTAMPTZ NOT NULL,
+    recorded_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_admin_exit_events_device ON admin_exit_events(device_id, used_at DESC);
+
+-- Verifiers for the PC making the request (see current_device_id()). An
+-- unknown PC gets an error rather than an empty list, so a PC whose secret
+-- was just rotated keeps its cached codes.
+CREATE OR REPLACE FUNCTION get_exit_code_verifiers()
+RETURNS SETOF admin_exit_codes AS $$
+DECLARE
+    v_device_id UUID := current_device_id();
+BEGIN
+    IF v_device_id IS NULL THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    RETURN QUERY
+    SELECT c.*
+    FROM admin_exit_codes c
+    JOIN devices d ON d.id = v_device_id
+    JOIN branches b ON b.id = d.branch_id
+    WHERE c.org_id = b.org_id
+      AND (c.device_id IS NULL OR c.device_id = d.id)
+      AND c.revoked_at IS NULL
+      AND (c.expires_at IS NULL OR c.expires_at > NOW());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_admin_exit(
+    p_event_id UUID,
+    p_exit_code_id UUID,
+    p_source VARCHAR(20),
+    p_used_at TIMESTAMPTZ
+)
+RETURNS admin_exit_events AS $$
+DECLARE
+    v_device_id UUID := current_device_id();
+    v_event admin_exit_events;
+BEGIN
+    IF v_device_id IS NULL THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    INSERT INTO admin_exit_events (id, device_id, exit_code_id, source, used_at)
+    VALUES (p_event_id, v_device_id, p_exit_code_id, p_source, p_used_at)
+    ON CONFLICT (id) DO NOTHING;
+
+    SELECT * INTO v_event FROM admin_exit_events WHERE id = p_event_id;
+    RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE admin_exit_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_exit_events ENABLE ROW LEVEL SECURITY;
+
+-- TOTP secrets are readable, so only admins see the codes at all
+CREATE POLICY "Admins can manage exit codes in their org" ON admin_exit_codes
+    FOR ALL USING (
+        org_id = get_user_org_id()
+        AND get_user_role() IN ('owner', 'admin')
+    )
+    WITH CHECK (
+        org_id = get_user_org_id()
+        AND get_user_role() IN ('owner', 'admin')
+    );
+
+CREATE POLICY "Users can view exit events in their org" ON admin_exit_events
+    FOR SELECT USING (
+        device_id IN (
+            SELECT d.id FROM devices d
+            JOIN branches b ON b.id = d.branch_id
+            WHERE b.org_id = get_user_org_id()
+        )
+    );
@@ -0,0 +1,186 @@
+-- ============================================
+-- REMOTE CLIENT CONFIGURATION
+-- ============================================
+-- Client PC behaviour (blocked shortcuts, Task Manager lockdown, floating
+-- timer warnings, heartbeat and polling intervals) is set per branch, with
+-- optional per-PC overrides on top. Each document only holds the settings
+-- it changes; the client fills in the rest from its built-in defaults and
+-- validates every value before applying it.
+--
+-- Any change that affects a PC bumps devices.config_version. The PC already
+-- listens to its own devices row, so the bump is what tells it to fetch the
+-- merged document again (get_device_config). Once it has applied it, it
+-- reports the version back (report_device_config_applied) for the admin.
+
+CREATE TABLE device_configs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID REFERENCES branches(id) ON DELETE CASCADE,
+    device_id UUID REFERENCES devices(id) ON DELETE CASCADE,
+    config JSONB NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT device_configs_scope_check CHECK ((branch_id IS NULL) <> (device_id IS NULL)),
+    CONSTRAINT device_configs_object_check CHECK (jsonb_typeof(config) = 'object')
+);
+
+CREATE UNIQUE INDEX idx_device_configs_branch ON device_configs(branch_id) WHERE branch_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_device_configs_device ON device_configs(device_id) WHERE device_id IS NOT NULL;
+
+CREATE SEQUENCE device_config_version_seq;
+
+ALTER TABLE devices ADD COLUMN config_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE devices ADD COLUMN config_version_applied INTEGER;
+ALTER TABLE devices ADD COLUMN config_applied_at TIMESTAMPTZ;
+
+-- Bump the version of every PC a config change reaches
+CREATE OR REPLACE FUNCTION bump_device_config_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_row device_configs;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_row := OLD;
+    ELSE
+        v_row := NEW;
+    END IF;
+
+    UPDATE devices
+    SET config_version = nextval('device_config_version_seq')
+    WHERE (v_row.device_id IS NOT NULL AND id = v_row.device_id)
+       OR (v_row.branch_id IS NOT NULL AND branch_id = v_row.branch_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER device_configs_bump_version
+    AFTER INSERT OR UPDATE OR DELETE ON device_configs
+    FOR EACH ROW EXECUTE FUNCTION bump_device_config_version();
+
+-- A PC moved to another branch picks up that branch's config
+CREATE OR REPLACE FUNCTION bump_device_config_on_branch_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.branch_id IS DISTINCT FROM OLD.branch_id THEN
+        NEW.config_version := nextval('device_config_version_seq');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER devices_bump_config_version
+    BEFORE UPDATE OF branch_id ON devices
+    FOR EACH ROW EXECUTE FUNCTION bump_device_config_on_branch_change();
+
+-- Saves the branch or device document; an empty document removes it
+CREATE OR REPLACE FUNCTION save_device_config(
+    p_branch_id UUID,
+    p_device_id UUID,
+    p_config JSONB,
+    p_updated_by UUID
+)
+RETURNS device_configs AS $$
+DECLARE
+    v_org_id UUID;
+    v_config device_configs;
+BEGIN
+    IF COALESCE(get_user_role(), '') NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    IF (p_branch_id IS NULL) = (p_device_id IS NULL) THEN
+        RAISE EXCEPTION 'invalid_scope';
+    END IF;
+
+    IF jsonb_typeof(p_config) IS DISTINCT FROM 'object' THEN
+        RAISE EXCEPTION 'invalid_config';
+    END IF;
+
+    IF p_branch_id IS NOT NULL THEN
+        SELECT org_id INTO v_org_id FROM branches WHERE id = p_branch_id;
+    ELSE
+        SELECT b.org_id INTO v_org_id
+        FROM devices d
+        JOIN branches b ON b.id = d.branch_id
+        WHERE d.id = p_device_id;
+    END IF;
+
+    IF v_org_id IS NULL OR v_org_id IS DISTINCT FROM get_user_org_id() THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    IF p_config = '{}'::JSONB THEN
+        DELETE FROM device_configs
+        WHERE branch_id IS NOT DISTINCT FROM p_branch_id
+          AND device_id IS NOT DISTINCT FROM p_device_id;
+        RETURN NULL;
+    END IF;
+
+    UPDATE device_configs
+    SET config = p_config,
+        updated_by = p_updated_by,
+        updated_at = NOW()
+    WHERE branch_id IS NOT DISTINCT FROM p_branch_id
+      AND device_id IS NOT DISTINCT FROM p_device_id
+    RETURNING * INTO v_config;
+
+    IF NOT FOUND THEN
+        INSERT INTO device_configs (branch_id, device_id, config, updated_by)
+        VALUES (p_branch_id, p_device_id, p_config, p_updated_by)
+        RETURNING * INTO v_config;
+    END IF;
+
+    RETURN v_config;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Branch document with the PC's overrides on top, for the PC making the
+-- request (see current_device_id())
+CREATE OR REPLACE FUNCTION get_device_config()
+RETURNS JSONB AS $$
+DECLARE
+    v_device devices;
+BEGIN
+    SELECT * INTO v_device FROM devices WHERE id = current_device_id();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'version', v_device.config_version,
+        'config',
+            COALESCE((SELECT config FROM device_configs WHERE branch_id = v_device.branch_id), '{}'::JSONB)
+            || COALESCE((SELECT config FROM device_configs WHERE device_id = v_device.id), '{}'::JSONB)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION report_device_config_applied(p_version INTEGER)
+RETURNS VOID AS $$
+DECLARE
+    v_device_id UUID := current_device_id();
+BEGIN
+    IF v_device_id IS NULL THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    UPDATE devices
+    SET config_version_applied = p_version,
+        config_applied_at = NOW()
+    WHERE id = v_device_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE device_configs ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through save_device_config()
+CREATE POLICY "Users can view device configs in their org" ON device_configs
+    FOR SELECT USING (
+        branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+        OR device_id IN (
+            SELECT d.id FROM devices d
+            JOIN branches b ON b.id = d.branch_id
+            WHERE b.org_id = get_user_org_id()
+        )
+    );
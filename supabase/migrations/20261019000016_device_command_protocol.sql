@@ -0,0 +1,152 @@
+-- ============================================
+-- DEVICE COMMAND PROTOCOL
+-- ============================================
+-- Commands used to be fire-and-forget: the PC picked them up from realtime
+-- and from polling, so one could run twice, and a shutdown queued while a
+-- PC was off would still run when it came back the next morning.
+--
+-- Every command now goes through the same steps:
+--   pending   inserted by staff (or an RPC); expires_at is set from the
+--             command type unless the sender picked one
+--   sent      claimed by the PC (claim_device_command). Only one claim can
+--             win, so realtime and polling can't both run it.
+--   executed / failed
+--             reported by the PC with its result (complete_device_command)
+--   expired   not claimed before expires_at, or claimed without a result by
+--             then; never runs (again)
+--
+-- Delivery is at-least-once: a PC that claimed a command but never reported
+-- back (crashed, lost power) gets it again once the claim is a minute old,
+-- up to three attempts, as long as the command hasn't expired.
+
+ALTER TABLE device_commands ADD COLUMN expires_at TIMESTAMPTZ;
+ALTER TABLE device_commands ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE device_commands ADD COLUMN result JSONB;
+
+ALTER TABLE device_commands ADD CONSTRAINT device_commands_status_check
+    CHECK (status IN ('pending', 'sent', 'executed', 'failed', 'expired'));
+
+CREATE INDEX idx_device_commands_device_created ON device_commands(device_id, created_at DESC);
+
+-- Power commands go stale fastest; messages and time changes can wait a bit
+CREATE OR REPLACE FUNCTION set_device_command_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.expires_at IS NULL THEN
+        NEW.expires_at := NOW() + CASE
+            WHEN NEW.command_type IN ('shutdown', 'restart') THEN INTERVAL '2 minutes'
+            WHEN NEW.command_type IN ('lock', 'unlock', 'admin_unlock', 'pause', 'resume') THEN INTERVAL '5 minutes'
+            ELSE INTERVAL '15 minutes'
+        END;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER device_commands_set_expiry
+    BEFORE INSERT ON device_commands
+    FOR EACH ROW EXECUTE FUNCTION set_device_command_expiry();
+
+-- Commands already queued get the longest expiry
+UPDATE device_commands
+SET expires_at = created_at + INTERVAL '15 minutes'
+WHERE expires_at IS NULL;
+
+UPDATE device_commands
+SET status = 'expired'
+WHERE status IN ('pending', 'sent') AND expires_at <= NOW();
+
+-- Claims a command for the PC making the request (see current_device_id()).
+-- Returns the command when this call won the claim, NULL otherwise.
+CREATE OR REPLACE FUNCTION claim_device_command(p_command_id UUID)
+RETURNS device_commands AS $$
+DECLARE
+    v_device_id UUID := current_device_id();
+    v_command device_commands;
+BEGIN
+    IF v_device_id IS NULL THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    SELECT * INTO v_command
+    FROM device_commands
+    WHERE id = p_command_id AND device_id = v_device_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'command_not_found';
+    END IF;
+
+    IF v_command.status IN ('pending', 'sent') AND v_command.expires_at <= NOW() THEN
+        UPDATE device_commands
+        SET status = 'expired'
+        WHERE id = p_command_id;
+        RETURN NULL;
+    END IF;
+
+    -- Give up on a command claimed three times without a result
+    IF v_command.status = 'sent'
+       AND v_command.sent_at < NOW() - INTERVAL '1 minute'
+       AND v_command.attempts >= 3 THEN
+        UPDATE device_commands
+        SET status = 'failed',
+            executed_at = NOW(),
+            error_message = 'No result after 3 attempts'
+        WHERE id = p_command_id;
+        RETURN NULL;
+    END IF;
+
+    -- New, or claimed over a minute ago without a result
+    IF v_command.status = 'pending'
+       OR (v_command.status = 'sent' AND v_command.sent_at < NOW() - INTERVAL '1 minute') THEN
+        UPDATE device_commands
+        SET status = 'sent',
+            sent_at = NOW(),
+            attempts = attempts + 1
+        WHERE id = p_command_id
+        RETURNING * INTO v_command;
+        RETURN v_command;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Result of a claimed command. Reporting twice is harmless.
+CREATE OR REPLACE FUNCTION complete_device_command(
+    p_command_id UUID,
+    p_success BOOLEAN,
+    p_error_message TEXT DEFAULT NULL,
+    p_result JSONB DEFAULT NULL
+)
+RETURNS device_commands AS $$
+DECLARE
+    v_device_id UUID := current_device_id();
+    v_command device_commands;
+BEGIN
+    IF v_device_id IS NULL THEN
+        RAISE EXCEPTION 'device_not_authorized';
+    END IF;
+
+    UPDATE device_commands
+    SET status = CASE WHEN p_success THEN 'executed' ELSE 'failed' END,
+        executed_at = NOW(),
+        error_message = p_error_message,
+        result = p_result
+    WHERE id = p_command_id
+      AND device_id = v_device_id
+      AND status = 'sent'
+    RETURNING * INTO v_command;
+
+    IF NOT FOUND THEN
+        SELECT * INTO v_command
+        FROM device_commands
+        WHERE id = p_command_id AND device_id = v_device_id;
+    END IF;
+
+    RETURN v_command;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- PCs only change commands through the two functions above
+REVOKE UPDATE ON device_commands FROM anon;
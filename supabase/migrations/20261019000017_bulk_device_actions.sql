@@ -0,0 +1,126 @@
+-- ============================================
+-- BULK DEVICE ACTIONS
+-- ============================================
+-- Staff can act on many PCs at once (closing time: lock and shut down the
+-- whole floor). dispatch_bulk_device_action() checks the action against the
+-- staff role and the org once, then queues one device command per PC, all
+-- sharing a batch_id so the admin can follow the acknowledgements together.
+--
+--   lock, message, restart, shutdown
+--       sent to the PCs as they are
+--   assign_rate   { rate_id }             every PC must be in the rate's branch
+--   move_branch   { branch_id, rate_id }  PCs with a session can't move
+--       the devices rows are changed here; the PCs get a reload_device
+--       command so they pick up the new branch pricing and acknowledge it
+
+ALTER TABLE device_commands ADD COLUMN batch_id UUID;
+
+CREATE INDEX idx_device_commands_batch ON device_commands(batch_id) WHERE batch_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION dispatch_bulk_device_action(
+    p_device_ids UUID[],
+    p_action VARCHAR(20),
+    p_payload JSONB,
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_batch_id UUID := gen_random_uuid();
+    v_device_count INTEGER;
+    v_rate_branch_id UUID;
+    v_branch_id UUID;
+    v_rate_id UUID;
+BEGIN
+    IF p_device_ids IS NULL OR array_length(p_device_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'no_devices';
+    END IF;
+
+    IF p_action NOT IN ('lock', 'message', 'restart', 'shutdown', 'assign_rate', 'move_branch') THEN
+        RAISE EXCEPTION 'invalid_action';
+    END IF;
+
+    IF p_action IN ('shutdown', 'assign_rate', 'move_branch')
+       AND COALESCE(get_user_role(), '') NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    SELECT COUNT(*) INTO v_device_count
+    FROM devices d
+    JOIN branches b ON b.id = d.branch_id
+    WHERE d.id = ANY(p_device_ids)
+      AND b.org_id = get_user_org_id();
+
+    IF v_device_count <> array_length(p_device_ids, 1) THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    IF p_action = 'message' AND COALESCE(TRIM(p_payload->>'message'), '') = '' THEN
+        RAISE EXCEPTION 'message_required';
+    END IF;
+
+    IF p_action = 'assign_rate' THEN
+        v_rate_id := (p_payload->>'rate_id')::UUID;
+
+        SELECT branch_id INTO v_rate_branch_id FROM rates WHERE id = v_rate_id;
+
+        IF v_rate_branch_id IS NULL
+           OR EXISTS (
+               SELECT 1 FROM devices
+               WHERE id = ANY(p_device_ids) AND branch_id <> v_rate_branch_id
+           ) THEN
+            RAISE EXCEPTION 'rate_not_in_branch';
+        END IF;
+
+        UPDATE devices
+        SET rate_id = v_rate_id,
+            updated_at = NOW()
+        WHERE id = ANY(p_device_ids);
+    END IF;
+
+    IF p_action = 'move_branch' THEN
+        v_branch_id := (p_payload->>'branch_id')::UUID;
+        v_rate_id := (p_payload->>'rate_id')::UUID;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM branches
+            WHERE id = v_branch_id AND org_id = get_user_org_id()
+        ) THEN
+            RAISE EXCEPTION 'branch_not_found';
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM rates
+            WHERE id = v_rate_id AND branch_id = v_branch_id
+        ) THEN
+            RAISE EXCEPTION 'rate_not_in_branch';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM sessions
+            WHERE device_id = ANY(p_device_ids) AND status IN ('active', 'paused')
+        ) THEN
+            RAISE EXCEPTION 'device_in_use';
+        END IF;
+
+        UPDATE devices
+        SET branch_id = v_branch_id,
+            rate_id = v_rate_id,
+            updated_at = NOW()
+        WHERE id = ANY(p_device_ids);
+    END IF;
+
+    INSERT INTO device_commands (device_id, command_type, payload, created_by, batch_id)
+    SELECT
+        device_id,
+        CASE WHEN p_action IN ('assign_rate', 'move_branch') THEN 'reload_device' ELSE p_action END,
+        CASE
+            WHEN p_action IN ('assign_rate', 'move_branch') THEN jsonb_build_object('reason', p_action)
+            ELSE COALESCE(p_payload, '{}'::JSONB)
+        END,
+        p_created_by,
+        v_batch_id
+    FROM unnest(p_device_ids) AS device_id;
+
+    RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
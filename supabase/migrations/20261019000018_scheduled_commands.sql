@@ -0,0 +1,268 @@
+-- ============================================
+-- OPENING HOURS AND SCHEDULED COMMANDS
+-- ============================================
+-- Branches get opening hours, and staff can schedule device commands for a
+-- whole branch ("closing in 15 minutes" at 1:45 AM, shutdown at 2:00 AM).
+--
+-- Opening hours follow the rate schedule rules: local shop time, a window
+-- ending at or before its start wraps past midnight and belongs to the
+-- weekday it opened on. No hours set means the branch never closes.
+-- Outside opening hours no new guest session can start; members can still
+-- log in.
+--
+-- Scheduled commands are either one-off (run_at) or recurring (days_of_week
+-- + time_of_day in the branch timezone). run_due_scheduled_commands() runs
+-- every minute from pg_cron, queues a normal device command for every
+-- approved PC in the branch under one batch_id, and logs the run. A run
+-- more than 15 minutes late (scheduler down) is logged as missed instead of
+-- sending a shutdown in the middle of the next day.
+
+ALTER TABLE branches ADD COLUMN opens_at TIME;
+ALTER TABLE branches ADD COLUMN closes_at TIME;
+ALTER TABLE branches ADD COLUMN open_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}';
+
+ALTER TABLE branches ADD CONSTRAINT branches_opening_hours_check
+    CHECK ((opens_at IS NULL) = (closes_at IS NULL));
+ALTER TABLE branches ADD CONSTRAINT branches_open_days_check
+    CHECK (open_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]);
+
+CREATE OR REPLACE FUNCTION is_branch_open(p_branch_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_branch branches;
+    v_local TIMESTAMP;
+    v_time TIME;
+    v_today SMALLINT;
+    v_yesterday SMALLINT;
+BEGIN
+    SELECT * INTO v_branch FROM branches WHERE id = p_branch_id;
+
+    IF NOT FOUND OR v_branch.opens_at IS NULL THEN
+        RETURN TRUE;
+    END IF;
+
+    v_local := p_at AT TIME ZONE v_branch.timezone;
+    v_time := v_local::TIME;
+    v_today := EXTRACT(DOW FROM v_local);
+    v_yesterday := (v_today + 6) % 7;
+
+    IF v_branch.opens_at < v_branch.closes_at THEN
+        RETURN v_today = ANY(v_branch.open_days)
+           AND v_time >= v_branch.opens_at
+           AND v_time < v_branch.closes_at;
+    END IF;
+
+    RETURN (v_time >= v_branch.opens_at AND v_today = ANY(v_branch.open_days))
+        OR (v_time < v_branch.closes_at AND v_yesterday = ANY(v_branch.open_days));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Kiosk and staff can't start a guest session while the branch is closed
+CREATE OR REPLACE FUNCTION check_guest_session_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_branch_id UUID;
+BEGIN
+    SELECT branch_id INTO v_branch_id FROM devices WHERE id = NEW.device_id;
+
+    IF NOT is_branch_open(v_branch_id) THEN
+        RAISE EXCEPTION 'branch_closed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sessions_check_guest_hours
+    BEFORE INSERT ON sessions
+    FOR EACH ROW
+    WHEN (NEW.session_type = 'guest')
+    EXECUTE FUNCTION check_guest_session_hours();
+
+CREATE TABLE scheduled_commands (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    command_type VARCHAR(20) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    run_at TIMESTAMPTZ,
+    days_of_week SMALLINT[],
+    time_of_day TIME,
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT scheduled_commands_type_check
+        CHECK (command_type IN ('shutdown', 'restart', 'lock', 'message')),
+    CONSTRAINT scheduled_commands_when_check CHECK (
+        (run_at IS NOT NULL AND time_of_day IS NULL AND days_of_week IS NULL)
+        OR (run_at IS NULL AND time_of_day IS NOT NULL AND array_length(days_of_week, 1) > 0)
+    ),
+    CONSTRAINT scheduled_commands_days_check
+        CHECK (days_of_week <@ '{0,1,2,3,4,5,6}'::SMALLINT[])
+);
+
+CREATE INDEX idx_scheduled_commands_branch ON scheduled_commands(branch_id);
+CREATE INDEX idx_scheduled_commands_due ON scheduled_commands(next_run_at) WHERE is_active = TRUE;
+
+CREATE TABLE scheduled_command_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scheduled_command_id UUID NOT NULL REFERENCES scheduled_commands(id) ON DELETE CASCADE,
+    branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    batch_id UUID,
+    device_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT scheduled_command_runs_status_check
+        CHECK (status IN ('dispatched', 'no_devices', 'missed'))
+);
+
+CREATE INDEX idx_scheduled_command_runs_branch ON scheduled_command_runs(branch_id, created_at DESC);
+
+ALTER TABLE scheduled_commands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_command_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view scheduled commands in their org" ON scheduled_commands
+    FOR SELECT USING (
+        branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    );
+
+-- Scheduled shutdowns reach every PC, so only admins manage them
+CREATE POLICY "Admins can manage scheduled commands" ON scheduled_commands
+    FOR ALL USING (
+        branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+        AND get_user_role() IN ('owner', 'admin')
+    );
+
+CREATE POLICY "Users can view scheduled command runs in their org" ON scheduled_command_runs
+    FOR SELECT USING (
+        branch_id IN (SELECT id FROM branches WHERE org_id = get_user_org_id())
+    );
+
+-- First run of a recurring schedule after p_after, in the branch timezone
+CREATE OR REPLACE FUNCTION next_scheduled_command_run(
+    p_days_of_week SMALLINT[],
+    p_time_of_day TIME,
+    p_timezone VARCHAR(64),
+    p_after TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_date DATE := (p_after AT TIME ZONE p_timezone)::DATE;
+    v_candidate TIMESTAMPTZ;
+BEGIN
+    FOR i IN 0..7 LOOP
+        v_candidate := ((v_date + i) + p_time_of_day) AT TIME ZONE p_timezone;
+        IF EXTRACT(DOW FROM v_date + i)::SMALLINT = ANY(p_days_of_week) AND v_candidate > p_after THEN
+            RETURN v_candidate;
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- next_run_at always follows the schedule; the runner only records runs
+CREATE OR REPLACE FUNCTION set_scheduled_command_next_run()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT NEW.is_active THEN
+        NEW.next_run_at := NULL;
+    ELSIF NEW.run_at IS NOT NULL THEN
+        NEW.next_run_at := NEW.run_at;
+    ELSE
+        NEW.next_run_at := next_scheduled_command_run(
+            NEW.days_of_week,
+            NEW.time_of_day,
+            (SELECT timezone FROM branches WHERE id = NEW.branch_id),
+            NOW()
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER scheduled_commands_set_next_run
+    BEFORE INSERT OR UPDATE ON scheduled_commands
+    FOR EACH ROW EXECUTE FUNCTION set_scheduled_command_next_run();
+
+-- Recurring runs move with the branch timezone
+CREATE OR REPLACE FUNCTION reschedule_branch_commands()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE scheduled_commands
+    SET updated_at = NOW()
+    WHERE branch_id = NEW.id AND is_active = TRUE AND run_at IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER branches_reschedule_commands
+    AFTER UPDATE OF timezone ON branches
+    FOR EACH ROW
+    WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+    EXECUTE FUNCTION reschedule_branch_commands();
+
+CREATE OR REPLACE FUNCTION run_due_scheduled_commands()
+RETURNS INTEGER AS $$
+DECLARE
+    v_command scheduled_commands;
+    v_batch_id UUID;
+    v_device_count INTEGER;
+    v_runs INTEGER := 0;
+BEGIN
+    FOR v_command IN
+        SELECT * FROM scheduled_commands
+        WHERE is_active = TRUE AND next_run_at <= NOW()
+        ORDER BY next_run_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v_command.next_run_at < NOW() - INTERVAL '15 minutes' THEN
+            INSERT INTO scheduled_command_runs (scheduled_command_id, branch_id, scheduled_for, status)
+            VALUES (v_command.id, v_command.branch_id, v_command.next_run_at, 'missed');
+        ELSE
+            v_batch_id := gen_random_uuid();
+
+            INSERT INTO device_commands (device_id, command_type, payload, created_by, batch_id)
+            SELECT id, v_command.command_type, v_command.payload, v_command.created_by, v_batch_id
+            FROM devices
+            WHERE branch_id = v_command.branch_id
+              -- PCs waiting for approval aren't in service yet
+              AND status <> 'pending';
+
+            GET DIAGNOSTICS v_device_count = ROW_COUNT;
+
+            INSERT INTO scheduled_command_runs (
+                scheduled_command_id, branch_id, scheduled_for, status, batch_id, device_count
+            ) VALUES (
+                v_command.id,
+                v_command.branch_id,
+                v_command.next_run_at,
+                CASE WHEN v_device_count = 0 THEN 'no_devices' ELSE 'dispatched' END,
+                v_batch_id,
+                v_device_count
+            );
+        END IF;
+
+        -- One-off schedules are done; recurring ones move to their next run
+        UPDATE scheduled_commands
+        SET last_run_at = NOW(),
+            is_active = (v_command.run_at IS NULL),
+            updated_at = NOW()
+        WHERE id = v_command.id;
+
+        v_runs := v_runs + 1;
+    END LOOP;
+
+    RETURN v_runs;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION run_due_scheduled_commands() FROM PUBLIC;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('run-scheduled-commands', '* * * * *', 'SELECT run_due_scheduled_commands()');
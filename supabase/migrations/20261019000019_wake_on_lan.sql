@@ -0,0 +1,95 @@
+-- ============================================
+-- WAKE-ON-LAN
+-- ============================================
+-- The admin panel can't reach the shop LAN, so a PC that is off is woken by
+-- another PC of its branch: wake_devices() picks an online PC (heartbeat in
+-- the last 45 seconds, idle ones first) and queues a wake_device command for
+-- it with the target's MAC from devices.specs. The relay broadcasts the
+-- magic packet and reports back like any other command.
+--
+-- A PC without a known MAC or without an online PC on its branch gets a
+-- failed command instead, so the admin sees why it didn't wake.
+
+-- A wake request that waited two minutes is no longer what staff expect
+CREATE OR REPLACE FUNCTION set_device_command_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.expires_at IS NULL THEN
+        NEW.expires_at := NOW() + CASE
+            WHEN NEW.command_type IN ('shutdown', 'restart', 'wake_device') THEN INTERVAL '2 minutes'
+            WHEN NEW.command_type IN ('lock', 'unlock', 'admin_unlock', 'pause', 'resume') THEN INTERVAL '5 minutes'
+            ELSE INTERVAL '15 minutes'
+        END;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION wake_devices(
+    p_device_ids UUID[],
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_batch_id UUID := gen_random_uuid();
+    v_target devices;
+    v_relay_id UUID;
+    v_mac TEXT;
+BEGIN
+    IF p_device_ids IS NULL OR array_length(p_device_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'no_devices';
+    END IF;
+
+    IF (
+        SELECT COUNT(*)
+        FROM devices d
+        JOIN branches b ON b.id = d.branch_id
+        WHERE d.id = ANY(p_device_ids)
+          AND b.org_id = get_user_org_id()
+    ) <> array_length(p_device_ids, 1) THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    FOR v_target IN SELECT * FROM devices WHERE id = ANY(p_device_ids) LOOP
+        v_mac := v_target.specs->'network'->>'mac';
+
+        SELECT id INTO v_relay_id
+        FROM devices
+        WHERE branch_id = v_target.branch_id
+          AND id <> v_target.id
+          AND status IN ('online', 'in_use')
+          AND last_heartbeat > NOW() - INTERVAL '45 seconds'
+        ORDER BY (status = 'online') DESC, last_heartbeat DESC
+        LIMIT 1;
+
+        IF v_mac IS NULL OR v_mac = '' OR v_relay_id IS NULL THEN
+            INSERT INTO device_commands (
+                device_id, command_type, payload, status, created_by, batch_id, executed_at, error_message
+            ) VALUES (
+                v_target.id,
+                'wake_device',
+                jsonb_build_object('target_device_id', v_target.id),
+                'failed',
+                p_created_by,
+                v_batch_id,
+                NOW(),
+                CASE
+                    WHEN v_mac IS NULL OR v_mac = '' THEN 'MAC address not known yet'
+                    ELSE 'No online PC on this branch to send the wake packet'
+                END
+            );
+        ELSE
+            INSERT INTO device_commands (device_id, command_type, payload, created_by, batch_id)
+            VALUES (
+                v_relay_id,
+                'wake_device',
+                jsonb_build_object('target_device_id', v_target.id, 'mac', v_mac),
+                p_created_by,
+                v_batch_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
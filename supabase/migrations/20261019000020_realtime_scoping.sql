@@ -0,0 +1,32 @@
+-- ============================================
+-- BRANCH-SCOPED REALTIME
+-- ============================================
+-- The admin panel subscribes to devices and sessions per branch instead of
+-- to the whole tables. Realtime can only filter on a column of the changed
+-- row, so sessions get the branch of their device copied in. The copy is
+-- taken when the session starts or moves to another PC; a PC later moved to
+-- another branch leaves its old sessions where they were played.
+--
+-- Pending devices have no branch yet and are subscribed to by status.
+
+ALTER TABLE sessions ADD COLUMN branch_id UUID REFERENCES branches(id);
+
+UPDATE sessions s
+SET branch_id = d.branch_id
+FROM devices d
+WHERE d.id = s.device_id;
+
+CREATE INDEX idx_sessions_branch_id ON sessions(branch_id, status);
+
+CREATE OR REPLACE FUNCTION set_session_branch()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT branch_id INTO NEW.branch_id FROM devices WHERE id = NEW.device_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sessions_set_branch
+    BEFORE INSERT OR UPDATE OF device_id ON sessions
+    FOR EACH ROW EXECUTE FUNCTION set_session_branch();
+
@@ -0,0 +1,115 @@
+-- ============================================
+-- DEVICE PRESENCE
+-- ============================================
+-- PCs now announce themselves on a per-branch realtime presence channel and
+-- the admin goes by that. The heartbeat on devices.last_heartbeat is kept as
+-- a coarse fallback and PCs send it every 60 seconds by default instead of
+-- every 15.
+--
+-- The database can't see presence, so wake_devices() still picks its relay
+-- by heartbeat; the window grows to match the slower heartbeat. A relay that
+-- went off in the meantime lets the wake command expire, which the admin
+-- sees like any other expired command.
+--
+-- The presence channels (presence-<branch id>) are private. A PC may join
+-- and track only on its own branch's channel, identified by the device
+-- credentials its socket carries (see current_device_id()); staff may only
+-- listen to the channels of their org's branches.
+
+CREATE POLICY "Devices can join their branch presence channel" ON realtime.messages
+    FOR SELECT TO anon
+    USING (
+        realtime.messages.extension = 'presence'
+        AND realtime.topic() = (
+            SELECT 'presence-' || branch_id FROM devices WHERE id = (SELECT current_device_id())
+        )
+    );
+
+CREATE POLICY "Devices can track on their branch presence channel" ON realtime.messages
+    FOR INSERT TO anon
+    WITH CHECK (
+        realtime.messages.extension = 'presence'
+        AND realtime.topic() = (
+            SELECT 'presence-' || branch_id FROM devices WHERE id = (SELECT current_device_id())
+        )
+    );
+
+CREATE POLICY "Staff can watch presence in their org" ON realtime.messages
+    FOR SELECT TO authenticated
+    USING (
+        realtime.messages.extension = 'presence'
+        AND realtime.topic() IN (
+            SELECT 'presence-' || id FROM branches WHERE org_id = get_user_org_id()
+        )
+    );
+
+CREATE OR REPLACE FUNCTION wake_devices(
+    p_device_ids UUID[],
+    p_created_by UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_batch_id UUID := gen_random_uuid();
+    v_target devices;
+    v_relay_id UUID;
+    v_mac TEXT;
+BEGIN
+    IF p_device_ids IS NULL OR array_length(p_device_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'no_devices';
+    END IF;
+
+    IF (
+        SELECT COUNT(*)
+        FROM devices d
+        JOIN branches b ON b.id = d.branch_id
+        WHERE d.id = ANY(p_device_ids)
+          AND b.org_id = get_user_org_id()
+    ) <> array_length(p_device_ids, 1) THEN
+        RAISE EXCEPTION 'device_not_found';
+    END IF;
+
+    FOR v_target IN SELECT * FROM devices WHERE id = ANY(p_device_ids) LOOP
+        v_mac := v_target.specs->'network'->>'mac';
+
+        SELECT id INTO v_relay_id
+        FROM devices
+        WHERE branch_id = v_target.branch_id
+          AND id <> v_target.id
+          AND status IN ('online', 'in_use')
+          -- Same window as the admin's heartbeat timeout; PCs heartbeat
+          -- at least every 90 seconds
+          AND last_heartbeat > NOW() - INTERVAL '3 minutes'
+        ORDER BY (status = 'online') DESC, last_heartbeat DESC
+        LIMIT 1;
+
+        IF v_mac IS NULL OR v_mac = '' OR v_relay_id IS NULL THEN
+            INSERT INTO device_commands (
+                device_id, command_type, payload, status, created_by, batch_id, executed_at, error_message
+            ) VALUES (
+                v_target.id,
+                'wake_device',
+                jsonb_build_object('target_device_id', v_target.id),
+                'failed',
+                p_created_by,
+                v_batch_id,
+                NOW(),
+                CASE
+                    WHEN v_mac IS NULL OR v_mac = '' THEN 'MAC address not known yet'
+                    ELSE 'No online PC on this branch to send the wake packet'
+                END
+            );
+        ELSE
+            INSERT INTO device_commands (device_id, command_type, payload, created_by, batch_id)
+            VALUES (
+                v_relay_id,
+                'wake_device',
+                jsonb_build_object('target_device_id', v_target.id, 'mac', v_mac),
+                p_created_by,
+                v_batch_id
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,144 @@
+-- ============================================
+-- SERVER-SIDE HISTORY QUERIES
+-- ============================================
+-- Sessions, transactions and members are paged on the server instead of
+-- loading the latest 100 rows and filtering them in the browser.
+--
+-- Pages are keyset (cursor) based on (created_at, id), newest first, so a
+-- page stays stable while new rows come in. Member search is full-text over
+-- username, name, email and phone; every word is matched as a prefix
+-- ("jo sa" finds "John Santos").
+--
+-- Totals for the current filters come from get_session_totals() and
+-- get_transaction_totals(). Staff assigned to a branch only ever get that
+-- branch, whatever branch they ask for: the totals pin it, and the policies
+-- below hide other branches' sessions and transactions from the lists.
+
+ALTER TABLE members ADD COLUMN search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        to_tsvector(
+            'simple',
+            COALESCE(username, '') || ' ' ||
+            COALESCE(full_name, '') || ' ' ||
+            COALESCE(email, '') || ' ' ||
+            COALESCE(phone, '')
+        )
+    ) STORED;
+
+CREATE INDEX idx_members_search_vector ON members USING GIN (search_vector);
+CREATE INDEX idx_members_org_created ON members(org_id, created_at DESC, id DESC);
+CREATE INDEX idx_sessions_created ON sessions(created_at DESC, id DESC);
+CREATE INDEX idx_transactions_created ON transactions(created_at DESC, id DESC);
+
+-- Same query the admin sends to PostgREST: every word as a prefix
+CREATE OR REPLACE FUNCTION member_search_query(p_search TEXT)
+RETURNS TSQUERY AS $$
+    SELECT to_tsquery(
+        'simple',
+        string_agg(quote_literal(word) || ':*', ' & ')
+    )
+    FROM regexp_split_to_table(LOWER(TRIM(p_search)), '\s+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION get_staff_branch_id()
+RETURNS UUID AS $$
+BEGIN
+    RETURN (
+        SELECT branch_id FROM staff_users
+        WHERE auth_user_id = auth.uid()
+          AND is_active = TRUE
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Branch staff only see their branch's sessions" ON sessions
+    AS RESTRICTIVE FOR SELECT TO authenticated
+    USING (
+        (SELECT get_staff_branch_id()) IS NULL
+        OR branch_id = (SELECT get_staff_branch_id())
+    );
+
+CREATE POLICY "Branch staff only see their branch's transactions" ON transactions
+    AS RESTRICTIVE FOR SELECT TO authenticated
+    USING (
+        (SELECT get_staff_branch_id()) IS NULL
+        OR branch_id = (SELECT get_staff_branch_id())
+    );
+
+CREATE OR REPLACE FUNCTION get_session_totals(
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_branch_id UUID DEFAULT NULL,
+    p_device_id UUID DEFAULT NULL,
+    p_member_id UUID DEFAULT NULL,
+    p_status VARCHAR DEFAULT NULL,
+    p_session_type VARCHAR DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    session_count BIGINT,
+    revenue NUMERIC,
+    average_seconds NUMERIC
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+    v_query TSQUERY := member_search_query(p_search);
+BEGIN
+    RETURN QUERY
+    SELECT
+        COUNT(*),
+        COALESCE(SUM(s.total_amount), 0),
+        COALESCE(AVG(s.total_seconds_used), 0)
+    FROM sessions s
+    JOIN branches b ON b.id = s.branch_id
+    LEFT JOIN members m ON m.id = s.member_id
+    WHERE b.org_id = get_user_org_id()
+      AND (v_branch_id IS NULL OR s.branch_id = v_branch_id)
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at < p_to)
+      AND (p_device_id IS NULL OR s.device_id = p_device_id)
+      AND (p_member_id IS NULL OR s.member_id = p_member_id)
+      AND (p_status IS NULL OR s.status = p_status)
+      AND (p_session_type IS NULL OR s.session_type = p_session_type)
+      AND (v_query IS NULL OR m.search_vector @@ v_query);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Voided rows stay in the list but don't count toward the totals
+CREATE OR REPLACE FUNCTION get_transaction_totals(
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_branch_id UUID DEFAULT NULL,
+    p_member_id UUID DEFAULT NULL,
+    p_type VARCHAR DEFAULT NULL,
+    p_payment_method VARCHAR DEFAULT NULL,
+    p_search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    transaction_count BIGINT,
+    income NUMERIC,
+    usage NUMERIC
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+    v_query TSQUERY := member_search_query(p_search);
+BEGIN
+    RETURN QUERY
+    SELECT
+        COUNT(*),
+        COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.type = 'topup' AND t.voided_at IS NULL), 0),
+        COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.type = 'usage' AND t.voided_at IS NULL), 0)
+    FROM transactions t
+    JOIN branches b ON b.id = t.branch_id
+    LEFT JOIN members m ON m.id = t.member_id
+    WHERE b.org_id = get_user_org_id()
+      AND (v_branch_id IS NULL OR t.branch_id = v_branch_id)
+      AND (p_from IS NULL OR t.created_at >= p_from)
+      AND (p_to IS NULL OR t.created_at < p_to)
+      AND (p_member_id IS NULL OR t.member_id = p_member_id)
+      AND (p_type IS NULL OR t.type = p_type)
+      AND (p_payment_method IS NULL OR t.payment_method = p_payment_method)
+      AND (v_query IS NULL OR m.search_vector @@ v_query);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,250 @@
+-- ============================================
+-- REPORTS
+-- ============================================
+-- Aggregates behind the admin Reports page. Everything is computed here so
+-- the page never has to load raw sessions or transactions.
+--
+-- Revenue is the cash and coin taken in, the same figure a shift expects in
+-- its drawer: guest and member top-ups, less cash refunds and voids. Member
+-- usage is paid from credits that were already counted when topped up, so it
+-- is not revenue a second time.
+--
+-- Days, hours and weekdays are in the branch's own timezone. Utilization is
+-- the share of the period a PC had a session open, paused time included.
+--
+-- Staff assigned to a branch only ever get that branch.
+
+CREATE INDEX IF NOT EXISTS idx_sessions_started ON sessions(started_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_device_started ON sessions(device_id, started_at);
+
+-- Revenue broken down by day, hour of day, branch, payment method, session
+-- type and time package, one row per bucket
+CREATE OR REPLACE FUNCTION get_revenue_report(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_branch_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    dimension VARCHAR,
+    bucket TEXT,
+    label TEXT,
+    amount NUMERIC,
+    transaction_count BIGINT
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+BEGIN
+    RETURN QUERY
+    WITH tx AS (
+        SELECT
+            t.amount,
+            t.created_at AT TIME ZONE b.timezone AS local_at,
+            t.branch_id,
+            b.name AS branch_name,
+            t.payment_method,
+            -- Top-ups outside a session are a member's
+            COALESCE(s.session_type, CASE WHEN t.member_id IS NULL THEN 'guest' ELSE 'member' END) AS session_type,
+            s.package_id,
+            p.name AS package_name
+        FROM transactions t
+        JOIN branches b ON b.id = t.branch_id
+        LEFT JOIN sessions s ON s.id = t.session_id
+        LEFT JOIN time_packages p ON p.id = s.package_id
+        WHERE b.org_id = get_user_org_id()
+          AND (v_branch_id IS NULL OR t.branch_id = v_branch_id)
+          AND t.created_at >= p_from
+          AND t.created_at < p_to
+          AND t.payment_method IN ('cash', 'coin')
+    )
+    SELECT 'day'::VARCHAR, to_char(local_at, 'YYYY-MM-DD'), NULL::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx GROUP BY 2
+    UNION ALL
+    SELECT 'hour'::VARCHAR, EXTRACT(HOUR FROM local_at)::INT::TEXT, NULL::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx GROUP BY 2
+    UNION ALL
+    SELECT 'branch'::VARCHAR, tx.branch_id::TEXT, MIN(tx.branch_name)::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx GROUP BY 2
+    UNION ALL
+    SELECT 'payment_method'::VARCHAR, tx.payment_method::TEXT, NULL::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx GROUP BY 2
+    UNION ALL
+    SELECT 'session_type'::VARCHAR, tx.session_type::TEXT, NULL::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx GROUP BY 2
+    UNION ALL
+    SELECT 'package'::VARCHAR, tx.package_id::TEXT, MIN(tx.package_name)::TEXT, SUM(tx.amount), COUNT(*)
+    FROM tx WHERE tx.package_id IS NOT NULL GROUP BY 2;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Guest vs member mix and session length, for sessions started in the period
+CREATE OR REPLACE FUNCTION get_session_report(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_branch_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    session_type VARCHAR,
+    session_count BIGINT,
+    total_seconds NUMERIC,
+    average_seconds NUMERIC,
+    amount NUMERIC
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.session_type::VARCHAR,
+        COUNT(*),
+        COALESCE(SUM(s.total_seconds_used), 0)::NUMERIC,
+        COALESCE(AVG(s.total_seconds_used), 0)::NUMERIC,
+        COALESCE(SUM(s.total_amount), 0)::NUMERIC
+    FROM sessions s
+    JOIN branches b ON b.id = s.branch_id
+    WHERE b.org_id = get_user_org_id()
+      AND (v_branch_id IS NULL OR s.branch_id = v_branch_id)
+      AND s.started_at >= p_from
+      AND s.started_at < p_to
+    GROUP BY s.session_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members with the most spend (charged to their sessions) or hours played
+CREATE OR REPLACE FUNCTION get_top_members(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_branch_id UUID DEFAULT NULL,
+    p_order_by VARCHAR DEFAULT 'spend',
+    p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+    member_id UUID,
+    username VARCHAR,
+    full_name VARCHAR,
+    spend NUMERIC,
+    total_seconds NUMERIC,
+    session_count BIGINT
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.username::VARCHAR,
+        m.full_name::VARCHAR,
+        COALESCE(SUM(s.total_amount), 0)::NUMERIC AS spend,
+        COALESCE(SUM(s.total_seconds_used), 0)::NUMERIC AS total_seconds,
+        COUNT(*)
+    FROM sessions s
+    JOIN branches b ON b.id = s.branch_id
+    JOIN members m ON m.id = s.member_id
+    WHERE b.org_id = get_user_org_id()
+      AND (v_branch_id IS NULL OR s.branch_id = v_branch_id)
+      AND s.started_at >= p_from
+      AND s.started_at < p_to
+    GROUP BY m.id, m.username, m.full_name
+    ORDER BY
+        CASE WHEN p_order_by = 'hours' THEN SUM(s.total_seconds_used) ELSE SUM(s.total_amount) END DESC NULLS LAST,
+        m.username
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Seconds each PC had a session open, out of the seconds of the period it
+-- existed for (up to now)
+CREATE OR REPLACE FUNCTION get_device_utilization(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_branch_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    device_id UUID,
+    device_name VARCHAR,
+    branch_id UUID,
+    branch_name VARCHAR,
+    used_seconds NUMERIC,
+    available_seconds NUMERIC
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+    v_to TIMESTAMPTZ := LEAST(p_to, NOW());
+BEGIN
+    RETURN QUERY
+    SELECT
+        d.id,
+        d.name::VARCHAR,
+        b.id,
+        b.name::VARCHAR,
+        COALESCE((
+            SELECT SUM(EXTRACT(EPOCH FROM
+                LEAST(COALESCE(s.ended_at, NOW()), v_to) - GREATEST(s.started_at, p_from)
+            ))
+            FROM sessions s
+            WHERE s.device_id = d.id
+              AND s.started_at < v_to
+              AND COALESCE(s.ended_at, NOW()) > p_from
+        ), 0)::NUMERIC,
+        GREATEST(EXTRACT(EPOCH FROM v_to - GREATEST(p_from, d.created_at)), 0)::NUMERIC
+    FROM devices d
+    JOIN branches b ON b.id = d.branch_id
+    WHERE b.org_id = get_user_org_id()
+      AND (v_branch_id IS NULL OR d.branch_id = v_branch_id)
+      AND d.status <> 'pending'
+    ORDER BY b.name, d.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Share of PCs in use for each weekday (0 = Sunday) and hour, averaged over
+-- the period. Each hour of each PC is one slot.
+CREATE OR REPLACE FUNCTION get_occupancy_heatmap(
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_branch_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    weekday INT,
+    hour INT,
+    occupancy NUMERIC
+) AS $$
+DECLARE
+    v_branch_id UUID := COALESCE(get_staff_branch_id(), p_branch_id);
+    v_to TIMESTAMPTZ := LEAST(p_to, NOW());
+BEGIN
+    RETURN QUERY
+    WITH slots AS (
+        SELECT generate_series(date_trunc('hour', p_from), v_to - INTERVAL '1 second', INTERVAL '1 hour') AS slot_start
+    ),
+    pcs AS (
+        SELECT d.id, d.created_at, b.timezone
+        FROM devices d
+        JOIN branches b ON b.id = d.branch_id
+        WHERE b.org_id = get_user_org_id()
+          AND (v_branch_id IS NULL OR d.branch_id = v_branch_id)
+          AND d.status <> 'pending'
+    ),
+    slot_usage AS (
+        SELECT
+            EXTRACT(DOW FROM sl.slot_start AT TIME ZONE pc.timezone)::INT AS slot_weekday,
+            EXTRACT(HOUR FROM sl.slot_start AT TIME ZONE pc.timezone)::INT AS slot_hour,
+            LEAST(COALESCE((
+                SELECT SUM(EXTRACT(EPOCH FROM
+                    LEAST(COALESCE(s.ended_at, NOW()), sl.slot_start + INTERVAL '1 hour') - GREATEST(s.started_at, sl.slot_start)
+                ))
+                FROM sessions s
+                WHERE s.device_id = pc.id
+                  AND s.started_at < sl.slot_start + INTERVAL '1 hour'
+                  AND COALESCE(s.ended_at, NOW()) > sl.slot_start
+            ), 0), 3600) AS used_seconds
+        FROM slots sl
+        CROSS JOIN pcs pc
+        WHERE sl.slot_start >= date_trunc('hour', pc.created_at)
+    )
+    SELECT
+        u.slot_weekday,
+        u.slot_hour,
+        (SUM(u.used_seconds) / (COUNT(*) * 3600))::NUMERIC
+    FROM slot_usage u
+    GROUP BY u.slot_weekday, u.slot_hour;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;